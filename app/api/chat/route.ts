@@ -3,6 +3,9 @@ import { saveChatMessage, createProject, migrateChatMessages } from "../../../li
 import { authenticateRequest } from "../../../lib/auth";
 import { db, chatMessages } from "../../../db";
 import { eq } from "drizzle-orm";
+import { createLLMProvider, type LLMRequest } from "../../../lib/llmProvider";
+import { persistUsageTo } from "../../../lib/llmUsageLedger";
+import { ANTHROPIC_MODELS } from "../../../lib/llmOptimizer";
 
 interface ChatMessage {
   role: "user" | "ai";
@@ -132,45 +135,16 @@ Requirements gathered: {requirements}
 
 After providing this summary, end with: "Perfect! I'll now proceed to build your miniapp. This will take a moment while I create all the necessary files and set up the project structure. You'll see the preview appear shortly."`;
 
-async function callClaude(
-  systemPrompt: string,
-  userMessage: string,
-  stream: boolean = false
-): Promise<string | ReadableStream> {
-  const apiKey = process.env.CLAUDE_API_KEY;
-  console.log("Claude API key:", apiKey);
-  if (!apiKey) throw new Error("Claude API key not set");
-
-  const requestBody = {
-    model: "claude-3-5-haiku-20241022",
-    max_tokens: 4000,
+// Chat runs on the fast model with a low temperature for consistent requirement summaries
+function chatRequest(systemPrompt: string, userMessage: string): LLMRequest {
+  return {
+    systemPrompt,
+    userPrompt: userMessage,
+    stageName: "Chat",
+    model: ANTHROPIC_MODELS.FAST,
+    maxTokens: 4000,
     temperature: 0.2,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userMessage }],
-    stream: stream,
   };
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-      "content-type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${errorText}`);
-  }
-
-  if (stream) {
-    return response.body as ReadableStream;
-  } else {
-    const data = await response.json();
-    return data.content[0]?.text || "";
-  }
 }
 
 export async function POST(request: NextRequest) {
@@ -193,37 +167,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Add exponential backoff retry logic for Claude API calls
-    const maxRetries = 5; // Increased retries
-    const baseDelay = 1000; // 1 second base delay
-    
-    async function retryClaudeCall(systemPrompt: string, message: string, stream: boolean) {
-      let lastError;
-      
-      for (let i = 0; i < maxRetries; i++) {
-        try {
-          return await callClaude(systemPrompt, message, stream);
-        } catch (error) {
-          lastError = error;
-          
-          // Check if error is due to overload
-          if (error instanceof Error && error.message.includes('overloaded_error')) {
-            const exponentialDelay = baseDelay * Math.pow(2, i); // Exponential backoff
-            const jitter = Math.random() * 1000; // Add random jitter up to 1 second
-            const totalDelay = exponentialDelay + jitter;
-            
-            console.log(`Claude API overloaded, retry attempt ${i + 1} of ${maxRetries}. Waiting ${totalDelay}ms`);
-            await new Promise(resolve => setTimeout(resolve, totalDelay));
-            continue;
-          }
-          
-          throw error; // Throw non-overload errors immediately
-        }
-      }
-      
-      throw new Error(`Failed after ${maxRetries} retries: ${lastError}`);
-    }
-
     // Determine the project ID to use
     let currentProjectId = projectId;
     
@@ -254,6 +197,12 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Retries, fallbacks and usage accounting are handled by the provider
+    const llm = createLLMProvider({
+      maxRetries: 5,
+      onUsage: persistUsageTo({ projectId: currentProjectId, userId: user.id }),
+    });
+
     // Get or create chat session (using projectId as key for proper mapping)
     let session = chatSessions.get(currentProjectId);
     if (!session) {
@@ -291,7 +240,7 @@ export async function POST(request: NextRequest) {
               conversationHistory
             );
 
-      const streamResponse = await retryClaudeCall(systemPrompt, message, true) as ReadableStream;
+      const streamResponse = await llm.stream(chatRequest(systemPrompt, message));
 
       if (action === "confirm_project") {
         session.projectConfirmed = true;
@@ -326,7 +275,7 @@ export async function POST(request: NextRequest) {
           "{requirements}",
           requirements
         );
-        aiResponse = await retryClaudeCall(systemPrompt, message, false) as string;
+        aiResponse = (await llm.complete(chatRequest(systemPrompt, message))).text;
         session.projectConfirmed = true;
       } else {
         const conversationHistory = session.messages
@@ -336,7 +285,7 @@ export async function POST(request: NextRequest) {
           "{conversationHistory}",
           conversationHistory
         );
-        aiResponse = await retryClaudeCall(systemPrompt, message, false) as string;
+        aiResponse = (await llm.complete(chatRequest(systemPrompt, message))).text;
       }
 
       // Save AI message to database and update cache
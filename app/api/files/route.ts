@@ -8,7 +8,8 @@ import {
   updateGeneratedFile,
   deleteGeneratedFile,
 } from "../../../lib/previewManager";
-import { getProjectFiles } from "../../../lib/database";
+import { getProjectFiles, getProjectById, updateProjectFile, deleteProjectFile } from "../../../lib/database";
+import { authenticateRequest } from "../../../lib/auth";
 import { headers } from "next/headers";
 
 // GET: List files or fetch file content from generated directory
@@ -175,6 +176,25 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Invalid file path" }, { status: 400 });
     }
 
+    const { user, isAuthorized, error: authError } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: authError || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (project.userId !== user.id) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    // Record the edit as a revision so a follow-up job running now merges it instead of overwriting it
+    const { revision } = await updateProjectFile(projectId, filename, content, { source: "user_edit" });
+
     // Write to local filesystem (for backup and consistency)
     try {
       await updateGeneratedFile(projectId, filename, content);
@@ -198,6 +218,7 @@ export async function PUT(request: NextRequest) {
       success: true,
       filename,
       projectId,
+      version: revision.version,
       message: "File saved successfully",
     });
   } catch (error) {
@@ -231,6 +252,25 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "Invalid file path" }, { status: 400 });
     }
 
+    const { user, isAuthorized, error: authError } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: authError || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (project.userId !== user.id) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    // Record the deletion as a revision so a follow-up job running now sees it
+    const revision = await deleteProjectFile(projectId, filename, { source: "user_edit" });
+
     // Delete from local filesystem
     // Use local generated folder for development, /tmp/generated for production
     const generatedDir = process.env.NODE_ENV === 'production' 
@@ -256,6 +296,7 @@ export async function DELETE(request: NextRequest) {
         success: true,
         filename,
         projectId,
+        version: revision?.version,
         message: "File deleted successfully",
       });
     } catch (error) {
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import fs from "fs-extra";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
-import { createProject, saveProjectFiles, savePatch, getUserById, getUserByPrivyId, createUser, getProjectById, getProjectFiles } from "../../../lib/database";
+import { createProject, saveProjectFiles, savePatch, linkFileRevisionsToPatch, getUserById, getUserByPrivyId, createUser, getProjectById, getProjectFiles } from "../../../lib/database";
 import { authenticateRequest } from "../../../lib/auth";
 import { logger, logApiRequest, logErrorWithContext } from "../../../lib/logger";
 import {
@@ -14,12 +14,10 @@ import {
 
 // Import the API base URL
 const PREVIEW_API_BASE = process.env.PREVIEW_API_BASE || 'https://minidev.fun';
-import {
-  // getOptimizedSystemPrompt,
-  // createOptimizedUserPrompt,
-  STAGE_MODEL_CONFIG,
-  ANTHROPIC_MODELS,
-} from "../../../lib/llmOptimizer";
+import { ANTHROPIC_MODELS } from "../../../lib/llmOptimizer";
+import { createLLMProvider, createCallLLM } from "../../../lib/llmProvider";
+import { persistUsageTo } from "../../../lib/llmUsageLedger";
+import { enforceQuota, enforceQuotaFor, admitJob, assertTokenBudget } from "../../../lib/quotas";
 import { executeEnhancedPipeline } from "../../../lib/enhancedPipeline";
 import { executeDiffBasedPipeline } from "../../../lib/diffBasedPipeline";
 // import { headers } from "next/headers"; // Removed unused import
@@ -167,255 +165,6 @@ async function fetchBoilerplateFromGitHub(targetDir: string) {
   await fetchDirectoryContents();
 }
 
-// Enhanced LLM caller with stage-specific model selection and retry logic
-async function callClaudeWithLogging(
-  systemPrompt: string,
-  userPrompt: string,
-  stageName: string,
-  stageType?: keyof typeof STAGE_MODEL_CONFIG
-): Promise<string> {
-  const apiKey = process.env.CLAUDE_API_KEY;
-  if (!apiKey) throw new Error("Claude API key not set in environment");
-
-  // Select model based on stage type
-  let modelConfig = stageType
-    ? STAGE_MODEL_CONFIG[stageType]
-    : STAGE_MODEL_CONFIG.LEGACY_SINGLE_STAGE;
-    
-  // Check if this is a retry with increased token limit
-  if (stageName.includes('(Retry)') && stageType === 'STAGE_3_CODE_GENERATOR') {
-    const increasedTokens = Math.min(modelConfig.maxTokens * 2, 40000);
-    modelConfig = {
-      ...modelConfig,
-      maxTokens: increasedTokens
-    } as typeof modelConfig;
-  }
-
-  console.log(`\n🤖 LLM Call - ${stageName}`);
-  console.log("📤 Input:");
-  console.log("  System Prompt Length:", systemPrompt.length, "chars");
-  console.log("  User Prompt:", userPrompt);
-  console.log("  Model:", modelConfig.model);
-  console.log("  Max Tokens:", modelConfig.maxTokens);
-  console.log("  Reason:", modelConfig.reason);
-  
-  // Warn about large prompts that might cause rate limiting
-  if (systemPrompt.length > 50000) {
-    console.warn(`⚠️ Large system prompt (${systemPrompt.length} chars) may cause rate limiting`);
-  }
-
-  const body = {
-    model: modelConfig.model,
-    max_tokens: modelConfig.maxTokens,
-    temperature: modelConfig.temperature,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }],
-  };
-
-  // Retry logic with exponential backoff and request throttling
-  const maxRetries = 3;
-  const baseDelay = 1000; // 1 second
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    // Add small delay between requests to prevent rate limiting
-    if (attempt > 1) {
-      const throttleDelay = Math.min(500 * attempt, 2000); // Max 2 seconds
-      console.log(`⏱️ Throttling request (attempt ${attempt}), waiting ${throttleDelay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, throttleDelay));
-    }
-    try {
-      const startTime = Date.now();
-
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": apiKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-
-        // Handle specific error types
-        if (response.status === 529 || response.status === 429) {
-          // Overloaded or rate limited - retry with exponential backoff
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
-
-            // Try fallback model on last retry
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              console.log(
-                `⚠️ API ${response.status} error (attempt ${attempt}/${maxRetries}), switching to fallback model: ${modelConfig.fallbackModel}`
-              );
-              body.model = modelConfig.fallbackModel;
-            } else {
-              console.log(
-                `⚠️ API ${response.status} error (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`
-              );
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            console.error(
-              `❌ LLM API Error (${stageName}): Max retries exceeded`
-            );
-            throw new Error(
-              `Claude API overloaded after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else if (response.status >= 500) {
-          // Server errors - retry
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-
-            // Try fallback model on last retry
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              console.log(
-                `⚠️ Server error ${response.status} (attempt ${attempt}/${maxRetries}), switching to fallback model: ${modelConfig.fallbackModel}`
-              );
-              body.model = modelConfig.fallbackModel;
-            } else {
-              console.log(
-                `⚠️ Server error ${response.status} (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`
-              );
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            console.error(
-              `❌ LLM API Error (${stageName}): Max retries exceeded`
-            );
-            throw new Error(
-              `Claude API server error after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else {
-          // Client errors - don't retry
-          console.error(
-            `❌ LLM API Error (${stageName}):`,
-            response.status,
-            errorText
-          );
-          throw new Error(`Claude API error: ${response.status} ${errorText}`);
-        }
-      }
-
-      const responseData = await response.json();
-      const endTime = Date.now();
-
-      const responseText = responseData.content[0]?.text || "";
-      
-      // Extract actual token usage from API response
-      const inputTokens = responseData.usage?.input_tokens || 0;
-      const outputTokens = responseData.usage?.output_tokens || 0;
-      const totalTokens = inputTokens + outputTokens;
-      
-      // Calculate actual cost based on real token usage
-      const actualCost = calculateActualCost(inputTokens, outputTokens, modelConfig.model);
-
-      console.log("📥 Output:");
-      console.log("  Response Length:", responseText.length, "chars");
-      console.log("  Response Time:", endTime - startTime, "ms");
-      console.log("  Token Usage:");
-      console.log("    Input Tokens:", inputTokens);
-      console.log("    Output Tokens:", outputTokens);
-      console.log("    Total Tokens:", totalTokens);
-      console.log("  Actual Cost:", actualCost);
-      console.log(
-        "  Raw Response Preview:",
-        responseText.substring(0, 100) + "..."
-      );
-
-      // Log token usage summary for analysis
-      console.log("📊 Token Usage Summary:");
-      console.log(`    Model: ${modelConfig.model}`);
-      console.log(`    Stage: ${stageName}`);
-      console.log(`    Input/Output Ratio: ${inputTokens > 0 ? (outputTokens / inputTokens).toFixed(2) : 'N/A'}`);
-      console.log(`    Efficiency: ${totalTokens > 0 ? ((responseText.length / totalTokens) * 4).toFixed(2) : 'N/A'} chars/token`);
-
-      return responseText;
-    } catch (error) {
-      if (attempt === maxRetries) {
-        console.error(
-          `❌ LLM API Error (${stageName}) after ${maxRetries} attempts:`,
-          error
-        );
-        throw error;
-      }
-
-      // For network errors, retry
-      if (
-        error instanceof TypeError ||
-        (error instanceof Error && error.message.includes("fetch"))
-      ) {
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(
-          `⚠️ Network error (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
-      }
-
-      // For other errors, don't retry
-      throw error;
-    }
-  }
-
-  throw new Error(
-    `Failed to get response from Claude API after ${maxRetries} attempts`
-  );
-}
-
-// Cost calculation helper using actual token counts from API response
-function calculateActualCost(
-  inputTokens: number,
-  outputTokens: number,
-  model: string
-): string {
-  let costPer1MInput = 0;
-  let costPer1MOutput = 0;
-
-  switch (model) {
-    case ANTHROPIC_MODELS.FAST:
-      costPer1MInput = 0.25; // $0.25 per 1M input tokens
-      costPer1MOutput = 1.25; // $1.25 per 1M output tokens
-      break;
-    case ANTHROPIC_MODELS.BALANCED:
-      costPer1MInput = 3; // $3 per 1M input tokens
-      costPer1MOutput = 15; // $15 per 1M output tokens
-      break;
-    case ANTHROPIC_MODELS.POWERFUL:
-      costPer1MInput = 15; // $15 per 1M input tokens
-      costPer1MOutput = 75; // $75 per 1M output tokens
-      break;
-  }
-
-  const inputCost = (inputTokens / 1000000) * costPer1MInput;
-  const outputCost = (outputTokens / 1000000) * costPer1MOutput;
-  const totalCost = inputCost + outputCost;
-  
-  return `$${totalCost.toFixed(6)} (Input: $${inputCost.toFixed(6)}, Output: $${outputCost.toFixed(6)})`;
-}
-
-// Legacy cost estimation helper (kept for backward compatibility)
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function estimateCost(
-  inputChars: number,
-  outputChars: number,
-  model: string
-): string {
-  // Rough estimation: 1 token ≈ 4 characters
-  const estimatedInputTokens = Math.ceil(inputChars / 4);
-  const estimatedOutputTokens = Math.ceil(outputChars / 4);
-  
-  return calculateActualCost(estimatedInputTokens, estimatedOutputTokens, model);
-}
-
 function generateProjectName(intentSpec: { feature: string; reason?: string }): string {
   // Use the LLM-generated feature name as the base
   let projectName = intentSpec.feature;
@@ -549,8 +298,8 @@ export async function POST(request: NextRequest) {
       console.log(`📝 Creating generation job for user: ${user.email || user.id}`);
       console.log(`📋 Prompt: ${prompt.substring(0, 100)}...`);
 
-      // Create job in database
-      const job = await createGenerationJob(
+      // Enforce per-user quotas and create the job in database
+      const queued = await enforceQuotaFor(() => admitJob(user.id, (tx) => createGenerationJob(
         user.id,
         prompt,
         {
@@ -558,8 +307,11 @@ export async function POST(request: NextRequest) {
           existingProjectId,
           useMultiStage,
         },
-        existingProjectId
-      );
+        existingProjectId,
+        tx
+      )));
+      if (queued.response) return queued.response;
+      const job = queued.value;
 
       console.log(`✅ Job created with ID: ${job.id}`);
 
@@ -668,6 +420,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
     }
 
+    // Synchronous generations still count against the monthly token budget
+    const quotaResponse = await enforceQuota(() => assertTokenBudget(user.id));
+    if (quotaResponse) return quotaResponse;
+
     console.log(`🚀 Starting project generation for prompt: ${prompt}`);
     console.log(
       `🔧 Using ${useMultiStage ? "multi-stage" : "single-stage"} pipeline`
@@ -776,19 +532,7 @@ export async function POST(request: NextRequest) {
     console.log("🔄 Using multi-stage pipeline...");
 
     // Create LLM caller function for multi-stage pipeline
-    const callLLM = async (
-      systemPrompt: string,
-      userPrompt: string,
-      stageName: string,
-      stageType?: keyof typeof STAGE_MODEL_CONFIG
-    ): Promise<string> => {
-      return callClaudeWithLogging(
-        systemPrompt,
-        userPrompt,
-        stageName,
-        stageType
-      );
-    };
+    const callLLM = createCallLLM(createLLMProvider({ onUsage: persistUsageTo({ projectId, userId: user.id }) }));
 
     // Use enhanced pipeline with context gathering for initial generation
     const enhancedResult = await executeEnhancedPipeline(
@@ -953,7 +697,7 @@ export async function POST(request: NextRequest) {
       });
       
       console.log(`📁 Saving ${safeFiles.length} safe files to database`);
-      await saveProjectFiles(project.id, safeFiles);
+      await saveProjectFiles(project.id, safeFiles, { source: 'generation' });
       
       console.log("✅ Project saved to database successfully");
     } catch (dbError) {
@@ -1170,12 +914,16 @@ export async function PATCH(request: NextRequest) {
         useDiffBased,            // Whether to use diff-based pipeline
       };
 
-      const job = await createGenerationJob(
+      // Enforce per-user quotas and queue the job
+      const queued = await enforceQuotaFor(() => admitJob(user.id, (tx) => createGenerationJob(
         user.id,
         prompt,
         jobContext,
-        projectId  // Link to existing project
-      );
+        projectId,  // Link to existing project
+        tx
+      )));
+      if (queued.response) return queued.response;
+      const job = queued.value;
 
       console.log(`✅ Follow-up job created with ID: ${job.id}`);
 
@@ -1215,6 +963,10 @@ export async function PATCH(request: NextRequest) {
       });
     }
 
+    // Synchronous edits still count against the monthly token budget
+    const quotaResponse = await enforceQuota(() => assertTokenBudget(user.id));
+    if (quotaResponse) return quotaResponse;
+
     if (stream) {
       // Handle streaming response for chat-like interaction
       const systemPrompt = `You are an AI assistant helping to modify a Farcaster miniapp. 
@@ -1245,28 +997,16 @@ export async function PATCH(request: NextRequest) {
       
       The user wants to make changes to their project. Provide a conversational response about what changes you'll make.`;
 
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": process.env.CLAUDE_API_KEY!,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 2000,
-          temperature: 0.7,
-          system: systemPrompt,
-          messages: [{ role: "user", content: prompt }],
-          stream: true,
-        }),
+      const responseStream = await createLLMProvider({ onUsage: persistUsageTo({ projectId, userId: user.id }) }).stream({
+        systemPrompt,
+        userPrompt: prompt,
+        stageName: "Follow-up Conversation",
+        model: ANTHROPIC_MODELS.BALANCED,
+        maxTokens: 2000,
+        temperature: 0.7,
       });
 
-      if (!response.ok) {
-        throw new Error(`Claude API error: ${response.status}`);
-      }
-
-      return new Response(response.body, {
+      return new Response(responseStream, {
         headers: {
           "Content-Type": "text/plain; charset=utf-8",
           "Transfer-Encoding": "chunked",
@@ -1281,7 +1021,7 @@ export async function PATCH(request: NextRequest) {
       const result = await executeDiffBasedPipeline(
         prompt,
         currentFiles,
-        callClaudeWithLogging,
+        createCallLLM(createLLMProvider({ onUsage: persistUsageTo({ projectId, userId: user.id }) })),
         {
           enableContextGathering: true,
           enableDiffValidation: true,
@@ -1308,6 +1048,7 @@ export async function PATCH(request: NextRequest) {
       }
 
       // Update project files in database
+      let savedRevisions: Awaited<ReturnType<typeof saveProjectFiles>> = [];
       try {
         console.log("💾 Updating project files in database...");
         
@@ -1342,7 +1083,7 @@ export async function PATCH(request: NextRequest) {
         });
         
         console.log(`📁 Saving ${safeFiles.length} safe files to database`);
-        await saveProjectFiles(projectId, safeFiles);
+        savedRevisions = await saveProjectFiles(projectId, safeFiles, { source: 'follow_up' });
         console.log("✅ Project files updated in database successfully");
       } catch (dbError) {
         console.error("⚠️ Failed to update project files in database:", dbError);
@@ -1366,6 +1107,7 @@ export async function PATCH(request: NextRequest) {
             changedFiles,
             timestamp: new Date().toISOString(),
           }, description);
+          await linkFileRevisionsToPatch(savedRevisions.map(r => r.id), savedPatch.id);
 
           console.log(`✅ Patch saved with ID: ${savedPatch.id}`);
         } catch (patchError) {
@@ -1391,19 +1133,7 @@ export async function PATCH(request: NextRequest) {
       });
     } else {
       // Handle non-streaming response with enhanced pipeline
-      const callLLM = async (
-        systemPrompt: string,
-        userPrompt: string,
-        stageName: string,
-        stageType?: keyof typeof STAGE_MODEL_CONFIG
-      ): Promise<string> => {
-        return callClaudeWithLogging(
-          systemPrompt,
-          userPrompt,
-          stageName,
-          stageType
-        );
-      };
+      const callLLM = createCallLLM(createLLMProvider({ onUsage: persistUsageTo({ projectId, userId: user.id }) }));
 
       // Use the enhanced pipeline with context gathering for follow-up changes
       console.log(
@@ -1460,7 +1190,7 @@ export async function PATCH(request: NextRequest) {
         });
         
         console.log(`📁 Saving ${safeFiles.length} safe files to database`);
-        await saveProjectFiles(projectId, safeFiles);
+        await saveProjectFiles(projectId, safeFiles, { source: 'follow_up' });
         console.log("✅ Project files updated in database successfully");
       } catch (dbError) {
         console.error("⚠️ Failed to update project files in database:", dbError);
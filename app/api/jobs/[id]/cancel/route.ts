@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, requestGenerationJobCancel } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+
+/**
+ * POST /api/jobs/[id]/cancel
+ * Cancel a generation job. Pending jobs are cancelled immediately; running jobs
+ * stop cooperatively before their next stage (status stays "processing" until then).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const job = await getGenerationJobById(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    const updated = await requestGenerationJobCancel(jobId);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🛑 Cancellation requested for job ${jobId} (was ${job.status})`);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: updated.status,
+      cancelRequestedAt: updated.cancelRequestedAt,
+      message: updated.status === "cancelled"
+        ? "Job cancelled"
+        : "Cancellation requested - the job will stop before its next stage",
+    }, {
+      status: updated.status === "cancelled" ? 200 : 202,
+    });
+  } catch (error) {
+    console.error("❌ Error cancelling job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to cancel job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, getJobValidationReport, getPreviousProjectValidationReport } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { diffDiagnostics, summarizeDiagnostics, toSarif, type DiagnosticReport, type DiagnosticSummary } from "../../../../../lib/diagnostics";
+
+/**
+ * GET /api/jobs/[id]/diagnostics
+ * Validation diagnostics of a generation job, from its latest validation_report event
+ * (the run after error fixing when there was one; `final` is false if that run did not happen).
+ *   ?format=json (default) - diagnostics, summary and the diff against the project's previous job
+ *   ?format=summary        - summary and diff counts only
+ *   ?format=sarif          - SARIF 2.1.0 log
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const format = new URL(request.url).searchParams.get("format") || "json";
+
+    if (!["json", "summary", "sarif"].includes(format)) {
+      return NextResponse.json(
+        { error: `Unknown format "${format}" (expected json, summary or sarif)` },
+        { status: 400 }
+      );
+    }
+
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const job = await getGenerationJobById(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    const event = await getJobValidationReport(jobId);
+    const data = event?.data as { report?: DiagnosticReport; summary?: DiagnosticSummary; truncated?: boolean; final?: boolean } | null | undefined;
+
+    if (!data?.report) {
+      return NextResponse.json(
+        { error: "Job has no validation report yet" },
+        { status: 404 }
+      );
+    }
+
+    const report = data.report;
+    // Stored summaries count diagnostics beyond the ones kept in the event
+    const summary = data.summary ?? summarizeDiagnostics(report);
+
+    if (format === "sarif") {
+      return new NextResponse(JSON.stringify(toSarif(report), null, 2), {
+        headers: {
+          "Content-Type": "application/sarif+json",
+          "Content-Disposition": `attachment; filename="job-${jobId}.sarif"`,
+        },
+      });
+    }
+
+    // Follow-ups are compared with the project's previous validated job
+    const previousEvent = job.projectId
+      ? await getPreviousProjectValidationReport(job.projectId, job.createdAt)
+      : undefined;
+    const previous = (previousEvent?.data as { report?: DiagnosticReport } | null | undefined)?.report;
+    const diff = previous ? diffDiagnostics(previous, report) : null;
+
+    if (format === "summary") {
+      return NextResponse.json({
+        success: true,
+        final: data.final === true,
+        summary,
+        diff: diff && {
+          introduced: diff.introduced.length,
+          resolved: diff.resolved.length,
+          unchanged: diff.unchanged,
+          previousJobId: previousEvent?.jobId,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      final: data.final === true,
+      summary,
+      diagnostics: report.diagnostics,
+      truncated: data.truncated === true,
+      diff: diff && { ...diff, previousJobId: previousEvent?.jobId },
+    });
+  } catch (err) {
+    console.error("Error loading job diagnostics:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to load job diagnostics",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, getUserByPrivyId, getJobEvents } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { encodeSSE, TERMINAL_JOB_STATUSES, type JobEventRecord, type JobStage, type JobEventType } from "../../../../../lib/jobEvents";
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close before the function timeout (maxDuration 600s in vercel.json); clients resume with Last-Event-ID
+const STREAM_LIFETIME_MS = 9 * 60 * 1000;
+
+function toEventRecord(row: Awaited<ReturnType<typeof getJobEvents>>[number]): JobEventRecord {
+  return {
+    id: row.id,
+    type: row.type as JobEventType,
+    stage: (row.stage ?? undefined) as JobStage | undefined,
+    message: row.message,
+    data: (row.data ?? undefined) as Record<string, unknown> | undefined,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/jobs/[id]/events
+ * Server-Sent Events stream of a generation job's progress timeline.
+ * Replays persisted events after Last-Event-ID (header or ?lastEventId=), then
+ * follows new ones until the job completes or fails, ending with an `end` event.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Await params (required in Next.js 15)
+    const { id: jobId } = await params;
+
+    // Check for auth bypass (testing only)
+    const bypassAuth = request.headers.get("X-Bypass-Auth") === "true";
+    const testUserId = request.headers.get("X-Test-User-Id");
+
+    let user;
+
+    if (bypassAuth && testUserId) {
+      const dbUser = await getUserByPrivyId(testUserId);
+      if (!dbUser) {
+        return NextResponse.json(
+          { error: "Test user not found in database" },
+          { status: 404 }
+        );
+      }
+      user = { id: dbUser.id };
+    } else {
+      const authResult = await authenticateRequest(request);
+
+      if (!authResult.isAuthorized || !authResult.user) {
+        return NextResponse.json(
+          { error: authResult.error || "Authentication required" },
+          { status: 401 }
+        );
+      }
+
+      user = authResult.user;
+    }
+
+    const job = await getGenerationJobById(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    const lastEventId = request.headers.get("Last-Event-ID")
+      || new URL(request.url).searchParams.get("lastEventId");
+    let cursor = lastEventId ? parseInt(lastEventId, 10) || 0 : 0;
+
+    const encoder = new TextEncoder();
+    const startedAt = Date.now();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let lastWriteAt = Date.now();
+        const write = (chunk: string) => {
+          controller.enqueue(encoder.encode(chunk));
+          lastWriteAt = Date.now();
+        };
+
+        // Tell EventSource clients how long to wait before reconnecting
+        write("retry: 2000\n\n");
+
+        try {
+          while (!request.signal.aborted) {
+            // Read the status first: the worker persists every event before
+            // marking the job terminal, so draining afterwards misses nothing
+            const current = await getGenerationJobById(jobId);
+            const status = current?.status ?? "failed";
+
+            let batch;
+            do {
+              batch = await getJobEvents(jobId, cursor);
+              for (const row of batch) {
+                const record = toEventRecord(row);
+                write(encodeSSE({ id: String(record.id), event: "progress", data: JSON.stringify(record) }));
+                cursor = record.id;
+              }
+            } while (batch.length > 0 && !request.signal.aborted);
+
+            if (TERMINAL_JOB_STATUSES.includes(status)) {
+              write(encodeSSE({
+                event: "end",
+                data: JSON.stringify({ status, error: current?.error ?? null }),
+              }));
+              break;
+            }
+
+            if (Date.now() - startedAt > STREAM_LIFETIME_MS) {
+              break;
+            }
+
+            if (Date.now() - lastWriteAt > HEARTBEAT_INTERVAL_MS) {
+              write(": heartbeat\n\n");
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        } catch (error) {
+          console.error(`❌ Job event stream for ${jobId} failed:`, error);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error opening job event stream:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to open job event stream",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, resetGenerationJobForRetry } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { enforceQuotaFor, admitJob } from "../../../../../lib/quotas";
+import type { PipelineCheckpoint } from "../../../../../lib/llmOptimizer";
+import type { JobStage } from "../../../../../lib/jobEvents";
+
+// Pipeline artifacts in stage order
+const CHECKPOINT_STAGES: [keyof PipelineCheckpoint, JobStage][] = [
+  ["intentSpec", "intent"],
+  ["patchPlan", "plan"],
+  ["generatedFiles", "generate"],
+  ["validatedFiles", "validate"],
+];
+
+/**
+ * POST /api/jobs/[id]/retry
+ * Requeue a failed, cancelled or dead-lettered job. The worker resumes from the first stage
+ * without a checkpoint; pass { "fromScratch": true } to discard checkpoints.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const fromScratch = body?.fromScratch === true;
+
+    const job = await getGenerationJobById(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    if (job.status !== "failed" && job.status !== "cancelled" && job.status !== "dead") {
+      return NextResponse.json(
+        { error: `Only failed, cancelled or dead jobs can be retried (job is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    // A retry runs like a new job, so it counts against the same quotas
+    const queued = await enforceQuotaFor(() => admitJob(user.id, (tx) => resetGenerationJobForRetry(jobId, fromScratch, tx)));
+    if (queued.response) return queued.response;
+    const retried = queued.value;
+
+    if (!retried) {
+      return NextResponse.json(
+        { error: "Job state changed, retry not possible" },
+        { status: 409 }
+      );
+    }
+
+    const checkpoint = ((retried.checkpoint as { pipeline?: PipelineCheckpoint } | null)?.pipeline) ?? {};
+    const resumeFrom = CHECKPOINT_STAGES.find(([artifact]) => checkpoint[artifact] === undefined)?.[1] ?? "preview";
+
+    console.log(`🔁 Retrying job ${jobId} from ${resumeFrom}${fromScratch ? " (from scratch)" : ""}`);
+
+    // Trigger background processing
+    const workerToken = process.env.WORKER_AUTH_TOKEN || 'dev-worker-token';
+    const workerUrl = process.env.WORKER_URL || `${request.nextUrl.origin}/api/jobs/process`;
+
+    // Fire and forget - don't await this
+    fetch(workerUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${workerToken}`,
+      },
+      body: JSON.stringify({ jobId }),
+    }).catch(error => {
+      console.error('⚠️ Failed to trigger background worker:', error);
+      // Job will be picked up by scheduled worker polling
+    });
+
+    return NextResponse.json({
+      accepted: true,
+      jobId,
+      status: "pending",
+      resumeFrom,
+      pollUrl: `/api/jobs/${jobId}`,
+      eventsUrl: `/api/jobs/${jobId}/events`,
+    }, {
+      status: 202,
+      headers: {
+        'Location': `/api/jobs/${jobId}`,
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error retrying job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to retry job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGenerationJobById, getUserByPrivyId } from "../../../../lib/database";
+import { getGenerationJobById, getUserByPrivyId, getLLMUsageSummary } from "../../../../lib/database";
 import { authenticateRequest } from "../../../../lib/auth";
 
 /**
@@ -71,6 +71,9 @@ export async function GET(
       );
     }
 
+    // Token usage and cost recorded for this job so far
+    const usage = await getLLMUsageSummary({ jobId });
+
     // Return job status
     const response = {
       id: job.id,
@@ -78,8 +81,10 @@ export async function GET(
       createdAt: job.createdAt,
       startedAt: job.startedAt,
       completedAt: job.completedAt,
+      cancelRequestedAt: job.cancelRequestedAt,
       result: job.result,
       error: job.error,
+      usage,
     };
 
     // Add cache headers to prevent aggressive caching during polling
@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGenerationJobById, updateGenerationJobStatus, getPendingGenerationJobs } from "../../../../lib/database";
-import { executeGenerationJob } from "../../../../lib/generationWorker";
+import {
+  getGenerationJobById,
+  getPendingGenerationJobs,
+  claimGenerationJob,
+  getGenerationJobQueueStats,
+} from "../../../../lib/database";
+import { createWorkerId, recoverStuckJobs, runClaimedJob, JOB_LEASE_MS } from "../../../../lib/jobQueue";
+
+async function jobResult(jobId: string) {
+  const job = await getGenerationJobById(jobId);
+  console.log(`🏁 Job ${jobId} finished with status ${job?.status}`);
+
+  return NextResponse.json({
+    success: job?.status === "completed",
+    jobId,
+    status: job?.status,
+    message: "Job processing completed",
+  });
+}
 
 /**
  * Background worker endpoint for processing generation jobs
  * This endpoint should be called periodically (e.g., via a cron job or polling)
- * to process pending generation jobs
+ * to process pending generation jobs. Jobs are claimed with a lease, so a job
+ * is never run by two callers at once; see lib/jobQueue.ts.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -21,71 +39,54 @@ export async function POST(request: NextRequest) {
     }
 
     const { jobId } = await request.json();
+    const workerId = createWorkerId();
 
     if (jobId) {
       // Process specific job
       console.log(`🔧 Processing specific job: ${jobId}`);
-      const job = await getGenerationJobById(jobId);
+      const job = await claimGenerationJob(workerId, JOB_LEASE_MS, jobId);
 
       if (!job) {
-        return NextResponse.json(
-          { error: "Job not found" },
-          { status: 404 }
-        );
-      }
+        // Not pending, or another worker claimed it first
+        const existing = await getGenerationJobById(jobId);
+        if (!existing) {
+          return NextResponse.json(
+            { error: "Job not found" },
+            { status: 404 }
+          );
+        }
 
-      if (job.status !== "pending") {
         return NextResponse.json(
-          { error: `Job is already ${job.status}` },
+          { error: `Job is already ${existing.status}` },
           { status: 400 }
         );
       }
 
-      // Mark as processing
-      await updateGenerationJobStatus(jobId, "processing");
-
       // Execute the job and wait for completion
       // This allows full logging and ensures job completes in serverless environment
       console.log(`⏳ Waiting for job ${jobId} to complete...`);
-      await executeGenerationJob(jobId);
-      console.log(`✅ Job ${jobId} completed successfully`);
-
-      return NextResponse.json({
-        success: true,
-        jobId,
-        status: "completed",
-        message: "Job processing completed",
-      });
+      await runClaimedJob(job, { workerId });
+
+      return await jobResult(jobId);
     } else {
-      // Process next pending job from queue
+      // Requeue jobs abandoned by crashed workers, then take the oldest pending job
       console.log("🔧 Checking for pending jobs...");
-      const pendingJobs = await getPendingGenerationJobs(1);
+      const recovered = await recoverStuckJobs();
+      const job = await claimGenerationJob(workerId, JOB_LEASE_MS);
 
-      if (pendingJobs.length === 0) {
+      if (!job) {
         return NextResponse.json({
           success: true,
           message: "No pending jobs",
+          recovered,
         });
       }
 
-      const job = pendingJobs[0];
       console.log(`🔧 Processing job: ${job.id}`);
-
-      // Mark as processing
-      await updateGenerationJobStatus(job.id, "processing");
-
-      // Execute the job and wait for completion
-      // This allows full logging and ensures job completes in serverless environment
       console.log(`⏳ Waiting for job ${job.id} to complete...`);
-      await executeGenerationJob(job.id);
-      console.log(`✅ Job ${job.id} completed successfully`);
-
-      return NextResponse.json({
-        success: true,
-        jobId: job.id,
-        status: "completed",
-        message: "Job processing completed",
-      });
+      await runClaimedJob(job, { workerId });
+
+      return await jobResult(job.id);
     }
   } catch (error) {
     console.error("❌ Error processing job:", error);
@@ -114,10 +115,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const pendingJobs = await getPendingGenerationJobs(10);
+    const [pendingJobs, counts] = await Promise.all([
+      getPendingGenerationJobs(10),
+      getGenerationJobQueueStats(),
+    ]);
 
     return NextResponse.json({
       pendingCount: pendingJobs.length,
+      counts,
       jobs: pendingJobs.map(job => ({
         id: job.id,
         userId: job.userId,
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProjectById, getFileHistory, getFileRevision } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { generateDiff, getDiffStats } from "../../../../../lib/diffUtils";
+
+function parseVersion(value: string | null): number | null | undefined {
+  if (value === null) return undefined;
+  const version = parseInt(value, 10);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+/**
+ * GET /api/projects/[projectId]/history?filename=<path>
+ * Revision history of one project file, newest first.
+ *   &version=N          - fetch revision N including its content
+ *   &from=A[&to=B]      - unified diff from revision A to B (default: latest)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId } = await params;
+    const { searchParams } = new URL(request.url);
+    const filename = searchParams.get("filename");
+
+    if (!filename) {
+      return NextResponse.json(
+        { error: "filename is required" },
+        { status: 400 }
+      );
+    }
+
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const version = parseVersion(searchParams.get("version"));
+    const from = parseVersion(searchParams.get("from"));
+    const to = parseVersion(searchParams.get("to"));
+
+    if (version === null || from === null || to === null) {
+      return NextResponse.json(
+        { error: "Versions must be positive integers" },
+        { status: 400 }
+      );
+    }
+
+    if (version !== undefined) {
+      const revision = await getFileRevision(projectId, filename, version);
+      if (!revision) {
+        return NextResponse.json(
+          { error: `Revision ${version} of ${filename} not found` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, revision });
+    }
+
+    const revisions = await getFileHistory(projectId, filename);
+
+    if (from !== undefined) {
+      const toVersion = to ?? revisions[0]?.version;
+      const [fromRevision, toRevision] = await Promise.all([
+        getFileRevision(projectId, filename, from),
+        toVersion !== undefined ? getFileRevision(projectId, filename, toVersion) : undefined,
+      ]);
+
+      if (!fromRevision || !toRevision) {
+        return NextResponse.json(
+          { error: `Revision ${!fromRevision ? from : toVersion} of ${filename} not found` },
+          { status: 404 }
+        );
+      }
+
+      const diff = generateDiff(fromRevision.content, toRevision.content, filename);
+
+      return NextResponse.json({
+        success: true,
+        filename,
+        from: fromRevision.version,
+        to: toRevision.version,
+        diff: diff.unifiedDiff,
+        stats: getDiffStats(diff),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      filename,
+      revisions,
+      total: revisions.length,
+    });
+  } catch (err) {
+    console.error("Error fetching file history:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch file history",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
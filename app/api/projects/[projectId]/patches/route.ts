@@ -1,6 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getProjectPatches, revertPatch } from "../../../../../lib/database";
+import {
+  getProjectById,
+  getProjectPatches,
+  getPatchById,
+  getProjectFiles,
+  applyPatchRevert,
+  FileVersionConflictError,
+} from "../../../../../lib/database";
 import { authenticateRequest } from "../../../../../lib/auth";
+import { rollbackDiffs, type RejectedHunk } from "../../../../../lib/diffBasedPipeline";
+import { invertDiff, type FileDiff } from "../../../../../lib/diffUtils";
+import { saveFilesToGenerated, deleteGeneratedFile, updatePreviewFiles } from "../../../../../lib/previewManager";
+
+interface StoredPatchData {
+  prompt?: string;
+  diffs?: FileDiff[];
+  changedFiles?: string[];
+  timestamp?: string;
+}
 
 export async function GET(
   request: NextRequest,
@@ -43,9 +60,15 @@ export async function GET(
   }
 }
 
+/**
+ * POST /api/projects/[projectId]/patches
+ * action "revert": apply the inverse of a patch's diffs to the project files,
+ * the generated directory and the preview. Hunks whose lines were changed by a
+ * later patch cannot be reverted; unless allowPartial is set the request is then
+ * rejected with 409 and nothing changes. The revert is stored as a patch itself.
+ */
 export async function POST(
   request: NextRequest,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   { params }: { params: Promise<{ projectId: string }> }
 ) {
   try {
@@ -57,7 +80,8 @@ export async function POST(
       );
     }
 
-    const { patchId, action } = await request.json();
+    const { projectId } = await params;
+    const { patchId, action, allowPartial = false } = await request.json();
 
     if (!patchId || !action) {
       return NextResponse.json(
@@ -67,15 +91,145 @@ export async function POST(
     }
 
     if (action === "revert") {
-      const patch = await revertPatch(patchId);
+      const project = await getProjectById(projectId);
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+
+      if (project.userId !== user.id) {
+        return NextResponse.json(
+          { error: "Access denied" },
+          { status: 403 }
+        );
+      }
+
+      const patch = await getPatchById(patchId);
+      if (!patch || patch.projectId !== projectId) {
+        return NextResponse.json(
+          { error: "Patch not found" },
+          { status: 404 }
+        );
+      }
+
+      if (patch.revertedAt) {
+        return NextResponse.json(
+          { error: "Patch is already reverted" },
+          { status: 409 }
+        );
+      }
+
+      const patchData = patch.patchData as StoredPatchData;
+      const diffs = patchData.diffs || [];
+      if (diffs.length === 0) {
+        return NextResponse.json(
+          { error: "Patch has no diffs to revert" },
+          { status: 400 }
+        );
+      }
+
+      const currentRows = await getProjectFiles(projectId);
+      const currentFiles = currentRows.map(f => ({ filename: f.filename, content: f.content }));
+      const { files, deletedFiles, rejectedHunks } = rollbackDiffs(currentFiles, diffs);
+
+      // Point each rejected hunk at the later patches that touched the same file
+      const laterPatches = (await getProjectPatches(projectId)).filter(
+        p => p.id !== patchId && !p.revertedAt && p.appliedAt > patch.appliedAt
+      );
+      const conflicts = rejectedHunks.map((hunk: RejectedHunk) => ({
+        ...hunk,
+        conflictingPatches: laterPatches
+          .filter(p => (p.patchData as StoredPatchData).changedFiles?.includes(hunk.filename))
+          .map(p => ({ id: p.id, description: p.description, appliedAt: p.appliedAt })),
+      }));
+
+      const totalHunks = diffs.reduce((sum, d) => sum + d.hunks.length, 0);
+      if (conflicts.length > 0 && (!allowPartial || conflicts.length === totalHunks)) {
+        return NextResponse.json(
+          {
+            error: conflicts.length === totalHunks
+              ? "None of the patch's changes can be reverted"
+              : "Some changes cannot be reverted",
+            rejectedHunks: conflicts,
+            totalHunks,
+          },
+          { status: 409 }
+        );
+      }
+
+      console.log(`🔄 Reverting patch ${patchId}: ${files.length} file(s) updated, ${deletedFiles.length} deleted`);
+
+      // Record the revert as a patch of its own so it shows up in history and can be undone
+      const rejectedKeys = new Set(rejectedHunks.map(h => `${h.filename}:${h.hunkIndex}`));
+      const inverseDiffs = diffs
+        .map(diff => invertDiff({
+          ...diff,
+          hunks: diff.hunks.filter((_, i) => !rejectedKeys.has(`${diff.filename}:${i}`)),
+        }))
+        .filter(diff => diff.hunks.length > 0);
+      const changedFiles = [...files.map(f => f.filename), ...deletedFiles];
+
+      // Files, the reverted flag and the revert record are written in one transaction,
+      // only if no file changed since the reverted content was computed from it
+      const readVersions = new Map(currentRows.map(f => [f.filename, f.version]));
+      const expectedVersions = Object.fromEntries(changedFiles.map(filename => [filename, readVersions.get(filename) ?? null]));
+      let reverted;
+      try {
+        reverted = await applyPatchRevert(projectId, patchId, { files, deletedFiles, expectedVersions }, {
+          patchData: {
+            prompt: `Revert: ${patchData.prompt || patch.description || patchId}`,
+            diffs: inverseDiffs,
+            changedFiles,
+            timestamp: new Date().toISOString(),
+            revertOf: patchId,
+          },
+          description: `Reverted ${changedFiles.length} file(s): ${changedFiles.join(', ')}`,
+        });
+      } catch (error) {
+        if (!(error instanceof FileVersionConflictError)) throw error;
+        return NextResponse.json(
+          { error: "Files changed while reverting - try again", files: error.filenames },
+          { status: 409 }
+        );
+      }
+
+      if (!reverted) {
+        return NextResponse.json(
+          { error: "Patch is already reverted" },
+          { status: 409 }
+        );
+      }
+
+      await saveFilesToGenerated(projectId, files);
+      for (const filename of deletedFiles) {
+        await deleteGeneratedFile(projectId, filename);
+      }
 
-      // TODO: Implement actual file reversion logic here
-      // This should apply the inverse of the patch to restore previous state
+      // Update files in the preview (optional - may not be supported on Railway)
+      const accessToken = process.env.PREVIEW_AUTH_TOKEN;
+      let previewUpdated = false;
+      if (accessToken && files.length > 0) {
+        try {
+          await updatePreviewFiles(projectId, files, accessToken);
+          previewUpdated = true;
+        } catch (previewError) {
+          console.warn("⚠️ Failed to update preview after revert:", previewError);
+        }
+      }
 
       return NextResponse.json({
         success: true,
-        patch,
-        message: "Patch reverted successfully",
+        patch: reverted.patch,
+        revertRecord: reverted.revertRecord,
+        changedFiles: files.map(f => f.filename),
+        deletedFiles,
+        rejectedHunks: conflicts,
+        previewUpdated,
+        message: conflicts.length > 0
+          ? `Patch partially reverted (${conflicts.length} of ${totalHunks} changes kept)`
+          : "Patch reverted successfully",
       });
     }
 
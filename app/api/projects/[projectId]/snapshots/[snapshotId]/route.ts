@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getProjectById,
+  getProjectSnapshotById,
+  deleteProjectSnapshot,
+  restoreProjectSnapshot,
+  forkProjectSnapshot,
+} from "../../../../../../lib/database";
+import { authenticateRequest } from "../../../../../../lib/auth";
+import { saveFilesToGenerated, deleteGeneratedFile, updatePreviewFiles } from "../../../../../../lib/previewManager";
+
+// GET /api/projects/[projectId]/snapshots/[snapshotId] - Snapshot details
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; snapshotId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId, snapshotId } = await params;
+    const project = await getProjectById(projectId);
+    if (!project || project.userId !== user.id) {
+      return NextResponse.json(
+        { error: project ? "Access denied" : "Project not found" },
+        { status: project ? 403 : 404 }
+      );
+    }
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, snapshot });
+  } catch (err) {
+    console.error("Error fetching snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[projectId]/snapshots/[snapshotId]
+ * action "restore": put the project's files, chat and deployment state back to the
+ *   snapshot and push the files to the preview.
+ * action "fork": create a new project for the same user from the snapshot ({ name? }).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; snapshotId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId, snapshotId } = await params;
+    const project = await getProjectById(projectId);
+    if (!project || project.userId !== user.id) {
+      return NextResponse.json(
+        { error: project ? "Access denied" : "Project not found" },
+        { status: project ? 403 : 404 }
+      );
+    }
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    const { action, name } = await request.json();
+
+    if (action === "restore") {
+      const restored = await restoreProjectSnapshot(snapshotId);
+      if (!restored) {
+        return NextResponse.json(
+          { error: "Snapshot not found" },
+          { status: 404 }
+        );
+      }
+
+      const changed = new Set(restored.revisions.filter(r => !r.deleted).map(r => r.filename));
+      const changedFiles = restored.files.filter(f => changed.has(f.filename));
+      const deletedFiles = restored.revisions.filter(r => r.deleted).map(r => r.filename);
+
+      await saveFilesToGenerated(projectId, changedFiles);
+      for (const filename of deletedFiles) {
+        await deleteGeneratedFile(projectId, filename);
+      }
+
+      // Update files in the preview (optional - may not be supported on Railway)
+      const accessToken = process.env.PREVIEW_AUTH_TOKEN;
+      let previewUpdated = false;
+      if (accessToken && changedFiles.length > 0) {
+        try {
+          await updatePreviewFiles(projectId, changedFiles, accessToken);
+          previewUpdated = true;
+        } catch (previewError) {
+          console.warn("⚠️ Failed to update preview after restore:", previewError);
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        projectId,
+        changedFiles: changedFiles.map(f => f.filename),
+        deletedFiles,
+        previewUpdated,
+        message: `Project restored to snapshot "${snapshot.name}"`,
+      });
+    }
+
+    if (action === "fork") {
+      const forkName = typeof name === "string" && name.trim()
+        ? name.trim()
+        : `${project.name} (${snapshot.name})`;
+
+      const forked = await forkProjectSnapshot(snapshotId, user.id, forkName);
+      if (!forked) {
+        return NextResponse.json(
+          { error: "Snapshot not found" },
+          { status: 404 }
+        );
+      }
+
+      // The editor falls back to the generated directory when a file is not in the database
+      await saveFilesToGenerated(forked.project.id, forked.files);
+
+      return NextResponse.json({
+        success: true,
+        project: forked.project,
+        totalFiles: forked.files.length,
+        message: `Forked snapshot "${snapshot.name}" into "${forked.project.name}"`,
+      }, { status: 201 });
+    }
+
+    return NextResponse.json(
+      { error: "Invalid action" },
+      { status: 400 }
+    );
+  } catch (err) {
+    console.error("Error managing snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to manage snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[projectId]/snapshots/[snapshotId] - Delete a snapshot
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; snapshotId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId, snapshotId } = await params;
+    const project = await getProjectById(projectId);
+    if (!project || project.userId !== user.id) {
+      return NextResponse.json(
+        { error: project ? "Access denied" : "Project not found" },
+        { status: project ? 403 : 404 }
+      );
+    }
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    await deleteProjectSnapshot(snapshotId);
+
+    return NextResponse.json({
+      success: true,
+      message: "Snapshot deleted",
+    });
+  } catch (err) {
+    console.error("Error deleting snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to delete snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getProjectById,
+  getProjectSnapshots,
+  getProjectSnapshotByName,
+  createProjectSnapshot,
+} from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+
+// GET /api/projects/[projectId]/snapshots - List a project's snapshots
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId } = await params;
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const snapshots = await getProjectSnapshots(projectId);
+
+    return NextResponse.json({
+      success: true,
+      snapshots,
+      total: snapshots.length,
+    });
+  } catch (err) {
+    console.error("Error fetching project snapshots:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch project snapshots",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/snapshots - Snapshot the project's current state
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId } = await params;
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const { name, description } = await request.json();
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Snapshot name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (await getProjectSnapshotByName(projectId, name.trim())) {
+      return NextResponse.json(
+        { error: `A snapshot named "${name.trim()}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const snapshot = await createProjectSnapshot(projectId, name.trim(), description);
+    console.log(`📸 Created snapshot "${snapshot.name}" for project ${projectId}`);
+
+    return NextResponse.json({
+      success: true,
+      snapshot: {
+        id: snapshot.id,
+        projectId: snapshot.projectId,
+        name: snapshot.name,
+        description: snapshot.description,
+        fileCount: (snapshot.files as unknown[]).length,
+        messageCount: (snapshot.chat as unknown[]).length,
+        createdAt: snapshot.createdAt,
+      },
+    }, { status: 201 });
+  } catch (err) {
+    console.error("Error creating project snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to create project snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
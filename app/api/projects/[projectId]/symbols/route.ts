@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProjectById, getProjectFiles } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { createModuleGraph } from "../../../../../lib/moduleGraph";
+
+/**
+ * GET /api/projects/[projectId]/symbols
+ * Module graph of the project's saved files.
+ *   (no params)                  - unresolved imports and files no page, layout or route reaches
+ *   ?filename=<path>             - imports, exports and importers of one file
+ *   ?filename=<path>&symbol=Name - usages of an exported symbol ("find usages")
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { projectId } = await params;
+    const { searchParams } = new URL(request.url);
+    const filename = searchParams.get("filename");
+    const symbol = searchParams.get("symbol");
+
+    const project = await getProjectById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    if (project.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const files = await getProjectFiles(projectId);
+    const graph = createModuleGraph(files.map(f => ({ filename: f.filename, content: f.content })));
+
+    if (!filename) {
+      return NextResponse.json({
+        success: true,
+        unresolved: graph.unresolved,
+        deadFiles: graph.deadFiles(),
+      });
+    }
+
+    const info = graph.modules.get(filename);
+    if (!info) {
+      return NextResponse.json(
+        { error: `${filename} is not a source file of this project` },
+        { status: 404 }
+      );
+    }
+
+    if (symbol) {
+      return NextResponse.json({
+        success: true,
+        filename,
+        symbol,
+        usages: graph.findUsages(filename, symbol),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      filename,
+      imports: info.imports,
+      exports: info.exports,
+      importers: graph.importersOf(filename),
+    });
+  } catch (err) {
+    console.error("Error building project module graph:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to build project module graph",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+}
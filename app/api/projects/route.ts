@@ -59,7 +59,7 @@ export async function POST(request: NextRequest) {
 
     // Save project files if provided
     if (files && Array.isArray(files)) {
-      await saveProjectFiles(project.id, files);
+      await saveProjectFiles(project.id, files, { source: 'create' });
     }
 
     return NextResponse.json({
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProjectById, getLLMUsageSummary } from "../../../lib/database";
+import { authenticateRequest } from "../../../lib/auth";
+import { getQuotaStatus, serializeQuotaStatus } from "../../../lib/quotas";
+
+/**
+ * GET /api/usage
+ * Aggregate LLM token usage and cost for the authenticated user, plus their
+ * current quota allowance.
+ * Query params:
+ *   projectId - restrict to one of the user's projects
+ *   days      - only include calls from the last N days
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId") || undefined;
+    const days = searchParams.get("days");
+
+    let since: Date | undefined;
+    if (days) {
+      const parsedDays = parseInt(days, 10);
+      if (isNaN(parsedDays) || parsedDays <= 0) {
+        return NextResponse.json(
+          { error: "days must be a positive integer" },
+          { status: 400 }
+        );
+      }
+      since = new Date(Date.now() - parsedDays * 24 * 60 * 60 * 1000);
+    }
+
+    if (projectId) {
+      const project = await getProjectById(projectId);
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+      if (project.userId !== user.id) {
+        return NextResponse.json(
+          { error: "Access denied" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const [usage, quota] = await Promise.all([
+      getLLMUsageSummary({ userId: user.id, projectId, since }),
+      getQuotaStatus(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      scope: projectId ? "project" : "user",
+      userId: user.id,
+      projectId: projectId ?? null,
+      since: since ?? null,
+      ...usage,
+      quota: serializeQuotaStatus(quota),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching LLM usage:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch usage",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Icons } from './sections/icons';
 import { useAuthContext } from '../contexts/AuthContext';
+import { streamJobEvents, type JobEventRecord } from '../../lib/jobEvents';
 
 interface GeneratedProject {
     projectId: string;
@@ -30,9 +31,10 @@ interface ChatInterfaceProps {
     currentProject: GeneratedProject | null;
     onProjectGenerated: (project: GeneratedProject | null) => void;
     onGeneratingChange: (isGenerating: boolean) => void;
+    onJobEvent?: (event: JobEventRecord) => void;
 }
 
-export function ChatInterface({ currentProject, onProjectGenerated, onGeneratingChange }: ChatInterfaceProps) {
+export function ChatInterface({ currentProject, onProjectGenerated, onGeneratingChange, onJobEvent }: ChatInterfaceProps) {
     const [prompt, setPrompt] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
     // const [error, setError] = useState<string | null>(null);
@@ -387,8 +389,8 @@ export function ChatInterface({ currentProject, onProjectGenerated, onGenerating
     };
 
     // Polling function for async job status
-    const pollJobStatus = async (jobId: string): Promise<GeneratedProject> => {
-        const maxAttempts = 80; // Poll for up to ~20 minutes (80 * 15 seconds)
+    const pollJobStatus = async (jobId: string, intervalMs: number = 15000): Promise<GeneratedProject> => {
+        const maxAttempts = Math.ceil((20 * 60 * 1000) / intervalMs); // Poll for up to ~20 minutes
         let attempt = 0;
 
         console.log(`🔄 Starting to poll job ${jobId}...`);
@@ -430,9 +432,9 @@ export function ChatInterface({ currentProject, onProjectGenerated, onGenerating
                         };
 
                         resolve(project);
-                    } else if (job.status === 'failed') {
+                    } else if (job.status === 'failed' || job.status === 'cancelled' || job.status === 'dead') {
                         clearInterval(pollInterval);
-                        reject(new Error(job.error || 'Job failed'));
+                        reject(new Error(job.error || `Job ${job.status}`));
                     } else if (attempt >= maxAttempts) {
                         clearInterval(pollInterval);
                         reject(new Error('Job polling timeout - generation is taking too long'));
@@ -443,10 +445,26 @@ export function ChatInterface({ currentProject, onProjectGenerated, onGenerating
                     clearInterval(pollInterval);
                     reject(error);
                 }
-            }, 15000); // Poll every 15 seconds
+            }, intervalMs);
         });
     };
 
+    // Follow the job's progress event stream, falling back to polling if it can't stay open
+    const waitForJob = async (jobId: string): Promise<GeneratedProject> => {
+        try {
+            await streamJobEvents(jobId, {
+                headers: { 'Authorization': `Bearer ${sessionToken}` },
+                onEvent: (event) => onJobEvent?.(event),
+            });
+        } catch (streamError) {
+            console.warn('⚠️ Job event stream unavailable, falling back to polling:', streamError);
+            return pollJobStatus(jobId);
+        }
+
+        // The stream only ends once the job is terminal, so a single fetch picks up the result
+        return pollJobStatus(jobId, 1000);
+    };
+
     const handleGenerateProject = async (generationPrompt: string) => {
         console.log('🔍 handleGenerateProject called:', {
             hasPrompt: !!generationPrompt.trim(),
@@ -519,10 +537,10 @@ export function ChatInterface({ currentProject, onProjectGenerated, onGenerating
                     }
                 ]);
 
-                // Start polling for job completion
+                // Follow job progress until completion
                 let project;
                 try {
-                    project = await pollJobStatus(jobData.jobId);
+                    project = await waitForJob(jobData.jobId);
                 } catch (pollError) {
                     console.error('❌ Async job failed:', pollError);
                     throw pollError; // Re-throw to be caught by outer catch block
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { useAuthContext } from '../contexts/AuthContext';
+import { FileHistory } from './FileHistory';
+import { countConflicts, resolveConflicts, type ConflictResolution } from '../../lib/threeWayMerge';
 
 // Monaco Editor (dynamically loaded for SSR)
 const MonacoEditor = dynamic(() => import('@monaco-editor/react'), { 
@@ -306,7 +308,7 @@ function FileTreeView({ nodes, selectedFile, onFileSelect }: FileTreeViewProps)
     );
 }
 
-export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
+export function CodeEditor({ currentProject, onFileChange, onSaveFile }: CodeEditorProps) {
     const [selectedFile, setSelectedFile] = useState<string>('');
     const [fileContent, setFileContent] = useState<string>('');
     const [fileTree, setFileTree] = useState<FileNode[]>([]);
@@ -314,6 +316,9 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
     const [monacoError, setMonacoError] = useState<boolean>(false);
     const [monacoLoadTimeout, setMonacoLoadTimeout] = useState<NodeJS.Timeout | null>(null);
     const [monacoRetryCount, setMonacoRetryCount] = useState<number>(0);
+    const [showHistory, setShowHistory] = useState<boolean>(false);
+    const [viewedRevision, setViewedRevision] = useState<{ version: number; content: string } | null>(null);
+    const [isResolving, setIsResolving] = useState<boolean>(false);
     const { sessionToken } = useAuthContext();
     // const [isSaving, setIsSaving] = useState(false);
     // const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -451,6 +456,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
             
             setIsLoadingContent(true);
             setFileContent(''); // Clear previous content
+            setViewedRevision(null);
             
             // Set a timeout to prevent infinite loading
             const timeoutId = setTimeout(() => {
@@ -501,6 +507,24 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
         }
     };
 
+    // Conflicts are left in a file when an AI follow-up and the user changed the same lines
+    const conflictCount = viewedRevision ? 0 : countConflicts(fileContent);
+
+    const handleResolveConflicts = async (resolution: ConflictResolution) => {
+        if (!onSaveFile || !selectedFile) return;
+        const resolved = resolveConflicts(fileContent, resolution);
+        setIsResolving(true);
+        try {
+            if (await onSaveFile(selectedFile, resolved)) {
+                handleFileChange(resolved);
+            } else {
+                console.error('Failed to save resolved file');
+            }
+        } finally {
+            setIsResolving(false);
+        }
+    };
+
     // const handleSaveFile = async () => {
     //     if (!currentProject || !selectedFile || !hasUnsavedChanges) return;
 
@@ -573,9 +597,44 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                     <div className="flex items-center justify-between p-3 border-b border-black-10">
                         <div className="text-sm font-medium text-black">
                             {selectedFile ? selectedFile : 'Select a file'}
+                            {viewedRevision && (
+                                <span className="ml-2 text-xs px-1.5 py-0.5 bg-black-5 text-black-60 rounded">
+                                    Viewing v{viewedRevision.version}
+                                </span>
+                            )}
                         </div>
+                        {selectedFile && (
+                            <button
+                                onClick={() => setShowHistory(prev => !prev)}
+                                className={`text-xs px-2 py-1 border border-black-10 rounded hover:bg-black-5 ${showHistory ? 'bg-black-5' : ''}`}
+                            >
+                                History
+                            </button>
+                        )}
                     </div>
 
+                    {conflictCount > 0 && (
+                        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-black-10 bg-yellow-50 text-xs">
+                            <span className="text-yellow-800">
+                                {conflictCount} conflict{conflictCount !== 1 ? 's' : ''} between your edit and the AI change
+                            </span>
+                            {onSaveFile && (
+                                <div className="flex items-center gap-1">
+                                    {([['ours', 'Keep mine'], ['theirs', 'Keep AI version'], ['both', 'Keep both']] as const).map(([resolution, label]) => (
+                                        <button
+                                            key={resolution}
+                                            onClick={() => handleResolveConflicts(resolution)}
+                                            disabled={isResolving}
+                                            className="px-2 py-1 border border-black-10 rounded bg-white hover:bg-black-5 disabled:opacity-50"
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Monaco Editor */}
                     <div className="flex-1">
                         {selectedFile ? (
@@ -592,7 +651,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                             <MonacoEditor
                                                 height="100%"
                                                 language={getLanguage(selectedFile)}
-                                                value={fileContent}
+                                                value={viewedRevision?.content ?? fileContent}
                                                 onChange={handleFileChange}
                                                 loading={
                                                     <div className="flex items-center justify-center h-full">
@@ -664,7 +723,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                             </div>
                                             <div className="flex-1 relative">
                                                 <textarea
-                                                    value={fileContent || ''}
+                                                    value={viewedRevision?.content ?? (fileContent || '')}
                                                     onChange={(e) => handleFileChange(e.target.value)}
                                                     className="w-full h-full p-4 font-mono text-sm border-0 resize-none focus:outline-none bg-white"
                                                     style={{ 
@@ -696,6 +755,16 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                         )}
                     </div>
                 </div>
+                {/* File History Sidebar */}
+                {showHistory && selectedFile && (
+                    <div className="w-72 border-l border-black-10 bg-white overflow-hidden">
+                        <FileHistory
+                            projectId={currentProject.projectId}
+                            filename={selectedFile}
+                            onViewRevision={setViewedRevision}
+                        />
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -6,6 +6,7 @@ import { Preview } from './Preview';
 import { DevelopmentLogs } from './DevelopmentLogs';
 import { PublishModal } from './PublishModal';
 import { PatchHistory } from './PatchHistory';
+import type { JobEventRecord } from '../../lib/jobEvents';
 
 interface GeneratedProject {
     projectId: string;
@@ -32,6 +33,7 @@ interface Project {
 interface CodeEditorAndPreviewProps {
     currentProject: GeneratedProject | null;
     isGenerating?: boolean;
+    jobEvents?: JobEventRecord[];
     onFileChange?: (filePath: string, content: string) => void;
     onSaveFile?: (filePath: string, content: string) => Promise<boolean>;
     onProjectSelect?: (project: Project) => void;
@@ -43,6 +45,7 @@ type ViewMode = 'code' | 'preview' | 'history';
 export function CodeEditorAndPreview({
     currentProject,
     isGenerating = false,
+    jobEvents = [],
     onFileChange,
     onSaveFile,
     onProjectSelect,
@@ -146,6 +149,7 @@ export function CodeEditorAndPreview({
         return (
             <div className="h-full flex flex-col">
                 <DevelopmentLogs
+                    events={jobEvents}
                     onComplete={() => {
                         // Only hide logs if generation is actually complete
                         // Don't trigger onComplete if isGenerating is still true
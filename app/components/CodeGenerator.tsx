@@ -3,6 +3,7 @@
 import { CodeEditorAndPreview } from './CodeEditorAndPreview';
 import { Icons } from './sections/icons';
 import { useAuthContext } from '../contexts/AuthContext';
+import type { JobEventRecord } from '../../lib/jobEvents';
 
 interface GeneratedProject {
   projectId: string;
@@ -29,11 +30,12 @@ interface Project {
 interface CodeGeneratorProps {
   currentProject: GeneratedProject | null;
   isGenerating?: boolean;
+  jobEvents?: JobEventRecord[];
   onProjectSelect?: (project: Project) => void;
   onNewProject?: () => void;
 }
 
-export function CodeGenerator({ currentProject, isGenerating = false, onProjectSelect, onNewProject }: CodeGeneratorProps) {
+export function CodeGenerator({ currentProject, isGenerating = false, jobEvents = [], onProjectSelect, onNewProject }: CodeGeneratorProps) {
   const { sessionToken } = useAuthContext();
 
   return (
@@ -45,6 +47,7 @@ export function CodeGenerator({ currentProject, isGenerating = false, onProjectS
       <CodeEditorAndPreview
         currentProject={currentProject}
         isGenerating={isGenerating}
+        jobEvents={jobEvents}
         onProjectSelect={onProjectSelect}
         onNewProject={onNewProject}
         onFileChange={(filePath, content) => {
@@ -1,22 +1,35 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { buildJobTimeline, type JobEventRecord, type JobStage, type JobStageStatus } from '../../lib/jobEvents';
 
 interface DevelopmentLogsProps {
+    // Progress events of the running job, in order (empty until the job reports)
+    events?: JobEventRecord[];
     onComplete: () => void;
 }
 
-const BUILDING_STAGES = [
-    { text: 'Analyzing your requirements...', icon: '🔍', duration: 30 },
-    { text: 'Setting up project structure...', icon: '📁', duration: 45 },
-    { text: 'Installing dependencies...', icon: '📦', duration: 90 },
-    { text: 'Writing core application files...', icon: '💻', duration: 120 },
-    { text: 'Creating UI components...', icon: '🎨', duration: 60 },
-    { text: 'Setting up database schema...', icon: '🗄️', duration: 45 },
-    { text: 'Configuring build tools...', icon: '⚙️', duration: 30 },
-    { text: 'Running tests and validation...', icon: '🧪', duration: 30 },
-    { text: 'Finalizing deployment config...', icon: '🚀', duration: 30 },
-];
+const STAGE_ICONS: Record<JobStage, string> = {
+    context: '🔍',
+    intent: '🧠',
+    plan: '📋',
+    generate: '💻',
+    validate: '🧪',
+    contracts: '🔗',
+    preview: '🚀',
+    save: '💾',
+};
+
+const STATUS_ICONS: Record<JobStageStatus, string> = {
+    running: '⏳',
+    done: '✅',
+    failed: '⚠️',
+};
+
+function formatDuration(ms?: number) {
+    if (ms === undefined) return '';
+    return ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
 
 const TIPS = [
     {
@@ -37,55 +50,25 @@ const TIPS = [
     }
 ];
 
-export function DevelopmentLogs({ onComplete }: DevelopmentLogsProps) {
-    const [currentStage, setCurrentStage] = useState(0);
-    const [progress, setProgress] = useState(0);
+export function DevelopmentLogs({ events = [], onComplete }: DevelopmentLogsProps) {
     const [currentTipIndex, setCurrentTipIndex] = useState(0);
+    const timeline = useMemo(() => buildJobTimeline(events), [events]);
+    const { progress, currentStage, outcome } = timeline;
 
     useEffect(() => {
-        // Loading screen for 10 minutes - let actual generation happen in background
-        // This prevents browser TCP timeout issues and provides better UX
-        const totalTime = 10 * 60 * 1000; // 10 minutes - enough time to show project generation progress
-        let currentTime = 0;
-
-        const progressTimer = setInterval(() => {
-            currentTime += 100;
-            const newProgress = (currentTime / totalTime) * 100;
-            setProgress(newProgress >= 100 ? 100 : newProgress);
-        }, 100);
-
-        // Show stages gradually during the 10 minute window
-        const quickStageDurations = [60000, 70000, 80000, 90000, 70000, 60000, 50000, 40000, 80000]; // Total: 600 seconds (10 minutes)
-        const stageTimeouts: NodeJS.Timeout[] = [];
-
-        let cumulativeTime = 0;
-        quickStageDurations.forEach((duration, index) => {
-            cumulativeTime += duration;
-            const timeout = setTimeout(() => {
-                setCurrentStage(index + 1);
-            }, cumulativeTime);
-            stageTimeouts.push(timeout);
-        });
-
-        // Rotate tips every 30 seconds (better pacing for longer animation)
+        // Rotate tips every 30 seconds
         const tipRotation = setInterval(() => {
             setCurrentTipIndex((prev) => (prev + 1) % TIPS.length);
         }, 30000);
 
-        const completionTimer = setTimeout(() => {
-            clearInterval(progressTimer);
-            clearInterval(tipRotation);
-            stageTimeouts.forEach(clearTimeout);
-            onComplete(); // Hide loading, show preview - actual generation continues in background
-        }, totalTime);
-
-        return () => {
-            clearTimeout(completionTimer);
-            clearInterval(progressTimer);
-            clearInterval(tipRotation);
-            stageTimeouts.forEach(clearTimeout);
-        };
-    }, [onComplete]);
+        return () => clearInterval(tipRotation);
+    }, []);
+
+    useEffect(() => {
+        if (outcome) {
+            onComplete();
+        }
+    }, [outcome, onComplete]);
 
     // Calculate circular progress stroke
     const circumference = 2 * Math.PI * 45; // radius = 45
@@ -147,14 +130,39 @@ export function DevelopmentLogs({ onComplete }: DevelopmentLogsProps) {
                 {/* Current Stage */}
                 <div className="mb-8">
                     <p className="text-2xl font-bold text-gray-900 mb-2 flex items-center justify-center gap-2">
-                        <span className="animate-pulse">{BUILDING_STAGES[currentStage]?.icon || '🚀'}</span>
-                        <span>{BUILDING_STAGES[currentStage]?.text || 'Finalizing your project...'}</span>
+                        <span className="animate-pulse">{currentStage ? STAGE_ICONS[currentStage.stage] : '🚀'}</span>
+                        <span>
+                            {timeline.outcomeMessage
+                                || (currentStage ? `${currentStage.label}...` : events.length > 0 ? 'Working on your project...' : 'Starting generation...')}
+                        </span>
                     </p>
                     <p className="text-lg text-gray-600">
                         Minidev is crafting your project with care
                     </p>
                 </div>
 
+                {/* Live timeline from the job's progress events */}
+                {timeline.stages.length > 0 && (
+                    <div className="mb-6 text-left bg-white border border-gray-200 rounded-xl p-4 shadow-sm max-h-64 overflow-y-auto">
+                        {timeline.stages.map((row, index) => (
+                            <div key={`${row.stage}-${index}`} className="py-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="flex items-center gap-2 text-gray-800">
+                                        <span>{STATUS_ICONS[row.status]}</span>
+                                        <span>{STAGE_ICONS[row.stage]} {row.label}</span>
+                                    </span>
+                                    <span className="text-xs text-gray-500">{formatDuration(row.durationMs)}</span>
+                                </div>
+                                {row.details.map(detail => (
+                                    <p key={detail.id} className="ml-7 text-xs text-gray-500">
+                                        {detail.message}
+                                    </p>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Rotating Tips with fade animation */}
                 <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl p-5 mb-6 shadow-md min-h-[120px] relative overflow-hidden">
                     <div className="absolute inset-0 bg-gradient-to-br from-blue-100/20 to-transparent"></div>
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+
+interface FileRevision {
+  id: string;
+  filename: string;
+  version: number;
+  deleted: boolean;
+  source: string;
+  jobId: string | null;
+  patchId: string | null;
+  createdAt: string;
+}
+
+interface RevisionDiff {
+  from: number;
+  to: number;
+  diff: string;
+  stats: { additions: number; deletions: number; hunks: number };
+}
+
+interface FileHistoryProps {
+  projectId: string;
+  filename: string;
+  // Called with a revision's content to show it in the editor, or null to go back to the current file
+  onViewRevision?: (revision: { version: number; content: string } | null) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  import: 'Imported',
+  create: 'Created',
+  generation: 'Generated',
+  follow_up: 'AI edit',
+  user_edit: 'Your edit',
+  revert: 'Revert',
+  restore: 'Snapshot restore',
+  fork: 'Forked',
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-black-60';
+  if (line.startsWith('+')) return 'bg-green-50 text-green-700';
+  if (line.startsWith('-')) return 'bg-red-50 text-red-700';
+  if (line.startsWith('@@')) return 'text-blue-600';
+  return 'text-black-60';
+}
+
+export function FileHistory({ projectId, filename, onViewRevision }: FileHistoryProps) {
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+  const { sessionToken } = useAuthContext();
+
+  const historyUrl = useCallback(
+    (query: string) => `/api/projects/${projectId}/history?filename=${encodeURIComponent(filename)}${query}`,
+    [projectId, filename]
+  );
+
+  const fetchHistory = useCallback(async () => {
+    if (!sessionToken) {
+      setError('Authentication required');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(historyUrl(''), {
+        headers: { 'Authorization': `Bearer ${sessionToken}` },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch history: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setRevisions(data.revisions || []);
+    } catch (err) {
+      console.error('Error fetching file history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch history');
+    } finally {
+      setLoading(false);
+    }
+  }, [historyUrl, sessionToken]);
+
+  useEffect(() => {
+    setExpandedVersion(null);
+    setDiff(null);
+    setViewingVersion(null);
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const toggleDiff = async (revision: FileRevision) => {
+    if (expandedVersion === revision.version) {
+      setExpandedVersion(null);
+      return;
+    }
+
+    setExpandedVersion(revision.version);
+    setDiff(null);
+
+    // Compare with the revision before it; the first revision has nothing to compare with
+    const previous = revisions.find(r => r.version < revision.version);
+    if (!previous || !sessionToken) return;
+
+    try {
+      const response = await fetch(historyUrl(`&from=${previous.version}&to=${revision.version}`), {
+        headers: { 'Authorization': `Bearer ${sessionToken}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch diff: ${response.status} ${response.statusText}`);
+      }
+      setDiff(await response.json());
+    } catch (err) {
+      console.error('Error fetching revision diff:', err);
+    }
+  };
+
+  const viewRevision = async (revision: FileRevision) => {
+    if (!sessionToken) return;
+
+    if (viewingVersion === revision.version || revision.version === revisions[0]?.version) {
+      setViewingVersion(null);
+      onViewRevision?.(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(historyUrl(`&version=${revision.version}`), {
+        headers: { 'Authorization': `Bearer ${sessionToken}` },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch revision: ${response.status} ${response.statusText}`);
+      }
+      const data = await response.json();
+      setViewingVersion(revision.version);
+      onViewRevision?.({ version: revision.version, content: data.revision.content });
+    } catch (err) {
+      console.error('Error fetching revision:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-3 text-black-60 text-xs">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="p-3 text-red-500 text-xs">Error: {error}</div>;
+  }
+
+  if (revisions.length === 0) {
+    return <div className="p-3 text-black-60 text-xs">No history recorded for this file yet.</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-black-10">
+        <div className="text-xs font-semibold text-black">File History</div>
+        <div className="text-xs text-black-60 mt-1">
+          {revisions.length} revision{revisions.length !== 1 ? 's' : ''}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="border-b border-black-10">
+            <div
+              className={`p-3 cursor-pointer hover:bg-black-5 ${viewingVersion === revision.version ? 'bg-black-5' : ''}`}
+              onClick={() => toggleDiff(revision)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-mono text-black">v{revision.version}</span>
+                <span className="text-xs text-black-60">{new Date(revision.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-xs px-1.5 py-0.5 bg-black-5 text-black-60 rounded">
+                  {SOURCE_LABELS[revision.source] || revision.source}
+                </span>
+                {revision.deleted && (
+                  <span className="text-xs px-1.5 py-0.5 bg-red-50 text-red-600 rounded">Deleted</span>
+                )}
+                {index === 0 && (
+                  <span className="text-xs px-1.5 py-0.5 bg-green-50 text-green-700 rounded">Current</span>
+                )}
+              </div>
+
+              {expandedVersion === revision.version && (
+                <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                  {diff && diff.to === revision.version ? (
+                    <>
+                      <div className="text-xs text-black-60 mb-1">
+                        <span className="text-green-700">+{diff.stats.additions}</span>{' '}
+                        <span className="text-red-700">-{diff.stats.deletions}</span> since v{diff.from}
+                      </div>
+                      <pre className="text-[11px] leading-4 font-mono max-h-64 overflow-auto border border-black-10 rounded">
+                        {diff.diff.split('\n').slice(2).map((line, i) => (
+                          <div key={i} className={`px-2 whitespace-pre ${diffLineClass(line)}`}>{line || ' '}</div>
+                        ))}
+                      </pre>
+                    </>
+                  ) : (
+                    <div className="text-xs text-black-60">
+                      {revisions.some(r => r.version < revision.version) ? 'Loading changes...' : 'First recorded revision'}
+                    </div>
+                  )}
+                  {!revision.deleted && (
+                    <button
+                      onClick={() => viewRevision(revision)}
+                      className="mt-2 text-xs px-2 py-1 border border-black-10 rounded hover:bg-black-5"
+                    >
+                      {viewingVersion === revision.version || index === 0 ? 'Show current' : 'View this version'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,23 @@ interface Patch {
   revertedAt?: string;
 }
 
+interface RejectedHunk {
+  filename: string;
+  hunkIndex: number;
+  reason: string;
+  conflictingPatches: Array<{ id: string; description: string | null }>;
+}
+
+function describeRejectedHunks(rejected: RejectedHunk[]): string {
+  return rejected
+    .map(hunk => {
+      const laterPatch = hunk.conflictingPatches[0];
+      return `• ${hunk.filename} (change ${hunk.hunkIndex + 1}): ${hunk.reason}` +
+        (laterPatch ? ` — changed later by "${laterPatch.description || laterPatch.id}"` : '');
+    })
+    .join('\n');
+}
+
 interface PatchHistoryProps {
   projectId: string;
   onPatchSelect?: (patch: Patch) => void;
@@ -73,7 +90,7 @@ export function PatchHistory({ projectId, onPatchSelect }: PatchHistoryProps) {
     }
   }, [projectId, fetchPatches]);
 
-  const handleRevertPatch = async (patchId: string) => {
+  const handleRevertPatch = async (patchId: string, allowPartial = false) => {
     if (!sessionToken) {
       alert('Authentication required');
       return;
@@ -86,9 +103,24 @@ export function PatchHistory({ projectId, onPatchSelect }: PatchHistoryProps) {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${sessionToken}`,
         },
-        body: JSON.stringify({ patchId, action: 'revert' }),
+        body: JSON.stringify({ patchId, action: 'revert', allowPartial }),
       });
 
+      if (response.status === 409) {
+        const data = await response.json();
+        const rejected: RejectedHunk[] = data.rejectedHunks || [];
+        if (rejected.length === 0 || rejected.length === data.totalHunks) {
+          alert(`${data.error}${rejected.length ? `:\n${describeRejectedHunks(rejected)}` : ''}`);
+          return;
+        }
+
+        // Some hunks conflict with later changes; offer to revert the rest
+        if (confirm(`${data.error}:\n${describeRejectedHunks(rejected)}\n\nRevert the remaining changes?`)) {
+          await handleRevertPatch(patchId, true);
+        }
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`Failed to revert patch: ${response.status} ${response.statusText}`);
       }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -9,6 +9,7 @@ import { ChatInterface } from './components/ChatInterface';
 import ProtectedRoute from './components/ProtectedRoute';
 import { AuthProvider, useAuthContext } from './contexts/AuthContext';
 import { useApiUtils } from '../lib/apiUtils';
+import type { JobEventRecord } from '../lib/jobEvents';
 
 
 interface GeneratedProject {
@@ -26,6 +27,7 @@ interface GeneratedProject {
 function HomeContent() {
   const [currentProject, setCurrentProject] = useState<GeneratedProject | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [jobEvents, setJobEvents] = useState<JobEventRecord[]>([]);
   const { sessionToken } = useAuthContext();
   const { apiCall } = useApiUtils();
 
@@ -77,6 +79,16 @@ function HomeContent() {
     }
   };
 
+  const handleGeneratingChange = useCallback((generating: boolean) => {
+    setIsGenerating(generating);
+    // Start each generation with an empty progress timeline
+    if (generating) setJobEvents([]);
+  }, []);
+
+  const handleJobEvent = useCallback((event: JobEventRecord) => {
+    setJobEvents(prev => prev.some(e => e.id === event.id) ? prev : [...prev, event]);
+  }, []);
+
   const handleNewProject = () => {
     console.log('🆕 handleNewProject called - clearing current project');
     setCurrentProject(null);
@@ -90,7 +102,8 @@ function HomeContent() {
         <ChatInterface
           currentProject={currentProject}
           onProjectGenerated={setCurrentProject}
-          onGeneratingChange={setIsGenerating}
+          onGeneratingChange={handleGeneratingChange}
+          onJobEvent={handleJobEvent}
         />
       </section>
 
@@ -99,6 +112,7 @@ function HomeContent() {
         <CodeGenerator
           currentProject={currentProject}
           isGenerating={isGenerating}
+          jobEvents={jobEvents}
           onProjectSelect={handleProjectSelect}
           onNewProject={handleNewProject}
         />
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "llm_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid,
+	"project_id" uuid,
+	"user_id" uuid,
+	"stage" text NOT NULL,
+	"stage_type" text,
+	"model" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision DEFAULT 0 NOT NULL,
+	"latency_ms" integer DEFAULT 0 NOT NULL,
+	"fallback_used" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_job_id" ON "llm_usage" ("job_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_project_id" ON "llm_usage" ("project_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_user_created" ON "llm_usage" ("user_id","created_at");
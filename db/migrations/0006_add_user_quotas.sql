@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "user_quotas" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"jobs_per_day" integer,
+	"tokens_per_month" integer,
+	"concurrent_jobs" integer,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_quotas" ADD CONSTRAINT "user_quotas_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_jobs_user_created" ON "generation_jobs" ("user_id","created_at");
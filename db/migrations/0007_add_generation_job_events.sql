@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "generation_job_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"stage" text,
+	"message" text NOT NULL,
+	"data" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "generation_job_events" ADD CONSTRAINT "generation_job_events_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "generation_jobs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_job_events_job_id" ON "generation_job_events" ("job_id","id");
@@ -0,0 +1,2 @@
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "checkpoint" jsonb;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "cancel_requested_at" timestamp;
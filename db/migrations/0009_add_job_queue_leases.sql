@@ -0,0 +1,7 @@
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "max_attempts" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "locked_by" text;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "lease_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "heartbeat_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_jobs_status_created" ON "generation_jobs" ("status","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_jobs_lease" ON "generation_jobs" ("status","lease_expires_at");
@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "file_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"filename" text NOT NULL,
+	"version" integer NOT NULL,
+	"content" text NOT NULL,
+	"deleted" boolean DEFAULT false NOT NULL,
+	"source" text NOT NULL,
+	"job_id" uuid,
+	"patch_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "generation_jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_patch_id_project_patches_id_fk" FOREIGN KEY ("patch_id") REFERENCES "project_patches"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_file_revisions_project_file_version" ON "file_revisions" ("project_id","filename","version");
+--> statement-breakpoint
+-- Seed history with the files that exist today
+INSERT INTO "file_revisions" ("project_id", "filename", "version", "content", "source", "created_at")
+SELECT "project_id", "filename", "version", "content", 'import', "updated_at" FROM "project_files"
+ON CONFLICT DO NOTHING;
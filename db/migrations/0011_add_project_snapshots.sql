@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "project_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"files" jsonb NOT NULL,
+	"chat" jsonb NOT NULL,
+	"deployment" jsonb,
+	"project_state" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "forked_from_snapshot_id" uuid;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_snapshots" ADD CONSTRAINT "project_snapshots_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "projects" ADD CONSTRAINT "projects_forked_from_snapshot_id_project_snapshots_id_fk" FOREIGN KEY ("forked_from_snapshot_id") REFERENCES "project_snapshots"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_project_snapshots_project_name" ON "project_snapshots" ("project_id","name");
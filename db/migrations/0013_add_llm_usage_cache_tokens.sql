@@ -0,0 +1,3 @@
+ALTER TABLE "llm_usage" ADD COLUMN IF NOT EXISTS "cache_creation_input_tokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD COLUMN IF NOT EXISTS "cache_read_input_tokens" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD COLUMN IF NOT EXISTS "cache_savings_usd" double precision DEFAULT 0 NOT NULL;
@@ -1,4 +1,4 @@
-import { pgTable, uuid, text, timestamp, integer, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, integer, jsonb, boolean, doublePrecision, serial, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Users table (linked to Privy)
@@ -24,6 +24,7 @@ export const projects = pgTable('projects', {
   netlifyUrl: text('netlify_url'),
   farcasterManifest: jsonb('farcaster_manifest'), // Farcaster miniapp manifest JSON
   publishedAt: timestamp('published_at'), // When the app was published to Farcaster
+  forkedFromSnapshotId: uuid('forked_from_snapshot_id').references((): AnyPgColumn => projectSnapshots.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -39,6 +40,20 @@ export const projectFiles = pgTable('project_files', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// File revisions table (append-only history of every project file)
+export const fileRevisions = pgTable('file_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  filename: text('filename').notNull(),
+  version: integer('version').notNull(), // Matches project_files.version when the revision was written
+  content: text('content').notNull(),
+  deleted: boolean('deleted').default(false).notNull(), // The file was removed in this revision
+  source: text('source').notNull(), // 'import', 'create', 'generation', 'follow_up', 'revert'
+  jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'set null' }),
+  patchId: uuid('patch_id').references(() => projectPatches.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Project patches table (for diff history)
 export const projectPatches = pgTable('project_patches', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -49,6 +64,19 @@ export const projectPatches = pgTable('project_patches', {
   revertedAt: timestamp('reverted_at'),
 });
 
+// Project snapshots table (named restore points; files reference file_revisions)
+export const projectSnapshots = pgTable('project_snapshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  description: text('description'),
+  files: jsonb('files').notNull(), // [{ filename, version }] pointing at file_revisions
+  chat: jsonb('chat').notNull(), // Chat messages at snapshot time
+  deployment: jsonb('deployment'), // Latest deployment: { platform, deploymentUrl, status, contractAddresses }
+  projectState: jsonb('project_state'), // { previewUrl, vercelUrl, farcasterManifest }
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Project deployments table
 export const projectDeployments = pgTable('project_deployments', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -87,22 +115,77 @@ export const generationJobs = pgTable('generation_jobs', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }),
-  status: text('status').default('pending').notNull(), // 'pending', 'processing', 'completed', 'failed'
+  status: text('status').default('pending').notNull(), // 'pending', 'processing', 'completed', 'failed', 'cancelled', 'dead'
   prompt: text('prompt').notNull(),
   context: jsonb('context').notNull(), // Chat history, project info, etc.
   result: jsonb('result'), // Generation result when completed
   error: text('error'), // Error message if failed
+  checkpoint: jsonb('checkpoint'), // Stage artifacts saved as they finish, used to resume on retry
+  baseVersions: jsonb('base_versions'), // { filename: version } a follow-up started from, for merging concurrent edits
+  cancelRequestedAt: timestamp('cancel_requested_at'), // Set by /cancel; the worker stops before its next stage
+  // Queue lease: a worker owns a processing job until leaseExpiresAt and extends it with heartbeats.
+  // Expired leases are requeued until attempts reaches maxAttempts, then the job goes 'dead'.
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  lockedBy: text('locked_by'), // Worker id holding the lease
+  leaseExpiresAt: timestamp('lease_expires_at'),
+  heartbeatAt: timestamp('heartbeat_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   expiresAt: timestamp('expires_at').notNull(), // 24 hours from creation
 });
 
+// Generation job progress events (append-only timeline streamed to the client)
+// id is serial so it doubles as the SSE event id / Last-Event-ID cursor
+export const generationJobEvents = pgTable('generation_job_events', {
+  id: serial('id').primaryKey(),
+  jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'cascade' }).notNull(),
+  type: text('type').notNull(), // JobEventType in lib/jobEvents.ts
+  stage: text('stage'), // STAGE_MODEL_CONFIG key or worker step, e.g. 'preview'
+  message: text('message').notNull(),
+  data: jsonb('data'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// LLM usage ledger (one row per LLM call)
+// jobId/projectId are not foreign keys: jobs expire after 24 hours and initial
+// generations call the LLM before their project row exists, but the cost history must stay
+export const llmUsage = pgTable('llm_usage', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id'),
+  projectId: uuid('project_id'),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  stage: text('stage').notNull(), // Stage name as logged, e.g. 'Stage 2: Patch Planner'
+  stageType: text('stage_type'), // STAGE_MODEL_CONFIG key, null for chat calls
+  model: text('model').notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  cacheCreationInputTokens: integer('cache_creation_input_tokens').default(0).notNull(),
+  cacheReadInputTokens: integer('cache_read_input_tokens').default(0).notNull(),
+  costUsd: doublePrecision('cost_usd').default(0).notNull(),
+  cacheSavingsUsd: doublePrecision('cache_savings_usd').default(0).notNull(),
+  latencyMs: integer('latency_ms').default(0).notNull(),
+  fallbackUsed: boolean('fallback_used').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Per-user quota overrides (null columns fall back to the env defaults in lib/quotas.ts)
+export const userQuotas = pgTable('user_quotas', {
+  userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  jobsPerDay: integer('jobs_per_day'),
+  tokensPerMonth: integer('tokens_per_month'),
+  concurrentJobs: integer('concurrent_jobs'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Define relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   projects: many(projects),
   sessions: many(userSessions),
   generationJobs: many(generationJobs),
+  llmUsage: many(llmUsage),
+  quota: one(userQuotas),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -111,6 +194,8 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [users.id],
   }),
   files: many(projectFiles),
+  fileRevisions: many(fileRevisions),
+  snapshots: many(projectSnapshots),
   patches: many(projectPatches),
   deployments: many(projectDeployments),
   chatMessages: many(chatMessages),
@@ -123,11 +208,34 @@ export const projectFilesRelations = relations(projectFiles, ({ one }) => ({
   }),
 }));
 
-export const projectPatchesRelations = relations(projectPatches, ({ one }) => ({
+export const fileRevisionsRelations = relations(fileRevisions, ({ one }) => ({
+  project: one(projects, {
+    fields: [fileRevisions.projectId],
+    references: [projects.id],
+  }),
+  job: one(generationJobs, {
+    fields: [fileRevisions.jobId],
+    references: [generationJobs.id],
+  }),
+  patch: one(projectPatches, {
+    fields: [fileRevisions.patchId],
+    references: [projectPatches.id],
+  }),
+}));
+
+export const projectPatchesRelations = relations(projectPatches, ({ one, many }) => ({
   project: one(projects, {
     fields: [projectPatches.projectId],
     references: [projects.id],
   }),
+  fileRevisions: many(fileRevisions),
+}));
+
+export const projectSnapshotsRelations = relations(projectSnapshots, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectSnapshots.projectId],
+    references: [projects.id],
+  }),
 }));
 
 export const projectDeploymentsRelations = relations(projectDeployments, ({ one }) => ({
@@ -151,7 +259,7 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   }),
 }));
 
-export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
+export const generationJobsRelations = relations(generationJobs, ({ one, many }) => ({
   user: one(users, {
     fields: [generationJobs.userId],
     references: [users.id],
@@ -160,4 +268,26 @@ export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
     fields: [generationJobs.projectId],
     references: [projects.id],
   }),
+  events: many(generationJobEvents),
+}));
+
+export const generationJobEventsRelations = relations(generationJobEvents, ({ one }) => ({
+  job: one(generationJobs, {
+    fields: [generationJobEvents.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const llmUsageRelations = relations(llmUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [llmUsage.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userQuotasRelations = relations(userQuotas, ({ one }) => ({
+  user: one(users, {
+    fields: [userQuotas.userId],
+    references: [users.id],
+  }),
 }));
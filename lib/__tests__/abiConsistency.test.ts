@@ -0,0 +1,65 @@
+import { abiFunctionSignatures, checkAbiConsistency, parseFrontendAbis } from '../abiConsistency';
+
+describe('abiConsistency', () => {
+  const contract = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Counter {
+    struct Entry { address owner; uint256 value; }
+    mapping(address => uint256) public counts;
+
+    function increment(uint256 by) external { counts[msg.sender] += by; }
+    function entries() external pure returns (Entry[] memory) { return new Entry[](0); }
+}
+`;
+  const config = `export const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000000' as \`0x\${string}\`;
+export const CONTRACT_ABI = [
+  { "type": "function", "name": "counts", "inputs": [{ "name": "", "type": "address" }], "outputs": [{ "name": "", "type": "uint256" }], "stateMutability": "nonpayable" },
+  { "type": "function", "name": "increment", "inputs": [{ "name": "by", "type": "uint128" }], "outputs": [], "stateMutability": "nonpayable" },
+  { "type": "function", "name": "reset", "inputs": [], "outputs": [], "stateMutability": "nonpayable" },
+  {
+    "type": "function",
+    "name": "entries",
+    "inputs": [],
+    "outputs": [{ "name": "", "type": "tuple[]", "components": [{ "name": "owner", "type": "address" }, { "name": "value", "type": "uint256" }] }],
+    "stateMutability": "pure"
+  }
+] as const;
+`;
+  const page = `import { useReadContract, useWriteContract } from 'wagmi';
+import { CONTRACT_ABI, CONTRACT_ADDRESS } from '@/lib/contractConfig';
+
+export default function Page() {
+  const { data } = useReadContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'count', args: [] });
+  const { writeContract } = useWriteContract();
+  return <button onClick={() => writeContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'increment', args: [1n, 2n] })}>{String(data)}</button>;
+}
+`;
+
+  it('should parse ABI literals with the TypeScript AST', () => {
+    const [abi] = parseFrontendAbis('src/lib/contractConfig.ts', config);
+
+    expect(abi.name).toBe('CONTRACT_ABI');
+    expect(abi.entries.map(entry => entry.line)).toEqual([3, 4, 5, 6]);
+    expect(abiFunctionSignatures(abi.entries.map(entry => entry.item))).toEqual([
+      'counts(address)', 'increment(uint128)', 'reset()', 'entries()'
+    ]);
+  });
+
+  it('should diff the frontend ABI against the compiled contract and check functionName usage', async () => {
+    const errors = await checkAbiConsistency([
+      { filename: 'contracts/src/Counter.sol', content: contract },
+      { filename: 'src/lib/contractConfig.ts', content: config },
+      { filename: 'src/app/page.tsx', content: page }
+    ]);
+
+    expect(errors.map(error => [error.file, error.line, error.code, error.severity])).toEqual([
+      ['src/lib/contractConfig.ts', 3, 'abi/state-mutability', 'error'],
+      ['src/lib/contractConfig.ts', 4, 'abi/argument-types', 'error'],
+      ['src/lib/contractConfig.ts', 5, 'abi/missing-function', 'error'],
+      ['src/app/page.tsx', 5, 'abi/unknown-function-name', 'error'],
+      ['src/app/page.tsx', 7, 'abi/argument-count', 'error']
+    ]);
+    expect(errors[1].message).toBe('CONTRACT_ABI declares increment(uint128), but contract Counter (contracts/src/Counter.sol) has increment(uint256)');
+  }, 120000);
+});
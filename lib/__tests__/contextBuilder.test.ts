@@ -0,0 +1,64 @@
+import {
+  buildProjectContext,
+  findGrepHits,
+  includeFullFiles,
+  outlineFile,
+  rankFilesByRelevance
+} from '../contextBuilder';
+
+describe('contextBuilder', () => {
+  const files = [
+    { filename: 'src/app/page.tsx', content: "import { Leaderboard } from '@/components/Leaderboard';\nexport default function App() {\n  return <Leaderboard />;\n}" },
+    { filename: 'src/components/Leaderboard.tsx', content: "import { useScores } from '../hooks/useScores';\nexport function Leaderboard() {\n  const scores = useScores();\n  return null;\n}" },
+    { filename: 'src/hooks/useScores.ts', content: 'export function useScores() {\n  return [];\n}' },
+    { filename: 'src/components/Footer.tsx', content: `export function Footer() {\n${'  // filler\n'.repeat(40)}  return null;\n}` },
+    { filename: 'src/lib/format.ts', content: 'export function format(value: number) {\n  return String(value);\n}' }
+  ];
+
+  it('should rank by import distance, grep hits and recent edits', () => {
+    const ranking = rankFilesByRelevance(files, {
+      targetFiles: ['src/app/page.tsx'],
+      grepHits: ['src/lib/format.ts'],
+      recentlyEdited: ['src/components/Footer.tsx']
+    });
+
+    expect(ranking.map(entry => entry.filename)).toEqual([
+      'src/app/page.tsx',
+      'src/components/Leaderboard.tsx',
+      'src/lib/format.ts',
+      'src/components/Footer.tsx',
+      'src/hooks/useScores.ts'
+    ]);
+  });
+
+  it('should send top files in full within the budget and outline the rest', () => {
+    const context = buildProjectContext(files, { targetFiles: ['src/app/page.tsx'] }, 100);
+
+    expect(context.files.map(file => file.filename)).toEqual([
+      'src/app/page.tsx',
+      'src/components/Leaderboard.tsx',
+      'src/hooks/useScores.ts',
+      'src/lib/format.ts'
+    ]);
+    expect(context.outlines).toEqual([
+      { filename: 'src/components/Footer.tsx', outline: 'export function Footer() { ... }\n(43 lines)' }
+    ]);
+
+    const expanded = includeFullFiles(context, ['src/components/Footer.tsx'], files);
+    expect(expanded.files.map(file => file.filename)).toContain('src/components/Footer.tsx');
+    expect(expanded.outlines).toEqual([]);
+  });
+
+  it('should outline Solidity members and map grep output to project files', () => {
+    const outline = outlineFile(
+      'contracts/src/Scores.sol',
+      'pragma solidity ^0.8.20;\ncontract Scores {\n    event Submitted(address player);\n    function submit(uint256 score) external {\n        emit Submitted(msg.sender);\n    }\n}'
+    );
+
+    expect(outline).toBe('pragma solidity ^0.8.20;\ncontract Scores { ... }\n    event Submitted(address player);\n    function submit(uint256 score) external { ... }\n(7 lines)');
+    expect(findGrepHits(
+      ['./components/Leaderboard.tsx:3:  const scores = useScores();\nhooks/useScores.ts:1:export function useScores() {'],
+      files.map(file => file.filename)
+    )).toEqual(['src/components/Leaderboard.tsx', 'src/hooks/useScores.ts']);
+  });
+});
@@ -0,0 +1,97 @@
+import { diffDiagnostics, normalizeValidationResult, summarizeDiagnostics, toSarif } from '../diagnostics';
+import type { CompilationResult } from '../compilationValidator';
+import type { RailwayValidationResult } from '../railwayValidationClient';
+
+describe('diagnostics', () => {
+  const validationSummary = { totalFiles: 2, filesWithErrors: 1, filesWithWarnings: 1, criticalErrors: 1 };
+  const local: CompilationResult = {
+    success: false,
+    errors: [
+      { file: 'src/app/page.tsx', line: 3, column: 9, message: "TS2322: Type 'number' is not assignable to type 'string'.", severity: 'error', category: 'typescript', code: 'TS2322', suggestion: 'Ensure the value matches the expected type' },
+      { file: 'src/app/page.tsx', line: 3, column: 9, message: "TS2322: Type 'number' is not assignable to type 'string'.", severity: 'error', category: 'typescript', code: 'TS2322' }
+    ],
+    warnings: [{ file: 'src/app/page.tsx', line: 8, column: 5, message: 'setInterval in useEffect is never cleared', severity: 'warning', category: 'runtime', code: 'runtime/timer-without-cleanup' }],
+    info: [],
+    files: [{ filename: 'src/app/page.tsx', content: '' }],
+    compilationTime: 120,
+    validationSummary
+  };
+
+  it('should merge local and Railway results into one model', () => {
+    const railway: RailwayValidationResult = {
+      success: false,
+      errors: [{ file: 'src/components/Card.tsx', line: 4, message: 'Unexpected any', severity: 'error', category: 'eslint', rule: '@typescript-eslint/no-explicit-any' }],
+      warnings: [],
+      info: [],
+      files: [],
+      compilationTime: 900,
+      validationSummary
+    };
+
+    const report = normalizeValidationResult(local, 'local');
+    expect(report.diagnostics.map(d => [d.file, d.line, d.severity, d.code])).toEqual([
+      ['src/app/page.tsx', 3, 'error', 'TS2322'],
+      ['src/app/page.tsx', 8, 'warning', 'runtime/timer-without-cleanup']
+    ]);
+    expect(normalizeValidationResult(railway, 'railway').diagnostics).toEqual([expect.objectContaining({
+      file: 'src/components/Card.tsx', line: 4, severity: 'error', category: 'eslint', code: '@typescript-eslint/no-explicit-any'
+    })]);
+    expect(summarizeDiagnostics(report)).toEqual({
+      source: 'local',
+      success: false,
+      errors: 1,
+      warnings: 1,
+      info: 0,
+      byCategory: { typescript: 1, runtime: 1 },
+      files: [{ file: 'src/app/page.tsx', errors: 1, warnings: 1 }]
+    });
+  });
+
+  it('should export SARIF 2.1.0', () => {
+    const sarif = toSarif(normalizeValidationResult(local, 'local')) as { version: string; runs: { tool: { driver: { rules: { id: string }[] } }; results: Record<string, unknown>[] }[] };
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules.map(rule => rule.id)).toEqual(['TS2322', 'runtime/timer-without-cleanup']);
+    expect(sarif.runs[0].results[0]).toEqual(expect.objectContaining({
+      ruleId: 'TS2322',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app/page.tsx', uriBaseId: 'PROJECTROOT' }, region: { startLine: 3, startColumn: 9 } } }],
+      properties: { category: 'typescript', suggestion: 'Ensure the value matches the expected type' }
+    }));
+  });
+
+  it('should diff runs by fingerprint, ignoring moved lines', () => {
+    const previous = normalizeValidationResult(local, 'local');
+    const current = normalizeValidationResult({
+      ...local,
+      errors: [
+        { ...local.errors[0], line: 5 },
+        { file: 'src/app/page.tsx', line: 9, message: "TS2304: Cannot find name 'count'.", severity: 'error', category: 'typescript', code: 'TS2304' }
+      ],
+      warnings: []
+    }, 'local');
+
+    const diff = diffDiagnostics(previous, current);
+    expect(diff.introduced.map(d => d.code)).toEqual(['TS2304']);
+    expect(diff.resolved.map(d => d.code)).toEqual(['runtime/timer-without-cleanup']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('should only diff files validated in both runs', () => {
+    const previous = normalizeValidationResult({
+      ...local,
+      warnings: [...local.warnings, { file: 'src/lib/utils.ts', line: 2, message: "'x' is assigned a value but never used", severity: 'warning', category: 'eslint', code: 'no-unused-vars' }],
+      files: [...local.files, { filename: 'src/lib/utils.ts', content: '' }]
+    }, 'local');
+    // A follow-up validates only the files it changed
+    const current = normalizeValidationResult({
+      ...local,
+      errors: [...local.errors, { file: 'src/components/Card.tsx', line: 4, message: "TS2304: Cannot find name 'x'.", severity: 'error', category: 'typescript', code: 'TS2304' }],
+      files: [...local.files, { filename: 'src/components/Card.tsx', content: '' }]
+    }, 'local');
+
+    expect(current.files).toEqual(['src/app/page.tsx', 'src/components/Card.tsx']);
+    expect(diffDiagnostics(previous, current)).toEqual({ introduced: [], resolved: [], unchanged: 2 });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
-import { executeDiffBasedPipeline, applyDiffsToFiles, storeDiffs, rollbackDiffs } from '../diffBasedPipeline';
+import { executeDiffBasedPipeline, applyDiffsToFiles, applyDiffsWithReport, applyDiffsWithRepair, storeDiffs, rollbackDiffs } from '../diffBasedPipeline';
 import { FileDiff } from '../diffBasedPipeline';
 
 // Mock the dependencies
@@ -136,10 +136,14 @@ jest.mock('../diffUtils', () => ({
       "import { useReadContract, useWriteContract } from 'wagmi';\nimport { useAccount } from 'wagmi';\nimport { useUser } from '@/hooks';"
     );
   }),
-  generateDiff: jest.fn(),
+  generateDiff: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').generateDiff,
   validateDiff: jest.fn(),
   validateDiffHunksAgainstFile: jest.fn(() => ({ isValid: true, errors: [] })),
-  createMinimalDiff: jest.fn()
+  createMinimalDiff: jest.fn(),
+  invertDiff: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').invertDiff,
+  applyHunksStrict: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').applyHunksStrict,
+  applyHunksFuzzy: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').applyHunksFuzzy,
+  parseUnifiedDiff: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').parseUnifiedDiff
 }));
 jest.mock('../toolExecutionService');
 
@@ -333,6 +337,7 @@ export default function App() {
       expect(result.files[0].content).toContain('import { useReadContract, useWriteContract } from \'wagmi\';');
       expect(result.files[0].content).toContain('import { useAccount } from \'wagmi\';');
       expect(result.files[0].content).toContain('Token Airdrop');
+      expect(result.diffs.map(d => d.filename)).toEqual(['src/app/page.tsx']);
     });
 
     it('should handle context gathering when needed', async () => {
@@ -425,6 +430,70 @@ export default function App() {
 
       expect(result).toEqual([]);
     });
+
+    it('should report hunks that could not be applied instead of dropping them silently', () => {
+      const files = [{ filename: 'test.ts', content: 'line1\nline2\nline3\nline4' }];
+      const diffs: FileDiff[] = [
+        {
+          filename: 'test.ts',
+          hunks: [
+            { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-line1', '+LINE1'] },
+            { oldStart: 3, oldLines: 1, newStart: 3, newLines: 1, lines: ['-missing', '+replacement'] }
+          ],
+          unifiedDiff: ''
+        }
+      ];
+
+      const result = applyDiffsWithReport(files, diffs);
+
+      expect(result.files).toEqual([{ filename: 'test.ts', content: 'LINE1\nline2\nline3\nline4' }]);
+      expect(result.reports[0].status).toBe('partial');
+      expect(result.rejectedHunks).toEqual([
+        expect.objectContaining({ filename: 'test.ts', hunkIndex: 1, reason: expect.stringContaining('not found') })
+      ]);
+    });
+  });
+
+  describe('applyDiffsWithRepair', () => {
+    const files = [{ filename: 'test.ts', content: 'const a = 1;\nconst b = 2;' }];
+    const diffs: FileDiff[] = [
+      {
+        filename: 'test.ts',
+        hunks: [
+          { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-const a = 1;', '+const a = 10;'] },
+          { oldStart: 2, oldLines: 1, newStart: 2, newLines: 1, lines: ['-const b = 3;', '+const b = 30;'] }
+        ],
+        unifiedDiff: ''
+      }
+    ];
+
+    it('should send rejected hunks back and land the corrected diff', async () => {
+      const callLLM = jest.fn(async (_systemPrompt: string, userPrompt: string) => {
+        expect(userPrompt).toContain('-const b = 3;');
+        expect(userPrompt).toContain('const a = 10;');
+        return '__START_JSON__[{"filename":"test.ts","operation":"modify","unifiedDiff":"@@ -2,1 +2,1 @@\\n-const b = 2;\\n+const b = 30;"}]__END_JSON__';
+      });
+
+      const result = await applyDiffsWithRepair(files, diffs, callLLM, 'Change the constants', { fullFileMaxLines: 0 });
+
+      expect(callLLM).toHaveBeenCalledTimes(1);
+      expect(result.files).toEqual([{ filename: 'test.ts', content: 'const a = 10;\nconst b = 30;' }]);
+      expect(result.changes).toEqual([
+        { filename: 'test.ts', hunkIndex: 0, status: 'applied' },
+        { filename: 'test.ts', hunkIndex: 1, status: 'repaired', reason: undefined, attempt: 1 }
+      ]);
+    });
+
+    it('should stop after maxAttempts and report the changes that did not land', async () => {
+      const callLLM = jest.fn(async () => '__START_JSON__[]__END_JSON__');
+
+      const result = await applyDiffsWithRepair(files, diffs, callLLM, 'Change the constants', { maxAttempts: 2 });
+
+      expect(callLLM).toHaveBeenCalledTimes(2);
+      expect(result.attempts).toBe(2);
+      expect(result.files).toEqual([{ filename: 'test.ts', content: 'const a = 10;\nconst b = 2;' }]);
+      expect(result.changes[1]).toEqual(expect.objectContaining({ hunkIndex: 1, status: 'rejected' }));
+    });
   });
 
   describe('storeDiffs', () => {
@@ -451,19 +520,38 @@ export default function App() {
   });
 
   describe('rollbackDiffs', () => {
-    it('should rollback diffs', () => {
-      const projectId = 'test-project';
-      const diffs: FileDiff[] = [
-        {
-          filename: 'test.ts',
-          hunks: [],
-          unifiedDiff: 'test diff'
-        }
-      ];
+    const { generateDiff } = jest.requireActual<typeof import('../diffUtils')>('../diffUtils');
+    const before = ['import React from "react";', '', 'export function App() {', '  return <div>Hello</div>;', '}'].join('\n');
+    const after = ['import React from "react";', 'import { Button } from "./Button";', '', 'export function App() {', '  return <Button>Hello</Button>;', '}'].join('\n');
 
-      const result = rollbackDiffs(projectId, diffs);
+    it('should restore the content from before the patch', () => {
+      const diffs = [generateDiff(before, after, 'src/App.tsx')];
 
-      expect(result).toEqual([]);
+      const result = rollbackDiffs([{ filename: 'src/App.tsx', content: after }], diffs);
+
+      expect(result.files).toEqual([{ filename: 'src/App.tsx', content: before }]);
+      expect(result.rejectedHunks).toEqual([]);
+    });
+
+    it('should report hunks changed by a later edit and revert the rest', () => {
+      const diffs = [generateDiff(before, after, 'src/App.tsx')];
+      const editedLater = after.replace('<Button>Hello</Button>', '<Button>Hi</Button>');
+
+      const result = rollbackDiffs([{ filename: 'src/App.tsx', content: editedLater }], diffs);
+
+      expect(result.rejectedHunks).toEqual([
+        expect.objectContaining({ filename: 'src/App.tsx', hunkIndex: 0 })
+      ]);
+      expect(result.files).toEqual([]);
+    });
+
+    it('should delete files the patch created', () => {
+      const diffs = [generateDiff('', 'export const x = 1;\n', 'src/new.ts')];
+
+      const result = rollbackDiffs([{ filename: 'src/new.ts', content: 'export const x = 1;\n' }], diffs);
+
+      expect(result.deletedFiles).toEqual(['src/new.ts']);
+      expect(result.files).toEqual([]);
     });
   });
 });
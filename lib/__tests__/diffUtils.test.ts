@@ -6,6 +6,9 @@ import {
   validateDiff,
   createMinimalDiff,
   getDiffStats,
+  invertDiff,
+  applyHunksStrict,
+  applyHunksFuzzy,
   DiffHunk
 } from '../diffUtils';
 
@@ -282,6 +285,84 @@ export function TodoList() {
     });
   });
 
+  describe('applyHunksStrict', () => {
+    const original = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const modified = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'I', 'j'].join('\n');
+
+    it('should undo a diff through its inverse', () => {
+      const diff = generateDiff(original, modified, 'letters.txt');
+      const inverse = invertDiff(diff);
+
+      expect(inverse.unifiedDiff).toContain('@@ -');
+      expect(applyHunksStrict(modified, inverse.hunks)).toEqual({
+        content: original,
+        applied: diff.hunks.map((_, i) => i),
+        rejected: []
+      });
+    });
+
+    it('should find hunks after lines shifted and reject ones that no longer match', () => {
+      const hunks: DiffHunk[] = [
+        { oldStart: 2, oldLines: 1, newStart: 2, newLines: 1, lines: ['-b', '+B'] },
+        { oldStart: 9, oldLines: 1, newStart: 9, newLines: 1, lines: ['-i', '+I'] }
+      ];
+      const shifted = ['header', ...original.split('\n')].join('\n').replace('\ni\n', '\nchanged\n');
+
+      const result = applyHunksStrict(shifted, hunks);
+
+      expect(result.applied).toEqual([0]);
+      expect(result.rejected).toEqual([{ hunkIndex: 1, reason: 'lines 9-9 no longer match' }]);
+      expect(result.content.split('\n').slice(0, 3)).toEqual(['header', 'a', 'B']);
+    });
+  });
+
+  describe('applyHunksFuzzy', () => {
+    const original = ['function add(a, b) {', '  return a + b;', '}', '', 'export { add };'].join('\n');
+
+    it('should apply hunks with stale context and whitespace changes at lower confidence', () => {
+      const hunks: DiffHunk[] = [
+        {
+          oldStart: 1,
+          oldLines: 3,
+          newStart: 1,
+          newLines: 3,
+          lines: [' function add(a,b) {', '-  return a + b;', '+  return a + b + 0;', ' }']
+        },
+        {
+          oldStart: 4,
+          oldLines: 2,
+          newStart: 4,
+          newLines: 2,
+          lines: [' // exports', '-export { add };', '+export { add as sum };']
+        }
+      ];
+
+      const result = applyHunksFuzzy(original, hunks);
+
+      expect(result.content).toBe(['function add(a, b) {', '  return a + b + 0;', '}', '', 'export { add as sum };'].join('\n'));
+      expect(result.applied).toEqual([]);
+      expect(result.fuzzy).toEqual([
+        expect.objectContaining({ hunkIndex: 0, fuzz: 0, whitespaceIgnored: true, confidence: 0.9 }),
+        expect.objectContaining({ hunkIndex: 1, fuzz: 1, whitespaceIgnored: false, line: 5 })
+      ]);
+      expect(result.rejected).toEqual([]);
+    });
+
+    it('should reject hunks it cannot place and point at the closest match', () => {
+      const hunks: DiffHunk[] = [
+        { oldStart: 2, oldLines: 2, newStart: 2, newLines: 2, lines: ['-  return a - b;', '+  return b - a;', ' }'] }
+      ];
+
+      const result = applyHunksFuzzy(original, hunks, { maxFuzz: 0 });
+
+      expect(result.content).toBe(original);
+      expect(result.rejected).toEqual([{
+        hunkIndex: 0,
+        reason: 'lines 2-3 not found within 50 lines; closest match at line 2 (1/2 lines match)'
+      }]);
+    });
+  });
+
   describe('parseUnifiedDiff', () => {
     it('should parse a simple unified diff', () => {
       const unifiedDiff = `@@ -1,3 +1,4 @@
@@ -412,7 +493,7 @@ export function TodoList() {
       const diff = {
         filename: 'test.txt',
         hunks: [{
-          oldStart: 0, // Invalid: should be > 0
+          oldStart: 0, // Invalid: only a side with no lines starts at 0
           oldLines: 1,
           newStart: 1,
           newLines: 1,
@@ -424,6 +505,22 @@ export function TodoList() {
       expect(validateDiff(diff)).toBe(false);
     });
 
+    it('should accept a hunk that creates a file', () => {
+      const diff = {
+        filename: 'new.txt',
+        hunks: [{
+          oldStart: 0,
+          oldLines: 0,
+          newStart: 1,
+          newLines: 2,
+          lines: ['+line1', '+line2']
+        }],
+        unifiedDiff: '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+line1\n+line2'
+      };
+
+      expect(validateDiff(diff)).toBe(true);
+    });
+
     it('should reject diff with non-array hunks', () => {
       const diff = {
         filename: 'test.txt',
@@ -448,6 +545,70 @@ export function TodoList() {
       expect(diff.hunks[0].lines).toContain('-line3');
       expect(diff.hunks[0].lines).toContain('+modified line3');
     });
+
+    it('should keep separate changes in separate hunks with exact ranges', () => {
+      const original = Array.from({ length: 20 }, (_, i) => `line${i + 1}`).join('\n');
+      const modified = original.replace('line3', 'line3 changed').replace('line18\n', '');
+
+      const diff = createMinimalDiff(original, modified, 'test.txt', 2);
+
+      expect(diff.hunks).toEqual([
+        { oldStart: 1, oldLines: 5, newStart: 1, newLines: 5, lines: [' line1', ' line2', '-line3', '+line3 changed', ' line4', ' line5'] },
+        { oldStart: 16, oldLines: 5, newStart: 16, newLines: 4, lines: [' line16', ' line17', '-line18', ' line19', ' line20'] }
+      ]);
+      expect(parseUnifiedDiff(diff.unifiedDiff)).toEqual(diff.hunks);
+      expect(applyHunksStrict(original, diff.hunks).content).toBe(modified);
+    });
+
+    it('should produce a diff that reapplies for larger rewrites', () => {
+      const original = 'a\nb\nc\na\nb\nb\na\n';
+      const modified = 'c\nb\na\nb\na\nc\n';
+
+      for (const algorithm of ['myers', 'patience'] as const) {
+        const diff = createMinimalDiff(original, modified, 'letters.txt', 3, algorithm);
+        expect(applyHunksStrict(original, diff.hunks).content).toBe(modified);
+        // Myers' shortest edit script for this pair is 5 lines
+        if (algorithm === 'myers') {
+          expect(getDiffStats(diff).additions + getDiffStats(diff).deletions).toBe(5);
+        }
+      }
+    });
+
+    it('should insert a whole function as one block with patience', () => {
+      const original = [
+        'function first() {',
+        '  return 1;',
+        '}',
+        '',
+        'function second() {',
+        '  return 2;',
+        '}'
+      ].join('\n');
+      const modified = [
+        'function first() {',
+        '  return 1;',
+        '}',
+        '',
+        'function inserted() {',
+        '  return 3;',
+        '}',
+        '',
+        'function second() {',
+        '  return 2;',
+        '}'
+      ].join('\n');
+
+      const diff = createMinimalDiff(original, modified, 'code.ts', 0, 'patience');
+
+      expect(diff.hunks).toHaveLength(1);
+      expect(diff.hunks[0].lines).toEqual([
+        '+function inserted() {',
+        '+  return 3;',
+        '+}',
+        '+'
+      ]);
+      expect(diff.hunks[0]).toMatchObject({ oldStart: 4, oldLines: 0, newStart: 5, newLines: 4 });
+    });
   });
 
   describe('getDiffStats', () => {
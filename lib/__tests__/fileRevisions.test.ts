@@ -0,0 +1,157 @@
+jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+
+import {
+  applyPatchRevert,
+  createProject,
+  createUser,
+  deleteProjectFile,
+  FileVersionConflictError,
+  getFileHistory,
+  getFileRevision,
+  getPatchById,
+  getProjectFiles,
+  savePatch,
+  saveProjectFiles,
+  updateProjectFile,
+} from '../database';
+import { closeTestDatabase, migrateTestDatabase, resetTestDatabase } from './testDatabase';
+
+describe('file revisions', () => {
+  let projectId: string;
+
+  beforeAll(async () => {
+    await migrateTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    const user = await createUser('privy-user');
+    projectId = (await createProject(user.id, 'Test project')).id;
+    await saveProjectFiles(projectId, [
+      { filename: 'src/app/page.tsx', content: 'export default function Page() {}' },
+      { filename: 'src/lib/utils.ts', content: 'export const a = 1;' },
+      { filename: 'package.json', content: '{}' },
+    ]);
+  });
+
+  it('records every edit and deletion in the file history', async () => {
+    await updateProjectFile(projectId, 'src/lib/utils.ts', 'export const a = 2;', { source: 'user_edit' });
+    await deleteProjectFile(projectId, 'src/lib/utils.ts', { source: 'user_edit' });
+
+    const history = await getFileHistory(projectId, 'src/lib/utils.ts');
+    expect(history.map(r => [r.version, r.source, r.deleted])).toEqual([
+      [3, 'user_edit', true],
+      [2, 'user_edit', false],
+      [1, 'generation', false],
+    ]);
+    expect((await getFileRevision(projectId, 'src/lib/utils.ts', 2))?.content).toBe('export const a = 2;');
+    expect((await getProjectFiles(projectId)).map(f => f.filename)).toEqual(['package.json', 'src/app/page.tsx']);
+  });
+
+  it('replaces the file set on a full save', async () => {
+    const revisions = await saveProjectFiles(projectId, [
+      { filename: 'src/app/page.tsx', content: 'export default function Page() {}' },
+      { filename: 'package.json', content: '{"name":"app"}' },
+    ]);
+
+    expect(revisions.map(r => [r.filename, r.deleted]).sort()).toEqual([
+      ['package.json', false],
+      ['src/lib/utils.ts', true],
+    ]);
+    expect((await getProjectFiles(projectId)).map(f => f.filename)).toEqual(['package.json', 'src/app/page.tsx']);
+  });
+
+  it('keeps the other files when a follow-up changes one file', async () => {
+    const revisions = await saveProjectFiles(
+      projectId,
+      [{ filename: 'src/app/page.tsx', content: 'export default function Page() { return null; }' }],
+      { source: 'follow_up' },
+      { partial: true }
+    );
+
+    expect(revisions.map(r => [r.filename, r.version, r.source])).toEqual([['src/app/page.tsx', 2, 'follow_up']]);
+    const files = await getProjectFiles(projectId);
+    expect(files.map(f => [f.filename, f.version])).toEqual([
+      ['package.json', 1],
+      ['src/app/page.tsx', 2],
+      ['src/lib/utils.ts', 1],
+    ]);
+  });
+
+  it('removes only the files marked deleted on a partial save', async () => {
+    await saveProjectFiles(projectId, [], { source: 'follow_up' }, { partial: true, deleted: ['src/lib/utils.ts'] });
+
+    expect((await getProjectFiles(projectId)).map(f => f.filename)).toEqual(['package.json', 'src/app/page.tsx']);
+    expect((await getFileHistory(projectId, 'src/lib/utils.ts'))[0]).toMatchObject({ version: 2, deleted: true, source: 'follow_up' });
+  });
+
+  it('writes a patch revert and its record together, once', async () => {
+    const patch = await savePatch(projectId, { changedFiles: ['src/lib/utils.ts'] }, 'Edit utils');
+    const revert = (content: string) => applyPatchRevert(
+      projectId,
+      patch.id,
+      {
+        files: [{ filename: 'src/lib/utils.ts', content }],
+        deletedFiles: ['package.json'],
+        expectedVersions: { 'src/lib/utils.ts': 1, 'package.json': 1 },
+      },
+      { patchData: { revertOf: patch.id }, description: 'Reverted 2 file(s)' }
+    );
+
+    const reverted = await revert('export const a = 0;');
+
+    expect((await getPatchById(patch.id))?.revertedAt).not.toBeNull();
+    expect(reverted?.revertRecord.patchData).toEqual({ revertOf: patch.id });
+    expect((await getFileHistory(projectId, 'src/lib/utils.ts'))[0]).toMatchObject({
+      version: 2,
+      source: 'revert',
+      patchId: reverted?.revertRecord.id,
+    });
+    expect((await getProjectFiles(projectId)).map(f => f.filename)).toEqual(['src/app/page.tsx', 'src/lib/utils.ts']);
+
+    expect(await revert('export const a = -1;')).toBeUndefined();
+    expect(await getFileHistory(projectId, 'src/lib/utils.ts')).toHaveLength(2);
+  });
+
+  it('rejects a patch revert when a file changed after the revert was computed', async () => {
+    const patch = await savePatch(projectId, { changedFiles: ['src/lib/utils.ts'] }, 'Edit utils');
+    await updateProjectFile(projectId, 'src/lib/utils.ts', 'export const a = 2;', { source: 'user_edit' });
+
+    await expect(applyPatchRevert(
+      projectId,
+      patch.id,
+      { files: [{ filename: 'src/lib/utils.ts', content: 'export const a = 0;' }], deletedFiles: [], expectedVersions: { 'src/lib/utils.ts': 1 } },
+      { patchData: { revertOf: patch.id }, description: 'Reverted 1 file(s)' }
+    )).rejects.toThrow(FileVersionConflictError);
+
+    expect((await getPatchById(patch.id))?.revertedAt).toBeNull();
+    expect((await getProjectFiles(projectId)).find(f => f.filename === 'src/lib/utils.ts')).toMatchObject({
+      version: 2,
+      content: 'export const a = 2;',
+    });
+  });
+
+  it('rejects a save when a file changed after its version was read', async () => {
+    await updateProjectFile(projectId, 'src/lib/utils.ts', 'export const a = 2;', { source: 'user_edit' });
+
+    await expect(saveProjectFiles(
+      projectId,
+      [
+        { filename: 'src/app/page.tsx', content: 'ai page' },
+        { filename: 'src/lib/utils.ts', content: 'ai utils' },
+      ],
+      { source: 'follow_up' },
+      { partial: true, expectedVersions: { 'src/app/page.tsx': 1, 'src/lib/utils.ts': 1 } }
+    )).rejects.toThrow(FileVersionConflictError);
+
+    expect((await getProjectFiles(projectId)).map(f => [f.filename, f.version])).toEqual([
+      ['package.json', 1],
+      ['src/app/page.tsx', 1],
+      ['src/lib/utils.ts', 2],
+    ]);
+  });
+});
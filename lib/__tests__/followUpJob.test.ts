@@ -0,0 +1,144 @@
+jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+jest.mock('fs-extra', () => ({
+  mkdirSync: jest.fn(),
+  pathExists: jest.fn(async () => false),
+  ensureDir: jest.fn(),
+  writeFile: jest.fn(),
+}));
+jest.mock('../previewManager', () => ({
+  createPreview: jest.fn(),
+  saveFilesToGenerated: jest.fn(),
+  getPreviewUrl: jest.fn(() => 'http://localhost:8080/p/project'),
+  updatePreviewFiles: jest.fn(),
+  deployContractsFirst: jest.fn(),
+}));
+jest.mock('../compilationValidator', () => ({}));
+jest.mock('../llmOptimizer', () => ({
+  ...jest.requireActual('../llmOptimizer'),
+  executeFollowUpPipeline: jest.fn(),
+}));
+
+import {
+  claimGenerationJob,
+  createGenerationJob,
+  createProject,
+  createUser,
+  getGenerationJobById,
+  getJobEvents,
+  getProjectFiles,
+  getProjectPatches,
+  saveProjectFiles,
+  updateGenerationJobStatus,
+  updateProjectFile,
+} from '../database';
+import { rollbackDiffs } from '../diffBasedPipeline';
+import { executeGenerationJob } from '../generationWorker';
+import { executeFollowUpPipeline } from '../llmOptimizer';
+import type { FileDiff } from '../diffUtils';
+import { closeTestDatabase, migrateTestDatabase, resetTestDatabase } from './testDatabase';
+
+describe('follow-up jobs', () => {
+  const page = [
+    'export default function Page() {',
+    '  return <div>Counter</div>;',
+    '}',
+    '',
+  ].join('\n');
+  const utils = 'export const start = 0;\n';
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    process.env.PREVIEW_AUTH_TOKEN = 'test-token';
+    process.env.LLM_PROVIDER = 'mock';
+    await migrateTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    process.env = env;
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+  });
+
+  it('stores a patch of the landed changes that rolls the follow-up back', async () => {
+    const user = await createUser('privy-user');
+    const projectId = (await createProject(user.id, 'Counter app')).id;
+    await saveProjectFiles(projectId, [
+      { filename: 'src/app/page.tsx', content: page },
+      { filename: 'src/lib/utils.ts', content: utils },
+    ]);
+    jest.mocked(executeFollowUpPipeline).mockResolvedValue({
+      files: [
+        { filename: 'src/app/page.tsx', content: page.replace('Counter', '<Button />') },
+        { filename: 'src/components/Button.tsx', content: 'export function Button() {\n  return <button>+1</button>;\n}\n' },
+      ],
+    } as Awaited<ReturnType<typeof executeFollowUpPipeline>>);
+    const prompt = 'Add a button';
+    const job = await createGenerationJob(user.id, prompt, { prompt, existingProjectId: projectId, isFollowUp: true }, projectId);
+
+    await executeGenerationJob(job.id);
+
+    expect((await getGenerationJobById(job.id))?.status).toBe('completed');
+    const [patch] = await getProjectPatches(projectId);
+    const patchData = patch.patchData as { diffs: FileDiff[]; changedFiles: string[] };
+    expect(patchData.changedFiles).toEqual(['src/app/page.tsx', 'src/components/Button.tsx']);
+
+    const rollback = rollbackDiffs(
+      (await getProjectFiles(projectId)).map(f => ({ filename: f.filename, content: f.content })),
+      patchData.diffs
+    );
+    expect(rollback.rejectedHunks).toEqual([]);
+    expect(rollback.files).toEqual([{ filename: 'src/app/page.tsx', content: page }]);
+    expect(rollback.deletedFiles).toEqual(['src/components/Button.tsx']);
+  });
+
+  it('leaves files only the user edited during the job out of the merge report', async () => {
+    const user = await createUser('privy-user');
+    const projectId = (await createProject(user.id, 'Counter app')).id;
+    await saveProjectFiles(projectId, [
+      { filename: 'src/app/page.tsx', content: page },
+      { filename: 'src/lib/utils.ts', content: utils },
+    ]);
+    jest.mocked(executeFollowUpPipeline).mockImplementation(async () => {
+      // Saved from the editor while the AI works on page.tsx
+      await updateProjectFile(projectId, 'src/lib/utils.ts', 'export const start = 1;\n', { source: 'user_edit' });
+      return { files: [{ filename: 'src/app/page.tsx', content: page.replace('Counter', 'Clicks') }] } as Awaited<ReturnType<typeof executeFollowUpPipeline>>;
+    });
+    const prompt = 'Rename the counter';
+    const job = await createGenerationJob(user.id, prompt, { prompt, existingProjectId: projectId, isFollowUp: true }, projectId);
+
+    await executeGenerationJob(job.id);
+
+    expect((await getGenerationJobById(job.id))?.result).toMatchObject({
+      changedFiles: ['src/app/page.tsx'],
+      mergedFiles: [],
+      mergeConflicts: [],
+    });
+    expect((await getJobEvents(job.id)).map(e => e.type)).not.toContain('edits_merged');
+    expect((await getProjectFiles(projectId)).map(f => [f.filename, f.version])).toEqual([
+      ['src/app/page.tsx', 2],
+      ['src/lib/utils.ts', 2],
+    ]);
+  });
+
+  it('does not complete a job whose lease moved to another worker', async () => {
+    const user = await createUser('privy-user');
+    const projectId = (await createProject(user.id, 'Counter app')).id;
+    await saveProjectFiles(projectId, [{ filename: 'src/app/page.tsx', content: page }]);
+    const prompt = 'Rename the counter';
+    const job = await createGenerationJob(user.id, prompt, { prompt, existingProjectId: projectId, isFollowUp: true }, projectId);
+    await claimGenerationJob('worker-a', 60000, job.id);
+    jest.mocked(executeFollowUpPipeline).mockImplementation(async () => {
+      // worker-a stalls: its lease expires and worker-b picks the job up again
+      await updateGenerationJobStatus(job.id, 'pending');
+      await claimGenerationJob('worker-b', 60000, job.id);
+      return { files: [{ filename: 'src/app/page.tsx', content: page.replace('Counter', 'Clicks') }] } as Awaited<ReturnType<typeof executeFollowUpPipeline>>;
+    });
+
+    await executeGenerationJob(job.id, { workerId: 'worker-a' });
+
+    expect(await getGenerationJobById(job.id)).toMatchObject({ status: 'processing', lockedBy: 'worker-b', result: null });
+  });
+});
@@ -0,0 +1,45 @@
+jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+
+import { createGenerationJob, createUser, getUserGenerationJobs, setUserQuota } from '../database';
+import { admitJob, QuotaExceededError } from '../quotas';
+import { closeTestDatabase, migrateTestDatabase, resetTestDatabase } from './testDatabase';
+
+describe('admitJob', () => {
+  let userId: string;
+
+  const queue = (prompt: string) =>
+    admitJob(userId, (tx) => createGenerationJob(userId, prompt, { prompt }, undefined, tx));
+
+  beforeAll(async () => {
+    await migrateTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    userId = (await createUser('privy-user')).id;
+  });
+
+  it('admits concurrent requests only up to the quota', async () => {
+    await setUserQuota(userId, { concurrentJobs: 1 });
+
+    const results = await Promise.allSettled([queue('first'), queue('second')]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected?.reason).toBeInstanceOf(QuotaExceededError);
+    expect(rejected?.reason.quota).toBe('concurrentJobs');
+    expect(await getUserGenerationJobs(userId)).toHaveLength(1);
+  });
+
+  it('queues nothing when the check fails', async () => {
+    await setUserQuota(userId, { jobsPerDay: 1 });
+    await queue('first');
+
+    await expect(queue('second')).rejects.toThrow('Quota exceeded: jobsPerDay');
+    expect(await getUserGenerationJobs(userId)).toHaveLength(1);
+  });
+});
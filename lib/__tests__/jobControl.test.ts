@@ -0,0 +1,134 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { createCancellationGuard, JobCancelledError, JobLeaseLostError } from '../jobControl';
+import { executeInitialGenerationPipeline, IntentSpec, PipelineCheckpoint } from '../llmOptimizer';
+import type { JobProgressEvent } from '../jobEvents';
+import type { LLMCallOptions } from '../llmProvider';
+
+jest.mock('../database', () => ({}));
+jest.mock('../compilationValidator', () => ({}));
+
+describe('jobControl', () => {
+  describe('createCancellationGuard', () => {
+    it('should let stages run until cancellation is requested', async () => {
+      let requested = false;
+      const guard = createCancellationGuard('job-1', async () => requested);
+
+      await guard.beforeStage('intent');
+      requested = true;
+
+      await expect(guard.beforeStage('plan')).rejects.toThrow(JobCancelledError);
+      await expect(guard.beforeStage('plan')).rejects.toThrow('cancelled before plan');
+    });
+
+    it('should rethrow the cancellation even when the pipeline reports a plain failure', async () => {
+      const guard = createCancellationGuard('job-1', async () => true);
+
+      const pipeline = async () => {
+        try {
+          await guard.beforeStage('generate');
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: String(error) };
+        }
+      };
+
+      await expect(guard.run(pipeline)).rejects.toThrow(JobCancelledError);
+    });
+
+    it('should stop without checking cancellation once the lease is lost', async () => {
+      let leaseHeld = true;
+      const isCancelled = jest.fn(async () => false);
+      const guard = createCancellationGuard('job-1', isCancelled, () => leaseHeld);
+
+      await guard.beforeStage('intent');
+      leaseHeld = false;
+
+      await expect(guard.beforeStage('plan')).rejects.toThrow(JobLeaseLostError);
+      expect(isCancelled).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pipeline checkpoints', () => {
+    const intentSpec: IntentSpec = {
+      feature: 'counter',
+      requirements: ['count clicks'],
+      targetFiles: ['src/app/page.tsx'],
+      dependencies: [],
+      needsChanges: true,
+      isWeb3: false,
+      storageType: 'localStorage'
+    };
+    const files = [{ filename: 'src/app/page.tsx', content: 'export default function Page() {}' }];
+
+    it('should skip every stage that has a checkpoint', async () => {
+      const callLLM = jest.fn(async () => 'unused');
+      const events: JobProgressEvent[] = [];
+      const resumeFrom: PipelineCheckpoint = {
+        intentSpec,
+        patchPlan: { patches: [] },
+        generatedFiles: files,
+        validatedFiles: files
+      };
+
+      const result = await executeInitialGenerationPipeline('build a counter', files, callLLM, undefined, undefined, {
+        resumeFrom,
+        onProgress: (event) => events.push(event)
+      });
+
+      expect(callLLM).not.toHaveBeenCalled();
+      expect(result.files).toEqual(files);
+      expect(events.filter(e => e.data?.resumed).map(e => e.stage)).toEqual(['intent', 'plan', 'generate', 'validate']);
+    });
+
+    it('should resume at the first missing stage and stop when cancelled there', async () => {
+      const callLLM = jest.fn(async () => 'unused');
+      const beforeStage = jest.fn(async (stage: string) => {
+        throw new Error(`stopped before ${stage}`);
+      });
+
+      await expect(
+        executeInitialGenerationPipeline('build a counter', files, callLLM, undefined, undefined, {
+          resumeFrom: { intentSpec },
+          beforeStage
+        })
+      ).rejects.toThrow('stopped before plan');
+
+      expect(beforeStage).toHaveBeenCalledTimes(1);
+      expect(callLLM).not.toHaveBeenCalled();
+    });
+
+    it('should report each Stage 3 file while the response is still streaming', async () => {
+      const generated = [
+        { filename: 'src/app/page.tsx', content: 'export default function Page() { return null; }' },
+        { filename: 'src/lib/count.ts', content: 'export const start = 0;' }
+      ];
+      const response = `__START_JSON__\n${JSON.stringify(generated)}\n__END_JSON__`;
+      const events: JobProgressEvent[] = [];
+      let reportedWhileStreaming: unknown[] = [];
+      const callLLM = jest.fn(async (...args: [string, string, string, string?, LLMCallOptions?]) => {
+        const options = args[4];
+        for (let i = 0; i < response.length; i += 16) {
+          options?.onText?.(response.slice(i, i + 16));
+        }
+        reportedWhileStreaming = events.filter(e => e.type === 'file_generated').map(e => e.data?.filename);
+        return response;
+      });
+      const patchPlan = {
+        patches: generated.map(file => ({ filename: file.filename, operation: 'create' as const, purpose: 'counter', changes: [] }))
+      };
+
+      await expect(
+        executeInitialGenerationPipeline('build a counter', files, callLLM, undefined, undefined, {
+          resumeFrom: { intentSpec, patchPlan },
+          onProgress: (event) => events.push(event),
+          beforeStage: async (stage) => {
+            if (stage === 'validate') throw new Error('stopped before validate');
+          }
+        })
+      ).rejects.toThrow('stopped before validate');
+
+      expect(callLLM).toHaveBeenCalledTimes(1);
+      expect(reportedWhileStreaming).toEqual(['src/app/page.tsx', 'src/lib/count.ts']);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  encodeSSE,
+  createSSEParser,
+  reportStage,
+  buildJobTimeline,
+  JobEventRecord,
+  JobProgressEvent
+} from '../jobEvents';
+import { createJobEventLog } from '../jobEventLog';
+import { saveJobEvent } from '../database';
+
+jest.mock('../database', () => ({
+  saveJobEvent: jest.fn()
+}));
+
+describe('jobEvents', () => {
+  describe('SSE encoding', () => {
+    it('should round-trip messages split across chunks', () => {
+      const wire = encodeSSE({ id: '7', event: 'progress', data: '{"a":1}' })
+        + ': heartbeat\n\n'
+        + encodeSSE({ event: 'end', data: 'line one\nline two' });
+      const parser = createSSEParser();
+
+      const messages = [
+        ...parser.push(wire.slice(0, 10)),
+        ...parser.push(wire.slice(10, 40)),
+        ...parser.push(wire.slice(40))
+      ];
+
+      expect(messages).toEqual([
+        { id: '7', event: 'progress', data: '{"a":1}' },
+        { id: undefined, event: 'end', data: 'line one\nline two' }
+      ]);
+    });
+  });
+
+  describe('reportStage', () => {
+    it('should report start and failure and rethrow', async () => {
+      const events: JobProgressEvent[] = [];
+
+      await expect(
+        reportStage((event) => events.push(event), 'preview', async () => {
+          throw new Error('preview API down');
+        })
+      ).rejects.toThrow('preview API down');
+
+      expect(events.map(e => e.type)).toEqual(['stage_started', 'stage_finished']);
+      expect(events[1].data).toMatchObject({ success: false, error: 'preview API down' });
+    });
+  });
+
+  describe('buildJobTimeline', () => {
+    let nextId = 1;
+    const event = (partial: JobProgressEvent): JobEventRecord => ({
+      id: nextId++,
+      createdAt: new Date(0).toISOString(),
+      ...partial
+    });
+
+    it('should fold events into stage rows with details', () => {
+      const timeline = buildJobTimeline([
+        event({ type: 'job_started', message: 'Building your miniapp' }),
+        event({ type: 'stage_started', stage: 'intent', message: 'Analyzing' }),
+        event({ type: 'stage_finished', stage: 'intent', message: 'done', data: { success: true, durationMs: 1200 } }),
+        event({ type: 'stage_started', stage: 'plan', message: 'Planning' }),
+        event({ type: 'files_planned', stage: 'plan', message: 'Planned changes to 2 file(s)' }),
+        event({ type: 'stage_finished', stage: 'plan', message: 'done', data: { success: true, durationMs: 800 } }),
+        event({ type: 'stage_started', stage: 'validate', message: 'Validating' }),
+        event({ type: 'validation_errors', stage: 'validate', message: 'Found 3 error(s) in 1 file(s)' })
+      ]);
+
+      expect(timeline.stages.map(s => [s.stage, s.status])).toEqual([
+        ['intent', 'done'],
+        ['plan', 'done'],
+        ['validate', 'running']
+      ]);
+      expect(timeline.stages[1].details.map(d => d.type)).toEqual(['files_planned']);
+      expect(timeline.currentStage?.stage).toBe('validate');
+      expect(timeline.progress).toBe(33);
+      expect(timeline.outcome).toBeUndefined();
+    });
+
+    it('should report the outcome at 100%', () => {
+      const timeline = buildJobTimeline([
+        event({ type: 'stage_started', stage: 'intent', message: 'Analyzing' }),
+        event({ type: 'job_failed', message: 'Quota exceeded: tokensPerMonth' })
+      ]);
+
+      expect(timeline.progress).toBe(100);
+      expect(timeline.outcome).toBe('failed');
+      expect(timeline.outcomeMessage).toBe('Quota exceeded: tokensPerMonth');
+    });
+  });
+
+  describe('createJobEventLog', () => {
+    it('should persist events in emit order even when a write fails', async () => {
+      const saved: string[] = [];
+      const mockSave = saveJobEvent as jest.MockedFunction<typeof saveJobEvent>;
+      mockSave.mockImplementation(async (row) => {
+        if (row.type === 'fix_attempt') throw new Error('db down');
+        saved.push(row.type);
+        return row as Awaited<ReturnType<typeof saveJobEvent>>;
+      });
+
+      const log = createJobEventLog('job-1');
+      log.emit({ type: 'validation_errors', stage: 'validate', message: 'errors' });
+      log.emit({ type: 'fix_attempt', stage: 'validate', message: 'fixing' });
+      log.emit({ type: 'job_completed', message: 'done' });
+      await log.flush();
+
+      expect(saved).toEqual(['validation_errors', 'job_completed']);
+      expect(mockSave).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1', stage: 'validate' }));
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { runClaimedJob, recoverStuckJobs, runWorkerLoop } from '../jobQueue';
+import {
+  claimGenerationJob,
+  renewGenerationJobLease,
+  recoverExpiredGenerationJobs,
+  saveJobEvent,
+} from '../database';
+import { executeGenerationJob } from '../generationWorker';
+
+jest.mock('../database', () => ({
+  claimGenerationJob: jest.fn(),
+  renewGenerationJobLease: jest.fn(),
+  recoverExpiredGenerationJobs: jest.fn(),
+  saveJobEvent: jest.fn(),
+}));
+jest.mock('../generationWorker', () => ({
+  executeGenerationJob: jest.fn(),
+}));
+
+type Job = NonNullable<Awaited<ReturnType<typeof claimGenerationJob>>>;
+
+const mockClaim = claimGenerationJob as jest.MockedFunction<typeof claimGenerationJob>;
+const mockRenew = renewGenerationJobLease as jest.MockedFunction<typeof renewGenerationJobLease>;
+const mockRecover = recoverExpiredGenerationJobs as jest.MockedFunction<typeof recoverExpiredGenerationJobs>;
+const mockSaveEvent = saveJobEvent as jest.MockedFunction<typeof saveJobEvent>;
+const mockExecute = executeGenerationJob as jest.MockedFunction<typeof executeGenerationJob>;
+
+const job = (id: string, attempts = 1): Job => ({ id, attempts, maxAttempts: 3, error: null } as Job);
+// Drizzle types `.returning()` rows as always present; an empty update yields undefined
+const noJob = undefined as unknown as Job;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('jobQueue', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockRecover.mockResolvedValue({ requeued: [], dead: [] });
+  });
+
+  describe('runClaimedJob', () => {
+    it('should heartbeat the lease and report when it is lost', async () => {
+      mockRenew
+        .mockResolvedValueOnce(job('job-1'))
+        .mockResolvedValue(noJob);
+
+      let leaseHeldAtEnd: boolean | undefined;
+      mockExecute.mockImplementation(async (_jobId, options) => {
+        while (options?.isLeaseHeld?.()) await sleep(5);
+        leaseHeldAtEnd = options?.isLeaseHeld?.();
+        return undefined;
+      });
+
+      await runClaimedJob(job('job-1'), { workerId: 'worker-a', leaseMs: 1000, heartbeatMs: 10 });
+
+      expect(leaseHeldAtEnd).toBe(false);
+      expect(mockRenew).toHaveBeenCalledWith('job-1', 'worker-a', 1000);
+      expect(mockRenew).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not rethrow job failures', async () => {
+      mockExecute.mockRejectedValue(new Error('LLM down'));
+
+      await expect(runClaimedJob(job('job-1'), { workerId: 'worker-a' })).resolves.toBeUndefined();
+    });
+
+    it('should pass the worker id so final status writes check the lease', async () => {
+      await runClaimedJob(job('job-1'), { workerId: 'worker-a' });
+
+      expect(mockExecute).toHaveBeenCalledWith('job-1', expect.objectContaining({ workerId: 'worker-a' }));
+    });
+  });
+
+  describe('recoverStuckJobs', () => {
+    it('should record a failure event for dead-lettered jobs', async () => {
+      mockRecover.mockResolvedValue({
+        requeued: [job('job-1', 1)],
+        dead: [{ ...job('job-2', 3), error: 'Worker stopped responding after 3 attempt(s)' }],
+      } as Awaited<ReturnType<typeof recoverExpiredGenerationJobs>>);
+      mockSaveEvent.mockResolvedValue({} as Awaited<ReturnType<typeof saveJobEvent>>);
+
+      await expect(recoverStuckJobs()).resolves.toEqual({ requeued: 1, dead: 1 });
+
+      expect(mockSaveEvent).toHaveBeenCalledTimes(1);
+      expect(mockSaveEvent).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: 'job-2',
+        type: 'job_failed',
+        data: { deadLettered: true, attempts: 3 },
+      }));
+    });
+  });
+
+  describe('runWorkerLoop', () => {
+    it('should drain pending jobs and stop when asked', async () => {
+      mockClaim
+        .mockResolvedValueOnce(job('job-1'))
+        .mockResolvedValueOnce(job('job-2'))
+        .mockResolvedValue(noJob);
+      mockExecute.mockResolvedValue(undefined);
+
+      let idlePolls = 0;
+      await runWorkerLoop({
+        workerId: 'worker-a',
+        pollIntervalMs: 1,
+        shouldStop: () => mockClaim.mock.calls.length > 2 && ++idlePolls > 1,
+      });
+
+      expect(mockExecute.mock.calls.map(call => call[0])).toEqual(['job-1', 'job-2']);
+      expect(mockClaim).toHaveBeenCalledWith('worker-a', expect.any(Number), undefined);
+      expect(mockRecover).toHaveBeenCalled();
+    });
+  });
+});
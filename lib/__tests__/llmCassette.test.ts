@@ -0,0 +1,113 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCassette, loadCassette, hashPrompt, CassetteMismatchError } from '../llmCassette';
+import { createMockLLMProvider, createCallLLM } from '../llmProvider';
+
+// llmProvider imports llmOptimizer, which pulls in the compilation validator
+jest.mock('../compilationValidator', () => ({}));
+
+describe('llmCassette', () => {
+  let tempDir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    cassettePath = path.join(tempDir, 'run.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function recordRun() {
+    const provider = createMockLLMProvider({
+      responses: (request) => `${request.stageType}:${request.userPrompt}`
+    });
+    const recorder = createCassette({
+      mode: 'record',
+      cassettePath,
+      callLLM: createCallLLM(provider)
+    });
+    await recorder.callLLM('intent system', 'build a counter', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+    await recorder.callLLM('plan system', 'plan it', 'Stage 2', 'STAGE_2_PATCH_PLANNER');
+    return provider;
+  }
+
+  it('should record every call to the cassette file', async () => {
+    await recordRun();
+
+    const cassette = loadCassette(cassettePath);
+
+    expect(cassette.entries).toHaveLength(2);
+    expect(cassette.entries[0]).toMatchObject({
+      stageName: 'Stage 1',
+      stageType: 'STAGE_1_INTENT_PARSER',
+      systemPromptHash: hashPrompt('intent system'),
+      userPrompt: 'build a counter',
+      response: 'STAGE_1_INTENT_PARSER:build a counter'
+    });
+  });
+
+  it('should replay responses by matching request without calling the LLM', async () => {
+    await recordRun();
+    const replay = createCassette({ mode: 'replay', cassettePath });
+
+    const plan = await replay.callLLM('plan system', 'plan it', 'Stage 2', 'STAGE_2_PATCH_PLANNER');
+    const intent = await replay.callLLM('intent system', 'build a counter', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+
+    expect(plan).toBe('STAGE_2_PATCH_PLANNER:plan it');
+    expect(intent).toBe('STAGE_1_INTENT_PARSER:build a counter');
+    expect(replay.mismatches).toHaveLength(0);
+    expect(replay.unusedEntries()).toHaveLength(0);
+  });
+
+  it('should replay the recorded stop reason', async () => {
+    const recorder = createCassette({
+      mode: 'record',
+      cassettePath,
+      callLLM: createCallLLM(createMockLLMProvider({ responses: () => '[', stopReason: 'max_tokens' }))
+    });
+    await recorder.callLLM('code system', 'build it', 'Stage 3', 'STAGE_3_CODE_GENERATOR');
+    const replay = createCassette({ mode: 'replay', cassettePath });
+    let stopReason: string | undefined;
+
+    await replay.callLLM('code system', 'build it', 'Stage 3', 'STAGE_3_CODE_GENERATOR', {
+      onStopReason: (reason) => { stopReason = reason; }
+    });
+
+    expect(stopReason).toBe('max_tokens');
+  });
+
+  it('should fall back to stage order and report a changed system prompt', async () => {
+    await recordRun();
+    const replay = createCassette({ mode: 'replay', cassettePath });
+
+    const plan = await replay.callLLM('edited plan system', 'plan it', 'Stage 2', 'STAGE_2_PATCH_PLANNER');
+
+    expect(plan).toBe('STAGE_2_PATCH_PLANNER:plan it');
+    expect(replay.mismatches).toEqual([
+      { stageName: 'Stage 2', stageType: 'STAGE_2_PATCH_PLANNER', reason: 'system_prompt_changed' }
+    ]);
+    expect(replay.unusedEntries()).toHaveLength(1);
+  });
+
+  it('should throw in strict mode when the request does not match', async () => {
+    await recordRun();
+    const replay = createCassette({ mode: 'replay', cassettePath, strict: true });
+
+    await expect(
+      replay.callLLM('edited plan system', 'plan it', 'Stage 2', 'STAGE_2_PATCH_PLANNER')
+    ).rejects.toThrow(CassetteMismatchError);
+  });
+
+  it('should throw when a stage was never recorded', async () => {
+    await recordRun();
+    const replay = createCassette({ mode: 'replay', cassettePath });
+
+    await expect(
+      replay.callLLM('code system', 'generate', 'Stage 3', 'STAGE_3_CODE_GENERATOR')
+    ).rejects.toThrow('No cassette entry for Stage 3');
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  createAnthropicProvider,
+  createMockLLMProvider,
+  createCallLLM,
+  calculateCost,
+  resolveModelConfig,
+  summarizeUsage,
+  LLMUsage
+} from '../llmProvider';
+import { ANTHROPIC_MODELS, STAGE_MODEL_CONFIG } from '../llmOptimizer';
+import { PROMPT_CACHE_BREAKPOINT } from '../promptCache';
+
+// llmOptimizer pulls in the compilation validator, which needs child_process.exec
+jest.mock('../compilationValidator', () => ({}));
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+}
+
+describe('llmProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('calculateCost', () => {
+    it('should price tokens per model', () => {
+      expect(calculateCost(1000000, 1000000, ANTHROPIC_MODELS.BALANCED)).toBeCloseTo(18);
+      expect(calculateCost(1000000, 0, ANTHROPIC_MODELS.FAST)).toBeCloseTo(0.25);
+    });
+
+    it('should return 0 for unknown models', () => {
+      expect(calculateCost(1000, 1000, 'unknown-model')).toBe(0);
+    });
+
+    it('should price cache writes above and cache reads below plain input', () => {
+      const cost = (creationInputTokens: number, readInputTokens: number) =>
+        calculateCost(0, 0, ANTHROPIC_MODELS.BALANCED, { creationInputTokens, readInputTokens });
+
+      expect(cost(1000000, 0)).toBeCloseTo(3.75);
+      expect(cost(0, 1000000)).toBeCloseTo(0.3);
+    });
+  });
+
+  describe('resolveModelConfig', () => {
+    it('should use the stage config by default', () => {
+      const config = resolveModelConfig({
+        systemPrompt: '',
+        userPrompt: '',
+        stageName: 'Stage 1',
+        stageType: 'STAGE_1_INTENT_PARSER'
+      });
+
+      expect(config.model).toBe(STAGE_MODEL_CONFIG.STAGE_1_INTENT_PARSER.model);
+      expect(config.fallbackModel).toBe(STAGE_MODEL_CONFIG.STAGE_1_INTENT_PARSER.fallbackModel);
+    });
+
+    it('should drop the fallback model when the caller overrides the model', () => {
+      const config = resolveModelConfig({
+        systemPrompt: '',
+        userPrompt: '',
+        stageName: 'Chat',
+        model: ANTHROPIC_MODELS.FAST,
+        maxTokens: 4000
+      });
+
+      expect(config.model).toBe(ANTHROPIC_MODELS.FAST);
+      expect(config.fallbackModel).toBeUndefined();
+      expect(config.maxTokens).toBe(4000);
+    });
+  });
+
+  describe('createMockLLMProvider', () => {
+    it('should return per-stage responses deterministically', async () => {
+      const provider = createMockLLMProvider({
+        responses: { STAGE_1_INTENT_PARSER: '{"feature":"counter"}' }
+      });
+      const callLLM = createCallLLM(provider);
+
+      const first = await callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+      const second = await callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+
+      expect(first).toBe('{"feature":"counter"}');
+      expect(second).toBe(first);
+      expect(provider.getUsage()).toHaveLength(2);
+      expect(provider.getUsage()[0]).toEqual(provider.getUsage()[1]);
+    });
+
+    it('should report usage to the onUsage listener', async () => {
+      const seen: LLMUsage[] = [];
+      const provider = createMockLLMProvider({
+        responses: () => 'ok',
+        onUsage: (usage) => seen.push(usage)
+      });
+
+      await provider.complete({ systemPrompt: 'abcd', userPrompt: 'efgh', stageName: 'Test' });
+
+      expect(seen).toHaveLength(1);
+      expect(seen[0].inputTokens).toBe(2);
+      expect(seen[0].outputTokens).toBe(1);
+    });
+
+    it('should pass the stop reason to callers that ask for it', async () => {
+      const callLLM = createCallLLM(createMockLLMProvider({ responses: () => '[{"filename"', stopReason: 'max_tokens' }));
+      let stopReason: string | undefined;
+
+      await callLLM('system', 'user', 'Stage 3', 'STAGE_3_CODE_GENERATOR', {
+        onStopReason: (reason) => { stopReason = reason; }
+      });
+
+      expect(stopReason).toBe('max_tokens');
+    });
+
+    it('should stream the response text to callers that ask for it', async () => {
+      const callLLM = createCallLLM(createMockLLMProvider({ responses: () => '[{"filename": "a.ts"}]', stopReason: 'max_tokens' }));
+      const chunks: string[] = [];
+      let stopReason: string | undefined;
+
+      const text = await callLLM('system', 'user', 'Stage 3', 'STAGE_3_CODE_GENERATOR', {
+        onText: (chunk) => chunks.push(chunk),
+        onStopReason: (reason) => { stopReason = reason; }
+      });
+
+      expect(text).toBe('[{"filename": "a.ts"}]');
+      expect(chunks.join('')).toBe(text);
+      expect(stopReason).toBe('max_tokens');
+    });
+
+    it('should stream Anthropic-style SSE events', async () => {
+      const provider = createMockLLMProvider({ responses: () => 'hello' });
+      const stream = await provider.stream({ systemPrompt: 's', userPrompt: 'u', stageName: 'Chat' });
+      const text = await new Response(stream).text();
+
+      expect(text).toContain('event: content_block_delta');
+      expect(text).toContain('"text":"hello"');
+    });
+  });
+
+  describe('createAnthropicProvider', () => {
+    it('should return text and record usage on success', async () => {
+      const fetchMock = jest.fn(async () => jsonResponse(200, {
+        content: [{ type: 'text', text: 'generated' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 100, output_tokens: 50 }
+      }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const provider = createAnthropicProvider({ apiKey: 'test-key', baseDelayMs: 0 });
+      const completion = await provider.complete({
+        systemPrompt: 'system',
+        userPrompt: 'user',
+        stageName: 'Stage 2',
+        stageType: 'STAGE_2_PATCH_PLANNER'
+      });
+
+      expect(completion.text).toBe('generated');
+      expect(completion.usage.inputTokens).toBe(100);
+      expect(completion.usage.fallbackUsed).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should switch to the fallback model on the final retry after overload errors', async () => {
+      const models: string[] = [];
+      let call = 0;
+      global.fetch = (async (_url: string, init: RequestInit) => {
+        models.push(JSON.parse(init.body as string).model);
+        call++;
+        if (call < 3) {
+          return jsonResponse(529, { type: 'error', error: { type: 'overloaded_error' } });
+        }
+        return jsonResponse(200, {
+          content: [{ type: 'text', text: 'ok' }],
+          usage: { input_tokens: 1, output_tokens: 1 }
+        });
+      }) as unknown as typeof fetch;
+
+      const provider = createAnthropicProvider({ apiKey: 'test-key', baseDelayMs: 0 });
+      const completion = await provider.complete({
+        systemPrompt: 'system',
+        userPrompt: 'user',
+        stageName: 'Stage 1',
+        stageType: 'STAGE_1_INTENT_PARSER'
+      });
+
+      const stageConfig = STAGE_MODEL_CONFIG.STAGE_1_INTENT_PARSER;
+      expect(models).toEqual([stageConfig.model, stageConfig.model, stageConfig.fallbackModel]);
+      expect(completion.usage.fallbackUsed).toBe(true);
+      expect(completion.usage.model).toBe(stageConfig.fallbackModel);
+      expect(completion.usage.attempts).toBe(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchMock = jest.fn(async () => jsonResponse(400, { error: 'bad request' }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const provider = createAnthropicProvider({ apiKey: 'test-key', baseDelayMs: 0 });
+
+      await expect(
+        provider.complete({ systemPrompt: 's', userPrompt: 'u', stageName: 'Stage 1' })
+      ).rejects.toThrow('Claude API error: 400');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('summarizeUsage', () => {
+    it('should total tokens and cost across calls', async () => {
+      const provider = createMockLLMProvider({ responses: () => 'abcdefgh' });
+      await provider.complete({ systemPrompt: 'abcd', userPrompt: '', stageName: 'A' });
+      await provider.complete({ systemPrompt: 'abcd', userPrompt: '', stageName: 'B' });
+
+      const totals = summarizeUsage(provider.getUsage());
+
+      expect(totals.calls).toBe(2);
+      expect(totals.inputTokens).toBe(2);
+      expect(totals.outputTokens).toBe(4);
+    });
+
+    it('should report a cache read when the cacheable prefix repeats', async () => {
+      const provider = createMockLLMProvider({ responses: () => 'ok' });
+      const prompt = (files: string) => `${'r'.repeat(400)}${PROMPT_CACHE_BREAKPOINT}${files}${PROMPT_CACHE_BREAKPOINT}intent`;
+      const request = { userPrompt: 'u', stageName: 'Stage 3', stageType: 'STAGE_3_CODE_GENERATOR' as const };
+
+      await provider.complete({ ...request, systemPrompt: prompt('a.ts') });
+      await provider.complete({ ...request, systemPrompt: prompt('a.ts') });
+      await provider.complete({ ...request, systemPrompt: prompt('b.ts') });
+
+      const [first, second, third] = provider.getUsage();
+      expect(first.cacheCreationInputTokens).toBe(101);
+      expect(first.cacheReadInputTokens).toBe(0);
+      expect(second.cacheReadInputTokens).toBe(101);
+      expect(second.cacheSavingsUsd).toBeGreaterThan(0);
+      expect(second.costUsd).toBeLessThan(first.costUsd);
+      expect(third.cacheReadInputTokens).toBe(100);
+      expect(third.cacheCreationInputTokens).toBe(1);
+
+      const totals = summarizeUsage(provider.getUsage());
+      expect(totals.cacheHits).toBe(2);
+      expect(totals.cacheReadInputTokens).toBe(201);
+    });
+  });
+});
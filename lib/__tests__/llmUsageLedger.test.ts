@@ -0,0 +1,111 @@
+jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+
+import { createUser, getLLMUsageSummary, getUserTokenUsageSince } from '../database';
+import { flushUsageWrites, persistUsageTo, unsavedUsageTokens } from '../llmUsageLedger';
+import type { LLMUsage } from '../llmProvider';
+import { closeTestDatabase, migrateTestDatabase, resetTestDatabase } from './testDatabase';
+
+describe('llmUsageLedger', () => {
+  let userId: string;
+
+  const usage = (overrides: Partial<LLMUsage>): LLMUsage => ({
+    stageName: 'Stage 1: Intent Parser',
+    stageType: 'STAGE_1_INTENT_PARSER',
+    model: 'claude-sonnet-4-5',
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0.006,
+    cacheSavingsUsd: 0,
+    latencyMs: 1500,
+    fallbackUsed: false,
+    attempts: 1,
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    await migrateTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    userId = (await createUser('privy-user')).id;
+  });
+
+  it('records each call with its scope and sums usage per stage and model', async () => {
+    const jobId = '00000000-0000-4000-8000-000000000001';
+    const onUsage = persistUsageTo({ jobId, userId });
+
+    onUsage(usage({}));
+    onUsage(usage({ cacheReadInputTokens: 4000, cacheSavingsUsd: 0.0108, latencyMs: 500 }));
+    onUsage(usage({
+      stageName: 'Stage 3: Code Generator',
+      stageType: 'STAGE_3_CODE_GENERATOR',
+      inputTokens: 3000,
+      outputTokens: 8000,
+      costUsd: 0.129,
+      fallbackUsed: true,
+    }));
+
+    const { totals, byStage } = await getLLMUsageSummary({ jobId });
+
+    expect(totals).toMatchObject({
+      calls: 3,
+      inputTokens: 5000,
+      outputTokens: 8400,
+      cacheReadInputTokens: 4000,
+      cacheHits: 1,
+      latencyMs: 3500,
+      fallbackCalls: 1,
+    });
+    expect(totals.costUsd).toBeCloseTo(0.141);
+    expect(byStage.map(row => [row.stage, row.calls])).toEqual([
+      ['Stage 3: Code Generator', 1],
+      ['Stage 1: Intent Parser', 2],
+    ]);
+    expect((await getLLMUsageSummary({ userId })).totals.calls).toBe(3);
+    expect((await getLLMUsageSummary({ jobId: '00000000-0000-4000-8000-000000000002' })).totals.calls).toBe(0);
+  });
+
+  it('does not throw when the ledger write fails', async () => {
+    // No such user: the insert violates the user_id foreign key
+    const onUsage = persistUsageTo({ userId: '00000000-0000-4000-8000-0000000000ff' });
+
+    expect(() => onUsage(usage({}))).not.toThrow();
+    await flushUsageWrites();
+
+    expect((await getLLMUsageSummary({})).totals.calls).toBe(0);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to record LLM usage for Stage 1: Intent Parser'),
+      expect.anything()
+    );
+  });
+
+  it('counts usage toward the budget until its ledger write lands', async () => {
+    const onUsage = persistUsageTo({ userId });
+
+    onUsage(usage({}));
+    onUsage(usage({ inputTokens: 300, outputTokens: 100 }));
+    expect(unsavedUsageTokens(userId)).toBe(1600);
+
+    await flushUsageWrites();
+    expect(unsavedUsageTokens(userId)).toBe(0);
+    expect((await getLLMUsageSummary({ userId })).totals).toMatchObject({ inputTokens: 1300, outputTokens: 300 });
+  });
+
+  it('counts cached prompt tokens toward the budget at their price', async () => {
+    const onUsage = persistUsageTo({ userId });
+
+    // 1200 plain tokens, 400 cache writes at 1.25x, 1000 cache reads at 0.1x
+    onUsage(usage({ cacheCreationInputTokens: 400, cacheReadInputTokens: 1000 }));
+    expect(unsavedUsageTokens(userId)).toBe(1800);
+
+    await flushUsageWrites();
+    expect(await getUserTokenUsageSince(userId, new Date(0))).toBe(1800);
+  });
+});
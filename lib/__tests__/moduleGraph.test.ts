@@ -0,0 +1,46 @@
+import { createModuleGraph } from '../moduleGraph';
+
+describe('moduleGraph', () => {
+  const files = [
+    { filename: 'tsconfig.json', content: '{\n  "compilerOptions": {\n    "paths": { "@/*": ["./src/*"] }, // alias\n  }\n}' },
+    {
+      filename: 'src/app/page.tsx',
+      content: "import { Button, Missing } from '@/components/ui';\nimport * as utils from '../lib/utils';\nimport { useThing } from '@/hooks/useThing';\nimport { useAccount } from 'wagmi';\n\nexport default function App() {\n  return <Button label={utils.format(1)} />;\n}"
+    },
+    { filename: 'src/components/ui/index.ts', content: "export * from './Button';" },
+    { filename: 'src/components/ui/Button.tsx', content: 'export function Button({ label }: { label: string }) {\n  return <button>{label}</button>;\n}' },
+    { filename: 'src/lib/utils.ts', content: 'export const format = (value: number) => String(value);' },
+    { filename: 'src/lib/unused.ts', content: 'export const unused = 1;' }
+  ];
+  const graph = createModuleGraph(files);
+
+  it('should resolve tsconfig paths, index files and parent directories', () => {
+    const page = graph.modules.get('src/app/page.tsx')!;
+
+    expect(page.imports.map(entry => [entry.specifier, entry.resolved ?? null, entry.external])).toEqual([
+      ['@/components/ui', 'src/components/ui/index.ts', false],
+      ['../lib/utils', 'src/lib/utils.ts', false],
+      ['@/hooks/useThing', null, false],
+      ['wagmi', null, true]
+    ]);
+    expect(graph.modules.get('src/components/ui/Button.tsx')!.exports).toEqual([
+      { name: 'Button', kind: 'function', line: 1 }
+    ]);
+  });
+
+  it('should report missing modules and names the target does not export', () => {
+    expect(graph.unresolved).toEqual([
+      { file: 'src/app/page.tsx', specifier: '@/components/ui', line: 1, reason: 'missing-export', name: 'Missing' },
+      { file: 'src/app/page.tsx', specifier: '@/hooks/useThing', line: 3, reason: 'module-not-found' }
+    ]);
+  });
+
+  it('should find usages and files no entry point reaches', () => {
+    expect(graph.findUsages('src/lib/utils.ts', 'format')).toEqual([
+      { file: 'src/app/page.tsx', line: 2 },
+      { file: 'src/app/page.tsx', line: 7 }
+    ]);
+    expect(graph.importersOf('src/components/ui/Button.tsx')).toEqual(['src/components/ui/index.ts']);
+    expect(graph.deadFiles()).toEqual(['src/lib/unused.ts']);
+  });
+});
@@ -0,0 +1,62 @@
+import { buildInterfaceSummary, groupPatchesForGeneration, mapWithConcurrency } from '../parallelGeneration';
+import type { PatchPlan } from '../llmOptimizer';
+
+describe('parallelGeneration', () => {
+  const patch = (filename: string, operation: 'create' | 'modify' | 'delete', dependencies: string[] = []) => ({
+    filename,
+    operation,
+    purpose: `${operation} ${filename}`,
+    changes: [{ type: 'add' as const, target: 'component', description: 'x', dependencies }]
+  });
+
+  const plan: PatchPlan = {
+    patches: [
+      patch('src/app/page.tsx', 'modify', ['useCounter', 'CounterCard']),
+      patch('src/hooks/useCounter.ts', 'create'),
+      patch('src/components/CounterCard.tsx', 'create'),
+      patch('src/components/Old.tsx', 'delete')
+    ]
+  };
+
+  it('should group planned files in plan order and skip deletions', () => {
+    const groups = groupPatchesForGeneration(plan, 2);
+
+    expect(groups.map(group => group.map(p => p.filename))).toEqual([
+      ['src/app/page.tsx', 'src/hooks/useCounter.ts'],
+      ['src/components/CounterCard.tsx']
+    ]);
+  });
+
+  it('should summarize exports, props and hooks shared between calls', () => {
+    const summary = buildInterfaceSummary(plan, [
+      { filename: 'src/app/page.tsx', content: "'use client';\nexport default function App() {\n  return null;\n}" },
+      {
+        filename: 'src/components/ui/Button.tsx',
+        content: 'interface ButtonProps {\n  label: string;\n  onClick: () => void;\n}\n\nexport function Button({ label, onClick }: ButtonProps) {}'
+      },
+      { filename: 'src/hooks/index.ts', content: "export { useUser } from './useUser';" }
+    ]);
+
+    expect(summary).toContain('src/app/page.tsx (modify): modify src/app/page.tsx\n  export default function App\n  uses: useCounter, CounterCard');
+    expect(summary).toContain('src/hooks/useCounter.ts (create): create src/hooks/useCounter.ts\n  expected export: useCounter');
+    expect(summary).toContain('src/components/Old.tsx (being deleted - do not import)');
+    expect(summary).toContain('export function Button\n  props ButtonProps\n    label: string;\n    onClick: () => void;');
+    expect(summary).toContain('src/hooks/index.ts (unchanged)\n  export { useUser }');
+  });
+
+  it('should keep at most `concurrency` calls in flight and preserve order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
@@ -248,7 +248,7 @@ jest.mock('../toolExecutionService', () => ({
 }));
 
 jest.mock('../diffUtils', () => ({
-  generateDiff: jest.fn(),
+  generateDiff: jest.requireActual<typeof import('../diffUtils')>('../diffUtils').generateDiff,
   validateDiff: jest.fn(),
   applyDiffToContent: jest.fn(),
   applyDiffHunks: jest.fn()
@@ -0,0 +1,97 @@
+jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+
+import {
+  createDeployment,
+  createProject,
+  createProjectSnapshot,
+  createUser,
+  deleteProjectFile,
+  forkProjectSnapshot,
+  getFileHistory,
+  getProjectById,
+  getProjectChatMessages,
+  getProjectDeployments,
+  getProjectFiles,
+  restoreProjectSnapshot,
+  saveChatMessage,
+  saveProjectFiles,
+  updateProjectFile,
+} from '../database';
+import { closeTestDatabase, migrateTestDatabase, resetTestDatabase } from './testDatabase';
+
+describe('project snapshots', () => {
+  let userId: string;
+  let projectId: string;
+
+  const fileSet = async (id: string) =>
+    (await getProjectFiles(id)).map(f => [f.filename, f.content]);
+
+  beforeAll(async () => {
+    await migrateTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await resetTestDatabase();
+    userId = (await createUser('privy-user')).id;
+    projectId = (await createProject(userId, 'Counter app', 'Counts things')).id;
+    await saveProjectFiles(projectId, [
+      { filename: 'src/app/page.tsx', content: 'v1 page' },
+      { filename: 'src/lib/utils.ts', content: 'v1 utils' },
+    ]);
+    await saveChatMessage(projectId, 'user', 'Build a counter');
+    await createDeployment(projectId, 'vercel', 'https://counter.vercel.app', 'success', undefined, { Counter: '0xabc' });
+  });
+
+  it('restores the snapshot file set as new revisions', async () => {
+    const snapshot = await createProjectSnapshot(projectId, 'before-edits');
+    await updateProjectFile(projectId, 'src/app/page.tsx', 'v2 page', { source: 'user_edit' });
+    await deleteProjectFile(projectId, 'src/lib/utils.ts', { source: 'user_edit' });
+    await updateProjectFile(projectId, 'src/components/New.tsx', 'new component', { source: 'user_edit' });
+
+    const restored = await restoreProjectSnapshot(snapshot.id);
+
+    expect(restored?.files).toEqual([
+      { filename: 'src/app/page.tsx', content: 'v1 page' },
+      { filename: 'src/lib/utils.ts', content: 'v1 utils' },
+    ]);
+    expect(await fileSet(projectId)).toEqual([
+      ['src/app/page.tsx', 'v1 page'],
+      ['src/lib/utils.ts', 'v1 utils'],
+    ]);
+    expect((await getFileHistory(projectId, 'src/app/page.tsx')).map(r => [r.version, r.source])).toEqual([
+      [3, 'restore'],
+      [2, 'user_edit'],
+      [1, 'generation'],
+    ]);
+    expect((await getFileHistory(projectId, 'src/components/New.tsx'))[0]).toMatchObject({ source: 'restore', deleted: true });
+  });
+
+  it('forks the snapshot files and chat into a new project', async () => {
+    const snapshot = await createProjectSnapshot(projectId, 'v1');
+    await updateProjectFile(projectId, 'src/app/page.tsx', 'v2 page', { source: 'user_edit' });
+    const otherUserId = (await createUser('privy-other')).id;
+
+    const fork = await forkProjectSnapshot(snapshot.id, otherUserId, 'My counter');
+
+    expect(fork?.project).toMatchObject({ userId: otherUserId, name: 'My counter', forkedFromSnapshotId: snapshot.id });
+    expect(await fileSet(fork!.project.id)).toEqual([
+      ['src/app/page.tsx', 'v1 page'],
+      ['src/lib/utils.ts', 'v1 utils'],
+    ]);
+    expect((await getFileHistory(fork!.project.id, 'src/app/page.tsx')).map(r => r.source)).toEqual(['fork']);
+    // The source project is untouched
+    expect(await fileSet(projectId)).toEqual([
+      ['src/app/page.tsx', 'v2 page'],
+      ['src/lib/utils.ts', 'v1 utils'],
+    ]);
+    expect((await getProjectChatMessages(fork!.project.id)).map(m => m.content)).toEqual(['Build a counter']);
+    expect(await getProjectDeployments(fork!.project.id)).toEqual([
+      expect.objectContaining({ status: 'forked', contractAddresses: { Counter: '0xabc' } }),
+    ]);
+    expect((await getProjectById(fork!.project.id))?.previewUrl).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  evaluateQuota,
+  withTokenBudget,
+  quotaExceededResponse,
+  QuotaExceededError
+} from '../quotas';
+
+// Quota lookups hit the database; these tests only exercise the pure logic
+jest.mock('../database', () => ({}));
+
+describe('quotas', () => {
+  const now = new Date(Date.UTC(2025, 4, 15, 12, 0, 0));
+  const limits = { jobsPerDay: 10, tokensPerMonth: 1000, concurrentJobs: 2 };
+
+  describe('evaluateQuota', () => {
+    it('should compute remaining allowance and reset times', () => {
+      const status = evaluateQuota(limits, { jobsPerDay: 3, tokensPerMonth: 1200, concurrentJobs: 1 }, now);
+
+      expect(status.remaining).toEqual({ jobsPerDay: 7, tokensPerMonth: 0, concurrentJobs: 1 });
+      expect(status.resetAt.jobsPerDay.toISOString()).toBe('2025-05-16T00:00:00.000Z');
+      expect(status.resetAt.tokensPerMonth.toISOString()).toBe('2025-06-01T00:00:00.000Z');
+    });
+
+    it('should treat a limit of 0 as unlimited', () => {
+      const status = evaluateQuota({ ...limits, jobsPerDay: 0 }, { jobsPerDay: 500, tokensPerMonth: 0, concurrentJobs: 0 }, now);
+
+      expect(status.remaining.jobsPerDay).toBe(Infinity);
+    });
+  });
+
+  describe('withTokenBudget', () => {
+    const exhausted = () => new QuotaExceededError(
+      'tokensPerMonth',
+      evaluateQuota(limits, { jobsPerDay: 1, tokensPerMonth: 1000, concurrentJobs: 1 }, now)
+    );
+
+    it('should call through while budget remains', async () => {
+      const inner = jest.fn(async () => 'response');
+      const budget = withTokenBudget(inner, 'user-1', async () => undefined);
+
+      const result = await budget.run(() => budget.callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER'));
+
+      expect(result).toBe('response');
+      expect(inner).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop before the stage call once the budget is exhausted', async () => {
+      const inner = jest.fn(async () => 'response');
+      let checks = 0;
+      const budget = withTokenBudget(inner, 'user-1', async () => {
+        checks++;
+        if (checks > 1) throw exhausted();
+      });
+
+      await budget.callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+      await expect(
+        budget.callLLM('system', 'user', 'Stage 2', 'STAGE_2_PATCH_PLANNER')
+      ).rejects.toThrow(QuotaExceededError);
+      expect(inner).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow the budget error even when the pipeline swallows it', async () => {
+      const budget = withTokenBudget(async () => 'response', 'user-1', async () => {
+        throw exhausted();
+      });
+
+      const swallowingPipeline = async () => {
+        try {
+          await budget.callLLM('system', 'user', 'Stage 4', 'STAGE_4_VALIDATOR');
+        } catch {
+          // e.g. Stage 4 falls back to unvalidated files
+        }
+        return 'unvalidated files';
+      };
+
+      await expect(budget.run(swallowingPipeline)).rejects.toThrow(QuotaExceededError);
+    });
+
+    it('should rethrow the budget error when the pipeline wraps it', async () => {
+      const budget = withTokenBudget(async () => 'response', 'user-1', async () => {
+        throw exhausted();
+      });
+
+      const wrappingPipeline = async () => {
+        try {
+          await budget.callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+        } catch (error) {
+          throw new Error(`Stage 1 failed: ${error}`);
+        }
+      };
+
+      await expect(budget.run(wrappingPipeline)).rejects.toThrow(QuotaExceededError);
+    });
+  });
+
+  describe('quotaExceededResponse', () => {
+    it('should return 429 with the remaining allowance', async () => {
+      const status = evaluateQuota({ ...limits, jobsPerDay: 0 }, { jobsPerDay: 0, tokensPerMonth: 1000, concurrentJobs: 0 }, now);
+      const response = quotaExceededResponse(new QuotaExceededError('tokensPerMonth', status));
+      const body = await response.json();
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBeTruthy();
+      expect(body.quota).toBe('tokensPerMonth');
+      expect(body.remaining).toEqual({ jobsPerDay: null, tokensPerMonth: 0, concurrentJobs: 2 });
+    });
+  });
+});
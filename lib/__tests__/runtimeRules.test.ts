@@ -0,0 +1,79 @@
+import { runRuntimeRules } from '../runtimeRules';
+
+describe('runtimeRules', () => {
+  const config = "export const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000000' as `0x${string}`;\nexport const CHAIN_ID = 8453;";
+
+  const findings = (files: { filename: string; content: string }[]) =>
+    runRuntimeRules([{ filename: 'src/lib/contractConfig.ts', content: config }, ...files])
+      .map(finding => [finding.file, finding.line, finding.code, finding.severity]);
+
+  it('should flag leaked timers, missing chainId, unguarded zero-address calls and missing use client', () => {
+    const page = `import { useEffect, useState } from 'react';
+import { useReadContract, useWriteContract } from 'wagmi';
+import { CONTRACT_ABI, CONTRACT_ADDRESS, CHAIN_ID } from '@/lib/contractConfig';
+
+export default function Page() {
+  const [now, setNow] = useState(0);
+  useEffect(() => {
+    setInterval(() => setNow(Date.now()), 1000);
+  }, []);
+  const { data } = useReadContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'count' });
+  const { writeContract } = useWriteContract();
+  const mint = () => writeContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'mint', chainId: CHAIN_ID });
+  return <button onClick={mint}>{String(data)} {now}</button>;
+}`;
+
+    expect(findings([{ filename: 'src/app/page.tsx', content: page }])).toEqual([
+      ['src/app/page.tsx', 8, 'runtime/timer-without-cleanup', 'warning'],
+      ['src/app/page.tsx', 10, 'runtime/contract-call-without-chain-id', 'warning'],
+      ['src/app/page.tsx', 10, 'runtime/unguarded-zero-address-call', 'error'],
+      ['src/app/page.tsx', 12, 'runtime/unguarded-zero-address-call', 'error'],
+      ['src/app/page.tsx', 6, 'runtime/missing-use-client', 'error']
+    ]);
+  });
+
+  it('should accept cleaned-up timers, guarded calls and storage access outside render', () => {
+    const page = `'use client';
+import { useEffect, useState } from 'react';
+import { useReadContract, useWriteContract } from 'wagmi';
+import { CONTRACT_ABI, CONTRACT_ADDRESS, CHAIN_ID } from '@/lib/contractConfig';
+
+const isDeployed = CONTRACT_ADDRESS !== '0x0000000000000000000000000000000000000000';
+
+export default function Page() {
+  const [name, setName] = useState('');
+  useEffect(() => {
+    setName(localStorage.getItem('name') ?? '');
+    const id = setInterval(() => setName(n => n), 1000);
+    return () => clearInterval(id);
+  }, []);
+  const theme = typeof window !== 'undefined' ? window.localStorage.getItem('theme') : null;
+  const { data } = useReadContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'count', chainId: CHAIN_ID, query: { enabled: isDeployed } });
+  const { writeContract } = useWriteContract();
+  const mint = () => {
+    if (!isDeployed) return;
+    writeContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'mint', chainId: CHAIN_ID });
+  };
+  const save = () => localStorage.setItem('name', name);
+  return <button onClick={() => { mint(); save(); }}>{String(data)} {theme}</button>;
+}`;
+
+    expect(findings([{ filename: 'src/app/page.tsx', content: page }])).toEqual([]);
+  });
+
+  it('should flag storage access during render', () => {
+    const page = `'use client';
+import { useState } from 'react';
+
+export default function Page() {
+  const [name] = useState(() => localStorage.getItem('name'));
+  const theme = window.localStorage.getItem('theme');
+  return <p>{name} {theme}</p>;
+}`;
+
+    expect(findings([{ filename: 'src/app/page.tsx', content: page }])).toEqual([
+      ['src/app/page.tsx', 5, 'runtime/storage-during-ssr', 'error'],
+      ['src/app/page.tsx', 6, 'runtime/storage-during-ssr', 'error']
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { createSolidityValidator } from '../solidityValidator';
+
+describe('solidityValidator', () => {
+  const validator = createSolidityValidator();
+  const token = (body: string) => `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract Token is ERC20 {
+    constructor() ERC20("Token", "TKN") {}
+${body}
+}
+`;
+
+  it('should compile contracts with OpenZeppelin imports and return their ABI', async () => {
+    const result = await validator.compile([
+      { filename: 'contracts/Token.sol', content: token('    function mint(address to, uint256 amount) external {\n        _mint(to, amount);\n    }') },
+      { filename: 'src/app/page.tsx', content: 'export default function Page() { return null; }' }
+    ]);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.contracts.map(contract => [contract.file, contract.name])).toEqual([['contracts/Token.sol', 'Token']]);
+    const abiNames = result.contracts[0].abi.filter(item => item.type === 'function').map(item => item.name);
+    expect(abiNames).toEqual(expect.arrayContaining(['mint', 'transfer', 'balanceOf']));
+  }, 120000);
+
+  it('should map compiler errors to the project file, line and column', async () => {
+    const result = await validator.compile([
+      { filename: 'contracts/Token.sol', content: token('    function mint(address to) external {\n        _mint(to, missingAmount);\n    }') }
+    ]);
+
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      file: 'contracts/Token.sol',
+      line: 9,
+      column: 19,
+      code: 'SOL7576',
+      severity: 'error',
+      category: 'solidity'
+    })]);
+    expect(result.contracts).toEqual([]);
+  }, 120000);
+});
@@ -0,0 +1,62 @@
+import { createStreamingJsonParser, parseTolerantJson } from '../streamingJson';
+import { parseStage2PatchResponse, parseStage3CodeResult } from '../parserUtils';
+
+describe('streamingJson', () => {
+  const files = [
+    { filename: 'src/app/page.tsx', content: 'export default function Page() {\n  return <div className="p-4">Hi</div>;\n}' },
+    { filename: 'src/lib/utils.ts', content: 'export const sum = (a: number, b: number) => a + b;' },
+  ];
+  const response = `Here are the files.\n__START_JSON__\n${JSON.stringify(files)}\n__END_JSON__`;
+
+  it('should emit each element as soon as it closes while text streams in', () => {
+    const seen: Array<{ filename: string; received: number }> = [];
+    let received = 0;
+    const parser = createStreamingJsonParser({
+      onElement: (element) => seen.push({ filename: (element as { filename: string }).filename, received }),
+    });
+
+    for (let i = 0; i < response.length; i += 7) {
+      received = Math.min(i + 7, response.length);
+      parser.push(response.slice(i, i + 7));
+    }
+    const result = parser.end();
+
+    expect(result.complete).toBe(true);
+    expect(result.value).toEqual(files);
+    expect(seen.map(entry => entry.filename)).toEqual(files.map(file => file.filename));
+    // The first file is reported before the second one has arrived
+    expect(seen[0].received).toBeLessThan(response.indexOf(files[1].filename));
+  });
+
+  it('should tolerate raw newlines, unescaped quotes and trailing commas', () => {
+    const sloppy = '[{"filename": "a.tsx", "content": "const a = "x";\nexport default a;",},]';
+
+    const result = parseTolerantJson(sloppy);
+
+    expect(result.complete).toBe(true);
+    expect(result.value).toEqual([{ filename: 'a.tsx', content: 'const a = "x";\nexport default a;' }]);
+  });
+
+  it('should keep files that closed and report where the response was cut off', () => {
+    const cut = response.slice(0, response.indexOf('a + b'));
+
+    const result = parseStage3CodeResult(cut);
+
+    expect(result.complete).toBe(false);
+    expect(result.files).toEqual([files[0]]);
+    expect(result.truncation).toMatchObject({
+      reason: 'truncated',
+      offset: cut.length,
+      line: 3,
+      path: '[1].content',
+      completeElements: 1,
+      openElement: { filename: 'src/lib/utils.ts' },
+    });
+  });
+
+  it('should keep closed patches from a cut-off Stage 2 plan', () => {
+    const plan = '{"patches": [{"filename": "src/app/page.tsx", "operation": "modify", "changes": []}, {"filename": "src/lib/x.ts", "oper';
+
+    expect(parseStage2PatchResponse(plan).patches.map(patch => patch.filename)).toEqual(['src/app/page.tsx']);
+  });
+});
@@ -0,0 +1,130 @@
+// In-memory Postgres (PGlite, see testDatabaseWorker.mjs) behind the postgres-js client
+// interface drizzle uses, so lib/database.ts runs its real queries and transactions:
+//   jest.mock('../../db', () => jest.requireActual('./testDatabase').createTestDbModule());
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import * as schema from '../../db/schema';
+
+type RowMode = 'array' | 'object';
+type Reply = { id: number; rows?: unknown[]; error?: { message: string; code?: string; detail?: string } };
+
+const MIGRATIONS_DIR = path.join(__dirname, '../../db/migrations');
+// duplicate_column, duplicate_table, duplicate_object
+const DUPLICATE_OBJECT_CODES = ['42701', '42P07', '42710'];
+
+let worker: Worker | undefined;
+let nextId = 0;
+const pending = new Map<number, { resolve: (rows: unknown[]) => void; reject: (error: Error) => void }>();
+
+function database(): Worker {
+  if (!worker) {
+    worker = new Worker(path.join(__dirname, 'testDatabaseWorker.mjs'));
+    worker.unref();
+    worker.on('message', ({ id, rows, error }: Reply) => {
+      const request = pending.get(id)!;
+      pending.delete(id);
+      if (error) request.reject(Object.assign(new Error(error.message), error));
+      else request.resolve(rows!);
+    });
+  }
+  return worker;
+}
+
+// Statements run in the order they are sent
+function send(query: string, params: unknown[] = [], rowMode?: RowMode): Promise<unknown[]> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    database().postMessage({ id, query, params, rowMode });
+  });
+}
+
+// One connection, like db/index.ts (max: 1): a transaction holds it until it ends
+let connection: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = connection.then(task);
+  connection = result.catch(() => undefined);
+  return result;
+}
+
+async function inTransaction<T>(begin: string, commit: string, rollback: string, callback: () => Promise<T>) {
+  await send(begin);
+  try {
+    const result = await callback();
+    await send(commit);
+    return result;
+  } catch (error) {
+    await send(rollback);
+    throw error;
+  }
+}
+
+interface PostgresJsClient {
+  unsafe(query: string, params?: unknown[]): PromiseLike<unknown[]> & { values(): Promise<unknown[]> };
+  begin<T>(callback: (client: PostgresJsClient) => Promise<T>): Promise<T>;
+  savepoint<T>(callback: (client: PostgresJsClient) => Promise<T>): Promise<T>;
+}
+
+function postgresJsClient(inTransactionScope: boolean): PostgresJsClient {
+  const run = (task: () => Promise<unknown[]>) => inTransactionScope ? task() : exclusive(task);
+  return {
+    unsafe(query, params = []) {
+      return {
+        values: () => run(() => send(query, params, 'array')),
+        then: (resolve, reject) => run(() => send(query, params, 'object')).then(resolve, reject),
+      };
+    },
+    begin(callback) {
+      return exclusive(() => inTransaction('begin', 'commit', 'rollback', () => callback(postgresJsClient(true))));
+    },
+    savepoint(callback) {
+      return inTransaction('savepoint sp', 'release savepoint sp', 'rollback to savepoint sp', () => callback(postgresJsClient(true)));
+    },
+  };
+}
+
+/**
+ * Replacement for the db module: the schema plus a drizzle instance over PGlite
+ */
+export function createTestDbModule() {
+  return {
+    ...schema,
+    db: drizzle(postgresJsClient(false) as unknown as Parameters<typeof drizzle>[0], { schema }),
+    closeConnection: closeTestDatabase,
+  };
+}
+
+/**
+ * Apply db/migrations in journal order; run once per test file
+ */
+export async function migrateTestDatabase() {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_DIR, 'meta/_journal.json'), 'utf8')) as {
+    entries: { tag: string }[];
+  };
+  for (const { tag } of journal.entries) {
+    const statements = fs.readFileSync(path.join(MIGRATIONS_DIR, `${tag}.sql`), 'utf8').split('--> statement-breakpoint');
+    for (const statement of statements) {
+      await send(statement).catch((error: { code?: string }) => {
+        // The hand-written early migrations overlap with the generated ones
+        if (!DUPLICATE_OBJECT_CODES.includes(error.code ?? '')) throw error;
+      });
+    }
+  }
+}
+
+/**
+ * Empty every table, keeping the schema
+ */
+export async function resetTestDatabase() {
+  const rows = await send(`select tablename from pg_tables where schemaname = 'public'`, [], 'object') as { tablename: string }[];
+  if (rows.length === 0) return;
+  await send(`truncate ${rows.map(row => `"${row.tablename}"`).join(', ')} cascade`);
+}
+
+export async function closeTestDatabase() {
+  await worker?.terminate();
+  worker = undefined;
+}
@@ -0,0 +1,23 @@
+// In-memory Postgres for tests. Runs in a worker thread because jest's module sandbox
+// cannot load PGlite (it imports Node builtins dynamically).
+import { parentPort } from 'worker_threads';
+import { PGlite, types } from '@electric-sql/pglite';
+
+// drizzle maps dates itself, like postgres-js configured by drizzle
+const RAW_PARSERS = Object.fromEntries(
+  [types.TIMESTAMP, types.TIMESTAMPTZ, types.DATE, types.TIME, types.TIMETZ, types.INTERVAL]
+    .map(type => [type, value => value])
+);
+
+const pglite = new PGlite();
+
+parentPort.on('message', async ({ id, query, params, rowMode }) => {
+  try {
+    const rows = rowMode
+      ? (await pglite.query(query, params, { rowMode, parsers: RAW_PARSERS })).rows
+      : (await pglite.exec(query), []);
+    parentPort.postMessage({ id, rows });
+  } catch (error) {
+    parentPort.postMessage({ id, error: { message: error.message, code: error.code, detail: error.detail } });
+  }
+});
@@ -0,0 +1,40 @@
+import { mergeThreeWay, resolveConflicts, countConflicts } from '../threeWayMerge';
+
+describe('threeWayMerge', () => {
+  const base = ['import a;', '', 'const title = "Hello";', 'const count = 1;', '', 'export default App;'].join('\n');
+
+  it('should merge changes to separate lines from both sides', () => {
+    const ours = base.replace('const title = "Hello";', 'const title = "Hi";');
+    const theirs = base.replace('export default App;', 'export { App };\nexport default App;');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(['import a;', '', 'const title = "Hi";', 'const count = 1;', '', 'export { App };', 'export default App;'].join('\n'));
+  });
+
+  it('should take a change both sides made only once', () => {
+    const edited = base.replace('const count = 1;', 'const count = 2;');
+
+    expect(mergeThreeWay(base, edited, edited)).toEqual({ content: edited, conflicts: 0 });
+  });
+
+  it('should mark overlapping changes as conflicts that can be resolved either way', () => {
+    const ours = base.replace('const count = 1;', 'const count = 2;');
+    const theirs = base.replace('const count = 1;', 'const count = useCount();');
+
+    const result = mergeThreeWay(base, ours, theirs, { ours: 'Your edit', theirs: 'AI change' });
+
+    expect(result.conflicts).toBe(1);
+    expect(countConflicts(result.content)).toBe(1);
+    expect(result.content).toContain([
+      '<<<<<<< Your edit',
+      'const count = 2;',
+      '=======',
+      'const count = useCount();',
+      '>>>>>>> AI change'
+    ].join('\n'));
+    expect(resolveConflicts(result.content, 'ours')).toBe(ours);
+    expect(resolveConflicts(result.content, 'theirs')).toBe(theirs);
+  });
+});
@@ -0,0 +1,76 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTypeScriptValidator, validateTypeScriptInProcess } from '../typeScriptValidator';
+
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+describe('typeScriptValidator', () => {
+  const packageJson = JSON.stringify({ dependencies: { react: '^19.0.0', 'not-installed-sdk': '^1.0.0' } });
+  const hook = "import { sdk } from 'not-installed-sdk';\nexport function useCount(): number {\n  return sdk.count;\n}";
+
+  it('should report type errors with line, column and code, then re-validate after a fix', () => {
+    const validator = createTypeScriptValidator();
+    const page = (value: string) => `import { useCount } from '@/hooks/useCount';\nexport default function Page() {\n  const count: string = ${value};\n  return <p>{count}</p>;\n}`;
+
+    const errors = validator.validate([
+      { filename: 'package.json', content: packageJson },
+      { filename: 'src/hooks/useCount.ts', content: hook },
+      { filename: 'src/app/page.tsx', content: page('useCount()') }
+    ]);
+
+    expect(errors).toEqual([expect.objectContaining({
+      file: 'src/app/page.tsx',
+      line: 3,
+      column: 9,
+      code: 'TS2322',
+      severity: 'error',
+      category: 'typescript'
+    })]);
+
+    expect(validator.validate([
+      { filename: 'package.json', content: packageJson },
+      { filename: 'src/hooks/useCount.ts', content: hook },
+      { filename: 'src/app/page.tsx', content: page('String(useCount())') }
+    ])).toEqual([]);
+  }, 60000);
+
+  it('should report imports of missing project files', () => {
+    const errors = createTypeScriptValidator().validate([
+      { filename: 'src/app/page.tsx', content: "import { Missing } from '../components/Missing';\nexport default function Page() {\n  return <Missing />;\n}" }
+    ]);
+
+    expect(errors.map(error => [error.code, error.line])).toEqual([['TS2307', 1]]);
+  }, 60000);
+});
+
+describe('validateTypeScriptInProcess', () => {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'types-cache-'));
+  beforeAll(() => { process.env.TS_TYPES_CACHE_DIR = cacheDir; });
+  afterAll(() => {
+    delete process.env.TS_TYPES_CACHE_DIR;
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should check package imports against the project dependencies installed in the cache', async () => {
+    // Stands in for `npm install`: drops a typed package into the install directory
+    jest.mocked(execFile).mockImplementation(((_file: string, _args: string[], options: { cwd: string }, callback: (error: Error | null) => void) => {
+      const sdk = path.join(options.cwd, 'node_modules', 'typed-sdk');
+      fs.mkdirSync(sdk, { recursive: true });
+      fs.writeFileSync(path.join(sdk, 'package.json'), JSON.stringify({ name: 'typed-sdk', types: 'index.d.ts' }));
+      fs.writeFileSync(path.join(sdk, 'index.d.ts'), 'export declare const sdk: { count: number };');
+      callback(null);
+    }) as unknown as typeof execFile);
+    const files = [
+      { filename: 'package.json', content: JSON.stringify({ dependencies: { 'typed-sdk': '^1.0.0' } }) },
+      { filename: 'src/lib/label.ts', content: "import { sdk } from 'typed-sdk';\nexport const label: string = sdk.count;" }
+    ];
+
+    const errors = await validateTypeScriptInProcess(files);
+
+    expect(errors.map(error => [error.file, error.line, error.code])).toEqual([['src/lib/label.ts', 2, 'TS2322']]);
+    expect(await validateTypeScriptInProcess(files)).toHaveLength(1);
+    expect(execFile).toHaveBeenCalledTimes(1);
+  }, 60000);
+});
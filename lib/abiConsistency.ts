@@ -0,0 +1,277 @@
+/**
+ * ABI consistency between contracts and the frontend
+ * Parses the `*_ABI` literals in the frontend (contractConfig.ts) with the TypeScript
+ * AST, diffs them against the ABIs solc produces for the project contracts, and checks
+ * every `functionName` passed to wagmi/viem contract calls. Findings are reported as
+ * CompilationErrors so Stage 4 fixes them like compiler errors.
+ */
+
+import ts from 'typescript';
+import type { CompilationError } from './compilationValidator';
+import { createSolidityValidator, solidityFiles, type AbiItem, type CompiledContract } from './solidityValidator';
+
+type ProjectFile = { filename: string; content: string };
+
+export interface FrontendAbi {
+  file: string;
+  // Name of the exported const, e.g. CONTRACT_ABI
+  name: string;
+  line: number;
+  entries: { item: AbiItem; line: number }[];
+}
+
+export interface ContractCall {
+  file: string;
+  line: number;
+  // Wagmi/viem function making the call, e.g. useReadContract
+  callee: string;
+  // Identifier passed as `abi`, when it is one
+  abiName?: string;
+  functionName: string;
+  // Length of an `args` array literal
+  argCount?: number;
+}
+
+// Wagmi hooks and viem actions whose first argument carries `abi` and `functionName`
+const CONTRACT_CALLS = new Set([
+  'useReadContract',
+  'useSimulateContract',
+  'useWatchContractEvent',
+  'readContract',
+  'writeContract',
+  'writeContractAsync',
+  'simulateContract',
+]);
+const READ_CALLS = new Set(['useReadContract', 'readContract']);
+const SOURCE_FILE = /\.(tsx?|jsx?)$/;
+const ABI_NAME = /ABI$/i;
+const TEMPLATE_CONTRACTS = 'contracts/src/';
+
+/**
+ * Exported or top-level `const X_ABI = [...]` literals of a frontend file
+ */
+export function parseFrontendAbis(filename: string, content: string): FrontendAbi[] {
+  const source = ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true);
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+  const abis: FrontendAbi[] = [];
+
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !ABI_NAME.test(declaration.name.text) || !declaration.initializer) continue;
+      const array = unwrap(declaration.initializer);
+      if (!ts.isArrayLiteralExpression(array)) continue;
+
+      const entries = array.elements
+        .map(element => ({ item: literalValue(element) as AbiItem, line: lineOf(element) }))
+        .filter(entry => entry.item && typeof entry.item === 'object' && typeof entry.item.type === 'string');
+      abis.push({ file: filename, name: declaration.name.text, line: lineOf(declaration), entries });
+    }
+  }
+
+  return abis;
+}
+
+/**
+ * Contract calls with a literal `functionName`
+ */
+export function findContractCalls(filename: string, content: string): ContractCall[] {
+  const source = ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true);
+  const calls: ContractCall[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      const callee = ts.isIdentifier(node.expression)
+        ? node.expression.text
+        : ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text : undefined;
+      const options = unwrap(node.arguments[0]);
+
+      if (callee && CONTRACT_CALLS.has(callee) && ts.isObjectLiteralExpression(options)) {
+        const property = (name: string) => options.properties.find(p => p.name && ts.isIdentifier(p.name) && p.name.text === name);
+        const functionName = property('functionName');
+        const abi = property('abi');
+        const args = property('args');
+
+        if (functionName && ts.isPropertyAssignment(functionName) && ts.isStringLiteralLike(functionName.initializer)) {
+          const argsValue = args && ts.isPropertyAssignment(args) ? unwrap(args.initializer) : undefined;
+          calls.push({
+            file: filename,
+            line: source.getLineAndCharacterOfPosition(functionName.getStart(source)).line + 1,
+            callee,
+            abiName: abi && ts.isShorthandPropertyAssignment(abi)
+              ? abi.name.text
+              : abi && ts.isPropertyAssignment(abi) && ts.isIdentifier(abi.initializer) ? abi.initializer.text : undefined,
+            functionName: functionName.initializer.text,
+            argCount: argsValue && ts.isArrayLiteralExpression(argsValue) && !argsValue.elements.some(ts.isSpreadElement)
+              ? argsValue.elements.length
+              : undefined,
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return calls;
+}
+
+/**
+ * Canonical `name(type,...)` signatures of the functions in an ABI
+ */
+export function abiFunctionSignatures(abi: AbiItem[]): string[] {
+  return abi.filter(item => item.type === 'function' && item.name).map(signature);
+}
+
+/**
+ * Differences between a frontend ABI and the compiled contract it describes:
+ * functions the contract lacks, wrong argument types and wrong stateMutability
+ */
+export function diffAbis(frontend: FrontendAbi, contract: CompiledContract): CompilationError[] {
+  const errors: CompilationError[] = [];
+  const compiled = contract.abi.filter(item => item.type === 'function');
+  const where = `contract ${contract.name} (${contract.file})`;
+
+  for (const { item, line } of frontend.entries) {
+    if (item.type !== 'function' || !item.name) continue;
+    const overloads = compiled.filter(candidate => candidate.name === item.name);
+    const match = overloads.find(candidate => signature(candidate) === signature(item));
+
+    if (overloads.length === 0) {
+      errors.push(abiError(frontend.file, line, 'abi/missing-function',
+        `${frontend.name} declares ${signature(item)}, which ${where} does not have`,
+        `Remove the entry or use a function from ${contract.name}: ${abiFunctionSignatures(compiled).join(', ')}`));
+    } else if (!match) {
+      errors.push(abiError(frontend.file, line, 'abi/argument-types',
+        `${frontend.name} declares ${signature(item)}, but ${where} has ${overloads.map(signature).join(' / ')}`,
+        'Copy the inputs of the function from the compiled contract ABI'));
+    } else if ((item.stateMutability ?? 'nonpayable') !== (match.stateMutability ?? 'nonpayable')) {
+      errors.push(abiError(frontend.file, line, 'abi/state-mutability',
+        `${frontend.name} marks ${signature(item)} as ${item.stateMutability ?? 'nonpayable'}, but ${where} declares it ${match.stateMutability}`,
+        `Set "stateMutability": "${match.stateMutability}"`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check frontend ABIs against the contracts under contracts/src/ and every contract
+ * call's functionName against the ABI it passes. Compiles the contracts unless the
+ * caller already has their ABIs.
+ */
+export async function checkAbiConsistency(files: ProjectFile[], compiledContracts?: CompiledContract[]): Promise<CompilationError[]> {
+  const sources = files.filter(file => SOURCE_FILE.test(file.filename) && !file.filename.includes('node_modules/'));
+  const abis = sources.flatMap(file => parseFrontendAbis(file.filename, file.content));
+  const calls = sources.flatMap(file => findContractCalls(file.filename, file.content));
+  if (abis.length === 0) return [];
+
+  let contracts = compiledContracts;
+  if (!contracts) {
+    // Template contracts live in contracts/src/; older projects keep them in contracts/
+    const all = solidityFiles(files);
+    const templates = all.filter(file => file.filename.startsWith(TEMPLATE_CONTRACTS));
+    const toCompile = templates.length > 0 ? templates : all;
+    contracts = toCompile.length > 0 ? (await createSolidityValidator().compile(toCompile)).contracts : [];
+  }
+
+  const errors: CompilationError[] = [];
+  for (const abi of contracts.length > 0 ? abis : []) {
+    const contract = bestMatchingContract(abi, contracts);
+    if (contract) {
+      errors.push(...diffAbis(abi, contract));
+    } else if (abi.entries.some(entry => entry.item.type === 'function')) {
+      errors.push({
+        ...abiError(abi.file, abi.line, 'abi/no-matching-contract',
+          `${abi.name} shares no function with the project contracts (${contracts.map(c => c.name).join(', ')})`,
+          'Use the ABI of one of the project contracts'),
+        // May describe an external contract (e.g. a token) that is not in the project
+        severity: 'warning',
+      });
+    }
+  }
+
+  for (const call of calls) {
+    const target = abis.find(abi => abi.name === call.abiName);
+    const candidates = (target ? [target] : abis)
+      .flatMap(abi => abi.entries.map(entry => entry.item))
+      .filter(item => item.type === 'function');
+    const functions = candidates.filter(item => item.name === call.functionName);
+
+    if (functions.length === 0) {
+      errors.push(abiError(call.file, call.line, 'abi/unknown-function-name',
+        `${call.callee} uses functionName '${call.functionName}', which is not in ${target?.name ?? 'the project ABIs'}`,
+        `Use one of: ${Array.from(new Set(candidates.map(item => item.name))).join(', ')}`));
+    } else if (call.argCount !== undefined && !functions.some(item => (item.inputs ?? []).length === call.argCount)) {
+      errors.push(abiError(call.file, call.line, 'abi/argument-count',
+        `${call.callee} passes ${call.argCount} args to '${call.functionName}', which takes ${functions.map(item => (item.inputs ?? []).length).join(' or ')}`,
+        `Match the inputs of ${functions.map(signature).join(' / ')}`));
+    } else if (READ_CALLS.has(call.callee) && functions.every(item => item.stateMutability !== 'view' && item.stateMutability !== 'pure')) {
+      errors.push({
+        ...abiError(call.file, call.line, 'abi/read-of-write-function',
+          `${call.callee} reads '${call.functionName}', which is ${functions[0].stateMutability ?? 'nonpayable'}`,
+          'Call state-changing functions with writeContract'),
+        severity: 'warning',
+      });
+    }
+  }
+
+  return errors;
+}
+
+// The contract sharing the most function names with the frontend ABI
+function bestMatchingContract(abi: FrontendAbi, contracts: CompiledContract[]): CompiledContract | undefined {
+  const names = new Set(abi.entries.filter(entry => entry.item.type === 'function').map(entry => entry.item.name));
+  let best: CompiledContract | undefined;
+  let bestShared = 0;
+  for (const contract of contracts) {
+    const shared = contract.abi.filter(item => item.type === 'function' && names.has(item.name)).length;
+    if (shared > bestShared) {
+      best = contract;
+      bestShared = shared;
+    }
+  }
+  return best;
+}
+
+function signature(item: AbiItem): string {
+  return `${item.name}(${(item.inputs ?? []).map(canonicalType).join(',')})`;
+}
+
+// Tuples are compared by their component types, not their names
+function canonicalType(param: { type: string; [key: string]: unknown }): string {
+  if (!param.type.startsWith('tuple')) return param.type;
+  const components = (param.components as { type: string }[] | undefined) ?? [];
+  return `(${components.map(canonicalType).join(',')})${param.type.slice('tuple'.length)}`;
+}
+
+function abiError(file: string, line: number, code: string, message: string, suggestion: string): CompilationError {
+  return { file, line, message, severity: 'error', category: 'abi', code, suggestion };
+}
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node) || ts.isTypeAssertionExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+// JSON value of a literal expression; undefined for anything computed
+function literalValue(node: ts.Expression): unknown {
+  node = unwrap(node);
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (ts.isArrayLiteralExpression(node)) return node.elements.map(literalValue);
+  if (ts.isObjectLiteralExpression(node)) {
+    const value: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const key = ts.isIdentifier(property.name) || ts.isStringLiteralLike(property.name) ? property.name.text : undefined;
+      if (key !== undefined) value[key] = literalValue(property.initializer);
+    }
+    return value;
+  }
+  return undefined;
+}
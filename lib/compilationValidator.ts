@@ -6,6 +6,10 @@ import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { applyDiffToContent } from './diffUtils';
+import { validateTypeScriptInProcess } from './typeScriptValidator';
+import { createSolidityValidator, solidityFiles, type CompiledContract } from './solidityValidator';
+import { checkAbiConsistency } from './abiConsistency';
+import { runRuntimeRules } from './runtimeRules';
 
 const execAsync = promisify(exec);
 
@@ -16,7 +20,7 @@ export interface CompilationError {
   column?: number;
   message: string;
   severity: 'error' | 'warning' | 'info';
-  category: 'typescript' | 'solidity' | 'eslint' | 'build' | 'runtime';
+  category: 'typescript' | 'solidity' | 'eslint' | 'build' | 'runtime' | 'abi';
   code?: string; // Error code (e.g., TS2345, ESLint rule name)
   suggestion?: string; // Suggested fix
   context?: string; // Additional context about the error
@@ -28,6 +32,7 @@ export interface CompilationResult {
   warnings: CompilationError[];
   info: CompilationError[];
   files: { filename: string; content: string }[];
+  compiledContracts?: CompiledContract[]; // ABIs from the Solidity compile, for frontend ABI cross-checks
   compilationTime: number;
   validationSummary: {
     totalFiles: number;
@@ -76,6 +81,7 @@ export class CompilationValidator {
   private projectRoot: string;
   private config: ValidationConfig;
   private startTime: number;
+  private compiledContracts: CompiledContract[] = [];
 
   constructor(projectRoot: string, config: Partial<ValidationConfig> = {}) {
     this.projectRoot = projectRoot;
@@ -111,11 +117,11 @@ export class CompilationValidator {
       const validationPromises = [];
       
       if (this.config.enableTypeScript) {
-        validationPromises.push(this.validateTypeScript());
+        validationPromises.push(this.validateTypeScript(finalFiles));
       }
       
       if (this.config.enableSolidity) {
-        validationPromises.push(this.validateSolidity());
+        validationPromises.push(this.validateSolidity(finalFiles));
       }
       
       if (this.config.enableESLint) {
@@ -167,6 +173,7 @@ export class CompilationValidator {
         warnings: allWarnings,
         info: allInfo,
         files: finalFiles,
+        compiledContracts: this.compiledContracts,
         compilationTime,
         validationSummary
       };
@@ -383,56 +390,65 @@ export class CompilationValidator {
   }
 
   /**
-   * TypeScript compilation validation
+   * TypeScript compilation validation (in-process language service, no temp dir or tsc)
    */
-  private async validateTypeScript(): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
+  private async validateTypeScript(files: { filename: string; content: string }[]): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
     try {
       console.log("🔍 Validating TypeScript compilation...");
-      
-      const { stderr } = await execAsync('npx tsc --noEmit --pretty false --skipLibCheck', {
-        cwd: this.tempDir,
-        timeout: this.config.timeoutMs
-      });
+      const diagnostics = await validateTypeScriptInProcess(files);
 
-      return this.parseTypeScriptErrors(stderr);
-    } catch (error: unknown) {
-      if ((error as { code?: number }).code === 1) {
-        // TypeScript compilation failed - parse errors
-        const errorObj = error as { stderr?: string; stdout?: string };
-        return this.parseTypeScriptErrors(errorObj.stderr || errorObj.stdout || '');
-      }
+      return {
+        errors: diagnostics.filter(d => d.severity === 'error'),
+        warnings: diagnostics.filter(d => d.severity === 'warning'),
+        info: diagnostics.filter(d => d.severity === 'info')
+      };
+    } catch (error) {
       console.warn("⚠️ TypeScript validation failed:", (error as Error).message);
       return { errors: [], warnings: [] };
     }
   }
 
   /**
-   * Solidity compilation validation
+   * Solidity compilation validation (in-process solc-js, no hardhat), followed by the
+   * contract/frontend ABI consistency check
    */
-  private async validateSolidity(): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
-    try {
-      console.log("🔍 Validating Solidity compilation...");
-      
-      const contractsDir = path.join(this.tempDir, 'contracts');
-      if (!fs.existsSync(contractsDir)) {
-        console.log("📁 No contracts directory found, skipping Solidity validation");
-        return { errors: [], warnings: [] };
+  private async validateSolidity(files: { filename: string; content: string }[]): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
+    const diagnostics: CompilationError[] = [];
+
+    if (solidityFiles(files).length === 0) {
+      console.log("📁 No Solidity files found, skipping Solidity compilation");
+    } else {
+      try {
+        console.log("🔍 Validating Solidity compilation...");
+        const compilation = await createSolidityValidator().compile(files);
+        console.log(`  ✅ solc ${compilation.compilerVersion}: ${compilation.contracts.length} contracts, ${compilation.diagnostics.length} diagnostics`);
+        this.compiledContracts = compilation.contracts;
+        diagnostics.push(...compilation.diagnostics);
+      } catch (error) {
+        // A compiler that cannot run is a validation failure, not a clean result
+        console.error("❌ Solidity validation failed:", error);
+        diagnostics.push({
+          file: 'contracts',
+          message: `Solidity compiler failed to run: ${error instanceof Error ? error.message : String(error)}`,
+          severity: 'error',
+          category: 'solidity'
+        });
       }
+    }
 
-      const { stdout, stderr } = await execAsync('npx hardhat compile --force', {
-        cwd: this.tempDir,
-        timeout: this.config.timeoutMs
-      });
-
-      return this.parseSolidityErrors(stderr, stdout);
-    } catch (error: unknown) {
-      if ((error as { code?: number }).code === 1) {
-        const errorObj = error as { stderr?: string; stdout?: string };
-        return this.parseSolidityErrors(errorObj.stderr || '', errorObj.stdout || '');
-      }
-      console.warn("⚠️ Solidity validation failed:", (error as Error).message);
-      return { errors: [], warnings: [] };
+    try {
+      const abiErrors = await checkAbiConsistency(files, this.compiledContracts);
+      console.log(`🔍 ABI consistency: ${abiErrors.length} issues`);
+      diagnostics.push(...abiErrors);
+    } catch (error) {
+      console.warn("⚠️ ABI consistency check failed:", error);
     }
+
+    return {
+      errors: diagnostics.filter(d => d.severity === 'error'),
+      warnings: diagnostics.filter(d => d.severity === 'warning'),
+      info: diagnostics.filter(d => d.severity === 'info')
+    };
   }
 
   /**
@@ -482,208 +498,17 @@ export class CompilationValidator {
   }
 
   /**
-   * Runtime checks validation
+   * Runtime checks validation (AST rules in runtimeRules.ts)
    */
   private async validateRuntimeChecks(files: { filename: string; content: string }[]): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
-    const errors: CompilationError[] = [];
-    const warnings: CompilationError[] = [];
-    const info: CompilationError[] = [];
-
     console.log("🔍 Running runtime checks...");
+    const findings = runRuntimeRules(files);
 
-    // Check for common runtime issues
-    for (const file of files) {
-      if (file.filename.endsWith('.tsx') || file.filename.endsWith('.ts')) {
-        const runtimeIssues = this.checkRuntimeIssues(file.content, file.filename);
-        errors.push(...runtimeIssues.errors);
-        warnings.push(...runtimeIssues.warnings);
-        info.push(...runtimeIssues.info);
-      }
-    }
-
-    return { errors, warnings, info };
-  }
-
-  /**
-   * Check for runtime issues in code
-   */
-  private checkRuntimeIssues(content: string, filename: string): { errors: CompilationError[]; warnings: CompilationError[]; info: CompilationError[] } {
-    const errors: CompilationError[] = [];
-    const warnings: CompilationError[] = [];
-    const info: CompilationError[] = [];
-
-    const lines = content.split('\n');
-
-    // Check for common runtime issues
-    lines.forEach((line, index) => {
-      const lineNumber = index + 1;
-
-      // Check for undefined variables in JSX
-      if (line.includes('onClick={() =>') && line.includes('undefined')) {
-        errors.push({
-          file: filename,
-          line: lineNumber,
-          message: 'Potential runtime error: undefined function in onClick handler',
-          severity: 'error',
-          category: 'runtime',
-          suggestion: 'Ensure the function is properly defined and accessible'
-        });
-      }
-
-      // Check for missing error boundaries
-      if (line.includes('throw new Error') && !content.includes('ErrorBoundary')) {
-        warnings.push({
-          file: filename,
-          line: lineNumber,
-          message: 'Consider adding ErrorBoundary for error handling',
-          severity: 'warning',
-          category: 'runtime',
-          suggestion: 'Wrap components with ErrorBoundary to handle errors gracefully'
-        });
-      }
-
-      // Check for potential memory leaks
-      if (line.includes('setInterval') || line.includes('setTimeout')) {
-        if (!content.includes('clearInterval') && !content.includes('clearTimeout')) {
-          warnings.push({
-            file: filename,
-            line: lineNumber,
-            message: 'Potential memory leak: timer not cleared',
-            severity: 'warning',
-            category: 'runtime',
-            suggestion: 'Clear timers in useEffect cleanup function'
-          });
-        }
-      }
-
-      // Check for async/await without error handling
-      if (line.includes('await ') && !line.includes('try') && !line.includes('catch')) {
-        const hasTryCatch = content.includes('try {') && content.includes('} catch');
-        if (!hasTryCatch) {
-          info.push({
-            file: filename,
-            line: lineNumber,
-            message: 'Consider adding error handling for async operations',
-            severity: 'info',
-            category: 'runtime',
-            suggestion: 'Wrap async operations in try-catch blocks'
-          });
-        }
-      }
-    });
-
-    return { errors, warnings, info };
-  }
-
-  /**
-   * Parse TypeScript compiler errors
-   */
-  private parseTypeScriptErrors(output: string): { errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] } {
-    const errors: CompilationError[] = [];
-    const warnings: CompilationError[] = [];
-    const info: CompilationError[] = [];
-
-    const lines = output.split('\n');
-    
-    for (const line of lines) {
-      // Parse TypeScript compiler output format
-      const match = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) TS(\d+): (.+)$/);
-      if (match) {
-        const [, file, lineNum, col, severity, code, message] = match;
-        const relativeFile = path.relative(this.tempDir, file);
-        
-        const error: CompilationError = {
-          file: relativeFile,
-          line: parseInt(lineNum),
-          column: parseInt(col),
-          message: `TS${code}: ${message}`,
-          severity: severity as 'error' | 'warning',
-          category: 'typescript',
-          code: `TS${code}`,
-          suggestion: this.getTypeScriptSuggestion(code)
-        };
-
-        if (severity === 'error') {
-          errors.push(error);
-        } else {
-          warnings.push(error);
-        }
-      }
-    }
-
-    return { errors, warnings, info };
-  }
-
-  /**
-   * Get TypeScript error suggestions
-   */
-  private getTypeScriptSuggestion(code: string): string {
-    const suggestions: Record<string, string> = {
-      '2345': 'Check if the property exists on the type or add proper type annotations',
-      '2304': 'Declare the variable or import it from the correct module',
-      '2339': 'Add the missing property to the interface or type definition',
-      '2551': 'Import the missing property or check the import path',
-      '2322': 'Ensure the value matches the expected type',
-      '2344': 'Check the function signature and parameter types'
+    return {
+      errors: findings.filter(f => f.severity === 'error'),
+      warnings: findings.filter(f => f.severity === 'warning'),
+      info: findings.filter(f => f.severity === 'info')
     };
-
-    return suggestions[code] || 'Review the TypeScript error and fix the type mismatch';
-  }
-
-  /**
-   * Parse Solidity compilation errors
-   */
-  private parseSolidityErrors(stderr: string, stdout: string): { errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] } {
-    const errors: CompilationError[] = [];
-    const warnings: CompilationError[] = [];
-    const info: CompilationError[] = [];
-
-    const output = stderr + stdout;
-    const lines = output.split('\n');
-
-    for (const line of lines) {
-      if (line.includes('Error:') || line.includes('Warning:')) {
-        const isError = line.includes('Error:');
-        const message = line.replace(/^(Error|Warning):\s*/, '');
-        
-        // Try to extract file and line information
-        const fileMatch = line.match(/contracts\/([^:]+):(\d+):(\d+)/);
-        
-        const error: CompilationError = {
-          file: fileMatch ? `contracts/${fileMatch[1]}` : 'contracts',
-          line: fileMatch ? parseInt(fileMatch[2]) : undefined,
-          column: fileMatch ? parseInt(fileMatch[3]) : undefined,
-          message,
-          severity: isError ? 'error' : 'warning',
-          category: 'solidity',
-          suggestion: this.getSoliditySuggestion(message)
-        };
-
-        if (isError) {
-          errors.push(error);
-        } else {
-          warnings.push(error);
-        }
-      }
-    }
-
-    return { errors, warnings, info };
-  }
-
-  /**
-   * Get Solidity error suggestions
-   */
-  private getSoliditySuggestion(_message: string): string {
-    if (_message.includes('DeclarationError')) {
-      return 'Check variable declarations and ensure they are properly defined';
-    }
-    if (_message.includes('TypeError')) {
-      return 'Verify type compatibility and casting operations';
-    }
-    if (_message.includes('ParserError')) {
-      return 'Check syntax and ensure all brackets and semicolons are correct';
-    }
-    return 'Review the Solidity error and fix the compilation issue';
   }
 
   /**
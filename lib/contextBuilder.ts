@@ -0,0 +1,237 @@
+/**
+ * Token-budgeted context selection for follow-up edits
+ * Ranks project files by relevance to the request (import graph distance from the
+ * intent's target files, Stage 0 grep hits, recent edits), packs full contents for
+ * the top files within a token budget and outlines the rest.
+ */
+
+import { createModuleGraph } from './moduleGraph';
+
+export interface ContextOptions {
+  // Token budget for full file contents (default 50000, CONTEXT_TOKEN_BUDGET)
+  maxTokens?: number;
+  // Files matched by Stage 0 grep tool calls
+  grepHits?: string[];
+  // Most recently edited first
+  recentlyEdited?: string[];
+}
+
+export interface ContextSignals extends Omit<ContextOptions, 'maxTokens'> {
+  // IntentSpec.targetFiles
+  targetFiles?: string[];
+}
+
+export interface FileOutline {
+  filename: string;
+  outline: string;
+}
+
+export interface ProjectContext {
+  // Sent in full, most relevant first
+  files: { filename: string; content: string }[];
+  // Signatures only, for files that did not fit the budget
+  outlines: FileOutline[];
+  estimatedTokens: number;
+}
+
+type ProjectFile = { filename: string; content: string };
+
+const DEFAULT_MAX_TOKENS = 50000;
+// Relevance for import graph distance 0 (target file), 1, 2, 3 from the targets
+const GRAPH_SCORES = [100, 60, 30, 15];
+const GREP_HIT_SCORE = 50;
+const RECENT_EDIT_SCORE = 30;
+const RECENT_EDIT_DECAY = 5;
+const MAX_OUTLINE_LINE = 160;
+
+const OUTLINE_LINE = /^(?:export\s|import\s|(?:async\s+)?function\s|const\s|let\s|class\s|interface\s|type\s|enum\s|contract\s|abstract\s+contract\s|library\s|pragma\s)/;
+const SOLIDITY_MEMBER = /^\s{2,8}(?:function|event|modifier|struct|error|constructor|mapping)\b/;
+
+// Rough token count (~4 chars per token), matching the mock provider
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Project files each file imports, resolved through the module graph
+ */
+export function buildImportGraph(files: ProjectFile[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  createModuleGraph(files).modules.forEach(module => {
+    const imports = module.imports.flatMap(entry => (entry.resolved ? [entry.resolved] : []));
+    graph.set(module.filename, Array.from(new Set(imports)));
+  });
+  return graph;
+}
+
+/**
+ * Score every file by relevance to the request, highest first
+ */
+export function rankFilesByRelevance(
+  files: ProjectFile[],
+  signals: ContextSignals
+): { filename: string; score: number }[] {
+  const distances = importDistances(buildImportGraph(files), signals.targetFiles ?? []);
+  const grepHits = new Set(signals.grepHits ?? []);
+  const recent = signals.recentlyEdited ?? [];
+
+  return files
+    .map(file => {
+      const distance = distances.get(file.filename);
+      let score = distance !== undefined ? GRAPH_SCORES[distance] ?? 0 : 0;
+      if (grepHits.has(file.filename)) score += GREP_HIT_SCORE;
+      const recentIndex = recent.indexOf(file.filename);
+      if (recentIndex >= 0) score += Math.max(0, RECENT_EDIT_SCORE - recentIndex * RECENT_EDIT_DECAY);
+      return { filename: file.filename, score };
+    })
+    .sort((a, b) => b.score - a.score || a.filename.localeCompare(b.filename));
+}
+
+/**
+ * Pack full contents of the most relevant files within the budget; outline the rest.
+ * Projects that fit the budget are sent whole.
+ */
+export function buildProjectContext(
+  files: ProjectFile[],
+  signals: ContextSignals,
+  maxTokens: number = DEFAULT_MAX_TOKENS
+): ProjectContext {
+  const byName = new Map(files.map(file => [file.filename, file]));
+  const context: ProjectContext = { files: [], outlines: [], estimatedTokens: 0 };
+
+  for (const { filename } of rankFilesByRelevance(files, signals)) {
+    const file = byName.get(filename)!;
+    const tokens = estimateTokens(file.content);
+    if (context.estimatedTokens + tokens <= maxTokens) {
+      context.files.push(file);
+      context.estimatedTokens += tokens;
+    } else {
+      const outline = outlineFile(file.filename, file.content);
+      context.outlines.push({ filename, outline });
+      context.estimatedTokens += estimateTokens(outline);
+    }
+  }
+  return context;
+}
+
+/**
+ * Move outlined files the later stages must see in full (e.g. files the patch plan
+ * modifies) into the full file list, whatever the budget
+ */
+export function includeFullFiles(
+  context: ProjectContext,
+  filenames: string[],
+  allFiles: ProjectFile[]
+): ProjectContext {
+  const wanted = new Set(filenames);
+  const promoted = allFiles.filter(file =>
+    wanted.has(file.filename) && context.outlines.some(outline => outline.filename === file.filename)
+  );
+  if (promoted.length === 0) return context;
+
+  const promotedNames = new Set(promoted.map(file => file.filename));
+  const outlines = context.outlines.filter(outline => !promotedNames.has(outline.filename));
+  const files = [...context.files, ...promoted];
+  return {
+    files,
+    outlines,
+    estimatedTokens: files.reduce((total, file) => total + estimateTokens(file.content), 0)
+      + outlines.reduce((total, outline) => total + estimateTokens(outline.outline), 0),
+  };
+}
+
+/**
+ * Signature lines of a file: imports, exports, top-level declarations and Solidity
+ * members, with bodies dropped
+ */
+export function outlineFile(filename: string, content: string): string {
+  const lines = content.split('\n');
+  if (!/\.(tsx?|jsx?|sol)$/.test(filename)) {
+    return `(${lines.length} lines)`;
+  }
+  const outline = lines
+    .filter(line => OUTLINE_LINE.test(line) || (filename.endsWith('.sol') && SOLIDITY_MEMBER.test(line)))
+    .map(line => line.trimEnd().replace(/\{$/, '{ ... }'))
+    .map(line => (line.length > MAX_OUTLINE_LINE ? `${line.slice(0, MAX_OUTLINE_LINE)}...` : line));
+  return [...outline, `(${lines.length} lines)`].join('\n');
+}
+
+/**
+ * Project files named in grep output ("app/page.tsx:12:..." or "./app/page.tsx:...")
+ */
+export function findGrepHits(outputs: string[], filenames: string[]): string[] {
+  const matched = new Set<string>();
+  for (const output of outputs) {
+    for (const line of output.split('\n')) {
+      const match = line.match(/^(?:\.\/)?([^:\s]+\.\w+):/);
+      if (!match) continue;
+      const hit = filenames.find(filename => filename === match[1] || filename.endsWith(`/${match[1]}`));
+      if (hit) matched.add(hit);
+    }
+  }
+  return Array.from(matched);
+}
+
+/**
+ * Files whose version moved past the first write, most recently updated first
+ */
+export function recentlyEditedFiles(
+  rows: { filename: string; version: number; updatedAt: Date }[],
+  limit: number = 5
+): string[] {
+  return rows
+    .filter(row => row.version > 1)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, limit)
+    .map(row => row.filename);
+}
+
+/**
+ * Read the context budget from CONTEXT_TOKEN_BUDGET
+ */
+export function contextOptionsFromEnv(): ContextOptions {
+  const maxTokens = parseInt(process.env.CONTEXT_TOKEN_BUDGET || String(DEFAULT_MAX_TOKENS));
+  return { maxTokens: isNaN(maxTokens) ? DEFAULT_MAX_TOKENS : maxTokens };
+}
+
+/**
+ * Format outlined files for a prompt section (empty when every file is sent in full)
+ */
+export function formatFileOutlines(outlines: FileOutline[]): string {
+  if (outlines.length === 0) return '';
+  return `
+OTHER PROJECT FILES (outline only - signatures without bodies. To change one of these, describe the changes without diff hunks; the code generator receives the full file):
+${outlines.map(outline => `---${outline.filename}---\n${outline.outline}`).join('\n\n')}
+`;
+}
+
+// Breadth-first distance from the target files over import edges in both directions
+function importDistances(graph: Map<string, string[]>, targets: string[]): Map<string, number> {
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    neighbours.get(a)!.add(b);
+  };
+  graph.forEach((imports, filename) => {
+    imports.forEach(imported => {
+      link(filename, imported);
+      link(imported, filename);
+    });
+  });
+
+  const distances = new Map<string, number>();
+  let frontier = targets.filter(target => graph.has(target));
+  frontier.forEach(target => distances.set(target, 0));
+  for (let distance = 1; frontier.length > 0 && distance < GRAPH_SCORES.length; distance++) {
+    const next: string[] = [];
+    for (const filename of frontier) {
+      neighbours.get(filename)?.forEach(neighbour => {
+        if (distances.has(neighbour)) return;
+        distances.set(neighbour, distance);
+        next.push(neighbour);
+      });
+    }
+    frontier = next;
+  }
+  return distances;
+}
@@ -1,5 +1,6 @@
-import { db, users, projects, projectFiles, projectPatches, projectDeployments, userSessions, chatMessages, generationJobs } from '../db';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, users, projects, projectFiles, fileRevisions, projectSnapshots, projectPatches, projectDeployments, userSessions, chatMessages, generationJobs, generationJobEvents, llmUsage, userQuotas } from '../db';
+import { eq, and, desc, sql, inArray, isNull, gt, lt, asc } from 'drizzle-orm';
+import { CACHE_READ_MULTIPLIER, CACHE_WRITE_MULTIPLIER } from './promptCache';
 
 // Type definition for generation job context
 export interface GenerationJobContext {
@@ -88,10 +89,75 @@ export async function deleteProject(projectId: string) {
 }
 
 // Project files management
-export async function saveProjectFiles(projectId: string, files: { filename: string; content: string }[]) {
-  // Delete existing files for this project
-  await db.delete(projectFiles).where(eq(projectFiles.projectId, projectId));
-  
+// project_files holds each file's current content. Every change also appends a row
+// to file_revisions, so project_files.version is the number of the latest revision.
+export type FileRevisionSource = 'import' | 'create' | 'generation' | 'follow_up' | 'user_edit' | 'revert' | 'restore' | 'fork';
+
+export interface FileRevisionOrigin {
+  source: FileRevisionSource;
+  jobId?: string;
+  patchId?: string;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// The db or an open transaction, for queries that may run inside one
+export type DbExecutor = typeof db | Transaction;
+
+const revisionSummaryColumns = {
+  id: fileRevisions.id,
+  filename: fileRevisions.filename,
+  version: fileRevisions.version,
+  deleted: fileRevisions.deleted,
+  source: fileRevisions.source,
+  jobId: fileRevisions.jobId,
+  patchId: fileRevisions.patchId,
+  createdAt: fileRevisions.createdAt,
+};
+
+async function getLatestFileVersions(tx: Transaction, projectId: string, filenames?: string[]) {
+  const rows = await tx.select({
+    filename: fileRevisions.filename,
+    version: sql<number>`max(${fileRevisions.version})::int`,
+  })
+    .from(fileRevisions)
+    .where(filenames
+      ? and(eq(fileRevisions.projectId, projectId), inArray(fileRevisions.filename, filenames))
+      : eq(fileRevisions.projectId, projectId))
+    .groupBy(fileRevisions.filename);
+  return new Map(rows.map(row => [row.filename, row.version]));
+}
+
+export interface SaveProjectFilesOptions {
+  // Write only the given files and keep the rest (follow-ups return changed files only)
+  partial?: boolean;
+  // Files to remove in a partial save
+  deleted?: string[];
+  // Current version each file must still have (null: must not exist); the save fails otherwise
+  expectedVersions?: Record<string, number | null>;
+}
+
+export class FileVersionConflictError extends Error {
+  filenames: string[];
+
+  constructor(projectId: string, filenames: string[]) {
+    super(`Files of project ${projectId} changed since they were read: ${filenames.join(', ')}`);
+    this.name = 'FileVersionConflictError';
+    this.filenames = filenames;
+  }
+}
+
+/**
+ * Replace a project's file set. Only files whose content changed get a new
+ * version; files missing from `files` are removed and recorded as deleted.
+ * A partial save removes only the files listed in `deleted`.
+ * Returns the revisions written.
+ */
+export async function saveProjectFiles(
+  projectId: string,
+  files: { filename: string; content: string }[],
+  origin: FileRevisionOrigin = { source: 'generation' },
+  options: SaveProjectFilesOptions = {}
+) {
   // Filter out files that might cause encoding issues
   const safeFiles = files.filter(file => {
     // Check for potential encoding issues
@@ -103,16 +169,66 @@ export async function saveProjectFiles(projectId: string, files: { filename: str
   });
   
   console.log(`📁 Saving ${safeFiles.length} safe files to database (${files.length - safeFiles.length} filtered out)`);
-  
-  // Insert new files
-  const fileRecords = safeFiles.map(file => ({
-    projectId,
-    filename: file.filename,
-    content: file.content,
-    version: 1,
-  }));
-  
-  return await db.insert(projectFiles).values(fileRecords).returning();
+
+  // Last occurrence wins if a filename appears twice
+  const incoming = new Map(safeFiles.map(file => [file.filename, file.content]));
+  const deleted = new Set(options.deleted ?? []);
+  const isRemoved = (filename: string) => !incoming.has(filename) && (!options.partial || deleted.has(filename));
+
+  return await db.transaction(async (tx) => {
+    const existing = await tx.select().from(projectFiles).where(eq(projectFiles.projectId, projectId));
+    const existingByName = new Map(existing.map(file => [file.filename, file]));
+    const latestVersions = await getLatestFileVersions(tx, projectId);
+    const nextVersion = (filename: string) =>
+      Math.max(latestVersions.get(filename) ?? 0, existingByName.get(filename)?.version ?? 0) + 1;
+
+    const stale = Object.entries(options.expectedVersions ?? {})
+      .filter(([filename, version]) => (existingByName.get(filename)?.version ?? null) !== version)
+      .map(([filename]) => filename);
+    if (stale.length > 0) throw new FileVersionConflictError(projectId, stale);
+
+    const now = new Date();
+    const revisions: (typeof fileRevisions.$inferInsert)[] = [];
+
+    for (const [filename, content] of incoming) {
+      const current = existingByName.get(filename);
+      if (current && current.content === content) continue;
+
+      const version = nextVersion(filename);
+      if (current) {
+        // Only if nobody wrote the file since it was read above
+        const updated = await tx.update(projectFiles)
+          .set({ content, version, updatedAt: now })
+          .where(and(eq(projectFiles.id, current.id), eq(projectFiles.version, current.version)))
+          .returning({ id: projectFiles.id });
+        if (updated.length === 0) throw new FileVersionConflictError(projectId, [filename]);
+      } else {
+        await tx.insert(projectFiles).values({ projectId, filename, content, version });
+      }
+      revisions.push({ projectId, filename, version, content, ...origin });
+    }
+
+    for (const current of existing) {
+      if (!isRemoved(current.filename)) continue;
+
+      const removed = await tx.delete(projectFiles)
+        .where(and(eq(projectFiles.id, current.id), eq(projectFiles.version, current.version)))
+        .returning({ id: projectFiles.id });
+      if (removed.length === 0) throw new FileVersionConflictError(projectId, [current.filename]);
+      revisions.push({
+        projectId,
+        filename: current.filename,
+        version: nextVersion(current.filename),
+        content: '',
+        deleted: true,
+        ...origin,
+      });
+    }
+
+    console.log(`📜 Recorded ${revisions.length} file revision(s) for project ${projectId}`);
+    if (revisions.length === 0) return [];
+    return await tx.insert(fileRevisions).values(revisions).returning(revisionSummaryColumns);
+  });
 }
 
 export async function getProjectFiles(projectId: string) {
@@ -121,12 +237,290 @@ export async function getProjectFiles(projectId: string) {
     .orderBy(projectFiles.filename);
 }
 
-export async function updateProjectFile(projectId: string, filename: string, content: string) {
-  const [file] = await db.update(projectFiles)
-    .set({ content, updatedAt: new Date() })
+async function writeProjectFile(tx: Transaction, projectId: string, filename: string, content: string, origin: FileRevisionOrigin) {
+  const [current] = await tx.select().from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, filename)));
+  const latest = (await getLatestFileVersions(tx, projectId, [filename])).get(filename) ?? 0;
+  const version = Math.max(latest, current?.version ?? 0) + 1;
+
+  const [file] = current
+    ? await tx.update(projectFiles)
+      .set({ content, version, updatedAt: new Date() })
+      .where(and(eq(projectFiles.id, current.id), eq(projectFiles.version, current.version)))
+      .returning()
+    : await tx.insert(projectFiles).values({ projectId, filename, content, version }).returning();
+  if (!file) throw new FileVersionConflictError(projectId, [filename]);
+
+  const [revision] = await tx.insert(fileRevisions)
+    .values({ projectId, filename, version, content, ...origin })
+    .returning(revisionSummaryColumns);
+  return { file, revision };
+}
+
+async function removeProjectFile(tx: Transaction, projectId: string, filename: string, origin: FileRevisionOrigin) {
+  const [current] = await tx.delete(projectFiles)
     .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, filename)))
     .returning();
-  return file;
+  if (!current) return undefined;
+
+  const latest = (await getLatestFileVersions(tx, projectId, [filename])).get(filename) ?? 0;
+  const [revision] = await tx.insert(fileRevisions)
+    .values({
+      projectId,
+      filename,
+      version: Math.max(latest, current.version) + 1,
+      content: '',
+      deleted: true,
+      ...origin,
+    })
+    .returning(revisionSummaryColumns);
+  return revision;
+}
+
+/**
+ * Write one file, creating it if needed, and record the change as a new revision
+ */
+export async function updateProjectFile(projectId: string, filename: string, content: string, origin: FileRevisionOrigin) {
+  return await db.transaction(tx => writeProjectFile(tx, projectId, filename, content, origin));
+}
+
+export async function deleteProjectFile(projectId: string, filename: string, origin: FileRevisionOrigin) {
+  return await db.transaction(tx => removeProjectFile(tx, projectId, filename, origin));
+}
+
+// File revision history
+export async function getFileHistory(projectId: string, filename: string) {
+  return await db.select(revisionSummaryColumns).from(fileRevisions)
+    .where(and(eq(fileRevisions.projectId, projectId), eq(fileRevisions.filename, filename)))
+    .orderBy(desc(fileRevisions.version));
+}
+
+export async function getFileRevision(projectId: string, filename: string, version: number) {
+  const [revision] = await db.select().from(fileRevisions)
+    .where(and(
+      eq(fileRevisions.projectId, projectId),
+      eq(fileRevisions.filename, filename),
+      eq(fileRevisions.version, version)
+    ));
+  return revision;
+}
+
+/**
+ * Attach revisions to the patch that describes them (patches are saved after the files)
+ */
+export async function linkFileRevisionsToPatch(revisionIds: string[], patchId: string) {
+  if (revisionIds.length === 0) return;
+  await db.update(fileRevisions)
+    .set({ patchId })
+    .where(inArray(fileRevisions.id, revisionIds));
+}
+
+// Project snapshots
+export interface SnapshotFileRef {
+  filename: string;
+  version: number;
+}
+
+export interface SnapshotDeployment {
+  platform: string;
+  deploymentUrl: string;
+  status: string;
+  contractAddresses: Record<string, string> | null;
+}
+
+export interface SnapshotProjectState {
+  previewUrl: string | null;
+  vercelUrl: string | null;
+  farcasterManifest: unknown;
+}
+
+type SnapshotChatMessage = Omit<typeof chatMessages.$inferSelect, 'id' | 'projectId'> & { timestamp: string | Date };
+
+/**
+ * Capture a project's current files (as revision references), chat and deployment state
+ */
+export async function createProjectSnapshot(projectId: string, name: string, description?: string) {
+  return await db.transaction(async (tx) => {
+    const [project] = await tx.select().from(projects).where(eq(projects.id, projectId));
+    const files = await tx.select({ filename: projectFiles.filename, version: projectFiles.version })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(projectFiles.filename);
+    const chat = await tx.select().from(chatMessages)
+      .where(eq(chatMessages.projectId, projectId))
+      .orderBy(chatMessages.timestamp);
+    const [deployment] = await tx.select().from(projectDeployments)
+      .where(eq(projectDeployments.projectId, projectId))
+      .orderBy(desc(projectDeployments.createdAt))
+      .limit(1);
+
+    const [snapshot] = await tx.insert(projectSnapshots).values({
+      projectId,
+      name,
+      description,
+      files: files satisfies SnapshotFileRef[],
+      chat: chat.map(({ role, content, timestamp, phase, changedFiles }) => ({ role, content, timestamp, phase, changedFiles })),
+      deployment: deployment ? {
+        platform: deployment.platform,
+        deploymentUrl: deployment.deploymentUrl,
+        status: deployment.status,
+        contractAddresses: (deployment.contractAddresses as Record<string, string> | null) ?? null,
+      } satisfies SnapshotDeployment : null,
+      projectState: {
+        previewUrl: project?.previewUrl ?? null,
+        vercelUrl: project?.vercelUrl ?? null,
+        farcasterManifest: project?.farcasterManifest ?? null,
+      } satisfies SnapshotProjectState,
+    }).returning();
+    return snapshot;
+  });
+}
+
+export async function getProjectSnapshots(projectId: string) {
+  return await db.select({
+    id: projectSnapshots.id,
+    projectId: projectSnapshots.projectId,
+    name: projectSnapshots.name,
+    description: projectSnapshots.description,
+    fileCount: sql<number>`jsonb_array_length(${projectSnapshots.files})::int`,
+    messageCount: sql<number>`jsonb_array_length(${projectSnapshots.chat})::int`,
+    createdAt: projectSnapshots.createdAt,
+  })
+    .from(projectSnapshots)
+    .where(eq(projectSnapshots.projectId, projectId))
+    .orderBy(desc(projectSnapshots.createdAt));
+}
+
+export async function getProjectSnapshotById(snapshotId: string) {
+  const [snapshot] = await db.select().from(projectSnapshots).where(eq(projectSnapshots.id, snapshotId));
+  return snapshot;
+}
+
+export async function getProjectSnapshotByName(projectId: string, name: string) {
+  const [snapshot] = await db.select().from(projectSnapshots)
+    .where(and(eq(projectSnapshots.projectId, projectId), eq(projectSnapshots.name, name)));
+  return snapshot;
+}
+
+export async function deleteProjectSnapshot(snapshotId: string) {
+  await db.delete(projectSnapshots).where(eq(projectSnapshots.id, snapshotId));
+}
+
+/**
+ * Load the file contents a snapshot points at
+ */
+export async function getSnapshotFiles(snapshot: typeof projectSnapshots.$inferSelect) {
+  const refs = snapshot.files as SnapshotFileRef[];
+  if (refs.length === 0) return [];
+
+  const wanted = new Map(refs.map(ref => [ref.filename, ref.version]));
+  const rows = await db.select({
+    filename: fileRevisions.filename,
+    version: fileRevisions.version,
+    content: fileRevisions.content,
+  })
+    .from(fileRevisions)
+    .where(and(
+      eq(fileRevisions.projectId, snapshot.projectId),
+      inArray(fileRevisions.filename, Array.from(wanted.keys()))
+    ));
+
+  const files = rows
+    .filter(row => wanted.get(row.filename) === row.version)
+    .map(({ filename, content }) => ({ filename, content }));
+
+  if (files.length !== refs.length) {
+    const found = new Set(files.map(f => f.filename));
+    const missing = refs.filter(ref => !found.has(ref.filename)).map(ref => `${ref.filename}@${ref.version}`);
+    throw new Error(`Snapshot ${snapshot.id} references missing file revisions: ${missing.join(', ')}`);
+  }
+
+  return files.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+async function writeSnapshotChat(tx: Transaction, projectId: string, chat: SnapshotChatMessage[]) {
+  if (chat.length === 0) return;
+  await tx.insert(chatMessages).values(chat.map(message => ({
+    projectId,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.timestamp),
+    phase: message.phase,
+    changedFiles: message.changedFiles,
+  })));
+}
+
+/**
+ * Put a project back to a snapshot. Files are saved as new revisions, so the
+ * restore itself shows up in file history and can be undone with another snapshot.
+ * Returns the file set and the revisions written.
+ */
+export async function restoreProjectSnapshot(snapshotId: string) {
+  const snapshot = await getProjectSnapshotById(snapshotId);
+  if (!snapshot) return undefined;
+
+  const files = await getSnapshotFiles(snapshot);
+  const revisions = await saveProjectFiles(snapshot.projectId, files, { source: 'restore' });
+  const deployment = snapshot.deployment as SnapshotDeployment | null;
+  const state = snapshot.projectState as SnapshotProjectState | null;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(chatMessages).where(eq(chatMessages.projectId, snapshot.projectId));
+    await writeSnapshotChat(tx, snapshot.projectId, snapshot.chat as SnapshotChatMessage[]);
+
+    // A new deployment row makes the snapshot's contract addresses the latest again
+    if (deployment) {
+      await tx.insert(projectDeployments).values({ projectId: snapshot.projectId, ...deployment });
+    }
+
+    if (state) {
+      await tx.update(projects)
+        .set({ ...state, updatedAt: new Date() })
+        .where(eq(projects.id, snapshot.projectId));
+    }
+  });
+
+  console.log(`⏪ Restored project ${snapshot.projectId} to snapshot "${snapshot.name}" (${revisions.length} file change(s))`);
+  return { snapshot, files, revisions };
+}
+
+/**
+ * Create a new project for `userId` from a snapshot's files and chat.
+ * The fork keeps the snapshot's contract addresses (the contracts are shared on-chain)
+ * but not its preview, which belongs to the source project.
+ */
+export async function forkProjectSnapshot(snapshotId: string, userId: string, name: string) {
+  const snapshot = await getProjectSnapshotById(snapshotId);
+  if (!snapshot) return undefined;
+
+  const [source] = await db.select().from(projects).where(eq(projects.id, snapshot.projectId));
+  const files = await getSnapshotFiles(snapshot);
+  const deployment = snapshot.deployment as SnapshotDeployment | null;
+
+  const project = await db.transaction(async (tx) => {
+    const [fork] = await tx.insert(projects).values({
+      userId,
+      name,
+      description: source?.description,
+      forkedFromSnapshotId: snapshot.id,
+    }).returning();
+
+    await writeSnapshotChat(tx, fork.id, snapshot.chat as SnapshotChatMessage[]);
+
+    if (deployment?.contractAddresses) {
+      await tx.insert(projectDeployments).values({
+        projectId: fork.id,
+        ...deployment,
+        status: 'forked',
+      });
+    }
+    return fork;
+  });
+
+  await saveProjectFiles(project.id, files, { source: 'fork' });
+
+  console.log(`🍴 Forked snapshot "${snapshot.name}" of ${snapshot.projectId} into project ${project.id}`);
+  return { project, files };
 }
 
 // Patch management
@@ -149,6 +543,59 @@ export async function getProjectPatches(projectId: string) {
     .orderBy(desc(projectPatches.appliedAt));
 }
 
+export async function getPatchById(patchId: string) {
+  const [patch] = await db.select().from(projectPatches).where(eq(projectPatches.id, patchId));
+  return patch;
+}
+
+/**
+ * Revert a patch in one transaction: write the reverted files, mark the patch reverted
+ * and store the revert as a patch of its own, linked to the revisions it wrote.
+ * Returns undefined, changing nothing, if the patch was reverted in the meantime.
+ * Throws FileVersionConflictError if a file no longer has the version in
+ * `expectedVersions` (the one the reverted content was computed from).
+ */
+export async function applyPatchRevert(
+  projectId: string,
+  patchId: string,
+  changes: {
+    files: { filename: string; content: string }[];
+    deletedFiles: string[];
+    expectedVersions: Record<string, number | null>;
+  },
+  revert: { patchData: Record<string, unknown>; description: string }
+) {
+  return await db.transaction(async (tx) => {
+    const [patch] = await tx.update(projectPatches)
+      .set({ revertedAt: new Date() })
+      .where(and(eq(projectPatches.id, patchId), isNull(projectPatches.revertedAt)))
+      .returning();
+    if (!patch) return undefined;
+
+    const filenames = Object.keys(changes.expectedVersions);
+    const existing = filenames.length > 0
+      ? await tx.select({ filename: projectFiles.filename, version: projectFiles.version }).from(projectFiles)
+        .where(and(eq(projectFiles.projectId, projectId), inArray(projectFiles.filename, filenames)))
+      : [];
+    const versions = new Map(existing.map(file => [file.filename, file.version]));
+    const stale = filenames.filter(filename => (versions.get(filename) ?? null) !== changes.expectedVersions[filename]);
+    if (stale.length > 0) throw new FileVersionConflictError(projectId, stale);
+
+    const [revertRecord] = await tx.insert(projectPatches)
+      .values({ projectId, patchData: revert.patchData, description: revert.description })
+      .returning();
+
+    const origin: FileRevisionOrigin = { source: 'revert', patchId: revertRecord.id };
+    for (const file of changes.files) {
+      await writeProjectFile(tx, projectId, file.filename, file.content, origin);
+    }
+    for (const filename of changes.deletedFiles) {
+      await removeProjectFile(tx, projectId, filename, origin);
+    }
+    return { patch, revertRecord };
+  });
+}
+
 export async function revertPatch(patchId: string) {
   const [patch] = await db.update(projectPatches)
     .set({ revertedAt: new Date() })
@@ -324,16 +771,19 @@ export async function clearProjectChatMessages(projectId: string) {
 }
 
 // Generation job management functions
+export type GenerationJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead';
+
 export async function createGenerationJob(
   userId: string,
   prompt: string,
   context: Record<string, unknown>,
-  projectId?: string
+  projectId?: string,
+  executor: DbExecutor = db
 ) {
   const expiresAt = new Date();
   expiresAt.setHours(expiresAt.getHours() + 24); // 24 hours from now
 
-  const [job] = await db.insert(generationJobs).values({
+  const [job] = await executor.insert(generationJobs).values({
     userId,
     projectId: projectId || null,
     prompt,
@@ -348,11 +798,16 @@ export async function getGenerationJobById(jobId: string) {
   return job;
 }
 
+/**
+ * Update a job's status. With a workerId the write only lands while that worker still
+ * holds the job's lease; returns undefined when another worker has taken it over.
+ */
 export async function updateGenerationJobStatus(
   jobId: string,
-  status: 'pending' | 'processing' | 'completed' | 'failed',
+  status: GenerationJobStatus,
   result?: Record<string, unknown>,
-  error?: string
+  error?: string,
+  workerId?: string
 ) {
   const updates: Record<string, unknown> = { status };
 
@@ -360,8 +815,11 @@ export async function updateGenerationJobStatus(
     updates.startedAt = new Date();
   }
 
-  if (status === 'completed' || status === 'failed') {
+  if (status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'dead') {
     updates.completedAt = new Date();
+    // Finished jobs no longer hold a queue lease
+    updates.lockedBy = null;
+    updates.leaseExpiresAt = null;
   }
 
   if (result !== undefined) {
@@ -374,11 +832,188 @@ export async function updateGenerationJobStatus(
 
   const [job] = await db.update(generationJobs)
     .set(updates)
+    .where(workerId
+      ? and(eq(generationJobs.id, jobId), eq(generationJobs.lockedBy, workerId))
+      : eq(generationJobs.id, jobId))
+    .returning();
+  return job;
+}
+
+export async function saveGenerationJobCheckpoint(jobId: string, checkpoint: Record<string, unknown>) {
+  await db.update(generationJobs)
+    .set({ checkpoint })
+    .where(eq(generationJobs.id, jobId));
+}
+
+// Link a job to the project it created, so the project's later jobs can find its events
+export async function setGenerationJobProject(jobId: string, projectId: string) {
+  await db.update(generationJobs)
+    .set({ projectId })
+    .where(eq(generationJobs.id, jobId));
+}
+
+/**
+ * Record the file versions a follow-up job starts from. The first attempt wins, so
+ * a retried job still merges against the files it originally worked on.
+ */
+export async function recordGenerationJobBaseVersions(jobId: string, versions: Record<string, number>) {
+  const [job] = await db.update(generationJobs)
+    .set({ baseVersions: sql`coalesce(${generationJobs.baseVersions}, ${JSON.stringify(versions)}::jsonb)` })
     .where(eq(generationJobs.id, jobId))
+    .returning({ baseVersions: generationJobs.baseVersions });
+  return (job?.baseVersions ?? versions) as Record<string, number>;
+}
+
+/**
+ * Cancel a job: pending jobs are cancelled immediately, processing jobs are flagged
+ * and stopped by the worker before its next stage. Returns undefined if the job
+ * already finished.
+ */
+export async function requestGenerationJobCancel(jobId: string) {
+  const now = new Date();
+
+  const [cancelled] = await db.update(generationJobs)
+    .set({ status: 'cancelled', cancelRequestedAt: now, completedAt: now, error: 'Cancelled by user' })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'pending')))
+    .returning();
+  if (cancelled) return cancelled;
+
+  const [flagged] = await db.update(generationJobs)
+    .set({ cancelRequestedAt: now })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'processing')))
+    .returning();
+  return flagged;
+}
+
+/**
+ * Put a failed, cancelled or dead job back in the queue with a fresh attempt budget.
+ * The checkpoint is kept so the worker resumes from the first unfinished stage
+ * unless fromScratch is set.
+ * Returns undefined if the job is not in a retryable state.
+ */
+export async function resetGenerationJobForRetry(jobId: string, fromScratch: boolean = false, executor: DbExecutor = db) {
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 24);
+
+  const [job] = await executor.update(generationJobs)
+    .set({
+      status: 'pending',
+      result: null,
+      error: null,
+      startedAt: null,
+      completedAt: null,
+      cancelRequestedAt: null,
+      attempts: 0,
+      lockedBy: null,
+      leaseExpiresAt: null,
+      heartbeatAt: null,
+      expiresAt,
+      ...(fromScratch && { checkpoint: null }),
+    })
+    .where(and(eq(generationJobs.id, jobId), inArray(generationJobs.status, ['failed', 'cancelled', 'dead'])))
+    .returning();
+  return job;
+}
+
+// Generation job queue functions
+
+/**
+ * Atomically claim the oldest pending job (or a specific one) for a worker.
+ * SKIP LOCKED lets concurrent workers claim different jobs without blocking.
+ * Returns undefined when there is nothing to claim.
+ */
+export async function claimGenerationJob(workerId: string, leaseMs: number, jobId?: string) {
+  const now = new Date();
+  const candidate = sql`(
+    SELECT ${generationJobs.id} FROM ${generationJobs}
+    WHERE ${generationJobs.status} = 'pending'
+    ${jobId ? sql`AND ${generationJobs.id} = ${jobId}` : sql``}
+    ORDER BY ${generationJobs.createdAt}
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )`;
+
+  const [job] = await db.update(generationJobs)
+    .set({
+      status: 'processing',
+      lockedBy: workerId,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      heartbeatAt: now,
+      attempts: sql`${generationJobs.attempts} + 1`,
+      startedAt: sql`COALESCE(${generationJobs.startedAt}, ${now})`,
+    })
+    .where(and(eq(generationJobs.status, 'pending'), sql`${generationJobs.id} = ${candidate}`))
     .returning();
   return job;
 }
 
+/**
+ * Extend a worker's lease. Returns undefined if the worker no longer owns the job.
+ */
+export async function renewGenerationJobLease(jobId: string, workerId: string, leaseMs: number) {
+  const now = new Date();
+  const [job] = await db.update(generationJobs)
+    .set({ leaseExpiresAt: new Date(now.getTime() + leaseMs), heartbeatAt: now })
+    .where(and(
+      eq(generationJobs.id, jobId),
+      eq(generationJobs.status, 'processing'),
+      eq(generationJobs.lockedBy, workerId)
+    ))
+    .returning();
+  return job;
+}
+
+/**
+ * Recover processing jobs whose worker stopped heartbeating: requeue them while
+ * attempts remain, otherwise move them to the 'dead' state.
+ * Jobs started before leases existed have no lease and expire staleAfterMs after starting.
+ */
+export async function recoverExpiredGenerationJobs(staleAfterMs: number) {
+  const now = new Date();
+  const staleStart = new Date(now.getTime() - staleAfterMs);
+  const expired = sql`(
+    ${generationJobs.leaseExpiresAt} < ${now}
+    OR (${generationJobs.leaseExpiresAt} IS NULL AND ${generationJobs.startedAt} < ${staleStart})
+  )`;
+
+  const requeued = await db.update(generationJobs)
+    .set({ status: 'pending', lockedBy: null, leaseExpiresAt: null })
+    .where(and(
+      eq(generationJobs.status, 'processing'),
+      expired,
+      sql`${generationJobs.attempts} < ${generationJobs.maxAttempts}`
+    ))
+    .returning();
+
+  const dead = await db.update(generationJobs)
+    .set({
+      status: 'dead',
+      lockedBy: null,
+      leaseExpiresAt: null,
+      completedAt: now,
+      error: sql`'Worker stopped responding after ' || ${generationJobs.attempts} || ' attempt(s)'`,
+    })
+    .where(and(
+      eq(generationJobs.status, 'processing'),
+      expired,
+      sql`${generationJobs.attempts} >= ${generationJobs.maxAttempts}`
+    ))
+    .returning();
+
+  return { requeued, dead };
+}
+
+export async function getGenerationJobQueueStats() {
+  const rows = await db.select({
+    status: generationJobs.status,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(generationJobs)
+    .groupBy(generationJobs.status);
+
+  return Object.fromEntries(rows.map(row => [row.status, row.count])) as Partial<Record<GenerationJobStatus, number>>;
+}
+
 export async function getPendingGenerationJobs(limit: number = 10) {
   return await db.select().from(generationJobs)
     .where(eq(generationJobs.status, 'pending'))
@@ -398,3 +1033,168 @@ export async function getUserGenerationJobs(userId: string, limit: number = 20)
     .orderBy(desc(generationJobs.createdAt))
     .limit(limit);
 }
+
+// Generation job event functions
+export async function saveJobEvent(event: typeof generationJobEvents.$inferInsert) {
+  const [row] = await db.insert(generationJobEvents).values(event).returning();
+  return row;
+}
+
+export async function getJobEvents(jobId: string, afterId: number = 0, limit: number = 200) {
+  return await db.select().from(generationJobEvents)
+    .where(and(eq(generationJobEvents.jobId, jobId), gt(generationJobEvents.id, afterId)))
+    .orderBy(asc(generationJobEvents.id))
+    .limit(limit);
+}
+
+// Latest validation_report event of a job
+export async function getJobValidationReport(jobId: string) {
+  const [row] = await db.select().from(generationJobEvents)
+    .where(and(eq(generationJobEvents.jobId, jobId), eq(generationJobEvents.type, 'validation_report')))
+    .orderBy(desc(generationJobEvents.id))
+    .limit(1);
+  return row;
+}
+
+// Latest validation_report event of the project's jobs created before the given time
+export async function getPreviousProjectValidationReport(projectId: string, before: Date) {
+  const [row] = await db.select({ event: generationJobEvents })
+    .from(generationJobEvents)
+    .innerJoin(generationJobs, eq(generationJobEvents.jobId, generationJobs.id))
+    .where(and(
+      eq(generationJobs.projectId, projectId),
+      eq(generationJobEvents.type, 'validation_report'),
+      lt(generationJobs.createdAt, before)
+    ))
+    .orderBy(desc(generationJobEvents.id))
+    .limit(1);
+  return row?.event;
+}
+
+// LLM usage ledger functions
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  cacheHits: number;
+  costUsd: number;
+  cacheSavingsUsd: number;
+  latencyMs: number;
+  fallbackCalls: number;
+}
+
+export interface LLMUsageBreakdown extends LLMUsageTotals {
+  stage: string;
+  model: string;
+}
+
+export async function recordLLMUsage(entry: typeof llmUsage.$inferInsert) {
+  const [row] = await db.insert(llmUsage).values(entry).returning();
+  return row;
+}
+
+const usageTotalsColumns = {
+  calls: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::int`,
+  outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::int`,
+  cacheCreationInputTokens: sql<number>`coalesce(sum(${llmUsage.cacheCreationInputTokens}), 0)::int`,
+  cacheReadInputTokens: sql<number>`coalesce(sum(${llmUsage.cacheReadInputTokens}), 0)::int`,
+  cacheHits: sql<number>`count(*) filter (where ${llmUsage.cacheReadInputTokens} > 0)::int`,
+  costUsd: sql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float8`,
+  cacheSavingsUsd: sql<number>`coalesce(sum(${llmUsage.cacheSavingsUsd}), 0)::float8`,
+  latencyMs: sql<number>`coalesce(sum(${llmUsage.latencyMs}), 0)::int`,
+  fallbackCalls: sql<number>`count(*) filter (where ${llmUsage.fallbackUsed})::int`,
+};
+
+// Totals plus a per-stage/model breakdown for the rows matching the filter
+export async function getLLMUsageSummary(filter: { jobId?: string; projectId?: string; userId?: string; since?: Date }) {
+  const conditions = [];
+  if (filter.jobId) conditions.push(eq(llmUsage.jobId, filter.jobId));
+  if (filter.projectId) conditions.push(eq(llmUsage.projectId, filter.projectId));
+  if (filter.userId) conditions.push(eq(llmUsage.userId, filter.userId));
+  if (filter.since) conditions.push(sql`${llmUsage.createdAt} >= ${filter.since}`);
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [totals] = await db.select(usageTotalsColumns).from(llmUsage).where(where);
+
+  const byStage: LLMUsageBreakdown[] = await db.select({
+    stage: llmUsage.stage,
+    model: llmUsage.model,
+    ...usageTotalsColumns,
+  }).from(llmUsage)
+    .where(where)
+    .groupBy(llmUsage.stage, llmUsage.model)
+    .orderBy(desc(sql`sum(${llmUsage.costUsd})`));
+
+  return { totals: totals as LLMUsageTotals, byStage };
+}
+
+// Quota functions
+export async function getUserQuota(userId: string, executor: DbExecutor = db) {
+  const [quota] = await executor.select().from(userQuotas).where(eq(userQuotas.userId, userId));
+  return quota;
+}
+
+export async function setUserQuota(
+  userId: string,
+  limits: { jobsPerDay?: number | null; tokensPerMonth?: number | null; concurrentJobs?: number | null }
+) {
+  const [quota] = await db.insert(userQuotas)
+    .values({ userId, ...limits, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: userQuotas.userId,
+      set: { ...limits, updatedAt: new Date() },
+    })
+    .returning();
+  return quota;
+}
+
+export async function countUserGenerationJobsSince(userId: string, since: Date, executor: DbExecutor = db) {
+  const [row] = await executor.select({ count: sql<number>`count(*)::int` })
+    .from(generationJobs)
+    .where(and(
+      eq(generationJobs.userId, userId),
+      sql`${generationJobs.createdAt} >= ${since}`
+    ));
+  return row?.count ?? 0;
+}
+
+/**
+ * Run `fn` in a transaction holding a per-user advisory lock, so concurrent job
+ * admissions for one user are serialized and each sees the jobs queued before it
+ */
+export async function withUserJobLock<T>(userId: string, fn: (tx: Transaction) => Promise<T>): Promise<T> {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${userId}))`);
+    return await fn(tx);
+  });
+}
+
+export async function countActiveUserGenerationJobs(userId: string, executor: DbExecutor = db) {
+  const [row] = await executor.select({ count: sql<number>`count(*)::int` })
+    .from(generationJobs)
+    .where(and(
+      eq(generationJobs.userId, userId),
+      inArray(generationJobs.status, ['pending', 'processing'])
+    ));
+  return row?.count ?? 0;
+}
+
+// Tokens counted against the monthly quota; cached prompt tokens are weighted by their price
+export async function getUserTokenUsageSince(userId: string, since: Date, executor: DbExecutor = db) {
+  const [row] = await executor.select({
+    tokens: sql<number>`coalesce(sum(
+      ${llmUsage.inputTokens} + ${llmUsage.outputTokens}
+      + ${llmUsage.cacheCreationInputTokens} * ${sql.raw(String(CACHE_WRITE_MULTIPLIER))}
+      + ${llmUsage.cacheReadInputTokens} * ${sql.raw(String(CACHE_READ_MULTIPLIER))}
+    ), 0)::float8`,
+  })
+    .from(llmUsage)
+    .where(and(
+      eq(llmUsage.userId, userId),
+      sql`${llmUsage.createdAt} >= ${since}`
+    ));
+  return row?.tokens ?? 0;
+}
@@ -0,0 +1,238 @@
+/**
+ * Unified validation diagnostics
+ * Normalizes local (CompilationResult) and Railway (RailwayValidationResult) validation
+ * output into one diagnostic model, stored per job as a `validation_report` event.
+ * Exports SARIF 2.1.0 for standard tooling, a compact JSON summary, and a diff between
+ * two runs ("new errors introduced by this follow-up").
+ */
+
+import type { CompilationResult } from './compilationValidator';
+import type { RailwayValidationResult } from './railwayValidationClient';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  // typescript, solidity, eslint, build, runtime, abi (local) or react, validation (Railway)
+  category: string;
+  // Compiler code or rule id, e.g. TS2322, SOL7576, runtime/storage-during-ssr
+  code?: string;
+  message: string;
+  suggestion?: string;
+  // Identifies the same problem across runs; ignores line numbers so edits above it do not change it
+  fingerprint: string;
+}
+
+export interface DiagnosticReport {
+  source: 'local' | 'railway';
+  success: boolean;
+  compilationTime: number;
+  // Files the run validated; reports stored before this was recorded lack it
+  files?: string[];
+  diagnostics: Diagnostic[];
+}
+
+export interface DiagnosticSummary {
+  source: DiagnosticReport['source'];
+  success: boolean;
+  errors: number;
+  warnings: number;
+  info: number;
+  byCategory: Record<string, number>;
+  // Files with errors or warnings, most errors first
+  files: { file: string; errors: number; warnings: number }[];
+}
+
+export interface DiagnosticDiff {
+  // In the current run but not the previous one
+  introduced: Diagnostic[];
+  // In the previous run but fixed in the current one
+  resolved: Diagnostic[];
+  unchanged: number;
+}
+
+type ValidationEntry = {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  category: string;
+  code?: string;
+  rule?: string;
+  suggestion?: string;
+};
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = { error: 'error', warning: 'warning', info: 'note' };
+const TOOL_NAME = 'minidev-validator';
+
+/**
+ * Merge a local or Railway validation result into the unified model. Severity comes
+ * from the list an entry is in; duplicate entries are dropped.
+ */
+export function normalizeValidationResult(
+  result: CompilationResult | RailwayValidationResult,
+  source: DiagnosticReport['source']
+): DiagnosticReport {
+  const entries: [ValidationEntry, DiagnosticSeverity][] = [
+    ...result.errors.map(entry => [entry, 'error'] as [ValidationEntry, DiagnosticSeverity]),
+    ...result.warnings.map(entry => [entry, 'warning'] as [ValidationEntry, DiagnosticSeverity]),
+    ...(result.info ?? []).map(entry => [entry, 'info'] as [ValidationEntry, DiagnosticSeverity]),
+  ];
+
+  const seen = new Set<string>();
+  const diagnostics: Omit<Diagnostic, 'fingerprint'>[] = [];
+  for (const [entry, severity] of entries) {
+    const diagnostic = {
+      file: entry.file,
+      ...(entry.line ? { line: entry.line } : {}),
+      ...(entry.column ? { column: entry.column } : {}),
+      severity,
+      category: entry.category,
+      ...(entry.code || entry.rule ? { code: entry.code || entry.rule } : {}),
+      message: entry.message.trim(),
+      ...(entry.suggestion ? { suggestion: entry.suggestion } : {}),
+    };
+    const key = JSON.stringify([diagnostic.file, diagnostic.line, diagnostic.column, diagnostic.code, diagnostic.message, severity]);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push(diagnostic);
+  }
+
+  diagnostics.sort((a, b) =>
+    a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0)
+  );
+
+  return {
+    source,
+    success: result.success,
+    compilationTime: result.compilationTime,
+    files: result.files.map(file => file.filename),
+    diagnostics: withFingerprints(diagnostics),
+  };
+}
+
+/**
+ * Compact summary for job events and list views
+ */
+export function summarizeDiagnostics(report: DiagnosticReport): DiagnosticSummary {
+  const count = (severity: DiagnosticSeverity) => report.diagnostics.filter(d => d.severity === severity).length;
+  const byCategory: Record<string, number> = {};
+  const files = new Map<string, { file: string; errors: number; warnings: number }>();
+
+  for (const diagnostic of report.diagnostics) {
+    byCategory[diagnostic.category] = (byCategory[diagnostic.category] ?? 0) + 1;
+    if (diagnostic.severity === 'info') continue;
+    const row = files.get(diagnostic.file) ?? { file: diagnostic.file, errors: 0, warnings: 0 };
+    if (diagnostic.severity === 'error') row.errors++;
+    else row.warnings++;
+    files.set(diagnostic.file, row);
+  }
+
+  return {
+    source: report.source,
+    success: report.success,
+    errors: count('error'),
+    warnings: count('warning'),
+    info: count('info'),
+    byCategory,
+    files: Array.from(files.values()).sort((a, b) => b.errors - a.errors || b.warnings - a.warnings || a.file.localeCompare(b.file)),
+  };
+}
+
+/**
+ * Diagnostics introduced and resolved between two runs, matched by fingerprint.
+ * When both runs list their files, only files validated in both are compared: a file
+ * the other run did not look at has no errors there, not fixed or new ones.
+ */
+export function diffDiagnostics(previous: DiagnosticReport | undefined, current: DiagnosticReport): DiagnosticDiff {
+  const previousFiles = previous?.files && new Set(previous.files);
+  const currentFiles = current.files && new Set(current.files);
+  const compared = (d: Diagnostic) => !previousFiles || !currentFiles || (previousFiles.has(d.file) && currentFiles.has(d.file));
+  const previousDiagnostics = previous?.diagnostics.filter(compared) ?? [];
+  const currentDiagnostics = current.diagnostics.filter(compared);
+
+  const before = new Set(previousDiagnostics.map(d => d.fingerprint));
+  const after = new Set(currentDiagnostics.map(d => d.fingerprint));
+
+  return {
+    introduced: currentDiagnostics.filter(d => !before.has(d.fingerprint)),
+    resolved: previousDiagnostics.filter(d => !after.has(d.fingerprint)),
+    unchanged: currentDiagnostics.filter(d => before.has(d.fingerprint)).length,
+  };
+}
+
+/**
+ * SARIF 2.1.0 log with one run; file paths are relative to the project root
+ */
+export function toSarif(report: DiagnosticReport): Record<string, unknown> {
+  const rules = new Map<string, string>();
+  for (const diagnostic of report.diagnostics) {
+    if (!rules.has(ruleId(diagnostic))) rules.set(ruleId(diagnostic), diagnostic.category);
+  }
+  const ruleIds = Array.from(rules.keys());
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          rules: ruleIds.map(id => ({
+            id,
+            shortDescription: { text: `${rules.get(id)} ${id}` },
+            properties: { category: rules.get(id) },
+          })),
+        },
+      },
+      originalUriBaseIds: { PROJECTROOT: { description: { text: 'Root of the generated project' } } },
+      results: report.diagnostics.map(diagnostic => ({
+        ruleId: ruleId(diagnostic),
+        ruleIndex: ruleIds.indexOf(ruleId(diagnostic)),
+        level: SARIF_LEVELS[diagnostic.severity],
+        message: { text: diagnostic.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: diagnostic.file, uriBaseId: 'PROJECTROOT' },
+            ...(diagnostic.line ? { region: { startLine: diagnostic.line, ...(diagnostic.column ? { startColumn: diagnostic.column } : {}) } } : {}),
+          },
+        }],
+        partialFingerprints: { [`${TOOL_NAME}/v1`]: diagnostic.fingerprint },
+        properties: {
+          category: diagnostic.category,
+          ...(diagnostic.suggestion ? { suggestion: diagnostic.suggestion } : {}),
+        },
+      })),
+      properties: { source: report.source, success: report.success, compilationTime: report.compilationTime },
+    }],
+  };
+}
+
+function ruleId(diagnostic: Diagnostic): string {
+  return diagnostic.code ?? diagnostic.category;
+}
+
+// Hash of file, code and message, plus an occurrence index for repeats within a file
+function withFingerprints(diagnostics: Omit<Diagnostic, 'fingerprint'>[]): Diagnostic[] {
+  const occurrences = new Map<string, number>();
+  return diagnostics.map(diagnostic => {
+    const key = [diagnostic.file, diagnostic.category, diagnostic.code ?? '', diagnostic.message.replace(/\s+/g, ' ')].join('\n');
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    return { ...diagnostic, fingerprint: `${fnv1a(key)}:${occurrence}` };
+  });
+}
+
+// 32-bit FNV-1a, hex
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -6,11 +6,26 @@ import {
   STAGE_MODEL_CONFIG,
   PatchPlan,
   FileDiff,
+  DiffHunk,
   getStage0ContextGathererPrompt,
-  executeFollowUpPipeline
+  executeFollowUpPipeline,
+  PipelineHooks
 } from './llmOptimizer';
-import { applyDiffHunks, validateDiff, validateDiffHunksAgainstFile } from './diffUtils';
+import {
+  applyHunksFuzzy,
+  applyHunksStrict,
+  generateDiff,
+  invertDiff,
+  parseUnifiedDiff,
+  validateDiff,
+  type AppliedHunk,
+  type FuzzyApplyOptions,
+  type HunkRejection
+} from './diffUtils';
+import { parseStage3CodeResponse } from './parserUtils';
 import { executeToolCalls } from './toolExecutionService';
+import { findGrepHits } from './contextBuilder';
+import { JOB_STAGE_LABELS } from './jobEvents';
 
 export interface DiffBasedResult {
   files: { filename: string; content: string }[];
@@ -28,7 +43,7 @@ export interface DiffBasedResult {
   };
 }
 
-export interface DiffBasedOptions {
+export interface DiffBasedOptions extends PipelineHooks {
   enableContextGathering?: boolean;
   enableDiffValidation?: boolean;
   enableLinting?: boolean;
@@ -48,19 +63,24 @@ export async function executeDiffBasedPipeline(
   const {
     enableContextGathering = true,
     enableDiffValidation = true,
-    enableLinting = true
+    enableLinting = true,
+    ...hooks
   } = options;
+  const { onProgress } = hooks;
 
   console.log('🚀 Starting Diff-Based Pipeline');
   console.log('Options:', { enableContextGathering, enableDiffValidation, enableLinting });
 
   let contextGathered = null;
+  let grepHits: string[] = [];
   const generatedFiles: { filename: string; content: string }[] = [];
   const diffs: FileDiff[] = [];
 
   // Stage 0: Context Gathering (if enabled)
   if (enableContextGathering) {
     console.log('📊 Stage 0: Context Gathering');
+    await hooks.beforeStage?.('context');
+    onProgress?.({ type: 'stage_started', stage: 'context', message: JOB_STAGE_LABELS.context });
     
     try {
       const contextPrompt = `USER REQUEST: ${userPrompt}`;
@@ -87,6 +107,7 @@ export async function executeDiffBasedPipeline(
         // Use real project data if available, otherwise skip tool execution
         if (projectId && projectDir) {
           const toolResults = await executeToolCalls(contextData, projectId, projectDir);
+          grepHits = findGrepHits(toolResults.toolResults.map(r => r.output), currentFiles.map(f => f.filename));
           
           // Add tool results to user prompt for better context
           userPrompt = `${userPrompt}\n\nContext gathered:\n${toolResults.toolResults.map((r, index) => `Tool ${index + 1}: ${r.output}`).join('\n')}`;
@@ -97,6 +118,7 @@ export async function executeDiffBasedPipeline(
     } catch (error) {
       console.warn('⚠️ Context gathering failed, continuing without context:', error);
     }
+    onProgress?.({ type: 'stage_finished', stage: 'context', message: `${JOB_STAGE_LABELS.context} - done` });
   }
 
   // Use the specialized follow-up pipeline for diff-based changes
@@ -105,17 +127,24 @@ export async function executeDiffBasedPipeline(
     userPrompt,
     currentFiles,
     callLLM,
-    projectId
+    projectId,
+    undefined,
+    { ...hooks, context: { ...hooks.context, grepHits } }
   );
 
   const generatedFilesFromPipeline = pipelineResult.files;
+  const originalContent = new Map(currentFiles.map(f => [f.filename, f.content]));
 
-  // Process the generated files and extract diffs
+  // Diff what actually landed (after fuzz and repair), so the stored patch can be rolled back
   for (const file of generatedFilesFromPipeline) {
     generatedFiles.push({
       filename: file.filename,
       content: file.content
     });
+    const original = originalContent.get(file.filename) ?? '';
+    if (original !== file.content) {
+      diffs.push(generateDiff(original, file.content, file.filename, { algorithm: 'patience' }));
+    }
   }
 
   // Stage 4: Validation (Diff-Based)
@@ -151,6 +180,73 @@ export async function executeDiffBasedPipeline(
   };
 }
 
+export interface FileApplyReport {
+  filename: string;
+  status: 'applied' | 'partial' | 'rejected' | 'created';
+  applied: AppliedHunk[];
+  fuzzy: AppliedHunk[];
+  rejected: HunkRejection[];
+}
+
+export interface DiffApplyResult {
+  // Files whose content changed
+  files: { filename: string; content: string }[];
+  reports: FileApplyReport[];
+  rejectedHunks: RejectedHunk[];
+}
+
+/**
+ * Apply diffs to existing files, reporting how each hunk landed.
+ * Hunks are placed with fuzz; the ones that cannot be placed leave their part of
+ * the file unchanged and are listed in rejectedHunks.
+ */
+export function applyDiffsWithReport(
+  files: { filename: string; content: string }[],
+  diffs: FileDiff[],
+  options: FuzzyApplyOptions = {}
+): DiffApplyResult {
+  const originalContent = new Map(files.map(f => [f.filename, f.content]));
+  const currentContent = new Map(originalContent);
+  const reports: FileApplyReport[] = [];
+  const rejectedHunks: RejectedHunk[] = [];
+
+  for (const diff of diffs) {
+    const content = currentContent.get(diff.filename);
+
+    if (content === undefined) {
+      // File doesn't exist - create it from the added lines
+      const newContent = diff.unifiedDiff.split('\n')
+        .filter(line => line.startsWith('+') && !line.startsWith('+++'))
+        .map(line => line.substring(1))
+        .join('\n');
+      currentContent.set(diff.filename, newContent);
+      reports.push({ filename: diff.filename, status: 'created', applied: [], fuzzy: [], rejected: [] });
+      console.log(`📝 Created new file ${diff.filename} from diff content (${newContent.length} chars)`);
+      continue;
+    }
+
+    const result = applyHunksFuzzy(content, diff.hunks, options);
+    currentContent.set(diff.filename, result.content);
+
+    const landed = result.applied.length + result.fuzzy.length;
+    const status = result.rejected.length === 0 ? 'applied' : landed > 0 ? 'partial' : 'rejected';
+    reports.push({ filename: diff.filename, status, ...result });
+    rejectedHunks.push(...result.rejected.map(r => ({ filename: diff.filename, ...r })));
+
+    console.log(`${status === 'applied' ? '✅' : '⚠️'} ${diff.filename}: ${landed}/${diff.hunks.length} hunk(s) applied` +
+      (result.fuzzy.length > 0 ? `, ${result.fuzzy.length} with fuzz` : ''));
+    for (const rejection of result.rejected) {
+      console.warn(`   ❌ Hunk ${rejection.hunkIndex + 1} rejected: ${rejection.reason}`);
+    }
+  }
+
+  const changedFiles = Array.from(currentContent.entries())
+    .filter(([filename, content]) => originalContent.get(filename) !== content)
+    .map(([filename, content]) => ({ filename, content }));
+
+  return { files: changedFiles, reports, rejectedHunks };
+}
+
 /**
  * Apply diffs to existing files for hot-reload efficiency
  */
@@ -158,119 +254,175 @@ export function applyDiffsToFiles(
   files: { filename: string; content: string }[],
   diffs: FileDiff[]
 ): { filename: string; content: string }[] {
-  console.log('applyDiffsToFiles called with:', { files: files.length, diffs: diffs.length });
-  const result: { filename: string; content: string }[] = [];
-  const modifiedFiles = new Set<string>();
-  const currentContent: { [filename: string]: string } = {};
-
-  // Initialize current content with original files
-  for (const file of files) {
-    currentContent[file.filename] = file.content;
+  const { files: changedFiles, rejectedHunks } = applyDiffsWithReport(files, diffs);
+
+  if (rejectedHunks.length > 0) {
+    console.warn(`⚠️ ${rejectedHunks.length} hunk(s) could not be applied and were dropped`);
   }
+  console.log(`📊 applyDiffsToFiles returning ${changedFiles.length} modified files:`, changedFiles.map(f => f.filename));
+  return changedFiles;
+}
 
-  for (const diff of diffs) {
-    console.log('Processing diff for:', diff.filename);
-    
-    if (currentContent[diff.filename] !== undefined) {
-      // File exists - validate diff before applying
-      const validation = validateDiffHunksAgainstFile(
-        diff.filename,
-        currentContent[diff.filename],
-        diff.hunks
+export interface DiffRepairOptions {
+  // LLM round trips for hunks that still do not apply
+  maxAttempts?: number;
+  // Files up to this many lines are requested back in full instead of as a diff
+  fullFileMaxLines?: number;
+}
+
+export interface ChangeOutcome {
+  filename: string;
+  hunkIndex: number;
+  status: 'applied' | 'fuzzy' | 'repaired' | 'rejected';
+  // Why the change did not land; set when status is 'rejected'
+  reason?: string;
+  // Repair round that landed the change
+  attempt?: number;
+}
+
+export interface DiffRepairResult {
+  files: { filename: string; content: string }[];
+  changes: ChangeOutcome[];
+  attempts: number;
+}
+
+/**
+ * Apply diffs and ask the code generator to fix the hunks that do not apply.
+ * Each round sends the rejected hunks with the file as it is now and asks for a
+ * corrected diff, or the whole file when it is small. A corrected diff is only
+ * used if all of its hunks apply, so a round never lands half a fix.
+ */
+export async function applyDiffsWithRepair(
+  files: { filename: string; content: string }[],
+  diffs: FileDiff[],
+  callLLM: (systemPrompt: string, userPrompt: string, stageName: string, stageType?: keyof typeof STAGE_MODEL_CONFIG) => Promise<string>,
+  userPrompt: string,
+  options: DiffRepairOptions = {}
+): Promise<DiffRepairResult> {
+  const { maxAttempts = 2, fullFileMaxLines = 200 } = options;
+  const original = new Map(files.map(f => [f.filename, f.content]));
+  const applied = applyDiffsWithReport(files, diffs);
+  const current = new Map(original);
+  applied.files.forEach(f => current.set(f.filename, f.content));
+
+  const changes: ChangeOutcome[] = applied.reports.flatMap(report => [
+    ...report.applied.map(h => ({ filename: report.filename, hunkIndex: h.hunkIndex, status: 'applied' as const })),
+    ...report.fuzzy.map(h => ({ filename: report.filename, hunkIndex: h.hunkIndex, status: 'fuzzy' as const })),
+    ...report.rejected.map(h => ({ filename: report.filename, hunkIndex: h.hunkIndex, status: 'rejected' as const, reason: h.reason }))
+  ]);
+  const hunksByFile = new Map(diffs.map(d => [d.filename, d.hunks]));
+
+  let attempts = 0;
+  while (attempts < maxAttempts) {
+    const pending = changes.filter(c => c.status === 'rejected');
+    if (pending.length === 0) break;
+    attempts++;
+
+    const pendingFiles = Array.from(new Set(pending.map(c => c.filename)));
+    console.log(`🔁 Diff repair attempt ${attempts}/${maxAttempts}: ${pending.length} rejected hunk(s) in ${pendingFiles.length} file(s)`);
+
+    let response: string;
+    try {
+      response = await callLLM(
+        getDiffRepairSystemPrompt(),
+        buildDiffRepairRequest(userPrompt, pendingFiles.map(filename => ({
+          filename,
+          content: current.get(filename) ?? '',
+          rejected: pending
+            .filter(c => c.filename === filename)
+            .map(c => ({ hunk: hunksByFile.get(filename)![c.hunkIndex], reason: c.reason || '' })),
+          wantFullFile: (current.get(filename) ?? '').split('\n').length <= fullFileMaxLines
+        }))),
+        'Stage 3: Diff Repair',
+        'STAGE_3_CODE_GENERATOR'
       );
-      
-        if (!validation.isValid) {
-          console.warn(`⚠️ Diff validation failed for ${diff.filename}:`);
-          validation.errors.forEach(error => console.warn(`   - ${error}`));
-          console.warn(`   Attempting to apply diff with warnings...`);
-
-          // Try to apply diff anyway but catch errors
-          try {
-            const newContent = applyDiffHunks(currentContent[diff.filename], diff.hunks);
-            console.log('✅ Diff applied successfully despite validation warnings');
-            result.push({
-              filename: diff.filename,
-              content: newContent
-            });
-            modifiedFiles.add(diff.filename);
-            continue;
-          } catch (error) {
-            console.warn(`❌ Diff application failed: ${error instanceof Error ? error.message : String(error)}`);
-            console.warn(`   Using original content as fallback`);
-            // Add original content without changes as fallback
-            result.push({
-              filename: diff.filename,
-              content: currentContent[diff.filename]
-            });
-            modifiedFiles.add(diff.filename);
-            continue;
-          }
-        }
-      
-      // Apply diff to current content
-      try {
-        console.log('✅ Diff validation passed, applying diff hunks:', diff.hunks);
-        const newContent = applyDiffHunks(currentContent[diff.filename], diff.hunks);
-        
-        // Only add to result if content actually changed from original
-        const originalContent = files.find(f => f.filename === diff.filename)?.content || '';
-        if (newContent !== originalContent) {
-          result.push({
-            filename: diff.filename,
-            content: newContent
-          });
-          modifiedFiles.add(diff.filename);
-          console.log(`✅ Applied diff to ${diff.filename}`);
+    } catch (error) {
+      console.warn('⚠️ Diff repair request failed:', error);
+      continue;
+    }
+
+    let fixes: ReturnType<typeof parseStage3CodeResponse>;
+    try {
+      fixes = parseStage3CodeResponse(response);
+    } catch (error) {
+      console.warn('⚠️ Could not parse diff repair response:', error);
+      continue;
+    }
+
+    for (const fix of fixes) {
+      const fileChanges = pending.filter(c => c.filename === fix.filename);
+      const content = current.get(fix.filename);
+      if (fileChanges.length === 0 || content === undefined) continue;
+
+      let repaired: string | undefined;
+      if (typeof fix.content === 'string' && fix.content.length > 0) {
+        repaired = fix.content;
+      } else if (fix.unifiedDiff) {
+        const result = applyHunksFuzzy(content, parseUnifiedDiff(fix.unifiedDiff));
+        if (result.rejected.length === 0) {
+          repaired = result.content;
         } else {
-          console.log(`⚠️ No changes detected for ${diff.filename}, skipping`);
+          const reason = `corrected diff did not apply either: ${result.rejected[0].reason}`;
+          fileChanges.forEach(c => { c.reason = reason; });
         }
-        
-        // Update current content for this file
-        currentContent[diff.filename] = newContent;
-      } catch (error) {
-        console.error(`❌ Failed to apply diff to ${diff.filename}:`, error);
-        // Add current content as fallback
-        result.push({
-          filename: diff.filename,
-          content: currentContent[diff.filename]
-        });
-        modifiedFiles.add(diff.filename);
       }
-    } else {
-      // File doesn't exist - create new file from diff content
-      console.log(`📝 Creating new file ${diff.filename} from diff content`);
-      try {
-        // Extract content from unified diff
-        const diffLines = diff.unifiedDiff.split('\n');
-        const contentLines = diffLines
-          .filter(line => line.startsWith('+') && !line.startsWith('+++'))
-          .map(line => line.substring(1))
-          .join('\n');
-        
-        const newContent = contentLines;
-        result.push({
-          filename: diff.filename,
-          content: newContent
-        });
-        modifiedFiles.add(diff.filename);
-        currentContent[diff.filename] = newContent;
-        console.log(`✅ Created new file ${diff.filename} with ${contentLines.length} chars`);
-      } catch (error) {
-        console.error(`❌ Failed to create file ${diff.filename}:`, error);
-        // Add empty file as fallback
-        const fallbackContent = '';
-        result.push({
-          filename: diff.filename,
-          content: fallbackContent
+
+      if (repaired !== undefined) {
+        current.set(fix.filename, repaired);
+        fileChanges.forEach(c => {
+          c.status = 'repaired';
+          c.reason = undefined;
+          c.attempt = attempts;
         });
-        modifiedFiles.add(diff.filename);
-        currentContent[diff.filename] = fallbackContent;
+        console.log(`✅ Repaired ${fileChanges.length} hunk(s) in ${fix.filename}`);
       }
     }
   }
 
-  console.log(`📊 applyDiffsToFiles returning ${result.length} modified files:`, Array.from(modifiedFiles));
-  return result;
+  const landed = changes.filter(c => c.status !== 'rejected').length;
+  console.log(`📊 ${landed}/${changes.length} requested change(s) landed after ${attempts} repair attempt(s)`);
+
+  const changedFiles = Array.from(current.entries())
+    .filter(([filename, content]) => original.get(filename) !== content)
+    .map(([filename, content]) => ({ filename, content }));
+
+  return { files: changedFiles, changes, attempts };
+}
+
+function getDiffRepairSystemPrompt(): string {
+  return `
+ROLE: Diff Repair for a Farcaster Miniapp code change
+
+Some hunks of a diff you generated did not apply because the file content differs
+from what the diff expected. You get each file as it is now and the rejected hunks.
+Line numbers in CURRENT CONTENT ("  12| ") are for reference and not part of the file.
+
+TASK: Make the changes the rejected hunks intended against the CURRENT file content.
+- Do not redo changes that are already present in the file
+- For files marked FULL FILE, return the complete updated file in "content"
+- For other files, return a unified diff in "unifiedDiff" whose context and removed
+  lines are copied exactly from the current content, with correct @@ line numbers
+
+OUTPUT: a JSON array between __START_JSON__ and __END_JSON__ markers:
+__START_JSON__
+[{ "filename": "src/app/page.tsx", "operation": "modify", "unifiedDiff": "@@ -10,3 +10,4 @@\\n ..." }]
+__END_JSON__
+`;
+}
+
+function buildDiffRepairRequest(
+  userPrompt: string,
+  files: Array<{ filename: string; content: string; rejected: Array<{ hunk: DiffHunk; reason: string }>; wantFullFile: boolean }>
+): string {
+  const sections = files.map(file => {
+    const hunks = file.rejected.map(({ hunk, reason }) =>
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n${hunk.lines.join('\n')}\n(rejected: ${reason})`
+    ).join('\n\n');
+    const numbered = file.content.split('\n').map((line, i) => `${String(i + 1).padStart(4)}| ${line}`).join('\n');
+    return `---${file.filename}--- ${file.wantFullFile ? '(FULL FILE)' : '(UNIFIED DIFF)'}\nREJECTED HUNKS:\n${hunks}\n\nCURRENT CONTENT:\n${numbered}`;
+  });
+
+  return `ORIGINAL REQUEST: ${userPrompt}\n\n${sections.join('\n\n')}`;
 }
 
 /**
@@ -287,12 +439,71 @@ export function storeDiffs(projectId: string, diffs: FileDiff[]): void {
   }
 }
 
+export interface RejectedHunk {
+  filename: string;
+  hunkIndex: number;
+  reason: string;
+}
+
+export interface RollbackResult {
+  files: { filename: string; content: string }[];
+  // Files the diffs created, which the rollback removes again
+  deletedFiles: string[];
+  rejectedHunks: RejectedHunk[];
+}
+
 /**
- * Rollback to previous state using stored diffs
+ * Rollback a patch by applying the inverse of its diffs to the current files.
+ * Returns only the files that changed. Hunks whose lines were edited since the
+ * patch (e.g. by a later patch) are left alone and reported in rejectedHunks.
  */
-export function rollbackDiffs(projectId: string, diffs: FileDiff[]): { filename: string; content: string }[] {
-  // TODO: Implement rollback functionality
-  // This would apply diffs in reverse to rollback changes
-  console.log(`🔄 Rolling back ${diffs.length} diffs for project ${projectId}`);
-  return [];
+export function rollbackDiffs(
+  currentFiles: { filename: string; content: string }[],
+  diffs: FileDiff[]
+): RollbackResult {
+  console.log(`🔄 Rolling back ${diffs.length} diffs`);
+
+  const contents = new Map(currentFiles.map(f => [f.filename, f.content]));
+  const changed = new Set<string>();
+  const deletedFiles: string[] = [];
+  const rejectedHunks: RejectedHunk[] = [];
+
+  // Undo the last diff first in case a file appears more than once
+  for (const diff of [...diffs].reverse()) {
+    const content = contents.get(diff.filename);
+    const createdFile = diff.hunks.length > 0 && diff.hunks.every(h => h.oldStart <= 1 && h.oldLines === 0);
+
+    if (content === undefined) {
+      if (!createdFile) {
+        diff.hunks.forEach((_, hunkIndex) => {
+          rejectedHunks.push({ filename: diff.filename, hunkIndex, reason: 'file no longer exists' });
+        });
+      }
+      continue;
+    }
+
+    const inverse = invertDiff(diff);
+    const { content: reverted, rejected } = applyHunksStrict(content, inverse.hunks);
+    rejectedHunks.push(...rejected.map(r => ({ filename: diff.filename, ...r })));
+
+    if (createdFile && rejected.length === 0 && reverted.trim() === '') {
+      contents.delete(diff.filename);
+      changed.delete(diff.filename);
+      deletedFiles.push(diff.filename);
+      continue;
+    }
+
+    if (reverted !== content) {
+      contents.set(diff.filename, reverted);
+      changed.add(diff.filename);
+    }
+  }
+
+  console.log(`🔄 Rollback changed ${changed.size} file(s), deleted ${deletedFiles.length}, rejected ${rejectedHunks.length} hunk(s)`);
+
+  return {
+    files: Array.from(changed).map(filename => ({ filename, content: contents.get(filename)! })),
+    deletedFiles,
+    rejectedHunks
+  };
 }
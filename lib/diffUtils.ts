@@ -1,4 +1,4 @@
-import { createPatch, parsePatch } from 'diff';
+import { diffLines, buildHunks, formatUnifiedDiff, type DiffAlgorithm } from './lineDiff';
 
 export interface DiffHunk {
   oldStart: number;
@@ -14,24 +14,23 @@ export interface FileDiff {
   unifiedDiff: string;
 }
 
+export interface DiffOptions {
+  // 'patience' keeps functions and blocks together in source code; defaults to 'myers'
+  algorithm?: DiffAlgorithm;
+  contextLines?: number;
+}
+
 /**
  * Generate a unified diff between original and new content
  */
 export function generateDiff(
   originalContent: string,
   newContent: string,
-  filename: string
+  filename: string,
+  options: DiffOptions = {}
 ): FileDiff {
   try {
-    const unifiedDiff = createPatch(filename, originalContent, newContent);
-    const parsedPatches = parsePatch(unifiedDiff);
-    const hunks = parsedPatches?.[0]?.hunks || [];
-    
-    return {
-      filename,
-      hunks,
-      unifiedDiff
-    };
+    return createMinimalDiff(originalContent, newContent, filename, options.contextLines, options.algorithm);
   } catch (error) {
     console.error('Error generating diff:', error);
     throw new Error(`Failed to generate diff for ${filename}: ${error}`);
@@ -205,218 +204,373 @@ export function validateDiffHunksAgainstFile(
 }
 
 /**
- * Find the best contextual match for a line when exact match fails
+ * Apply diff hunks to original content.
+ * Hunks are located with fuzz (see applyHunksFuzzy); hunks that cannot be
+ * located are skipped with a warning. Use applyHunksFuzzy to get the details.
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-function findBestContextualMatch(
-  lines: string[],
-  targetLine: string,
-  expectedIndex: number,
-  contextLines: string[]
-): { index: number; reason: string } {
-  const targetTrimmed = targetLine.trim();
-  
-  // Strategy 1: Look for exact content match within reasonable distance
-  const searchRadius = Math.min(50, lines.length / 4); // Search within 50 lines or 25% of file
-  const searchStart = Math.max(0, expectedIndex - searchRadius);
-  const searchEnd = Math.min(lines.length, expectedIndex + searchRadius);
-  
-  for (let i = searchStart; i < searchEnd; i++) {
-    if (lines[i] && lines[i].trim() === targetTrimmed) {
-      const distance = Math.abs(i - expectedIndex);
-      return { index: i, reason: `exact content match (distance: ${distance})` };
-    }
-  }
-  
-  // Strategy 2: Look for partial content match (key-based) within reasonable distance
-  const keyToReplace = targetLine.split(':')[0].trim() || targetLine.split('=')[0].trim() || targetLine.split(' ')[0].trim();
-  
-  let bestKeyMatch = { index: -1, distance: Infinity, reason: '' };
-  
-  for (let i = searchStart; i < searchEnd; i++) {
-    if (lines[i] && lines[i].includes(keyToReplace)) {
-      const distance = Math.abs(i - expectedIndex);
-      if (distance < bestKeyMatch.distance) {
-        bestKeyMatch = { index: i, distance, reason: `key match "${keyToReplace}" (distance: ${distance})` };
-      }
-    }
+export function applyDiffHunks(
+  originalContent: string,
+  diffHunks: DiffHunk[]
+): string {
+  const { content, fuzzy, rejected } = applyHunksFuzzy(originalContent, diffHunks);
+
+  for (const hunk of fuzzy) {
+    console.log(`🔧 Hunk ${hunk.hunkIndex + 1} applied at line ${hunk.line} (offset ${hunk.offset}, fuzz ${hunk.fuzz}, confidence ${hunk.confidence.toFixed(2)})`);
   }
-  
-  if (bestKeyMatch.index !== -1) {
-    return bestKeyMatch;
+  for (const rejection of rejected) {
+    console.warn(`Context mismatch for hunk ${rejection.hunkIndex + 1}: ${rejection.reason}`);
+    console.warn(`Skipping hunk at line ${diffHunks[rejection.hunkIndex].oldStart} due to context mismatch`);
   }
-  
-  // Strategy 3: Look for context-based match using surrounding lines
-  // Extract context from the diff hunk
-  const contextBefore = contextLines.filter(line => !line.startsWith('+') && !line.startsWith('-')).slice(0, 2);
-  const contextAfter = contextLines.filter(line => !line.startsWith('+') && !line.startsWith('-')).slice(-2);
-  
-  let bestContextMatch = { index: -1, score: 0, reason: '' };
-  
-  for (let i = 0; i < lines.length - contextBefore.length - contextAfter.length; i++) {
-    let score = 0;
-    
-    // Check context before
-    for (let j = 0; j < contextBefore.length; j++) {
-      if (lines[i + j] && lines[i + j].trim() === contextBefore[j].trim()) {
-        score += 1;
-      }
-    }
-    
-    // Check context after
-    for (let j = 0; j < contextAfter.length; j++) {
-      if (lines[i + contextBefore.length + 1 + j] && 
-          lines[i + contextBefore.length + 1 + j].trim() === contextAfter[j].trim()) {
-        score += 1;
-      }
-    }
-    
-    if (score > bestContextMatch.score) {
-      bestContextMatch = { 
-        index: i + contextBefore.length, 
-        score, 
-        reason: `context match (score: ${score}/${contextBefore.length + contextAfter.length})` 
-      };
+
+  return content;
+}
+
+/**
+ * Swap the sides of a hunk so that applying it undoes the original change
+ */
+export function invertHunk(hunk: DiffHunk): DiffHunk {
+  return {
+    oldStart: hunk.newStart,
+    oldLines: hunk.newLines,
+    newStart: hunk.oldStart,
+    newLines: hunk.oldLines,
+    lines: hunk.lines.map(line => {
+      if (line.startsWith('+')) return '-' + line.substring(1);
+      if (line.startsWith('-')) return '+' + line.substring(1);
+      return line;
+    })
+  };
+}
+
+/**
+ * Build the inverse of a file diff, including its unified diff text
+ */
+export function invertDiff(diff: FileDiff): FileDiff {
+  const hunks = diff.hunks.map(invertHunk);
+  return { filename: diff.filename, hunks, unifiedDiff: formatUnifiedDiff(diff.filename, hunks) };
+}
+
+export interface StrictApplyResult {
+  content: string;
+  applied: number[];
+  rejected: Array<{ hunkIndex: number; reason: string }>;
+}
+
+/**
+ * Apply hunks only where their context and removed lines match the content, ignoring
+ * trailing whitespace. Unlike applyDiffHunks, a hunk that does not match is reported instead of being
+ * skipped silently, so callers can tell a partial application from a full one.
+ */
+export function applyHunksStrict(originalContent: string, diffHunks: DiffHunk[]): StrictApplyResult {
+  const lines = splitLines(originalContent);
+  const edits: Array<{ start: number; removeCount: number; adds: string[] }> = [];
+  const applied: number[] = [];
+  const rejected: StrictApplyResult['rejected'] = [];
+
+  // Matches may not overlap, and a drift found for one hunk carries over to the next
+  let minStart = 0;
+  let offset = 0;
+
+  for (const { hunk, index } of inLineOrder(diffHunks)) {
+    const ops = parseHunkOps(hunk);
+    const oldSide = ops.filter(op => op.type !== 'add').map(op => op.text);
+    const newSide = ops.filter(op => op.type !== 'remove').map(op => op.text);
+
+    // For pure insertions oldStart is the line the new lines go after
+    const anchor = oldSide.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(minStart, anchor + offset);
+    const start = oldSide.length === 0
+      ? Math.min(expected, lines.length)
+      : findBlock(lines, oldSide, expected, minStart, Infinity, trimTrailing);
+
+    if (start === -1) {
+      rejected.push({
+        hunkIndex: index,
+        reason: `lines ${hunk.oldStart}-${hunk.oldStart + Math.max(oldSide.length, 1) - 1} no longer match`
+      });
+      continue;
     }
+
+    edits.push({ start, removeCount: oldSide.length, adds: newSide });
+    applied.push(index);
+    minStart = start + oldSide.length;
+    offset = start - anchor;
   }
-  
-  if (bestContextMatch.score > 0) {
-    return bestContextMatch;
+
+  for (const edit of [...edits].reverse()) {
+    lines.splice(edit.start, edit.removeCount, ...edit.adds);
   }
-  
-  return { index: -1, reason: 'no suitable match found' };
+
+  return { content: lines.join('\n'), applied: applied.sort((a, b) => a - b), rejected };
+}
+
+export interface FuzzyApplyOptions {
+  // Context lines that may be ignored at each end of a hunk, like GNU patch's --fuzz
+  maxFuzz?: number;
+  // How many lines away from its expected position a hunk is looked for
+  searchWindow?: number;
+  // Retry with whitespace ignored when the lines are not found as written
+  ignoreWhitespace?: boolean;
+  // Matches scoring below this are rejected rather than applied
+  minConfidence?: number;
+}
+
+export interface AppliedHunk {
+  hunkIndex: number;
+  // 1-based line in the original content where the matched lines start
+  line: number;
+  // Distance from the position in the hunk header
+  offset: number;
+  // Context lines ignored at each end of the hunk
+  fuzz: number;
+  whitespaceIgnored: boolean;
+  // 1 for a match exactly where the hunk says; lower the more leeway was needed
+  confidence: number;
+}
+
+export interface HunkRejection {
+  hunkIndex: number;
+  reason: string;
+}
+
+export interface FuzzyApplyResult {
+  content: string;
+  // Hunks that matched exactly at their expected position
+  applied: AppliedHunk[];
+  // Hunks that needed an offset, fuzz or whitespace leniency
+  fuzzy: AppliedHunk[];
+  rejected: HunkRejection[];
 }
 
+// Insertions without context cannot be checked against the content
+const UNVERIFIED_INSERTION_CONFIDENCE = 0.6;
+
 /**
- * Apply diff hunks to original content
+ * Apply hunks the way GNU patch does: look for each hunk near its expected
+ * position, then drop up to maxFuzz context lines at either end, then ignore
+ * whitespace. Every hunk gets a confidence score; hunks that cannot be placed
+ * are reported with the reason instead of being dropped silently.
  */
-export function applyDiffHunks(
+export function applyHunksFuzzy(
   originalContent: string,
-  diffHunks: DiffHunk[]
-): string {
-  try {
-    const lines = originalContent.split('\n');
-    const result: string[] = [...lines];
-
-    // Process hunks in reverse order to maintain line numbers
-    const sortedHunks = [...diffHunks].sort((a, b) => b.oldStart - a.oldStart);
-
-    for (const hunk of sortedHunks) {
-      let startLineIndex = hunk.oldStart - 1; // Convert to 0-based index
-
-      // Parse hunk to extract context, removes, and adds
-      const parsedLines: Array<{ type: 'remove' | 'add' | 'context'; line: string }> = [];
-      for (const diffLine of hunk.lines) {
-        if (diffLine.startsWith('-')) {
-          parsedLines.push({ type: 'remove', line: diffLine.substring(1) });
-        } else if (diffLine.startsWith('+')) {
-          parsedLines.push({ type: 'add', line: diffLine.substring(1) });
-        } else {
-          const lineContent = diffLine.startsWith(' ') ? diffLine.substring(1) : diffLine;
-          parsedLines.push({ type: 'context', line: lineContent });
-        }
-      }
+  diffHunks: DiffHunk[],
+  options: FuzzyApplyOptions = {}
+): FuzzyApplyResult {
+  const { maxFuzz = 2, searchWindow = 50, ignoreWhitespace = true, minConfidence = 0.5 } = options;
+  const lines = splitLines(originalContent);
+  const edits: Array<{ start: number; removeCount: number; adds: string[] }> = [];
+  const applied: AppliedHunk[] = [];
+  const fuzzy: AppliedHunk[] = [];
+  const rejected: HunkRejection[] = [];
+
+  let minStart = 0;
+  let drift = 0;
+
+  for (const { hunk, index } of inLineOrder(diffHunks)) {
+    const ops = parseHunkOps(hunk);
+    const isInsertion = ops.every(op => op.type === 'add');
+    const anchor = (isInsertion ? hunk.oldStart : hunk.oldStart - 1) + drift;
+    const match = locateHunk(lines, ops, anchor, minStart, { maxFuzz, searchWindow, ignoreWhitespace });
+
+    if (!match) {
+      rejected.push({ hunkIndex: index, reason: describeMismatch(lines, ops, hunk, anchor, searchWindow) });
+      continue;
+    }
+    if (match.confidence < minConfidence) {
+      rejected.push({
+        hunkIndex: index,
+        reason: `closest match at line ${match.start + 1} has confidence ${match.confidence.toFixed(2)} (minimum ${minConfidence})`
+      });
+      continue;
+    }
 
-      // Find the actual start position by matching the first context line
-      const firstContextLine = parsedLines.find(p => p.type === 'context');
-      if (firstContextLine) {
-        // Search for the first context line within a wider range for better fuzzy matching
-        const searchStart = Math.max(0, startLineIndex - 50);
-        const searchEnd = Math.min(result.length, startLineIndex + 50);
-
-        for (let i = searchStart; i < searchEnd; i++) {
-          if (result[i] && result[i].trim() === firstContextLine.line.trim()) {
-            startLineIndex = i;
-            break;
-          }
-        }
+    // Keep the content's own context lines, which may differ in whitespace or be fuzzed away
+    const adds: string[] = [];
+    let cursor = match.start;
+    for (const op of match.ops) {
+      if (op.type === 'add') {
+        adds.push(op.text);
+      } else {
+        if (op.type === 'context') adds.push(lines[cursor]);
+        cursor++;
       }
+    }
+    const removeCount = cursor - match.start;
+
+    edits.push({ start: match.start, removeCount, adds });
+    const headerStart = anchor - drift + match.trimmedLeading;
+    const result: AppliedHunk = {
+      hunkIndex: index,
+      line: match.start + 1,
+      offset: match.start - headerStart,
+      fuzz: match.fuzz,
+      whitespaceIgnored: match.whitespaceIgnored,
+      confidence: match.confidence
+    };
+    (match.confidence === 1 ? applied : fuzzy).push(result);
 
-      // Build operations with corrected indices
-      const operations: Array<{ type: 'remove' | 'add' | 'context'; line: string; index: number }> = [];
-      let currentLineIndex = startLineIndex;
-
-      for (const parsed of parsedLines) {
-        if (parsed.type === 'remove') {
-          operations.push({ type: 'remove', line: parsed.line, index: currentLineIndex });
-          currentLineIndex++;
-        } else if (parsed.type === 'add') {
-          operations.push({ type: 'add', line: parsed.line, index: currentLineIndex });
-        } else {
-          operations.push({ type: 'context', line: parsed.line, index: currentLineIndex });
-          currentLineIndex++;
-        }
-      }
+    minStart = match.start + removeCount;
+    drift = match.start - headerStart;
+  }
 
-      // Verify context lines match before applying changes
-      // Skip validation if hunk has no context lines (pure insertions)
-      const hasContextLines = operations.some(op => op.type === 'context');
-      let contextMatches = true;
-
-      if (hasContextLines) {
-        for (const op of operations) {
-          if (op.type === 'context') {
-            if (result[op.index] !== undefined && result[op.index].trim() !== op.line.trim()) {
-              contextMatches = false;
-              console.warn(`Context mismatch at line ${op.index + 1}: expected "${op.line.trim()}", got "${result[op.index].trim()}"`);
-              break;
-            }
-          }
-        }
-
-        if (!contextMatches) {
-          console.warn(`Skipping hunk at line ${hunk.oldStart} due to context mismatch`);
-          continue;
-        }
-      }
+  for (const edit of [...edits].reverse()) {
+    lines.splice(edit.start, edit.removeCount, ...edit.adds);
+  }
 
-      // Apply operations: process removes and adds together to maintain proper ordering
-      // Group consecutive operations by their index
-      const grouped: Array<{ index: number; removes: string[]; adds: string[] }> = [];
-      let currentGroup: { index: number; removes: string[]; adds: string[] } | null = null;
-
-      for (const op of operations) {
-        if (op.type === 'remove' || op.type === 'add') {
-          if (!currentGroup || currentGroup.index !== op.index) {
-            if (currentGroup) {
-              grouped.push(currentGroup);
-            }
-            currentGroup = { index: op.index, removes: [], adds: [] };
-          }
-
-          if (op.type === 'remove') {
-            currentGroup.removes.push(op.line);
-          } else {
-            currentGroup.adds.push(op.line);
-          }
-        }
-      }
+  const byIndex = (a: { hunkIndex: number }, b: { hunkIndex: number }) => a.hunkIndex - b.hunkIndex;
+  return {
+    content: lines.join('\n'),
+    applied: applied.sort(byIndex),
+    fuzzy: fuzzy.sort(byIndex),
+    rejected: rejected.sort(byIndex)
+  };
+}
 
-      if (currentGroup) {
-        grouped.push(currentGroup);
-      }
+type HunkOp = { type: 'context' | 'remove' | 'add'; text: string };
 
-      // Apply grouped operations in reverse order to maintain indices
-      for (let i = grouped.length - 1; i >= 0; i--) {
-        const group = grouped[i];
+function parseHunkOps(hunk: DiffHunk): HunkOp[] {
+  const hunkLines = [...hunk.lines];
+  // A trailing empty string is left over from splitting the diff text, not a context line
+  while (hunkLines.length > 0 && hunkLines[hunkLines.length - 1] === '') {
+    hunkLines.pop();
+  }
+
+  const ops: HunkOp[] = [];
+  for (const line of hunkLines) {
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    if (line.startsWith('-')) {
+      ops.push({ type: 'remove', text: line.substring(1) });
+    } else if (line.startsWith('+')) {
+      ops.push({ type: 'add', text: line.substring(1) });
+    } else {
+      ops.push({ type: 'context', text: line.startsWith(' ') ? line.substring(1) : line });
+    }
+  }
+  return ops;
+}
 
-        // Remove lines
-        if (group.removes.length > 0) {
-          result.splice(group.index, group.removes.length);
-        }
+function inLineOrder(diffHunks: DiffHunk[]): Array<{ hunk: DiffHunk; index: number }> {
+  return diffHunks
+    .map((hunk, index) => ({ hunk, index }))
+    .sort((a, b) => a.hunk.oldStart - b.hunk.oldStart);
+}
 
-        // Add lines at the same position
-        if (group.adds.length > 0) {
-          result.splice(group.index, 0, ...group.adds);
-        }
-      }
+const trimTrailing = (line: string) => line.trimEnd();
+const stripWhitespace = (line: string) => line.replace(/\s+/g, '');
+
+interface HunkMatch {
+  start: number;
+  ops: HunkOp[];
+  trimmedLeading: number;
+  fuzz: number;
+  whitespaceIgnored: boolean;
+  confidence: number;
+}
+
+function locateHunk(
+  lines: string[],
+  ops: HunkOp[],
+  anchor: number,
+  minStart: number,
+  settings: Required<Pick<FuzzyApplyOptions, 'maxFuzz' | 'searchWindow' | 'ignoreWhitespace'>>
+): HunkMatch | null {
+  const firstChange = ops.findIndex(op => op.type !== 'context');
+  const leadingContext = firstChange === -1 ? ops.length : firstChange;
+  const trailingContext = firstChange === -1 ? 0 : [...ops].reverse().findIndex(op => op.type !== 'context');
+
+  for (let fuzz = 0; fuzz <= settings.maxFuzz; fuzz++) {
+    const lead = Math.min(fuzz, leadingContext);
+    const trail = Math.min(fuzz, trailingContext);
+    if (fuzz > 0 && lead < fuzz && trail < fuzz) break; // No context left to drop
+
+    const trimmed = ops.slice(lead, ops.length - trail);
+    const oldSide = trimmed.filter(op => op.type !== 'add').map(op => op.text);
+    const expected = Math.max(minStart, anchor + lead);
+
+    if (oldSide.length === 0) {
+      if (fuzz > 0) break; // Dropping all context would leave nothing to match
+      return {
+        start: Math.min(expected, lines.length),
+        ops: trimmed,
+        trimmedLeading: 0,
+        fuzz: 0,
+        whitespaceIgnored: false,
+        confidence: UNVERIFIED_INSERTION_CONFIDENCE
+      };
     }
 
-    return result.join('\n');
-  } catch (error) {
-    console.error('Error applying diff:', error);
-    throw new Error(`Failed to apply diff: ${error}`);
+    for (const whitespaceIgnored of settings.ignoreWhitespace ? [false, true] : [false]) {
+      const normalize = whitespaceIgnored ? stripWhitespace : trimTrailing;
+      const start = findBlock(lines, oldSide, expected, minStart, settings.searchWindow, normalize);
+      if (start === -1) continue;
+
+      const distance = Math.abs(start - expected);
+      const confidence = 1
+        - 0.2 * fuzz
+        - (whitespaceIgnored ? 0.1 : 0)
+        - 0.2 * Math.min(1, distance / Math.max(1, settings.searchWindow));
+      return {
+        start,
+        ops: trimmed,
+        trimmedLeading: lead,
+        fuzz,
+        whitespaceIgnored,
+        confidence: Math.round(confidence * 100) / 100
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Explain why a hunk was not found, pointing at the closest partial match
+ */
+function describeMismatch(lines: string[], ops: HunkOp[], hunk: DiffHunk, anchor: number, searchWindow: number): string {
+  const oldSide = ops.filter(op => op.type !== 'add').map(op => stripWhitespace(op.text));
+  const range = `lines ${hunk.oldStart}-${hunk.oldStart + Math.max(oldSide.length, 1) - 1}`;
+
+  let best = { start: -1, matching: 0 };
+  const from = Math.max(0, anchor - searchWindow);
+  const to = Math.min(lines.length - 1, anchor + searchWindow);
+  for (let start = from; start <= to; start++) {
+    const matching = oldSide.filter((line, i) => lines[start + i] !== undefined && stripWhitespace(lines[start + i]) === line).length;
+    if (matching > best.matching) best = { start, matching };
+  }
+
+  const closest = best.start === -1
+    ? 'no similar lines nearby'
+    : `closest match at line ${best.start + 1} (${best.matching}/${oldSide.length} lines match)`;
+  return `${range} not found within ${searchWindow} lines; ${closest}`;
+}
+
+/**
+ * Find the position of a block of lines closest to `expected`, at most `maxDistance` away
+ */
+function findBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  minStart: number,
+  maxDistance: number,
+  normalize: (line: string) => string
+): number {
+  const wanted = block.map(normalize);
+  const matchesAt = (start: number) =>
+    wanted.every((line, i) => lines[start + i] !== undefined && normalize(lines[start + i]) === line);
+
+  const lastStart = lines.length - block.length;
+  for (
+    let distance = 0;
+    distance <= maxDistance && (expected - distance >= minStart || expected + distance <= lastStart);
+    distance++
+  ) {
+    const below = expected + distance;
+    if (below >= minStart && below <= lastStart && matchesAt(below)) return below;
+    const above = expected - distance;
+    if (distance > 0 && above >= minStart && above <= lastStart && matchesAt(above)) return above;
   }
+  return -1;
 }
 
 /**
@@ -429,12 +583,12 @@ export function validateDiff(diff: FileDiff): boolean {
       return false;
     }
 
-    // Validate each hunk
+    // Validate each hunk; a side with no lines starts at 0 (e.g. "@@ -0,0 +1,3 @@" creates a file)
     return diff.hunks.every(hunk => 
-      typeof hunk.oldStart === 'number' && hunk.oldStart > 0 &&
-      typeof hunk.newStart === 'number' && hunk.newStart > 0 &&
       typeof hunk.oldLines === 'number' && hunk.oldLines >= 0 &&
       typeof hunk.newLines === 'number' && hunk.newLines >= 0 &&
+      typeof hunk.oldStart === 'number' && (hunk.oldStart > 0 || (hunk.oldStart === 0 && hunk.oldLines === 0)) &&
+      typeof hunk.newStart === 'number' && (hunk.newStart > 0 || (hunk.newStart === 0 && hunk.newLines === 0)) &&
       Array.isArray(hunk.lines)
     );
   } catch (error) {
@@ -443,132 +597,30 @@ export function validateDiff(diff: FileDiff): boolean {
   }
 }
 
+// An empty file has no lines, rather than one empty line
+function splitLines(content: string): string[] {
+  return content === '' ? [] : content.split('\n');
+}
+
 /**
- * Create a minimal diff with context lines
+ * Create a minimal diff with context lines.
+ * Lines are compared exactly; a trailing newline shows up as a final empty line,
+ * matching how the hunk appliers split content.
  */
 export function createMinimalDiff(
   originalContent: string,
   newContent: string,
   filename: string,
-  contextLines: number = 3
+  contextLines: number = 3,
+  algorithm: DiffAlgorithm = 'myers'
 ): FileDiff {
-  const lines = originalContent.split('\n');
-  const newLines = newContent.split('\n');
-  
-  // Find the differences
-  const changes: Array<{
-    type: 'add' | 'remove' | 'context';
-    line: string;
-    lineNumber: number;
-  }> = [];
-
-  let i = 0, j = 0;
-  while (i < lines.length || j < newLines.length) {
-    if (i >= lines.length) {
-      // Addition
-      changes.push({
-        type: 'add',
-        line: newLines[j],
-        lineNumber: j + 1
-      });
-      j++;
-    } else if (j >= newLines.length) {
-      // Removal
-      changes.push({
-        type: 'remove',
-        line: lines[i],
-        lineNumber: i + 1
-      });
-      i++;
-    } else if (lines[i] === newLines[j]) {
-      // Context
-      changes.push({
-        type: 'context',
-        line: lines[i],
-        lineNumber: i + 1
-      });
-      i++;
-      j++;
-    } else {
-      // Find the best match
-      let found = false;
-      for (let k = 1; k <= 10 && j + k < newLines.length; k++) {
-        if (lines[i] === newLines[j + k]) {
-          // Additions
-          for (let l = 0; l < k; l++) {
-            changes.push({
-              type: 'add',
-              line: newLines[j + l],
-              lineNumber: j + l + 1
-            });
-          }
-          j += k;
-          found = true;
-          break;
-        }
-      }
-      
-      if (!found) {
-        // Removal
-        changes.push({
-          type: 'remove',
-          line: lines[i],
-          lineNumber: i + 1
-        });
-        i++;
-      }
-    }
-  }
-
-  // Group changes into hunks
-  const hunks: DiffHunk[] = [];
-  let currentHunk: DiffHunk | null = null;
-  let contextCount = 0;
-
-  for (let i = 0; i < changes.length; i++) {
-    const change = changes[i];
-    
-    if (change.type === 'context') {
-      contextCount++;
-      if (contextCount > contextLines * 2 && currentHunk) {
-        // End current hunk
-        hunks.push(currentHunk);
-        currentHunk = null;
-        contextCount = 0;
-      }
-    } else {
-      if (!currentHunk) {
-        // Start new hunk
-        const startLine = Math.max(1, change.lineNumber - contextLines);
-        currentHunk = {
-          oldStart: startLine,
-          oldLines: 0,
-          newStart: startLine,
-          newLines: 0,
-          lines: []
-        };
-      }
-      
-      if (change.type === 'remove') {
-        currentHunk.lines.push(`-${change.line}`);
-        currentHunk.oldLines++;
-      } else if (change.type === 'add') {
-        currentHunk.lines.push(`+${change.line}`);
-        currentHunk.newLines++;
-      }
-      
-      contextCount = 0;
-    }
-  }
-
-  if (currentHunk) {
-    hunks.push(currentHunk);
-  }
+  const edits = diffLines(splitLines(originalContent), splitLines(newContent), algorithm);
+  const hunks: DiffHunk[] = buildHunks(edits, contextLines);
 
   return {
     filename,
     hunks,
-    unifiedDiff: createPatch(filename, originalContent, newContent)
+    unifiedDiff: formatUnifiedDiff(filename, hunks)
   };
 }
 
@@ -3,10 +3,12 @@ import {
   executeFollowUpPipeline,
   STAGE_MODEL_CONFIG,
   ContextGatheringResult,
-  IntentSpec
+  IntentSpec,
+  PipelineHooks
 } from './llmOptimizer';
 import { gatherContextWithTools } from './toolExecutionService';
 import { generateDiff, applyDiffToContent, validateDiff, FileDiff, DiffHunk } from './diffUtils';
+import { reportStage } from './jobEvents';
 
 export interface EnhancedPipelineResult {
   success: boolean;
@@ -33,7 +35,8 @@ export async function executeEnhancedPipeline(
     stageType?: keyof typeof STAGE_MODEL_CONFIG
   ) => Promise<string>,
   isInitialGeneration: boolean = false,
-  projectDir?: string
+  projectDir?: string,
+  hooks: PipelineHooks = {}
 ): Promise<EnhancedPipelineResult> {
   try {
     console.log("🚀 Starting enhanced pipeline...");
@@ -52,14 +55,15 @@ export async function executeEnhancedPipeline(
     } else {
       console.log("🔍 Follow-up changes - gathering context...");
       // Step 1: Gather context with tools if needed
-      const contextGatheringResult = await gatherContextWithTools(
+      await hooks.beforeStage?.('context');
+      const contextGatheringResult = await reportStage(hooks.onProgress, 'context', () => gatherContextWithTools(
         userPrompt,
         currentFiles,
         projectId,
         accessToken,
         callLLM,
         projectDir
-      );
+      ));
       
       contextResult = contextGatheringResult.contextResult;
       contextData = contextGatheringResult.contextData;
@@ -79,7 +83,8 @@ export async function executeEnhancedPipeline(
         enhancedFiles,
         callLLM,
         projectId,
-        projectDir
+        projectDir,
+        hooks
       );
     } else {
       pipelineResult = await executeFollowUpPipeline(
@@ -87,7 +92,8 @@ export async function executeEnhancedPipeline(
         enhancedFiles,
         callLLM,
         projectId,
-        projectDir
+        projectDir,
+        hooks
       );
     }
 
@@ -121,7 +127,7 @@ export async function executeEnhancedPipeline(
 
         // Generate diff for modified file
         try {
-          const diff = generateDiff(originalFile.content, file.content, file.filename);
+          const diff = generateDiff(originalFile.content, file.content, file.filename, { algorithm: 'patience' });
           
           if (validateDiff(diff)) {
             return {
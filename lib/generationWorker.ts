@@ -15,7 +15,13 @@ import {
   getProjectById,
   createDeployment,
   getProjectFiles,
+  getFileRevision,
   savePatch,
+  linkFileRevisionsToPatch,
+  saveGenerationJobCheckpoint,
+  setGenerationJobProject,
+  recordGenerationJobBaseVersions,
+  FileVersionConflictError,
   type GenerationJobContext,
 } from "./database";
 import { executeEnhancedPipeline } from "./enhancedPipeline";
@@ -27,10 +33,30 @@ import {
   updatePreviewFiles,
   deployContractsFirst,
 } from "./previewManager";
-import { STAGE_MODEL_CONFIG, ANTHROPIC_MODELS } from "./llmOptimizer";
+import { createLLMProvider, createCallLLM } from "./llmProvider";
+import { parallelGenerationFromEnv } from "./parallelGeneration";
+import { contextOptionsFromEnv, recentlyEditedFiles } from "./contextBuilder";
+import { withCassetteFromEnv } from "./llmCassette";
+import { persistUsageTo } from "./llmUsageLedger";
+import { createJobEventLog, type JobEventLog } from "./jobEventLog";
+import { reportStage } from "./jobEvents";
+import { createCancellationGuard, JobCancelledError, JobLeaseLostError } from "./jobControl";
+import type { PipelineCheckpoint, PipelineHooks } from "./llmOptimizer";
+import { withTokenBudget, QuotaExceededError, serializeQuotaStatus } from "./quotas";
 import { updateFilesWithContractAddresses } from "./contractAddressInjector";
+import { mergeThreeWay } from "./threeWayMerge";
 
 const PREVIEW_API_BASE = process.env.PREVIEW_API_BASE || 'https://minidev.fun';
+// Merge-and-save rounds before a follow-up gives up on a project the user keeps editing
+const MAX_SAVE_ATTEMPTS = 3;
+
+// Stored in generation_jobs.checkpoint so a retry resumes instead of starting over
+interface GenerationJobCheckpoint {
+  projectId?: string;
+  pipeline?: PipelineCheckpoint;
+}
+
+type CancellationGuard = ReturnType<typeof createCancellationGuard>;
 
 // Utility: Recursively read all files in a directory
 async function readAllFiles(
@@ -172,179 +198,6 @@ async function fetchBoilerplateFromGitHub(targetDir: string) {
   await fetchDirectoryContents();
 }
 
-// LLM caller with retry logic
-async function callClaudeWithLogging(
-  systemPrompt: string,
-  userPrompt: string,
-  stageName: string,
-  stageType?: keyof typeof STAGE_MODEL_CONFIG
-): Promise<string> {
-  const apiKey = process.env.CLAUDE_API_KEY;
-  if (!apiKey) throw new Error("Claude API key not set in environment");
-
-  let modelConfig = stageType
-    ? STAGE_MODEL_CONFIG[stageType]
-    : STAGE_MODEL_CONFIG.LEGACY_SINGLE_STAGE;
-
-  if (stageName.includes('(Retry)') && stageType === 'STAGE_3_CODE_GENERATOR') {
-    const increasedTokens = Math.min(modelConfig.maxTokens * 2, 40000);
-    modelConfig = {
-      ...modelConfig,
-      maxTokens: increasedTokens
-    } as typeof modelConfig;
-  }
-
-  console.log(`\n🤖 LLM Call - ${stageName}`);
-  console.log("  Model:", modelConfig.model);
-  console.log("  Max Tokens:", modelConfig.maxTokens);
-
-  const body = {
-    model: modelConfig.model,
-    max_tokens: modelConfig.maxTokens,
-    temperature: modelConfig.temperature,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }],
-  };
-
-  const maxRetries = 3;
-  const baseDelay = 1000;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    if (attempt > 1) {
-      const throttleDelay = Math.min(500 * attempt, 2000);
-      console.log(`⏱️ Throttling request (attempt ${attempt}), waiting ${throttleDelay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, throttleDelay));
-    }
-
-    try {
-      const startTime = Date.now();
-
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": apiKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-
-        if (response.status === 529 || response.status === 429) {
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              console.log(`⚠️ API ${response.status} error, switching to fallback model: ${modelConfig.fallbackModel}`);
-              body.model = modelConfig.fallbackModel;
-            } else {
-              console.log(`⚠️ API ${response.status} error, retrying in ${delay}ms...`);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            throw new Error(
-              `Claude API overloaded after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else if (response.status >= 500) {
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              console.log(`⚠️ Server error ${response.status}, switching to fallback model: ${modelConfig.fallbackModel}`);
-              body.model = modelConfig.fallbackModel;
-            } else {
-              console.log(`⚠️ Server error ${response.status}, retrying in ${delay}ms...`);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            throw new Error(
-              `Claude API server error after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else {
-          throw new Error(`Claude API error: ${response.status} ${errorText}`);
-        }
-      }
-
-      const responseData = await response.json();
-      const endTime = Date.now();
-
-      const responseText = responseData.content[0]?.text || "";
-
-      const inputTokens = responseData.usage?.input_tokens || 0;
-      const outputTokens = responseData.usage?.output_tokens || 0;
-      const totalTokens = inputTokens + outputTokens;
-
-      const actualCost = calculateActualCost(inputTokens, outputTokens, modelConfig.model);
-
-      console.log("📥 Output:");
-      console.log("  Response Time:", endTime - startTime, "ms");
-      console.log("  Total Tokens:", totalTokens);
-      console.log("  Cost:", actualCost);
-
-      return responseText;
-    } catch (error) {
-      if (attempt === maxRetries) {
-        console.error(`❌ LLM API Error (${stageName}) after ${maxRetries} attempts:`, error);
-        throw error;
-      }
-
-      if (
-        error instanceof TypeError ||
-        (error instanceof Error && error.message.includes("fetch"))
-      ) {
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`⚠️ Network error, retrying in ${delay}ms...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  throw new Error(
-    `Failed to get response from Claude API after ${maxRetries} attempts`
-  );
-}
-
-function calculateActualCost(
-  inputTokens: number,
-  outputTokens: number,
-  model: string
-): string {
-  let costPer1MInput = 0;
-  let costPer1MOutput = 0;
-
-  switch (model) {
-    case ANTHROPIC_MODELS.FAST:
-      costPer1MInput = 0.25;
-      costPer1MOutput = 1.25;
-      break;
-    case ANTHROPIC_MODELS.BALANCED:
-      costPer1MInput = 3;
-      costPer1MOutput = 15;
-      break;
-    case ANTHROPIC_MODELS.POWERFUL:
-      costPer1MInput = 15;
-      costPer1MOutput = 75;
-      break;
-  }
-
-  const inputCost = (inputTokens / 1000000) * costPer1MInput;
-  const outputCost = (outputTokens / 1000000) * costPer1MOutput;
-  const totalCost = inputCost + outputCost;
-
-  return `$${totalCost.toFixed(6)}`;
-}
-
 function generateProjectName(intentSpec: { feature: string; reason?: string }): string {
   let projectName = intentSpec.feature;
 
@@ -376,6 +229,23 @@ function generateProjectName(intentSpec: { feature: string; reason?: string }):
   return projectName;
 }
 
+// Pipeline hooks for a job: progress events, cancellation between stages and checkpoints
+function createPipelineHooks(
+  jobId: string,
+  checkpoint: GenerationJobCheckpoint,
+  events: JobEventLog,
+  guard: CancellationGuard
+): PipelineHooks {
+  return {
+    onProgress: events.emit,
+    beforeStage: guard.beforeStage,
+    resumeFrom: checkpoint.pipeline,
+    onCheckpoint: (pipeline) => saveGenerationJobCheckpoint(jobId, { ...checkpoint, pipeline }),
+    parallelGeneration: parallelGenerationFromEnv(),
+    context: contextOptionsFromEnv(),
+  };
+}
+
 // Helper function to get project directory path
 function getProjectDir(projectId: string): string {
   const outputDir = process.env.NODE_ENV === 'production'
@@ -384,11 +254,28 @@ function getProjectDir(projectId: string): string {
   return path.join(outputDir, projectId);
 }
 
+export interface ExecuteJobOptions {
+  // Queue workers pass their lease state; the job stops before the next stage once it is lost
+  isLeaseHeld?: () => boolean;
+  // Queue worker holding the lease; final status writes are dropped once it no longer does
+  workerId?: string;
+}
+
+// Write a job's final status; false when the lease moved to another worker
+type FinishJob = (status: "completed" | "failed" | "cancelled", result?: Record<string, unknown>, error?: string) => Promise<boolean>;
+
 /**
  * Main worker function to execute a generation job
  */
-export async function executeGenerationJob(jobId: string): Promise<void> {
+export async function executeGenerationJob(jobId: string, options: ExecuteJobOptions = {}): Promise<void> {
   console.log(`🚀 Starting job execution: ${jobId}`);
+  const events = createJobEventLog(jobId);
+  const guard = createCancellationGuard(jobId, undefined, options.isLeaseHeld);
+  const finish: FinishJob = async (status, result, error) => {
+    const updated = await updateGenerationJobStatus(jobId, status, result, error, options.workerId);
+    if (!updated) console.warn(`⚠️ Job ${jobId} is leased to another worker, not marking it ${status}`);
+    return !!updated;
+  };
 
   try {
     // Fetch job from database
@@ -410,24 +297,59 @@ export async function executeGenerationJob(jobId: string): Promise<void> {
     // Extract context from job
     const context = job.context as GenerationJobContext;
 
+    const resumed = Object.keys((job.checkpoint as GenerationJobCheckpoint | null)?.pipeline ?? {});
+    events.emit({
+      type: 'job_started',
+      message: resumed.length > 0
+        ? 'Resuming from the last completed stage'
+        : context.isFollowUp ? 'Applying your changes' : 'Building your miniapp',
+      data: { isFollowUp: !!context.isFollowUp, resumedArtifacts: resumed },
+    });
+
     // Route to appropriate handler based on job type
     if (context.isFollowUp) {
       console.log(`🔄 Detected follow-up job, routing to follow-up handler`);
-      return await executeFollowUpJob(jobId, job, context);
+      return await executeFollowUpJob(jobId, job, context, events, guard, finish);
     } else {
       console.log(`🆕 Detected initial generation job, routing to initial generation handler`);
-      return await executeInitialGenerationJob(jobId, job, context);
+      return await executeInitialGenerationJob(jobId, job, context, events, guard, finish);
     }
   } catch (error) {
+    // Another worker requeued and now owns the job; leave its status alone
+    if (error instanceof JobLeaseLostError) {
+      console.warn(`⚠️ ${error.message}, abandoning this attempt`);
+      return;
+    }
+
+    // Cancellation stops the job between stages; checkpoints are kept for a retry
+    if (error instanceof JobCancelledError) {
+      console.log(`🛑 Job ${jobId} cancelled`);
+      events.emit({ type: 'job_cancelled', message: 'Generation cancelled', data: { stage: error.stage } });
+      await events.flush();
+      await finish("cancelled", undefined, "Cancelled by user");
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    events.emit({
+      type: 'job_failed',
+      message,
+      data: error instanceof QuotaExceededError ? { quotaExceeded: error.quota } : undefined,
+    });
+    // Let the event stream deliver the failure before the job turns terminal
+    await events.flush();
+
+    // Budget overruns stop the job cleanly: nothing was saved or deployed
+    if (error instanceof QuotaExceededError) {
+      console.warn(`⛔ Job ${jobId} stopped: ${error.message}`);
+      await finish("failed", { quotaExceeded: error.quota, ...serializeQuotaStatus(error.status) }, error.message);
+      return;
+    }
+
     console.error(`❌ Job ${jobId} failed:`, error);
 
-    // Update job status to failed
-    await updateGenerationJobStatus(
-      jobId,
-      "failed",
-      undefined,
-      error instanceof Error ? error.message : String(error)
-    );
+    // Update job status to failed; a worker that lost the lease leaves it to the new owner
+    if (!(await finish("failed", undefined, message))) return;
 
     throw error;
   }
@@ -439,328 +361,334 @@ export async function executeGenerationJob(jobId: string): Promise<void> {
 async function executeInitialGenerationJob(
   jobId: string,
   job: Awaited<ReturnType<typeof getGenerationJobById>>,
-  context: GenerationJobContext
+  context: GenerationJobContext,
+  events: JobEventLog,
+  guard: CancellationGuard,
+  finish: FinishJob
 ): Promise<void> {
   const { prompt, existingProjectId } = context;
-    const accessToken = process.env.PREVIEW_AUTH_TOKEN;
+  const accessToken = process.env.PREVIEW_AUTH_TOKEN;
 
-    if (!accessToken) {
-      throw new Error("Missing preview auth token");
-    }
+  if (!accessToken) {
+    throw new Error("Missing preview auth token");
+  }
 
-    // Get user
-    const user = await getUserById(job.userId);
-    if (!user) {
-      throw new Error(`User ${job.userId} not found`);
-    }
+  // Get user
+  const user = await getUserById(job.userId);
+  if (!user) {
+    throw new Error(`User ${job.userId} not found`);
+  }
 
-    console.log(`🔧 Processing job for user: ${user.email || user.id}`);
-    console.log(`📋 Prompt: ${prompt.substring(0, 100)}...`);
+  console.log(`🔧 Processing job for user: ${user.email || user.id}`);
+  console.log(`📋 Prompt: ${prompt.substring(0, 100)}...`);
 
-    // Extract user request
-    const lines = prompt.split("\n");
-    let userRequest = prompt;
+  // Extract user request
+  const lines = prompt.split("\n");
+  let userRequest = prompt;
 
-    if (prompt.includes("BUILD THIS MINIAPP:")) {
-      const buildMatch = prompt.match(/BUILD THIS MINIAPP:\s*(.+?)(?:\n|$)/);
-      if (buildMatch) {
-        userRequest = buildMatch[1].trim();
-      }
-    } else {
-      const userMatch = lines.find((line: string) =>
-        line.startsWith("User wants to create:")
-      );
-      if (userMatch) {
-        userRequest = userMatch;
-      }
+  if (prompt.includes("BUILD THIS MINIAPP:")) {
+    const buildMatch = prompt.match(/BUILD THIS MINIAPP:\s*(.+?)(?:\n|$)/);
+    if (buildMatch) {
+      userRequest = buildMatch[1].trim();
     }
-
-    // Use existing project ID or generate new one
-    const projectId = existingProjectId || uuidv4();
-
-    console.log(`📁 Project ID: ${projectId}`);
-
-    // Set up directories
-    const outputDir = process.env.NODE_ENV === 'production'
-      ? '/tmp/generated'
-      : path.join(process.cwd(), 'generated');
-    const userDir = path.join(outputDir, projectId);
-    const boilerplateDir = path.join(outputDir, `${projectId}-boilerplate`);
-
-    fs.mkdirSync(outputDir, { recursive: true });
-
-    // Fetch boilerplate
-    console.log("📋 Fetching boilerplate from GitHub API...");
-    await fetchBoilerplateFromGitHub(boilerplateDir);
-    console.log("✅ Boilerplate fetched successfully");
-
-    // Copy boilerplate to user directory
-    console.log("📋 Copying boilerplate to user directory...");
-    await fs.copy(boilerplateDir, userDir, {
-      filter: (src) => {
-        const excludePatterns = [
-          "node_modules",
-          ".git",
-          ".next",
-          "pnpm-lock.yaml",
-          "package-lock.json",
-          "yarn.lock",
-          "bun.lockb",
-          "pnpm-workspace.yaml",
-        ];
-        return !excludePatterns.some((pattern) => src.includes(pattern));
-      },
-    });
-    console.log("✅ Boilerplate copied successfully");
-
-    // Clean up boilerplate directory
-    await fs.remove(boilerplateDir);
-
-    // Read boilerplate files
-    console.log("📖 Reading boilerplate files...");
-    const boilerplateFiles = await readAllFiles(userDir);
-    console.log(`📁 Found ${boilerplateFiles.length} boilerplate files`);
-
-    // Create LLM caller
-    const callLLM = async (
-      systemPrompt: string,
-      userPrompt: string,
-      stageName: string,
-      stageType?: keyof typeof STAGE_MODEL_CONFIG
-    ): Promise<string> => {
-      return callClaudeWithLogging(
-        systemPrompt,
-        userPrompt,
-        stageName,
-        stageType
-      );
-    };
-
-    // Execute enhanced pipeline
-    console.log("🔄 Executing enhanced pipeline...");
-    const enhancedResult = await executeEnhancedPipeline(
-      prompt,
-      boilerplateFiles,
-      projectId,
-      accessToken,
-      callLLM,
-      true, // isInitialGeneration
-      userDir
+  } else {
+    const userMatch = lines.find((line: string) =>
+      line.startsWith("User wants to create:")
     );
-
-    if (!enhancedResult.success) {
-      throw new Error(enhancedResult.error || "Enhanced pipeline failed");
+    if (userMatch) {
+      userRequest = userMatch;
     }
+  }
 
-    let generatedFiles = enhancedResult.files.map(f => ({
-      filename: f.filename,
-      content: f.content
-    }));
+  // Use existing project ID, the one from a previous attempt, or generate a new one
+  const checkpoint = (job.checkpoint ?? {}) as GenerationJobCheckpoint;
+  const projectId = existingProjectId || checkpoint.projectId || uuidv4();
+  checkpoint.projectId = projectId;
 
-    console.log(`✅ Successfully generated ${generatedFiles.length} files`);
+  console.log(`📁 Project ID: ${projectId}`);
 
-    // Filter out contracts for non-Web3 apps BEFORE writing to disk
-    if (enhancedResult.intentSpec && !enhancedResult.intentSpec.isWeb3) {
-      const originalCount = generatedFiles.length;
-      generatedFiles = generatedFiles.filter(file => {
-        const isContractFile = file.filename.startsWith('contracts/');
-        if (isContractFile) {
-          console.log(`🗑️ Filtering out contract file: ${file.filename}`);
-        }
-        return !isContractFile;
-      });
-      console.log(`📦 Filtered ${originalCount - generatedFiles.length} contract files from generated output`);
-
-      // Also delete contracts directory from disk if it exists
-      const contractsDir = path.join(userDir, 'contracts');
-      if (await fs.pathExists(contractsDir)) {
-        console.log("🗑️ Removing contracts/ directory from disk...");
-        await fs.remove(contractsDir);
-        console.log("✅ Contracts directory removed from disk");
-      }
-    }
+  // Set up directories
+  const outputDir = process.env.NODE_ENV === 'production'
+    ? '/tmp/generated'
+    : path.join(process.cwd(), 'generated');
+  const userDir = path.join(outputDir, projectId);
+  const boilerplateDir = path.join(outputDir, `${projectId}-boilerplate`);
 
-    // Write files to disk (now without contracts for non-Web3 apps)
-    console.log("💾 Writing generated files to disk...");
-    await writeFilesToDir(userDir, generatedFiles);
-    await saveFilesToGenerated(projectId, generatedFiles);
-    console.log("✅ Files written successfully");
+  fs.mkdirSync(outputDir, { recursive: true });
 
-    // NEW: Deploy contracts FIRST for Web3 projects (before creating preview)
-    let contractAddresses: { [key: string]: string } | undefined;
+  // Fetch boilerplate
+  console.log("📋 Fetching boilerplate from GitHub API...");
+  await fetchBoilerplateFromGitHub(boilerplateDir);
+  console.log("✅ Boilerplate fetched successfully");
+
+  // Copy boilerplate to user directory
+  console.log("📋 Copying boilerplate to user directory...");
+  await fs.copy(boilerplateDir, userDir, {
+    filter: (src) => {
+      const excludePatterns = [
+        "node_modules",
+        ".git",
+        ".next",
+        "pnpm-lock.yaml",
+        "package-lock.json",
+        "yarn.lock",
+        "bun.lockb",
+        "pnpm-workspace.yaml",
+      ];
+      return !excludePatterns.some((pattern) => src.includes(pattern));
+    },
+  });
+  console.log("✅ Boilerplate copied successfully");
 
-    if (enhancedResult.intentSpec?.isWeb3) {
-      console.log("\n" + "=".repeat(70));
-      console.log("🔗 WEB3 PROJECT DETECTED - DEPLOYING CONTRACTS FIRST");
-      console.log("=".repeat(70) + "\n");
+  // Clean up boilerplate directory
+  await fs.remove(boilerplateDir);
 
-      try {
-        // Deploy contracts and get real addresses
-        contractAddresses = await deployContractsFirst(
-          projectId,
-          generatedFiles,
-          accessToken
-        );
+  // Read boilerplate files
+  console.log("📖 Reading boilerplate files...");
+  const boilerplateFiles = await readAllFiles(userDir);
+  console.log(`📁 Found ${boilerplateFiles.length} boilerplate files`);
 
-        console.log("✅ Contracts deployed successfully!");
-        console.log("📝 Contract addresses:", JSON.stringify(contractAddresses, null, 2));
+  // Create LLM caller
+  const provider = createLLMProvider({
+    onUsage: persistUsageTo({ jobId, projectId, userId: user.id }),
+  });
+  // Check the user's token budget before every stage call
+  const budget = withTokenBudget(createCallLLM(provider), user.id);
+  const callLLM = withCassetteFromEnv(budget.callLLM, jobId);
+
+  // Execute enhanced pipeline
+  console.log("🔄 Executing enhanced pipeline...");
+  // Budget overruns and cancellations surface here, before anything is deployed
+  const enhancedResult = await guard.run(() => budget.run(() => executeEnhancedPipeline(
+    prompt,
+    boilerplateFiles,
+    projectId,
+    accessToken,
+    callLLM,
+    true, // isInitialGeneration
+    userDir,
+    createPipelineHooks(jobId, checkpoint, events, guard)
+  )));
+
+  if (!enhancedResult.success) {
+    throw new Error(enhancedResult.error || "Enhanced pipeline failed");
+  }
 
-        // Inject real contract addresses into files BEFORE deployment
-        if (contractAddresses && Object.keys(contractAddresses).length > 0) {
-          console.log("\n" + "=".repeat(70));
-          console.log("💉 INJECTING CONTRACT ADDRESSES INTO FILES");
-          console.log("=".repeat(70) + "\n");
+  let generatedFiles = enhancedResult.files.map(f => ({
+    filename: f.filename,
+    content: f.content
+  }));
 
-          generatedFiles = updateFilesWithContractAddresses(
-            generatedFiles,
-            contractAddresses
-          );
+  console.log(`✅ Successfully generated ${generatedFiles.length} files`);
 
-          // Rewrite files with injected addresses
-          await writeFilesToDir(userDir, generatedFiles);
-          await saveFilesToGenerated(projectId, generatedFiles);
-          console.log("✅ Contract addresses injected and files updated");
-        }
-      } catch (contractError) {
-        console.error("\n" + "=".repeat(70));
-        console.error("⚠️  CONTRACT DEPLOYMENT FAILED - CONTINUING WITH PLACEHOLDERS");
-        console.error("=".repeat(70));
-        console.error("Error:", contractError);
-        console.log("📝 App will deploy with placeholder addresses\n");
-        // Continue with placeholder addresses - don't fail the entire job
+  // Filter out contracts for non-Web3 apps BEFORE writing to disk
+  if (enhancedResult.intentSpec && !enhancedResult.intentSpec.isWeb3) {
+    const originalCount = generatedFiles.length;
+    generatedFiles = generatedFiles.filter(file => {
+      const isContractFile = file.filename.startsWith('contracts/');
+      if (isContractFile) {
+        console.log(`🗑️ Filtering out contract file: ${file.filename}`);
       }
+      return !isContractFile;
+    });
+    console.log(`📦 Filtered ${originalCount - generatedFiles.length} contract files from generated output`);
+
+    // Also delete contracts directory from disk if it exists
+    const contractsDir = path.join(userDir, 'contracts');
+    if (await fs.pathExists(contractsDir)) {
+      console.log("🗑️ Removing contracts/ directory from disk...");
+      await fs.remove(contractsDir);
+      console.log("✅ Contracts directory removed from disk");
     }
+  }
 
-    // Create preview (now with real contract addresses injected if Web3)
-    console.log("🚀 Creating preview...");
-    let previewData;
-    let projectUrl;
+  // Write files to disk (now without contracts for non-Web3 apps)
+  console.log("💾 Writing generated files to disk...");
+  await writeFilesToDir(userDir, generatedFiles);
+  await saveFilesToGenerated(projectId, generatedFiles);
+  console.log("✅ Files written successfully");
 
-    try {
-      // Skip contract deployment in /deploy endpoint if we already deployed them
-      const skipContractsInDeploy = !!contractAddresses; // true if we already deployed contracts
+  // NEW: Deploy contracts FIRST for Web3 projects (before creating preview)
+  let contractAddresses: { [key: string]: string } | undefined;
 
-      previewData = await createPreview(
+  if (enhancedResult.intentSpec?.isWeb3) {
+    console.log("\n" + "=".repeat(70));
+    console.log("🔗 WEB3 PROJECT DETECTED - DEPLOYING CONTRACTS FIRST");
+    console.log("=".repeat(70) + "\n");
+
+    await guard.beforeStage('contracts');
+
+    try {
+      // Deploy contracts and get real addresses
+      contractAddresses = await reportStage(events.emit, 'contracts', () => deployContractsFirst(
         projectId,
-        generatedFiles, // Already contains real addresses if Web3
-        accessToken,
-        enhancedResult.intentSpec?.isWeb3, // Pass isWeb3 flag to preview API
-        skipContractsInDeploy // Skip contracts if we already deployed them
-      );
-      console.log("✅ Preview created successfully");
+        generatedFiles,
+        accessToken
+      ));
 
-      projectUrl = getPreviewUrl(projectId) || `https://${projectId}.${PREVIEW_API_BASE}`;
-      console.log(`🎉 Project ready at: ${projectUrl}`);
-    } catch (previewError) {
-      console.error("❌ Failed to create preview:", previewError);
+      console.log("✅ Contracts deployed successfully!");
+      console.log("📝 Contract addresses:", JSON.stringify(contractAddresses, null, 2));
+
+      // Inject real contract addresses into files BEFORE deployment
+      if (contractAddresses && Object.keys(contractAddresses).length > 0) {
+        console.log("\n" + "=".repeat(70));
+        console.log("💉 INJECTING CONTRACT ADDRESSES INTO FILES");
+        console.log("=".repeat(70) + "\n");
 
-      previewData = {
-        url: `http://localhost:8080/p/${projectId}`,
-        status: "error",
-        port: 3000,
-        previewUrl: `http://localhost:8080/p/${projectId}`,
-      };
+        generatedFiles = updateFilesWithContractAddresses(
+          generatedFiles,
+          contractAddresses
+        );
 
-      projectUrl = `http://localhost:8080/p/${projectId}`;
-      console.log("⚠️ Using fallback preview URL:", projectUrl);
+        // Rewrite files with injected addresses
+        await writeFilesToDir(userDir, generatedFiles);
+        await saveFilesToGenerated(projectId, generatedFiles);
+        console.log("✅ Contract addresses injected and files updated");
+      }
+    } catch (contractError) {
+      console.error("\n" + "=".repeat(70));
+      console.error("⚠️  CONTRACT DEPLOYMENT FAILED - CONTINUING WITH PLACEHOLDERS");
+      console.error("=".repeat(70));
+      console.error("Error:", contractError);
+      console.log("📝 App will deploy with placeholder addresses\n");
+      // Continue with placeholder addresses - don't fail the entire job
     }
+  }
 
-    // Save project to database
-    console.log("💾 Saving project to database...");
+  // Create preview (now with real contract addresses injected if Web3)
+  await guard.beforeStage('preview');
+  console.log("🚀 Creating preview...");
+  let previewData;
+  let projectUrl;
 
-    const projectName = enhancedResult.intentSpec
-      ? generateProjectName(enhancedResult.intentSpec)
-      : `Project ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  try {
+    // Skip contract deployment in /deploy endpoint if we already deployed them
+    const skipContractsInDeploy = !!contractAddresses; // true if we already deployed contracts
 
-    // Check if project already exists (from a previous attempt)
-    let project = await getProjectById(projectId);
+    previewData = await reportStage(events.emit, 'preview', () => createPreview(
+      projectId,
+      generatedFiles, // Already contains real addresses if Web3
+      accessToken,
+      enhancedResult.intentSpec?.isWeb3, // Pass isWeb3 flag to preview API
+      skipContractsInDeploy // Skip contracts if we already deployed them
+    ));
+    console.log("✅ Preview created successfully");
 
-    if (!project) {
-      // Create new project
-      project = await createProject(
-        user.id,
-        projectName,
-        `AI-generated project: ${userRequest.substring(0, 100)}...`,
-        projectUrl,
-        projectId
-      );
-      console.log("✅ Project created in database");
-    } else {
-      console.log("ℹ️ Project already exists in database, updating files");
-    }
+    projectUrl = getPreviewUrl(projectId) || `https://${projectId}.${PREVIEW_API_BASE}`;
+    console.log(`🎉 Project ready at: ${projectUrl}`);
+  } catch (previewError) {
+    console.error("❌ Failed to create preview:", previewError);
 
-    // Save files to database (this will replace existing files)
-    const allFiles = await readAllFiles(userDir);
+    previewData = {
+      url: `http://localhost:8080/p/${projectId}`,
+      status: "error",
+      port: 3000,
+      previewUrl: `http://localhost:8080/p/${projectId}`,
+    };
 
-    // Filter out contracts/ for non-Web3 apps
-    const filesToSave = enhancedResult.intentSpec && !enhancedResult.intentSpec.isWeb3
-      ? allFiles.filter(file => {
-          const isContractFile = file.filename.startsWith('contracts/');
-          if (isContractFile) {
-            console.log(`🗑️ Excluding contract file from database: ${file.filename}`);
-          }
-          return !isContractFile;
-        })
-      : allFiles;
+    projectUrl = `http://localhost:8080/p/${projectId}`;
+    console.log("⚠️ Using fallback preview URL:", projectUrl);
+  }
 
-    console.log(`📦 Files to save: ${filesToSave.length} (excluded ${allFiles.length - filesToSave.length} contract files)`);
+  // Save project to database
+  console.log("💾 Saving project to database...");
 
-    const safeFiles = filesToSave.filter(file => {
-      if (file.content.includes('\0') || file.content.includes('\x00')) {
-        console.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
-        return false;
-      }
-      return true;
-    });
+  const projectName = enhancedResult.intentSpec
+    ? generateProjectName(enhancedResult.intentSpec)
+    : `Project ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
 
-    await saveProjectFiles(project.id, safeFiles);
-    console.log("✅ Project files saved to database successfully");
+  // Check if project already exists (from a previous attempt)
+  let project = await getProjectById(projectId);
 
-    // Save deployment info to database (including contract addresses for web3 projects)
-    if (previewData && previewData.vercelUrl) {
-      try {
-        console.log("💾 Saving deployment info to database...");
-
-        // Use contract addresses from our deployment (already injected into files)
-        // Fall back to previewData.contractAddresses for backward compatibility
-        const deploymentContractAddresses = contractAddresses || previewData.contractAddresses;
-
-        const deployment = await createDeployment(
-          project.id, // Use actual project.id from database record
-          'vercel',
-          previewData.vercelUrl,
-          'success',
-          undefined, // buildLogs
-          deploymentContractAddresses // Contract addresses (real ones from our deployment)
-        );
-        console.log(`✅ Deployment saved to database: ${deployment.id}`);
+  if (!project) {
+    // Create new project
+    project = await createProject(
+      user.id,
+      projectName,
+      `AI-generated project: ${userRequest.substring(0, 100)}...`,
+      projectUrl,
+      projectId
+    );
+    console.log("✅ Project created in database");
+  } else {
+    console.log("ℹ️ Project already exists in database, updating files");
+  }
+  await setGenerationJobProject(jobId, projectId);
+
+  // Save files to database (this will replace existing files)
+  const allFiles = await readAllFiles(userDir);
 
-        if (deploymentContractAddresses && Object.keys(deploymentContractAddresses).length > 0) {
-          console.log(`📝 Contract addresses saved:`, JSON.stringify(deploymentContractAddresses, null, 2));
+  // Filter out contracts/ for non-Web3 apps
+  const filesToSave = enhancedResult.intentSpec && !enhancedResult.intentSpec.isWeb3
+    ? allFiles.filter(file => {
+        const isContractFile = file.filename.startsWith('contracts/');
+        if (isContractFile) {
+          console.log(`🗑️ Excluding contract file from database: ${file.filename}`);
         }
-      } catch (deploymentError) {
-        console.error("⚠️ Failed to save deployment info:", deploymentError);
-        // Don't fail the entire job if deployment record fails
+        return !isContractFile;
+      })
+    : allFiles;
+
+  console.log(`📦 Files to save: ${filesToSave.length} (excluded ${allFiles.length - filesToSave.length} contract files)`);
+
+  const safeFiles = filesToSave.filter(file => {
+    if (file.content.includes('\0') || file.content.includes('\x00')) {
+      console.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
+      return false;
+    }
+    return true;
+  });
+
+  await reportStage(events.emit, 'save', () => saveProjectFiles(project.id, safeFiles, { source: 'generation', jobId }));
+  console.log("✅ Project files saved to database successfully");
+
+  // Save deployment info to database (including contract addresses for web3 projects)
+  if (previewData && previewData.vercelUrl) {
+    try {
+      console.log("💾 Saving deployment info to database...");
+
+      // Use contract addresses from our deployment (already injected into files)
+      // Fall back to previewData.contractAddresses for backward compatibility
+      const deploymentContractAddresses = contractAddresses || previewData.contractAddresses;
+
+      const deployment = await createDeployment(
+        project.id, // Use actual project.id from database record
+        'vercel',
+        previewData.vercelUrl,
+        'success',
+        undefined, // buildLogs
+        deploymentContractAddresses // Contract addresses (real ones from our deployment)
+      );
+      console.log(`✅ Deployment saved to database: ${deployment.id}`);
+
+      if (deploymentContractAddresses && Object.keys(deploymentContractAddresses).length > 0) {
+        console.log(`📝 Contract addresses saved:`, JSON.stringify(deploymentContractAddresses, null, 2));
       }
+    } catch (deploymentError) {
+      console.error("⚠️ Failed to save deployment info:", deploymentError);
+      // Don't fail the entire job if deployment record fails
     }
+  }
 
-    // Update job status to completed
-    const result = {
-      projectId,
-      url: projectUrl,
-      port: previewData.port || 3000,
-      success: true,
-      generatedFiles: generatedFiles.map((f) => f.filename),
-      totalFiles: generatedFiles.length,
-      previewUrl: previewData.previewUrl || projectUrl,
-      vercelUrl: previewData.vercelUrl,
-      projectName,
-      contractAddresses: contractAddresses, // Include contract addresses in result
-    };
+  // Update job status to completed
+  const result = {
+    projectId,
+    url: projectUrl,
+    port: previewData.port || 3000,
+    success: true,
+    generatedFiles: generatedFiles.map((f) => f.filename),
+    totalFiles: generatedFiles.length,
+    previewUrl: previewData.previewUrl || projectUrl,
+    vercelUrl: previewData.vercelUrl,
+    projectName,
+    contractAddresses: contractAddresses, // Include contract addresses in result
+  };
 
-    await updateGenerationJobStatus(jobId, "completed", result);
+  events.emit({ type: 'job_completed', message: `Your miniapp is ready at ${projectUrl}`, data: { projectId, url: projectUrl } });
+  await events.flush();
+  if (!(await finish("completed", result))) return;
 
-    console.log(`✅ Job ${jobId} completed successfully`);
+  console.log(`✅ Job ${jobId} completed successfully`);
 }
 
 /**
@@ -769,7 +697,10 @@ async function executeInitialGenerationJob(
 async function executeFollowUpJob(
   jobId: string,
   job: Awaited<ReturnType<typeof getGenerationJobById>>,
-  context: GenerationJobContext
+  context: GenerationJobContext,
+  events: JobEventLog,
+  guard: CancellationGuard,
+  finish: FinishJob
 ): Promise<void> {
   console.log(`🔄 Starting follow-up job execution: ${jobId}`);
 
@@ -801,6 +732,13 @@ async function executeFollowUpJob(
   // Ensure output directory exists
   fs.mkdirSync(outputDir, { recursive: true });
 
+  // Remember the versions this job starts from so edits saved while it runs can be merged
+  const projectFileRows = await getProjectFiles(projectId);
+  const baseVersions = await recordGenerationJobBaseVersions(
+    jobId,
+    Object.fromEntries(projectFileRows.map(f => [f.filename, f.version]))
+  );
+
   // Load existing files
   let currentFiles: { filename: string; content: string }[] = [];
 
@@ -838,47 +776,45 @@ async function executeFollowUpJob(
   console.log(`✅ Loaded ${currentFiles.length} files for follow-up edit`);
 
   // Create LLM caller
-  const callLLM = async (
-    systemPrompt: string,
-    userPrompt: string,
-    stageName: string,
-    stageType?: keyof typeof STAGE_MODEL_CONFIG
-  ): Promise<string> => {
-    return callClaudeWithLogging(
-      systemPrompt,
-      userPrompt,
-      stageName,
-      stageType
-    );
-  };
-
-  // Execute appropriate pipeline
+  const provider = createLLMProvider({
+    onUsage: persistUsageTo({ jobId, projectId, userId: job.userId }),
+  });
+  // Check the user's token budget before every stage call
+  const budget = withTokenBudget(createCallLLM(provider), job.userId);
+  const callLLM = withCassetteFromEnv(budget.callLLM, jobId);
+  const hooks = createPipelineHooks(jobId, (job.checkpoint ?? {}) as GenerationJobCheckpoint, events, guard);
+  // Recently edited files rank higher when the context has to be trimmed
+  hooks.context = { ...hooks.context, recentlyEdited: recentlyEditedFiles(projectFileRows) };
+
+  // Execute appropriate pipeline (budget overruns and cancellations surface before the project is touched)
   let result;
   if (useDiffBased) {
     console.log("🔄 Using diff-based pipeline for follow-up edit");
-    result = await executeDiffBasedPipeline(
+    result = await guard.run(() => budget.run(() => executeDiffBasedPipeline(
       prompt,
       currentFiles,
       callLLM,
       {
         enableContextGathering: true,
         enableDiffValidation: true,
-        enableLinting: true
+        enableLinting: true,
+        ...hooks
       },
       projectId,
       userDir
-    );
+    )));
   } else {
     console.log("🔄 Using enhanced pipeline for follow-up edit");
-    result = await executeEnhancedPipeline(
+    result = await guard.run(() => budget.run(() => executeEnhancedPipeline(
       prompt,
       currentFiles,
       projectId,
       accessToken,
       callLLM,
       false,  // isInitialGeneration = false
-      userDir
-    );
+      userDir,
+      hooks
+    )));
   }
 
   // Check if result has diffs (from diff-based pipeline)
@@ -886,29 +822,61 @@ async function executeFollowUpJob(
   const diffCount = hasDiffs ? (result as { diffs: unknown[] }).diffs.length : 0;
   console.log(`✅ Generated ${result.files.length} files${hasDiffs ? ` with ${diffCount} diffs` : ''}`);
 
-  // Write changes to disk
-  await writeFilesToDir(userDir, result.files);
-  await saveFilesToGenerated(projectId, result.files);
+  // Last chance to cancel before the project is modified
+  await guard.beforeStage('preview');
+
+  // Don't overwrite files the user edited while the job ran. The save only goes through
+  // if the files still have the versions the merge read; otherwise merge again.
+  let merge: Awaited<ReturnType<typeof mergeConcurrentEdits>>;
+  let revisions: Awaited<ReturnType<typeof saveProjectFiles>>;
+  for (let attempt = 1; ; attempt++) {
+    merge = await mergeConcurrentEdits(projectId, baseVersions, result.files);
+    const mergedFiles = merge.files;
+    if (merge.merged.length > 0 || merge.conflicts.length > 0) {
+      events.emit({
+        type: 'edits_merged',
+        stage: 'save',
+        message: merge.conflicts.length > 0
+          ? `Your edits to ${merge.conflicts.map(c => c.filename).join(', ')} conflict with the AI changes - resolve them in the editor`
+          : `Merged your edits to ${merge.merged.join(', ')} with the AI changes`,
+        data: { merged: merge.merged, conflicts: merge.conflicts },
+      });
+    }
 
-  // Update preview (optional - may fail on Railway)
-  try {
-    console.log("🔄 Updating preview...");
-    await updatePreviewFiles(projectId, result.files, accessToken);
-    console.log("✅ Preview updated successfully");
-  } catch (previewError) {
-    console.warn("⚠️ Preview update failed (expected on Railway):", previewError);
-  }
+    // Write changes to disk
+    await writeFilesToDir(userDir, mergedFiles);
+    await saveFilesToGenerated(projectId, mergedFiles);
 
-  // Save to database
-  const safeFiles = result.files.filter(file => {
-    if (file.content.includes('\0') || file.content.includes('\x00')) {
-      console.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
-      return false;
+    // Update preview (optional - may fail on Railway)
+    try {
+      console.log("🔄 Updating preview...");
+      await reportStage(events.emit, 'preview', () => updatePreviewFiles(projectId, mergedFiles, accessToken));
+      console.log("✅ Preview updated successfully");
+    } catch (previewError) {
+      console.warn("⚠️ Preview update failed (expected on Railway):", previewError);
     }
-    return true;
-  });
 
-  await saveProjectFiles(projectId, safeFiles);
+    // Save to database
+    const safeFiles = mergedFiles.filter(file => {
+      if (file.content.includes('\0') || file.content.includes('\x00')) {
+        console.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
+        return false;
+      }
+      return true;
+    });
+
+    try {
+      revisions = await reportStage(events.emit, 'save', () =>
+        // result.files holds only the files the pipeline changed or created
+        saveProjectFiles(projectId, safeFiles, { source: 'follow_up', jobId }, { partial: true, expectedVersions: merge.versions })
+      );
+      break;
+    } catch (error) {
+      if (!(error instanceof FileVersionConflictError) || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+      console.log(`🔀 ${error.message}, merging again`);
+    }
+  }
+  const files = merge.files;
   console.log("✅ Project files updated in database");
 
   // Store patch for rollback (if diffs available)
@@ -919,12 +887,13 @@ async function executeFollowUpJob(
       const changedFiles = resultWithDiffs.diffs.map(d => d.filename);
       const description = `Updated ${changedFiles.length} file(s): ${changedFiles.join(', ')}`;
 
-      await savePatch(projectId, {
+      const patch = await savePatch(projectId, {
         prompt,
         diffs: resultWithDiffs.diffs,
         changedFiles,
         timestamp: new Date().toISOString(),
       }, description);
+      await linkFileRevisionsToPatch(revisions.map(r => r.id), patch.id);
 
       console.log(`✅ Patch saved for rollback`);
     } catch (patchError) {
@@ -937,14 +906,74 @@ async function executeFollowUpJob(
   const jobResult = {
     success: true,
     projectId,
-    files: result.files.map(f => ({ filename: f.filename })),
+    files: files.map(f => ({ filename: f.filename })),
     diffs: hasDiffs ? (result as { diffs: unknown[] }).diffs : [],
-    changedFiles: result.files.map(f => f.filename),
+    changedFiles: files.map(f => f.filename),
+    mergedFiles: merge.merged,
+    mergeConflicts: merge.conflicts,
     previewUrl: getPreviewUrl(projectId),
-    totalFiles: result.files.length,
+    totalFiles: files.length,
   };
 
-  await updateGenerationJobStatus(jobId, "completed", jobResult);
+  events.emit({ type: 'job_completed', message: `Updated ${files.length} file(s)`, data: { projectId } });
+  await events.flush();
+  if (!(await finish("completed", jobResult))) return;
 
   console.log(`✅ Follow-up job ${jobId} completed successfully`);
 }
+
+/**
+ * Fold edits saved while a follow-up job ran (e.g. from the editor) into the job's
+ * output. A file changed on both sides is merged three ways against the version
+ * the job started from; overlapping changes are left as conflict markers. Files
+ * only the user changed are already saved and stay out of the output. A file
+ * the user deleted but the AI changed is kept with the AI's content and reported
+ * as a conflict. `versions` holds the version of each output file the merge saw.
+ */
+async function mergeConcurrentEdits(
+  projectId: string,
+  baseVersions: Record<string, number>,
+  files: { filename: string; content: string }[]
+): Promise<{
+  files: { filename: string; content: string }[];
+  merged: string[];
+  conflicts: Array<{ filename: string; conflicts: number; deletedByUser?: boolean }>;
+  versions: Record<string, number | null>;
+}> {
+  const output = new Map(files.map(f => [f.filename, f.content]));
+  const merged: string[] = [];
+  const conflicts: Array<{ filename: string; conflicts: number; deletedByUser?: boolean }> = [];
+  const current = new Map((await getProjectFiles(projectId)).map(f => [f.filename, f]));
+
+  for (const file of current.values()) {
+    const baseVersion = baseVersions[file.filename];
+    if (baseVersion !== undefined && file.version <= baseVersion) continue;
+
+    const generated = output.get(file.filename);
+    // Created or edited by the user while the AI left it alone: already saved, nothing to merge
+    if (generated === undefined || generated === file.content) continue;
+
+    const base = baseVersion !== undefined
+      ? (await getFileRevision(projectId, file.filename, baseVersion))?.content ?? ''
+      : '';
+    const result = mergeThreeWay(base, file.content, generated, { ours: 'Your edit', theirs: 'AI change' });
+    output.set(file.filename, result.content);
+    merged.push(file.filename);
+    if (result.conflicts > 0) {
+      conflicts.push({ filename: file.filename, conflicts: result.conflicts });
+    }
+    console.log(`🔀 Merged concurrent edit to ${file.filename}${result.conflicts > 0 ? ` with ${result.conflicts} conflict(s)` : ''}`);
+  }
+
+  for (const filename of output.keys()) {
+    if (baseVersions[filename] === undefined || current.has(filename)) continue;
+    conflicts.push({ filename, conflicts: 1, deletedByUser: true });
+    console.log(`🔀 ${filename} was deleted while the AI changed it, keeping the AI version`);
+  }
+
+  const versions = Object.fromEntries(
+    Array.from(output.keys(), filename => [filename, current.get(filename)?.version ?? null])
+  );
+
+  return { files: Array.from(output, ([filename, content]) => ({ filename, content })), merged, conflicts, versions };
+}
@@ -0,0 +1,75 @@
+/**
+ * Cooperative job stopping
+ * /api/jobs/[id]/cancel only flags a running job; the worker checks the flag
+ * before each stage and stops there. A worker that lost its queue lease stops
+ * the same way, leaving the job to whichever worker now owns it.
+ */
+
+import { getGenerationJobById } from "./database";
+import type { JobStage } from "./jobEvents";
+
+export class JobCancelledError extends Error {
+  jobId: string;
+  stage?: JobStage;
+
+  constructor(jobId: string, stage?: JobStage) {
+    super(stage ? `Job ${jobId} cancelled before ${stage}` : `Job ${jobId} cancelled`);
+    this.name = 'JobCancelledError';
+    this.jobId = jobId;
+    this.stage = stage;
+  }
+}
+
+export class JobLeaseLostError extends Error {
+  jobId: string;
+
+  constructor(jobId: string) {
+    super(`Lost the queue lease for job ${jobId}`);
+    this.name = 'JobLeaseLostError';
+    this.jobId = jobId;
+  }
+}
+
+export async function isJobCancelRequested(jobId: string): Promise<boolean> {
+  const job = await getGenerationJobById(jobId);
+  return !!job?.cancelRequestedAt || job?.status === 'cancelled';
+}
+
+/**
+ * Build the beforeStage check for a job.
+ * Pipelines catch or wrap stage errors, so the stop reason is remembered and
+ * rethrown by run() once the pipeline settles.
+ */
+export function createCancellationGuard(
+  jobId: string,
+  isCancelled: (jobId: string) => Promise<boolean> = isJobCancelRequested,
+  isLeaseHeld: () => boolean = () => true
+): { beforeStage: (stage: JobStage) => Promise<void>; run: <T>(pipeline: () => Promise<T>) => Promise<T> } {
+  let stopped: JobCancelledError | JobLeaseLostError | null = null;
+
+  const beforeStage = async (stage: JobStage) => {
+    if (!stopped && !isLeaseHeld()) {
+      console.warn(`⚠️ Lease lost, abandoning job ${jobId} before ${stage}`);
+      stopped = new JobLeaseLostError(jobId);
+    }
+    if (!stopped && await isCancelled(jobId)) {
+      console.log(`🛑 Cancellation requested, stopping job ${jobId} before ${stage}`);
+      stopped = new JobCancelledError(jobId, stage);
+    }
+    if (stopped) throw stopped;
+  };
+
+  return {
+    beforeStage,
+    run: async (pipeline) => {
+      let result;
+      try {
+        result = await pipeline();
+      } catch (error) {
+        throw stopped ?? error;
+      }
+      if (stopped) throw stopped;
+      return result;
+    },
+  };
+}
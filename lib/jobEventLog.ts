@@ -0,0 +1,44 @@
+/**
+ * Persists generation job progress events to the generation_job_events table
+ */
+
+import { saveJobEvent } from "./database";
+import type { JobProgressEvent, ProgressReporter } from "./jobEvents";
+
+export interface JobEventLog {
+  emit: ProgressReporter;
+  // Resolves once every event emitted so far has been written
+  flush: () => Promise<void>;
+}
+
+/**
+ * Build a progress reporter that writes events for one job.
+ * Writes are chained so events keep their emit order, and fire-and-forget so
+ * an event store outage never fails a generation.
+ */
+export function createJobEventLog(jobId: string): JobEventLog {
+  let pending: Promise<void> = Promise.resolve();
+
+  const emit: ProgressReporter = (event: JobProgressEvent) => {
+    console.log(`📡 [${event.type}] ${event.message}`);
+    pending = pending
+      .then(() => saveJobEvent({
+        jobId,
+        type: event.type,
+        stage: event.stage,
+        message: event.message,
+        data: event.data,
+      }))
+      .then(
+        () => undefined,
+        (error) => {
+          console.warn(`⚠️ Failed to record job event ${event.type} for ${jobId}:`, error);
+        }
+      );
+  };
+
+  return {
+    emit,
+    flush: () => pending,
+  };
+}
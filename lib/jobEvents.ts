@@ -0,0 +1,313 @@
+/**
+ * Generation job progress events
+ * Shared by the worker (which emits them), the /api/jobs/[id]/events SSE route and
+ * the client timeline. Keep this module free of server-only imports.
+ */
+
+export type JobStage =
+  | 'context'
+  | 'intent'
+  | 'plan'
+  | 'generate'
+  | 'validate'
+  | 'contracts'
+  | 'preview'
+  | 'save';
+
+export type JobEventType =
+  | 'job_started'
+  | 'stage_started'
+  | 'stage_finished'
+  | 'files_planned'
+  | 'file_generated'
+  | 'changes_applied'
+  | 'validation_errors'
+  | 'validation_report'
+  | 'fix_attempt'
+  | 'edits_merged'
+  | 'job_completed'
+  | 'job_failed'
+  | 'job_cancelled';
+
+export interface JobProgressEvent {
+  type: JobEventType;
+  stage?: JobStage;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Callback threaded through the pipelines. Must never throw or block the caller.
+ */
+export type ProgressReporter = (event: JobProgressEvent) => void;
+
+// Event as persisted and streamed to clients; id is the SSE cursor
+export interface JobEventRecord extends JobProgressEvent {
+  id: number;
+  createdAt: string;
+}
+
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  context: 'Gathering project context',
+  intent: 'Analyzing your request',
+  plan: 'Planning file changes',
+  generate: 'Writing code',
+  validate: 'Validating and fixing errors',
+  contracts: 'Deploying contracts',
+  preview: 'Creating preview',
+  save: 'Saving project',
+};
+
+export const TERMINAL_JOB_STATUSES = ['completed', 'failed', 'cancelled', 'dead'];
+
+/**
+ * Run a stage, reporting stage_started/stage_finished around it
+ */
+export async function reportStage<T>(
+  onProgress: ProgressReporter | undefined,
+  stage: JobStage,
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  onProgress?.({ type: 'stage_started', stage, message: JOB_STAGE_LABELS[stage] });
+  try {
+    const result = await run();
+    onProgress?.({
+      type: 'stage_finished',
+      stage,
+      message: `${JOB_STAGE_LABELS[stage]} - done`,
+      data: { success: true, durationMs: Date.now() - startedAt },
+    });
+    return result;
+  } catch (error) {
+    onProgress?.({
+      type: 'stage_finished',
+      stage,
+      message: `${JOB_STAGE_LABELS[stage]} - failed`,
+      data: {
+        success: false,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+}
+
+// ========================================================================
+// Timeline
+// ========================================================================
+
+export type JobStageStatus = 'running' | 'done' | 'failed';
+
+export interface JobTimelineStage {
+  stage: JobStage;
+  label: string;
+  status: JobStageStatus;
+  durationMs?: number;
+  // files_planned, file_generated, changes_applied, validation_errors, validation_report, fix_attempt and edits_merged events raised during the stage
+  details: JobEventRecord[];
+}
+
+export interface JobTimeline {
+  stages: JobTimelineStage[];
+  currentStage?: JobTimelineStage;
+  // 0-100, estimated from finished stages
+  progress: number;
+  outcome?: 'completed' | 'failed' | 'cancelled';
+  outcomeMessage?: string;
+}
+
+// Stages every generation passes through; context and contracts only count once they start
+const BASELINE_STAGES: JobStage[] = ['intent', 'plan', 'generate', 'validate', 'preview', 'save'];
+
+/**
+ * Fold an ordered event list into per-stage rows for display
+ */
+export function buildJobTimeline(events: JobEventRecord[]): JobTimeline {
+  let stages: JobTimelineStage[] = [];
+  let outcome: JobTimeline['outcome'];
+  let outcomeMessage: string | undefined;
+
+  for (const event of events) {
+    // A retried job replays its earlier attempts first; only the latest attempt counts
+    if (event.type === 'job_started') {
+      stages = [];
+      outcome = undefined;
+      outcomeMessage = undefined;
+      continue;
+    }
+    if (event.type === 'job_completed' || event.type === 'job_failed' || event.type === 'job_cancelled') {
+      outcome = event.type === 'job_completed' ? 'completed' : event.type === 'job_failed' ? 'failed' : 'cancelled';
+      outcomeMessage = event.message;
+      continue;
+    }
+    if (!event.stage) continue;
+
+    // A stage can run more than once (e.g. preview retries); the latest run wins
+    let row = [...stages].reverse().find(s => s.stage === event.stage);
+    if (event.type === 'stage_started' && row?.status !== 'running') {
+      row = undefined;
+    }
+    if (!row) {
+      row = { stage: event.stage, label: JOB_STAGE_LABELS[event.stage], status: 'running', details: [] };
+      stages.push(row);
+    }
+
+    if (event.type === 'stage_finished') {
+      row.status = event.data?.success === false ? 'failed' : 'done';
+      row.durationMs = typeof event.data?.durationMs === 'number' ? event.data.durationMs : undefined;
+    } else if (event.type !== 'stage_started') {
+      row.details.push(event);
+    }
+  }
+
+  const seen = new Set(stages.map(s => s.stage));
+  const expected = new Set<JobStage>([...BASELINE_STAGES, ...seen]);
+  const finished = new Set(stages.filter(s => s.status !== 'running').map(s => s.stage));
+  const progress = outcome
+    ? 100
+    : Math.min(Math.round((finished.size / expected.size) * 100), 95);
+
+  return {
+    stages,
+    currentStage: [...stages].reverse().find(s => s.status === 'running'),
+    progress,
+    outcome,
+    outcomeMessage,
+  };
+}
+
+// ========================================================================
+// SSE encoding
+// ========================================================================
+
+export interface SSEMessage {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+export function encodeSSE(message: SSEMessage): string {
+  const idLine = message.id !== undefined ? `id: ${message.id}\n` : '';
+  const dataLines = message.data.split('\n').map(line => `data: ${line}`).join('\n');
+  return `${idLine}event: ${message.event}\n${dataLines}\n\n`;
+}
+
+/**
+ * Incremental SSE parser: feed it decoded chunks, get back complete messages.
+ * Comment lines (heartbeats) are skipped.
+ */
+export function createSSEParser(): { push: (chunk: string) => SSEMessage[] } {
+  let buffer = '';
+
+  return {
+    push(chunk) {
+      buffer += chunk.replace(/\r\n/g, '\n');
+      const messages: SSEMessage[] = [];
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let id: string | undefined;
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of frame.split('\n')) {
+          if (!line || line.startsWith(':')) continue;
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+          if (field === 'id') id = value;
+          else if (field === 'event') event = value;
+          else if (field === 'data') data.push(value);
+        }
+
+        if (data.length > 0) {
+          messages.push({ id, event, data: data.join('\n') });
+        }
+      }
+
+      return messages;
+    },
+  };
+}
+
+// ========================================================================
+// Client subscription
+// ========================================================================
+
+export interface JobEventStreamOptions {
+  headers?: Record<string, string>;
+  onEvent: (event: JobEventRecord) => void;
+  signal?: AbortSignal;
+  maxReconnects?: number;
+}
+
+/**
+ * Follow a job's event stream until the server reports a terminal status.
+ * Uses fetch rather than EventSource so the Authorization header can be sent.
+ * Dropped connections resume from the last received event id.
+ * Resolves with the final job status; rejects once reconnects are exhausted.
+ */
+export async function streamJobEvents(
+  jobId: string,
+  { headers = {}, onEvent, signal, maxReconnects = 3 }: JobEventStreamOptions
+): Promise<string> {
+  let lastEventId: string | undefined;
+  let failures = 0;
+
+  while (true) {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/events`, {
+        headers: {
+          ...headers,
+          Accept: 'text/event-stream',
+          ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+        },
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to open job event stream: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = createSSEParser();
+      let received = false;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received = true; // heartbeats count: the connection was alive
+
+        for (const message of parser.push(decoder.decode(value, { stream: true }))) {
+          if (message.id) lastEventId = message.id;
+          if (message.event === 'end') {
+            reader.cancel().catch(() => undefined);
+            return (JSON.parse(message.data) as { status: string }).status;
+          }
+          if (message.event === 'progress') {
+            onEvent(JSON.parse(message.data) as JobEventRecord);
+          }
+        }
+      }
+
+      // The server closes long-lived streams periodically; only count closes of dead connections
+      if (received) {
+        failures = 0;
+      } else if (++failures > maxReconnects) {
+        throw new Error('Job event stream closed without progress');
+      }
+    } catch (error) {
+      if (signal?.aborted || failures >= maxReconnects) throw error;
+      failures++;
+      console.warn(`⚠️ Job event stream dropped, reconnecting (${failures}/${maxReconnects})...`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Durable generation job queue on top of the generation_jobs table
+ * Workers claim jobs with a lease and heartbeat while they run. Jobs whose worker
+ * died (lease expired) are requeued until maxAttempts, then dead-lettered.
+ * Used by /api/jobs/process on Vercel and by scripts/worker.ts elsewhere.
+ */
+
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import {
+  claimGenerationJob,
+  renewGenerationJobLease,
+  recoverExpiredGenerationJobs,
+  saveJobEvent,
+} from "./database";
+import { executeGenerationJob } from "./generationWorker";
+
+export const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || "120000");
+// Jobs claimed before leases existed are considered stuck after this long
+const LEGACY_STALE_AFTER_MS = parseInt(process.env.JOB_STALE_AFTER_MS || String(30 * 60 * 1000));
+
+type ClaimedJob = NonNullable<Awaited<ReturnType<typeof claimGenerationJob>>>;
+
+export interface WorkerOptions {
+  workerId?: string;
+  leaseMs?: number;
+  // Defaults to a third of the lease so two missed heartbeats still keep it
+  heartbeatMs?: number;
+}
+
+export interface WorkerLoopOptions extends WorkerOptions {
+  pollIntervalMs?: number;
+  // Checked between jobs; the loop finishes the current job before stopping
+  shouldStop?: () => boolean;
+}
+
+export function createWorkerId(): string {
+  return `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+}
+
+/**
+ * Requeue or dead-letter jobs whose lease expired
+ */
+export async function recoverStuckJobs(): Promise<{ requeued: number; dead: number }> {
+  const { requeued, dead } = await recoverExpiredGenerationJobs(LEGACY_STALE_AFTER_MS);
+
+  for (const job of requeued) {
+    console.warn(`♻️ Requeued job ${job.id} after its lease expired (attempt ${job.attempts}/${job.maxAttempts})`);
+  }
+
+  for (const job of dead) {
+    console.error(`💀 Job ${job.id} moved to dead-letter after ${job.attempts} attempt(s)`);
+    // The worker that would normally report the failure is gone
+    await saveJobEvent({
+      jobId: job.id,
+      type: 'job_failed',
+      message: job.error || 'Worker stopped responding',
+      data: { deadLettered: true, attempts: job.attempts },
+    }).catch((error) => {
+      console.warn(`⚠️ Failed to record dead-letter event for ${job.id}:`, error);
+    });
+  }
+
+  return { requeued: requeued.length, dead: dead.length };
+}
+
+/**
+ * Run a claimed job while heartbeating its lease.
+ * Job failures are recorded on the job by executeGenerationJob; they are logged here
+ * rather than rethrown so a worker loop keeps draining the queue.
+ */
+export async function runClaimedJob(job: ClaimedJob, options: WorkerOptions & { workerId: string }): Promise<void> {
+  const { workerId, leaseMs = JOB_LEASE_MS, heartbeatMs = Math.floor(leaseMs / 3) } = options;
+  let leaseHeld = true;
+
+  const heartbeat = setInterval(async () => {
+    try {
+      const renewed = await renewGenerationJobLease(job.id, workerId, leaseMs);
+      if (!renewed) {
+        console.warn(`⚠️ Job ${job.id} is no longer leased to ${workerId}`);
+        leaseHeld = false;
+        clearInterval(heartbeat);
+      }
+    } catch (error) {
+      // Transient database error: the lease is still valid until it expires
+      console.warn(`⚠️ Heartbeat for job ${job.id} failed:`, error);
+    }
+  }, heartbeatMs);
+
+  console.log(`🔒 ${workerId} claimed job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    await executeGenerationJob(job.id, { isLeaseHeld: () => leaseHeld, workerId });
+  } catch (error) {
+    console.error(`❌ Job ${job.id} failed:`, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and run one job: a specific pending job, or the oldest pending one.
+ * Returns the claimed job, or undefined if there was nothing to claim.
+ */
+export async function processNextJob(options: WorkerOptions & { jobId?: string } = {}): Promise<ClaimedJob | undefined> {
+  const { workerId = createWorkerId(), leaseMs = JOB_LEASE_MS, jobId } = options;
+
+  const job = await claimGenerationJob(workerId, leaseMs, jobId);
+  if (!job) return undefined;
+
+  await runClaimedJob(job, { ...options, workerId, leaseMs });
+  return job;
+}
+
+/**
+ * Drain the queue until shouldStop() returns true
+ */
+export async function runWorkerLoop(options: WorkerLoopOptions = {}): Promise<void> {
+  const {
+    workerId = createWorkerId(),
+    pollIntervalMs = 5000,
+    shouldStop = () => false,
+  } = options;
+
+  console.log(`👷 Worker ${workerId} started (lease ${options.leaseMs ?? JOB_LEASE_MS}ms, poll ${pollIntervalMs}ms)`);
+
+  while (!shouldStop()) {
+    try {
+      await recoverStuckJobs();
+      const job = await processNextJob({ ...options, workerId });
+      if (job) continue;
+    } catch (error) {
+      console.error("❌ Worker loop error:", error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+
+  console.log(`👋 Worker ${workerId} stopped`);
+}
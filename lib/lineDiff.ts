@@ -0,0 +1,295 @@
+/**
+ * Line diff engine
+ * Myers' O(ND) algorithm in linear space (bisecting on the middle snake), plus
+ * patience diff, which anchors on lines that occur exactly once on both sides.
+ * Patience tends to keep code blocks intact where Myers pairs up braces and blank lines.
+ */
+
+export type DiffAlgorithm = 'myers' | 'patience';
+
+export interface LineEdit {
+  type: 'equal' | 'insert' | 'delete';
+  line: string;
+}
+
+export interface LineHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+/**
+ * Diff two arrays of lines into a sequence of equal/insert/delete edits
+ */
+export function diffLines(oldLines: string[], newLines: string[], algorithm: DiffAlgorithm = 'myers'): LineEdit[] {
+  const edits: LineEdit[] = [];
+  if (algorithm === 'patience') {
+    patience(oldLines, newLines, 0, oldLines.length, 0, newLines.length, edits);
+  } else {
+    myers(oldLines, newLines, 0, oldLines.length, 0, newLines.length, edits);
+  }
+  return edits;
+}
+
+/**
+ * Group edits into unified diff hunks with `contextLines` of surrounding context.
+ * Changes closer than twice the context share a hunk. A hunk with an empty side
+ * uses the number of the line before it as its start, as GNU diff does.
+ */
+export function buildHunks(edits: LineEdit[], contextLines: number = 3): LineHunk[] {
+  const hunks: LineHunk[] = [];
+  const changeIndexes: number[] = [];
+  edits.forEach((edit, i) => {
+    if (edit.type !== 'equal') changeIndexes.push(i);
+  });
+  if (changeIndexes.length === 0) return hunks;
+
+  // Line numbers (0-based) before each edit
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const edit of edits) {
+    oldBefore.push(oldLine);
+    newBefore.push(newLine);
+    if (edit.type !== 'insert') oldLine++;
+    if (edit.type !== 'delete') newLine++;
+  }
+
+  let groupStart = 0;
+  for (let g = 1; g <= changeIndexes.length; g++) {
+    const endOfGroup = g === changeIndexes.length
+      || changeIndexes[g] - changeIndexes[g - 1] - 1 > contextLines * 2;
+    if (!endOfGroup) continue;
+
+    const from = Math.max(0, changeIndexes[groupStart] - contextLines);
+    const to = Math.min(edits.length, changeIndexes[g - 1] + contextLines + 1);
+    const slice = edits.slice(from, to);
+    const oldCount = slice.filter(e => e.type !== 'insert').length;
+    const newCount = slice.filter(e => e.type !== 'delete').length;
+
+    hunks.push({
+      oldStart: oldCount === 0 ? oldBefore[from] : oldBefore[from] + 1,
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newBefore[from] : newBefore[from] + 1,
+      newLines: newCount,
+      lines: slice.map(e => (e.type === 'equal' ? ' ' : e.type === 'insert' ? '+' : '-') + e.line)
+    });
+    groupStart = g;
+  }
+
+  return hunks;
+}
+
+/**
+ * Render hunks as unified diff text
+ */
+export function formatUnifiedDiff(filename: string, hunks: LineHunk[]): string {
+  return [
+    `--- ${filename}`,
+    `+++ ${filename}`,
+    ...hunks.flatMap(hunk => [
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+      ...hunk.lines
+    ])
+  ].join('\n');
+}
+
+// Emit the common prefix of both ranges and return how many lines it covered
+function commonPrefix(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number): number {
+  let n = 0;
+  while (aLo + n < aHi && bLo + n < bHi && a[aLo + n] === b[bLo + n]) n++;
+  return n;
+}
+
+function commonSuffix(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number): number {
+  let n = 0;
+  while (aHi - n > aLo && bHi - n > bLo && a[aHi - n - 1] === b[bHi - n - 1]) n++;
+  return n;
+}
+
+function emitRange(lines: string[], lo: number, hi: number, type: LineEdit['type'], edits: LineEdit[]): void {
+  for (let i = lo; i < hi; i++) edits.push({ type, line: lines[i] });
+}
+
+function myers(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, edits: LineEdit[]): void {
+  const prefix = commonPrefix(a, b, aLo, aHi, bLo, bHi);
+  emitRange(a, aLo, aLo + prefix, 'equal', edits);
+  aLo += prefix;
+  bLo += prefix;
+
+  const suffix = commonSuffix(a, b, aLo, aHi, bLo, bHi);
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi) {
+    emitRange(b, bLo, bHi, 'insert', edits);
+  } else if (bLo === bHi) {
+    emitRange(a, aLo, aHi, 'delete', edits);
+  } else {
+    const split = middleSnake(a, b, aLo, aHi, bLo, bHi);
+    if (split) {
+      myers(a, b, aLo, split.x, bLo, split.y, edits);
+      myers(a, b, split.x, aHi, split.y, bHi, edits);
+    } else {
+      emitRange(a, aLo, aHi, 'delete', edits);
+      emitRange(b, bLo, bHi, 'insert', edits);
+    }
+  }
+
+  emitRange(a, aHi, aHi + suffix, 'equal', edits);
+}
+
+/**
+ * Find where the forward and backward searches of Myers' algorithm meet.
+ * Both searches run on the same number of differences, so memory stays linear.
+ */
+function middleSnake(
+  a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number
+): { x: number; y: number } | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending the forward path
+  const checkOnForward = delta % 2 !== 0;
+  let kForwardStart = 0, kForwardEnd = 0, kBackwardStart = 0, kBackwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + kForwardStart; k <= d - kForwardEnd; k += 2) {
+      const ki = offset + k;
+      let x = k === -d || (k !== d && forward[ki - 1] < forward[ki + 1]) ? forward[ki + 1] : forward[ki - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[ki] = x;
+
+      if (x > n) {
+        kForwardEnd += 2; // Ran off the right edge
+      } else if (y > m) {
+        kForwardStart += 2; // Ran off the bottom edge
+      } else if (checkOnForward) {
+        const bi = offset + delta - k;
+        if (bi >= 0 && bi < size && backward[bi] !== -1 && x >= n - backward[bi]) {
+          return { x: aLo + x, y: bLo + y };
+        }
+      }
+    }
+
+    for (let k = -d + kBackwardStart; k <= d - kBackwardEnd; k += 2) {
+      const ki = offset + k;
+      let x = k === -d || (k !== d && backward[ki - 1] < backward[ki + 1]) ? backward[ki + 1] : backward[ki - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[ki] = x;
+
+      if (x > n) {
+        kBackwardEnd += 2;
+      } else if (y > m) {
+        kBackwardStart += 2;
+      } else if (!checkOnForward) {
+        const fi = offset + delta - k;
+        if (fi >= 0 && fi < size && forward[fi] !== -1) {
+          const fx = forward[fi];
+          const fy = fx - (fi - offset);
+          if (fx >= n - x) {
+            return { x: aLo + fx, y: bLo + fy };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function patience(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, edits: LineEdit[]): void {
+  const prefix = commonPrefix(a, b, aLo, aHi, bLo, bHi);
+  emitRange(a, aLo, aLo + prefix, 'equal', edits);
+  aLo += prefix;
+  bLo += prefix;
+
+  const suffix = commonSuffix(a, b, aLo, aHi, bLo, bHi);
+  aHi -= suffix;
+  bHi -= suffix;
+
+  const anchors = uniqueCommonLines(a, b, aLo, aHi, bLo, bHi);
+  if (anchors.length === 0) {
+    myers(a, b, aLo, aHi, bLo, bHi, edits);
+  } else {
+    let aPos = aLo;
+    let bPos = bLo;
+    for (const anchor of anchors) {
+      patience(a, b, aPos, anchor.a, bPos, anchor.b, edits);
+      edits.push({ type: 'equal', line: a[anchor.a] });
+      aPos = anchor.a + 1;
+      bPos = anchor.b + 1;
+    }
+    patience(a, b, aPos, aHi, bPos, bHi, edits);
+  }
+
+  emitRange(a, aHi, aHi + suffix, 'equal', edits);
+}
+
+/**
+ * Lines that occur exactly once in each range, reduced to the longest run that
+ * appears in the same order on both sides (patience sorting)
+ */
+function uniqueCommonLines(
+  a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number
+): Array<{ a: number; b: number }> {
+  const counts = new Map<string, { a: number; b: number; aIndex: number; bIndex: number }>();
+  for (let i = aLo; i < aHi; i++) {
+    const entry = counts.get(a[i]) ?? { a: 0, b: 0, aIndex: -1, bIndex: -1 };
+    entry.a++;
+    entry.aIndex = i;
+    counts.set(a[i], entry);
+  }
+  for (let j = bLo; j < bHi; j++) {
+    const entry = counts.get(b[j]);
+    if (!entry) continue;
+    entry.b++;
+    entry.bIndex = j;
+  }
+
+  const matches = Array.from(counts.values())
+    .filter(entry => entry.a === 1 && entry.b === 1)
+    .map(entry => ({ a: entry.aIndex, b: entry.bIndex }))
+    .sort((x, y) => x.a - y.a);
+  if (matches.length === 0) return [];
+
+  // Longest increasing subsequence of b positions
+  const tails: number[] = [];
+  const previous: number[] = new Array(matches.length).fill(-1);
+  for (let i = 0; i < matches.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (matches[tails[mid]].b < matches[i].b) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const result: Array<{ a: number; b: number }> = [];
+  for (let i = tails[tails.length - 1]; i !== -1; i = previous[i]) {
+    result.push(matches[i]);
+  }
+  return result.reverse();
+}
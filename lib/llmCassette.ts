@@ -0,0 +1,194 @@
+/**
+ * Record/replay harness for pipeline LLM calls
+ * Wraps the callLLM callback used by executeInitialGenerationPipeline and
+ * executeFollowUpPipeline so a real run can be captured to a cassette file and
+ * served back later without spending tokens.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { CallLLM, LLMStageType } from './llmProvider';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+  stageName: string;
+  stageType?: LLMStageType;
+  systemPromptHash: string;
+  userPrompt: string;
+  response: string;
+  // Replayed to callers that ask for it, so truncation handling can be reproduced
+  stopReason?: string;
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export interface CassetteMismatch {
+  stageName: string;
+  stageType?: LLMStageType;
+  reason: 'system_prompt_changed' | 'user_prompt_changed' | 'prompts_changed';
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  cassettePath: string;
+  // Required in record mode: the real caller whose responses get captured
+  callLLM?: CallLLM;
+  // In replay mode, fail instead of falling back to the next entry for the same stage
+  strict?: boolean;
+}
+
+export interface CassetteRecorder {
+  callLLM: CallLLM;
+  // Replay calls that were served by stage order because the prompt no longer matched
+  mismatches: CassetteMismatch[];
+  // Recorded entries that were never requested during replay
+  unusedEntries(): CassetteEntry[];
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+export function loadCassette(cassettePath: string): Cassette {
+  if (!fs.existsSync(cassettePath)) {
+    return { version: 1, entries: [] };
+  }
+  const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+    throw new Error(`Unsupported cassette format: ${cassettePath}`);
+  }
+  return cassette;
+}
+
+export function saveCassette(cassettePath: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+  fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2), 'utf8');
+}
+
+/**
+ * Create a callLLM that records to or replays from a cassette file.
+ *
+ * Replay matches on stageType + system prompt hash + user prompt. Identical requests
+ * are served in recorded order. When nothing matches exactly (e.g. a prompt template
+ * was edited) the next unused entry for the same stage is served and the difference
+ * is reported in `mismatches`, unless `strict` is set.
+ */
+export function createCassette(options: CassetteOptions): CassetteRecorder {
+  const { mode, cassettePath, strict = false } = options;
+  const mismatches: CassetteMismatch[] = [];
+
+  if (mode === 'record') {
+    const inner = options.callLLM;
+    if (!inner) {
+      throw new Error('Cassette record mode requires a callLLM to record from');
+    }
+    // Start a fresh cassette for every recording
+    const cassette: Cassette = { version: 1, entries: [] };
+
+    const callLLM: CallLLM = async (systemPrompt, userPrompt, stageName, stageType, options) => {
+      let stopReason: string | undefined;
+      const response = await inner(systemPrompt, userPrompt, stageName, stageType, {
+        onStopReason: (reason) => {
+          stopReason = reason;
+          options?.onStopReason?.(reason);
+        },
+        onText: options?.onText,
+      });
+      cassette.entries.push({
+        stageName,
+        stageType,
+        systemPromptHash: hashPrompt(systemPrompt),
+        userPrompt,
+        response,
+        stopReason,
+        recordedAt: new Date().toISOString(),
+      });
+      // Persist after every call so a failed run still leaves a usable cassette
+      saveCassette(cassettePath, cassette);
+      console.log(`📼 Recorded ${stageName} (${cassette.entries.length} entries)`);
+      return response;
+    };
+
+    return { callLLM, mismatches, unusedEntries: () => [] };
+  }
+
+  const cassette = loadCassette(cassettePath);
+  const used = new Set<number>();
+
+  const findEntry = (predicate: (entry: CassetteEntry) => boolean): number =>
+    cassette.entries.findIndex((entry, index) => !used.has(index) && predicate(entry));
+
+  const callLLM: CallLLM = async (systemPrompt, userPrompt, stageName, stageType, options) => {
+    const systemPromptHash = hashPrompt(systemPrompt);
+
+    let index = findEntry(entry =>
+      entry.stageType === stageType &&
+      entry.systemPromptHash === systemPromptHash &&
+      entry.userPrompt === userPrompt
+    );
+
+    if (index === -1) {
+      const fallbackIndex = findEntry(entry => entry.stageType === stageType);
+      if (strict || fallbackIndex === -1) {
+        throw new CassetteMismatchError(
+          `No cassette entry for ${stageName} (${stageType ?? 'no stage type'}) in ${cassettePath}`
+        );
+      }
+
+      const entry = cassette.entries[fallbackIndex];
+      const systemChanged = entry.systemPromptHash !== systemPromptHash;
+      const userChanged = entry.userPrompt !== userPrompt;
+      mismatches.push({
+        stageName,
+        stageType,
+        reason: systemChanged && userChanged
+          ? 'prompts_changed'
+          : systemChanged ? 'system_prompt_changed' : 'user_prompt_changed',
+      });
+      console.warn(`⚠️ Cassette replay for ${stageName} does not match the recorded prompt, serving by stage order`);
+      index = fallbackIndex;
+    }
+
+    used.add(index);
+    console.log(`📼 Replayed ${stageName} from cassette`);
+    options?.onStopReason?.(cassette.entries[index].stopReason);
+    return cassette.entries[index].response;
+  };
+
+  return {
+    callLLM,
+    mismatches,
+    unusedEntries: () => cassette.entries.filter((_, index) => !used.has(index)),
+  };
+}
+
+/**
+ * Wrap a callLLM with the cassette configured by LLM_CASSETTE_MODE and LLM_CASSETTE_DIR.
+ * LLM_CASSETTE_NAME overrides the cassette name (e.g. to replay one recording for every job).
+ * Returns the caller unchanged when no cassette mode is set.
+ */
+export function withCassetteFromEnv(callLLM: CallLLM, cassetteName: string): CallLLM {
+  const mode = process.env.LLM_CASSETTE_MODE as CassetteMode | undefined;
+  if (mode !== 'record' && mode !== 'replay') {
+    return callLLM;
+  }
+
+  const cassetteDir = process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), 'cassettes');
+  const cassettePath = path.join(cassetteDir, `${process.env.LLM_CASSETTE_NAME || cassetteName}.json`);
+  console.log(`📼 LLM cassette ${mode} mode: ${cassettePath}`);
+
+  return createCassette({ mode, cassettePath, callLLM }).callLLM;
+}
@@ -0,0 +1,620 @@
+/**
+ * LLM provider abstraction
+ * Single home for model selection, retries, fallback models and cost accounting.
+ * Route handlers and the generation worker talk to an LLMProvider instead of
+ * calling the Anthropic API directly.
+ */
+
+import { STAGE_MODEL_CONFIG, ANTHROPIC_MODELS } from "./llmOptimizer";
+import {
+  CACHE_READ_MULTIPLIER,
+  CACHE_WRITE_MULTIPLIER,
+  splitCacheablePrompt,
+  stripCacheBreakpoints,
+} from "./promptCache";
+
+export type LLMStageType = keyof typeof STAGE_MODEL_CONFIG;
+
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  stageName: string;
+  stageType?: LLMStageType;
+  // Per-call overrides (used by chat, which does not map to a pipeline stage)
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  stageName: string;
+  stageType?: LLMStageType;
+  model: string;
+  // Uncached input tokens; cached prefix tokens are counted separately below
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  // What the cached prefix saved compared to sending it uncached (negative on a cache write)
+  cacheSavingsUsd: number;
+  latencyMs: number;
+  fallbackUsed: boolean;
+  attempts: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  stopReason?: string;
+  usage: LLMUsage;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  cacheHits: number;
+  costUsd: number;
+  cacheSavingsUsd: number;
+  latencyMs: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // Resolves with an Anthropic-style SSE byte stream once the upstream call succeeds
+  stream(request: LLMRequest): Promise<ReadableStream<Uint8Array>>;
+  getUsage(): LLMUsage[];
+}
+
+export interface LLMProviderOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+// Per-call hooks for callers that need more than the response text
+export interface LLMCallOptions {
+  // Receives the API stop reason, e.g. "max_tokens" when the output hit the token limit
+  onStopReason?: (stopReason: string | undefined) => void;
+  // Streams the response: receives each text chunk as it arrives
+  onText?: (chunk: string) => void;
+}
+
+// Signature shared by every pipeline in lib/ (llmOptimizer, enhancedPipeline, diffBasedPipeline)
+export type CallLLM = (
+  systemPrompt: string,
+  userPrompt: string,
+  stageName: string,
+  stageType?: LLMStageType,
+  options?: LLMCallOptions
+) => Promise<string>;
+
+// Cost per 1M tokens (input, output) in USD
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [ANTHROPIC_MODELS.FAST]: { input: 0.25, output: 1.25 },
+  [ANTHROPIC_MODELS.BALANCED]: { input: 3, output: 15 },
+  [ANTHROPIC_MODELS.POWERFUL]: { input: 15, output: 75 },
+};
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Token counts reported for the cached part of the system prompt
+export interface CacheTokens {
+  creationInputTokens: number;
+  readInputTokens: number;
+}
+
+/**
+ * Calculate cost in USD using actual token counts from the API response.
+ * Cache writes and reads are priced relative to the model's input price.
+ */
+export function calculateCost(
+  inputTokens: number,
+  outputTokens: number,
+  model: string,
+  cache?: CacheTokens
+): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  const cachedInput = cache
+    ? cache.creationInputTokens * CACHE_WRITE_MULTIPLIER + cache.readInputTokens * CACHE_READ_MULTIPLIER
+    : 0;
+  return ((inputTokens + cachedInput) / 1000000) * pricing.input + (outputTokens / 1000000) * pricing.output;
+}
+
+/**
+ * Cost difference between sending the cached tokens as plain input and what the cache charged
+ */
+export function calculateCacheSavings(cache: CacheTokens, model: string): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  const cachedTokens = cache.creationInputTokens + cache.readInputTokens;
+  return (
+    ((cachedTokens - cache.creationInputTokens * CACHE_WRITE_MULTIPLIER - cache.readInputTokens * CACHE_READ_MULTIPLIER) /
+      1000000) *
+    pricing.input
+  );
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(6)}`;
+}
+
+export function summarizeUsage(records: LLMUsage[]): LLMUsageTotals {
+  return records.reduce<LLMUsageTotals>(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      cacheCreationInputTokens: totals.cacheCreationInputTokens + record.cacheCreationInputTokens,
+      cacheReadInputTokens: totals.cacheReadInputTokens + record.cacheReadInputTokens,
+      cacheHits: totals.cacheHits + (record.cacheReadInputTokens > 0 ? 1 : 0),
+      costUsd: totals.costUsd + record.costUsd,
+      cacheSavingsUsd: totals.cacheSavingsUsd + record.cacheSavingsUsd,
+      latencyMs: totals.latencyMs + record.latencyMs,
+    }),
+    {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheHits: 0,
+      costUsd: 0,
+      cacheSavingsUsd: 0,
+      latencyMs: 0,
+    }
+  );
+}
+
+/**
+ * Build the usage record for one call from the API's token counts
+ */
+function buildUsage(
+  request: LLMRequest,
+  model: string,
+  tokens: { inputTokens: number; outputTokens: number } & CacheTokens,
+  call: { latencyMs: number; fallbackUsed: boolean; attempts: number }
+): LLMUsage {
+  return {
+    stageName: request.stageName,
+    stageType: request.stageType,
+    model,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    cacheCreationInputTokens: tokens.creationInputTokens,
+    cacheReadInputTokens: tokens.readInputTokens,
+    costUsd: calculateCost(tokens.inputTokens, tokens.outputTokens, model, tokens),
+    cacheSavingsUsd: calculateCacheSavings(tokens, model),
+    ...call,
+  };
+}
+
+/**
+ * Anthropic "system" parameter: plain text when nothing is cacheable, otherwise one
+ * text block per prompt segment with cache_control on the segments marked cacheable
+ */
+function buildSystemParam(systemPrompt: string) {
+  const segments = splitCacheablePrompt(systemPrompt);
+  if (!segments.some(segment => segment.cache)) {
+    return stripCacheBreakpoints(systemPrompt);
+  }
+  return segments.map(segment => ({
+    type: "text" as const,
+    text: segment.text,
+    ...(segment.cache ? { cache_control: { type: "ephemeral" as const } } : {}),
+  }));
+}
+
+/**
+ * Resolve model, fallback model, max tokens and temperature for a request
+ */
+export function resolveModelConfig(request: LLMRequest): {
+  model: string;
+  fallbackModel?: string;
+  maxTokens: number;
+  temperature: number;
+} {
+  const stageConfig = request.stageType
+    ? STAGE_MODEL_CONFIG[request.stageType]
+    : STAGE_MODEL_CONFIG.LEGACY_SINGLE_STAGE;
+
+  return {
+    model: request.model ?? stageConfig.model,
+    // An explicit model override means the caller picked the model on purpose
+    fallbackModel: request.model ? undefined : stageConfig.fallbackModel,
+    maxTokens: request.maxTokens ?? stageConfig.maxTokens,
+    temperature: request.temperature ?? stageConfig.temperature,
+  };
+}
+
+/**
+ * Wrap a provider in the callLLM signature the pipelines expect
+ */
+export function createCallLLM(provider: LLMProvider): CallLLM {
+  return async (systemPrompt, userPrompt, stageName, stageType, options) => {
+    const request = { systemPrompt, userPrompt, stageName, stageType };
+    const completion = options?.onText
+      ? await readStreamText(await provider.stream(request), options.onText)
+      : await provider.complete(request);
+    options?.onStopReason?.(completion.stopReason);
+    return completion.text;
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Errors that should not be retried by the provider loop
+class NonRetryableLLMError extends Error {}
+
+/**
+ * Anthropic Messages API provider with retry, backoff and fallback model support
+ */
+export function createAnthropicProvider(
+  options: LLMProviderOptions & { apiKey?: string } = {}
+): LLMProvider {
+  const maxRetries = options.maxRetries ?? 3;
+  const baseDelay = options.baseDelayMs ?? 1000;
+  const usageRecords: LLMUsage[] = [];
+
+  const recordUsage = (usage: LLMUsage) => {
+    usageRecords.push(usage);
+    options.onUsage?.(usage);
+  };
+
+  // Sends the request, retrying on overload, server and network errors.
+  // Switches to the fallback model for the final attempt.
+  const sendWithRetry = async (
+    request: LLMRequest,
+    stream: boolean
+  ): Promise<{ response: Response; model: string; fallbackUsed: boolean; attempts: number }> => {
+    const apiKey = options.apiKey ?? process.env.CLAUDE_API_KEY;
+    if (!apiKey) throw new Error("Claude API key not set in environment");
+
+    const modelConfig = resolveModelConfig(request);
+    const body = {
+      model: modelConfig.model,
+      max_tokens: modelConfig.maxTokens,
+      temperature: modelConfig.temperature,
+      system: buildSystemParam(request.systemPrompt),
+      messages: [{ role: "user", content: request.userPrompt }],
+      ...(stream ? { stream: true } : {}),
+    };
+
+    console.log(`\n🤖 LLM Call - ${request.stageName}`);
+    console.log("  Model:", modelConfig.model);
+    console.log("  Max Tokens:", modelConfig.maxTokens);
+    console.log("  System Prompt Length:", request.systemPrompt.length, "chars");
+
+    if (request.systemPrompt.length > 50000) {
+      console.warn(`⚠️ Large system prompt (${request.systemPrompt.length} chars) may cause rate limiting`);
+    }
+
+    let fallbackUsed = false;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      if (attempt > 1) {
+        const throttleDelay = Math.min(500 * attempt, 2000);
+        console.log(`⏱️ Throttling request (attempt ${attempt}), waiting ${throttleDelay}ms...`);
+        await sleep(throttleDelay);
+      }
+
+      try {
+        const response = await fetch(ANTHROPIC_API_URL, {
+          method: "POST",
+          headers: {
+            "x-api-key": apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+            "content-type": "application/json",
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (response.ok) {
+          return { response, model: body.model, fallbackUsed, attempts: attempt };
+        }
+
+        const errorText = await response.text();
+        const retryable = response.status === 529 || response.status === 429 || response.status >= 500;
+
+        if (!retryable) {
+          console.error(`❌ LLM API Error (${request.stageName}):`, response.status, errorText);
+          throw new NonRetryableLLMError(`Claude API error: ${response.status} ${errorText}`);
+        }
+
+        if (attempt === maxRetries) {
+          console.error(`❌ LLM API Error (${request.stageName}): Max retries exceeded`);
+          throw new NonRetryableLLMError(
+            response.status >= 500 && response.status !== 529
+              ? `Claude API server error after ${maxRetries} attempts. Please try again later.`
+              : `Claude API overloaded after ${maxRetries} attempts. Please try again later.`
+          );
+        }
+
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+        if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
+          console.log(`⚠️ API ${response.status} error (attempt ${attempt}/${maxRetries}), switching to fallback model: ${modelConfig.fallbackModel}`);
+          body.model = modelConfig.fallbackModel;
+          fallbackUsed = true;
+        } else {
+          console.log(`⚠️ API ${response.status} error (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`);
+        }
+        await sleep(delay);
+      } catch (error) {
+        if (error instanceof NonRetryableLLMError) throw error;
+
+        if (attempt === maxRetries) {
+          console.error(`❌ LLM API Error (${request.stageName}) after ${maxRetries} attempts:`, error);
+          throw error;
+        }
+
+        if (error instanceof TypeError || (error instanceof Error && error.message.includes("fetch"))) {
+          const delay = baseDelay * Math.pow(2, attempt - 1);
+          console.log(`⚠️ Network error (attempt ${attempt}/${maxRetries}), retrying in ${delay}ms...`);
+          await sleep(delay);
+          continue;
+        }
+
+        throw error;
+      }
+    }
+
+    throw new Error(`Failed to get response from Claude API after ${maxRetries} attempts`);
+  };
+
+  return {
+    name: "anthropic",
+
+    async complete(request) {
+      const startTime = Date.now();
+      const { response, model, fallbackUsed, attempts } = await sendWithRetry(request, false);
+      const responseData = await response.json();
+      const latencyMs = Date.now() - startTime;
+
+      const text = responseData.content?.[0]?.text || "";
+      const usage = buildUsage(request, model, {
+        inputTokens: responseData.usage?.input_tokens || 0,
+        outputTokens: responseData.usage?.output_tokens || 0,
+        creationInputTokens: responseData.usage?.cache_creation_input_tokens || 0,
+        readInputTokens: responseData.usage?.cache_read_input_tokens || 0,
+      }, { latencyMs, fallbackUsed, attempts });
+      recordUsage(usage);
+
+      console.log("📥 Output:");
+      console.log("  Response Length:", text.length, "chars");
+      console.log("  Response Time:", latencyMs, "ms");
+      console.log("  Input Tokens:", usage.inputTokens);
+      console.log("  Output Tokens:", usage.outputTokens);
+      logCacheUsage(usage);
+      console.log("  Cost:", formatCost(usage.costUsd));
+      if (responseData.stop_reason && responseData.stop_reason !== "end_turn") {
+        console.warn(`⚠️ Stop reason: ${responseData.stop_reason}`);
+      }
+
+      return { text, stopReason: responseData.stop_reason, usage };
+    },
+
+    async stream(request) {
+      const startTime = Date.now();
+      const { response, model, fallbackUsed, attempts } = await sendWithRetry(request, true);
+      if (!response.body) throw new Error("Claude API returned an empty stream");
+
+      // Tee the body so usage can be read from the SSE events without touching the client copy
+      const [clientStream, usageStream] = response.body.tee();
+      void readStreamUsage(usageStream).then((tokens) => {
+        const usage = buildUsage(request, model, tokens, { latencyMs: Date.now() - startTime, fallbackUsed, attempts });
+        recordUsage(usage);
+        logCacheUsage(usage);
+      }).catch((error) => {
+        console.warn("⚠️ Failed to read usage from stream:", error);
+      });
+
+      return clientStream;
+    },
+
+    getUsage() {
+      return [...usageRecords];
+    },
+  };
+}
+
+function logCacheUsage(usage: LLMUsage) {
+  if (usage.cacheReadInputTokens > 0) {
+    console.log(`  ♻️ Prompt cache hit: ${usage.cacheReadInputTokens} tokens read, saved ${formatCost(usage.cacheSavingsUsd)}`);
+  } else if (usage.cacheCreationInputTokens > 0) {
+    console.log(`  📝 Prompt cache miss: ${usage.cacheCreationInputTokens} tokens written`);
+  }
+}
+
+// Fields of the Anthropic SSE events read below
+interface StreamEvent {
+  type?: string;
+  message?: { usage?: Record<string, number | undefined> };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Call `onEvent` with each JSON event of an Anthropic SSE stream
+ */
+async function readStreamEvents(
+  stream: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(line.slice(5).trim());
+    } catch {
+      // Ignore non-JSON data lines (e.g. keep-alives)
+      return;
+    }
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+}
+
+/**
+ * Read token usage from Anthropic SSE events (message_start and message_delta)
+ */
+async function readStreamUsage(
+  stream: ReadableStream<Uint8Array>
+): Promise<{ inputTokens: number; outputTokens: number } & CacheTokens> {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let creationInputTokens = 0;
+  let readInputTokens = 0;
+
+  await readStreamEvents(stream, (event) => {
+    if (event.type === "message_start") {
+      inputTokens = event.message?.usage?.input_tokens || inputTokens;
+      outputTokens = event.message?.usage?.output_tokens || outputTokens;
+      creationInputTokens = event.message?.usage?.cache_creation_input_tokens || creationInputTokens;
+      readInputTokens = event.message?.usage?.cache_read_input_tokens || readInputTokens;
+    } else if (event.type === "message_delta") {
+      outputTokens = event.usage?.output_tokens || outputTokens;
+    }
+  });
+
+  return { inputTokens, outputTokens, creationInputTokens, readInputTokens };
+}
+
+/**
+ * Collect the text and stop reason of an Anthropic SSE stream, passing text deltas to `onText`
+ */
+async function readStreamText(
+  stream: ReadableStream<Uint8Array>,
+  onText: (chunk: string) => void
+): Promise<{ text: string; stopReason?: string }> {
+  let text = "";
+  let stopReason: string | undefined;
+
+  await readStreamEvents(stream, (event) => {
+    if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+      text += event.delta.text;
+      onText(event.delta.text);
+    } else if (event.type === "message_delta") {
+      stopReason = event.delta?.stop_reason ?? stopReason;
+    } else if (event.type === "error") {
+      throw new Error(`Claude API stream error: ${event.error?.message ?? "unknown error"}`);
+    }
+  });
+
+  return { text, stopReason };
+}
+
+/**
+ * Deterministic provider for tests and offline development.
+ * Responses come from a per-stage map or a responder function; token counts are
+ * derived from prompt/response lengths (~4 chars per token). Cacheable system prompt
+ * prefixes are remembered so repeated prefixes report cache reads like the real API.
+ */
+export function createMockLLMProvider(
+  options: LLMProviderOptions & {
+    responses?: Partial<Record<LLMStageType, string>> | ((request: LLMRequest) => string);
+    stopReason?: string;
+  } = {}
+): LLMProvider {
+  const usageRecords: LLMUsage[] = [];
+  const cachedPrefixes = new Set<string>();
+
+  const respond = (request: LLMRequest): { text: string; usage: LLMUsage } => {
+    const { responses } = options;
+    let text: string | undefined;
+    if (typeof responses === "function") {
+      text = responses(request);
+    } else if (responses && request.stageType) {
+      text = responses[request.stageType];
+    }
+    if (text === undefined) {
+      text = `[mock] ${request.stageName}`;
+    }
+
+    const { model } = resolveModelConfig(request);
+    // Like the API: read the longest previously cached prefix, write the rest up to the last breakpoint
+    let prefix = "";
+    let cachedLength = 0;
+    let readLength = 0;
+    for (const segment of splitCacheablePrompt(request.systemPrompt)) {
+      prefix += segment.text;
+      if (!segment.cache) continue;
+      cachedLength = prefix.length;
+      if (cachedPrefixes.has(prefix)) readLength = prefix.length;
+      cachedPrefixes.add(prefix);
+    }
+    const readInputTokens = Math.ceil(readLength / 4);
+    const creationInputTokens = Math.ceil(cachedLength / 4) - readInputTokens;
+
+    const usage = buildUsage(request, model, {
+      inputTokens: Math.ceil((prefix.length + request.userPrompt.length) / 4) - creationInputTokens - readInputTokens,
+      outputTokens: Math.ceil(text.length / 4),
+      creationInputTokens,
+      readInputTokens,
+    }, { latencyMs: 0, fallbackUsed: false, attempts: 1 });
+    usageRecords.push(usage);
+    options.onUsage?.(usage);
+    return { text, usage };
+  };
+
+  return {
+    name: "mock",
+
+    async complete(request) {
+      const { text, usage } = respond(request);
+      return { text, stopReason: options.stopReason ?? "end_turn", usage };
+    },
+
+    async stream(request) {
+      const { text, usage } = respond(request);
+      const events = [
+        { type: "message_start", message: { usage: { input_tokens: usage.inputTokens, output_tokens: 0 } } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } },
+        { type: "message_delta", delta: { stop_reason: options.stopReason ?? "end_turn" }, usage: { output_tokens: usage.outputTokens } },
+        { type: "message_stop" },
+      ];
+      const encoder = new TextEncoder();
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const event of events) {
+            controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+          }
+          controller.close();
+        },
+      });
+    },
+
+    getUsage() {
+      return [...usageRecords];
+    },
+  };
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER ("anthropic" by default, "mock" for offline runs)
+ */
+export function createLLMProvider(options: LLMProviderOptions = {}): LLMProvider {
+  if (process.env.LLM_PROVIDER === "mock") {
+    console.log("🧪 Using mock LLM provider");
+    return createMockLLMProvider(options);
+  }
+  return createAnthropicProvider(options);
+}
@@ -0,0 +1,81 @@
+/**
+ * Persists LLM provider usage to the llm_usage table
+ */
+
+import { recordLLMUsage } from "./database";
+import type { LLMUsage } from "./llmProvider";
+import { CACHE_READ_MULTIPLIER, CACHE_WRITE_MULTIPLIER } from "./promptCache";
+
+export interface UsageScope {
+  jobId?: string;
+  projectId?: string;
+  userId?: string;
+}
+
+// Quota tokens of calls whose ledger write has not landed yet, per user
+const unsavedTokens = new Map<string, number>();
+const pendingWrites = new Set<Promise<unknown>>();
+
+/**
+ * Tokens a call counts against the monthly quota, as getUserTokenUsageSince sums them
+ */
+export function quotaTokens(
+  usage: Pick<LLMUsage, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens'>
+): number {
+  return usage.inputTokens + usage.outputTokens
+    + usage.cacheCreationInputTokens * CACHE_WRITE_MULTIPLIER
+    + usage.cacheReadInputTokens * CACHE_READ_MULTIPLIER;
+}
+
+/**
+ * Quota tokens this process has used for `userId` that the ledger does not show yet.
+ * Budget checks add them to the ledger total so back-to-back calls see each other.
+ */
+export function unsavedUsageTokens(userId: string): number {
+  return unsavedTokens.get(userId) ?? 0;
+}
+
+/**
+ * Wait for the ledger writes started so far
+ */
+export async function flushUsageWrites(): Promise<void> {
+  await Promise.all(pendingWrites);
+}
+
+/**
+ * Build an onUsage listener that writes each LLM call to the ledger.
+ * Writes are fire-and-forget so a ledger outage never fails a generation.
+ */
+export function persistUsageTo(scope: UsageScope): (usage: LLMUsage) => void {
+  return (usage) => {
+    const { userId } = scope;
+    const tokens = quotaTokens(usage);
+    if (userId) unsavedTokens.set(userId, unsavedUsageTokens(userId) + tokens);
+
+    const write = recordLLMUsage({
+      jobId: scope.jobId,
+      projectId: scope.projectId,
+      userId,
+      stage: usage.stageName,
+      stageType: usage.stageType,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheCreationInputTokens: usage.cacheCreationInputTokens,
+      cacheReadInputTokens: usage.cacheReadInputTokens,
+      costUsd: usage.costUsd,
+      cacheSavingsUsd: usage.cacheSavingsUsd,
+      latencyMs: usage.latencyMs,
+      fallbackUsed: usage.fallbackUsed,
+    }).catch((error) => {
+      console.warn(`⚠️ Failed to record LLM usage for ${usage.stageName}:`, error);
+    }).finally(() => {
+      pendingWrites.delete(write);
+      if (!userId) return;
+      const remaining = unsavedUsageTokens(userId) - tokens;
+      if (remaining > 0) unsavedTokens.set(userId, remaining);
+      else unsavedTokens.delete(userId);
+    });
+    pendingWrites.add(write);
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Module graph and symbol index for generated projects
+ * Parses every project source file with the TypeScript compiler API and resolves
+ * imports the way the app's own build does (tsconfig paths, index files, extensions).
+ * Powers import validation, context selection, find usages and dead-file detection.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+
+export interface ImportBinding {
+  // Exported name being imported: 'default', '*' for namespace/dynamic imports
+  name: string;
+  // Local identifier in the importing file
+  alias?: string;
+}
+
+export interface ModuleImport {
+  specifier: string;
+  // Project filename the specifier resolves to
+  resolved?: string;
+  // Package import (node_modules), not checked against project files
+  external: boolean;
+  bindings: ImportBinding[];
+  typeOnly: boolean;
+  // `export ... from` re-export rather than an import
+  reExport: boolean;
+  line: number;
+}
+
+export interface ModuleExport {
+  name: string;
+  kind: string;
+  line: number;
+}
+
+export interface ModuleInfo {
+  filename: string;
+  imports: ModuleImport[];
+  exports: ModuleExport[];
+  // Targets of `export * from '...'`
+  reExportsAll: string[];
+}
+
+export interface UnresolvedReference {
+  file: string;
+  specifier: string;
+  line: number;
+  reason: 'module-not-found' | 'missing-export';
+  // Imported name that the target module does not export
+  name?: string;
+}
+
+export interface SymbolUsage {
+  file: string;
+  line: number;
+}
+
+export interface ModuleGraph {
+  modules: Map<string, ModuleInfo>;
+  unresolved: UnresolvedReference[];
+  // Files importing (or re-exporting) the given file
+  importersOf(filename: string): string[];
+  // Import sites and references of an exported symbol across the project
+  findUsages(filename: string, exportName: string): SymbolUsage[];
+  // Source files no entry point (pages, layouts, routes, configs) reaches
+  deadFiles(): string[];
+}
+
+type ProjectFile = { filename: string; content: string };
+
+// Virtual root the in-memory files are resolved under
+const PROJECT_ROOT = '/project';
+const SOURCE_FILE = /\.(tsx?|jsx?|mjs|cjs)$/;
+// Next.js app router files and tooling that are loaded without being imported
+const ENTRY_POINT = /(^|\/)(page|layout|route|loading|error|not-found|template|default|global-error|middleware|instrumentation)\.(tsx?|jsx?)$|(^|\/)[^/]+\.config\.(ts|js|mjs|cjs)$|(^|\/)(scripts|__tests__|test|tests)\//;
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  allowJs: true,
+  resolveJsonModule: true,
+  jsx: ts.JsxEmit.Preserve,
+  baseUrl: PROJECT_ROOT,
+  paths: { '@/*': ['./src/*'] },
+};
+
+/**
+ * Build the module graph for a set of project files. Compiler options come from the
+ * project's tsconfig.json when present.
+ */
+export function createModuleGraph(files: ProjectFile[]): ModuleGraph {
+  const contents = new Map(files.map(file => [toAbsolute(file.filename), file.content]));
+  const directories = new Set<string>();
+  contents.forEach((_, absolute) => {
+    for (let dir = path.posix.dirname(absolute); dir !== '/' && !directories.has(dir); dir = path.posix.dirname(dir)) {
+      directories.add(dir);
+    }
+  });
+
+  const compilerOptions = readCompilerOptions(files);
+  const host: ts.ModuleResolutionHost = {
+    fileExists: (name) => contents.has(name),
+    readFile: (name) => contents.get(name),
+    directoryExists: (name) => directories.has(name) || name === PROJECT_ROOT,
+    getCurrentDirectory: () => PROJECT_ROOT,
+  };
+  const cache = ts.createModuleResolutionCache(PROJECT_ROOT, name => name, compilerOptions);
+
+  const resolve = (from: string, specifier: string): { resolved?: string; external: boolean } => {
+    const { resolvedModule } = ts.resolveModuleName(specifier, toAbsolute(from), compilerOptions, host, cache);
+    if (resolvedModule && contents.has(resolvedModule.resolvedFileName)) {
+      return { resolved: toProjectPath(resolvedModule.resolvedFileName), external: false };
+    }
+    // Stylesheets, images and other assets resolve by path only
+    if (/\.\w+$/.test(specifier) && !SOURCE_FILE.test(specifier) && specifier.startsWith('.')) {
+      const asset = path.posix.join(path.posix.dirname(toAbsolute(from)), specifier);
+      if (contents.has(asset)) return { resolved: toProjectPath(asset), external: false };
+    }
+    return { external: isPackageSpecifier(specifier, compilerOptions) };
+  };
+
+  const modules = new Map<string, ModuleInfo>();
+  const sources = new Map<string, ts.SourceFile>();
+  for (const file of files) {
+    if (!SOURCE_FILE.test(file.filename)) continue;
+    const source = ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true, scriptKindFor(file.filename));
+    sources.set(file.filename, source);
+    modules.set(file.filename, indexModule(source, resolve));
+  }
+
+  const unresolved: UnresolvedReference[] = [];
+  modules.forEach(info => {
+    for (const entry of info.imports) {
+      if (entry.external) continue;
+      if (!entry.resolved) {
+        unresolved.push({ file: info.filename, specifier: entry.specifier, line: entry.line, reason: 'module-not-found' });
+        continue;
+      }
+      const target = modules.get(entry.resolved);
+      // Assets, JSON and CommonJS modules have no ES exports to check
+      if (!target || (target.exports.length === 0 && target.reExportsAll.length === 0)) continue;
+      for (const binding of entry.bindings) {
+        if (binding.name === '*' || exportsName(modules, entry.resolved, binding.name, new Set())) continue;
+        unresolved.push({
+          file: info.filename,
+          specifier: entry.specifier,
+          line: entry.line,
+          reason: 'missing-export',
+          name: binding.name,
+        });
+      }
+    }
+  });
+
+  return {
+    modules,
+    unresolved,
+
+    importersOf(filename) {
+      return Array.from(modules.values())
+        .filter(info => info.imports.some(entry => entry.resolved === filename))
+        .map(info => info.filename);
+    },
+
+    findUsages(filename, exportName) {
+      const usages: SymbolUsage[] = [];
+      modules.forEach(info => {
+        for (const entry of info.imports) {
+          if (entry.resolved !== filename) continue;
+          const binding = entry.bindings.find(b => b.name === exportName || b.name === '*');
+          if (!binding) continue;
+          usages.push({ file: info.filename, line: entry.line });
+          if (binding.alias && !entry.reExport) {
+            usages.push(...identifierLines(sources.get(info.filename)!, binding.alias, binding.name === '*' ? exportName : undefined)
+              .filter(line => line !== entry.line)
+              .map(line => ({ file: info.filename, line })));
+          }
+        }
+      });
+      return usages;
+    },
+
+    deadFiles() {
+      const reachable = new Set<string>();
+      const queue = Array.from(modules.keys()).filter(filename => ENTRY_POINT.test(filename));
+      while (queue.length > 0) {
+        const filename = queue.pop()!;
+        if (reachable.has(filename)) continue;
+        reachable.add(filename);
+        modules.get(filename)?.imports.forEach(entry => {
+          if (entry.resolved) queue.push(entry.resolved);
+        });
+      }
+      return Array.from(modules.keys())
+        .filter(filename => filename.startsWith('src/') && !filename.endsWith('.d.ts') && !reachable.has(filename))
+        .sort();
+    },
+  };
+}
+
+// Imports, re-exports and exported declarations of one source file
+function indexModule(
+  source: ts.SourceFile,
+  resolve: (from: string, specifier: string) => { resolved?: string; external: boolean }
+): ModuleInfo {
+  const info: ModuleInfo = { filename: source.fileName, imports: [], exports: [], reExportsAll: [] };
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+  const addImport = (node: ts.Node, specifier: string, bindings: ImportBinding[], typeOnly: boolean, reExport: boolean) => {
+    const entry: ModuleImport = { specifier, ...resolve(source.fileName, specifier), bindings, typeOnly, reExport, line: lineOf(node) };
+    info.imports.push(entry);
+    return entry;
+  };
+  const addExport = (name: string, kind: string, node: ts.Node) => {
+    info.exports.push({ name, kind, line: lineOf(node) });
+  };
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const bindings: ImportBinding[] = [];
+      if (clause?.name) bindings.push({ name: 'default', alias: clause.name.text });
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        bindings.push({ name: '*', alias: clause.namedBindings.name.text });
+      } else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        clause.namedBindings.elements.forEach(element => {
+          bindings.push({ name: (element.propertyName ?? element.name).text, alias: element.name.text });
+        });
+      }
+      addImport(statement, statement.moduleSpecifier.text, bindings, clause?.isTypeOnly ?? false, false);
+    } else if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const bindings: ImportBinding[] = [];
+        if (!clause) {
+          bindings.push({ name: '*' });
+        } else if (ts.isNamespaceExport(clause)) {
+          bindings.push({ name: '*' });
+          addExport(clause.name.text, 'namespace', statement);
+        } else {
+          clause.elements.forEach(element => {
+            bindings.push({ name: (element.propertyName ?? element.name).text });
+            addExport(element.name.text, 're-export', element);
+          });
+        }
+        const entry = addImport(statement, statement.moduleSpecifier.text, bindings, statement.isTypeOnly, true);
+        if (!clause && entry.resolved) info.reExportsAll.push(entry.resolved);
+      } else if (clause && ts.isNamedExports(clause)) {
+        clause.elements.forEach(element => addExport(element.name.text, 'export', element));
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      addExport('default', 'default', statement);
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      const kind = declarationKind(statement);
+      if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach(declaration => {
+          if (ts.isIdentifier(declaration.name)) addExport(declaration.name.text, kind, declaration);
+        });
+      } else {
+        const name = (statement as ts.DeclarationStatement).name;
+        addExport(isDefault ? 'default' : name && ts.isIdentifier(name) ? name.text : 'default', kind, statement);
+      }
+    }
+  }
+
+  // Dynamic import('...') and require('...') anywhere in the file
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.arguments.length === 1 &&
+      ts.isStringLiteralLike(node.arguments[0]) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+    ) {
+      addImport(node, node.arguments[0].text, [{ name: '*' }], false, false);
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(source, visit);
+
+  return info;
+}
+
+// Whether a module exports `name` itself or through `export * from`
+function exportsName(modules: Map<string, ModuleInfo>, filename: string, name: string, seen: Set<string>): boolean {
+  if (seen.has(filename)) return false;
+  seen.add(filename);
+  const info = modules.get(filename);
+  if (!info) return false;
+  if (info.exports.some(entry => entry.name === name)) return true;
+  return name !== 'default' && info.reExportsAll.some(target => exportsName(modules, target, name, seen));
+}
+
+// Lines where `alias` (or `alias.member` for namespace imports) is referenced
+function identifierLines(source: ts.SourceFile, alias: string, member?: string): number[] {
+  const lines = new Set<number>();
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === alias) {
+      const parent = node.parent;
+      const matches = member
+        ? ts.isPropertyAccessExpression(parent) && parent.expression === node && parent.name.text === member
+        : true;
+      if (matches) lines.add(source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1);
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(source, visit);
+  return Array.from(lines).sort((a, b) => a - b);
+}
+
+function readCompilerOptions(files: ProjectFile[]): ts.CompilerOptions {
+  const tsconfig = files.find(file => file.filename === 'tsconfig.json');
+  if (!tsconfig) return DEFAULT_COMPILER_OPTIONS;
+
+  const { config, error } = ts.parseConfigFileTextToJson('tsconfig.json', tsconfig.content);
+  if (error || !config?.compilerOptions) return DEFAULT_COMPILER_OPTIONS;
+  const { options } = ts.convertCompilerOptionsFromJson(config.compilerOptions, PROJECT_ROOT, 'tsconfig.json');
+  return {
+    ...DEFAULT_COMPILER_OPTIONS,
+    ...options,
+    // paths without baseUrl are relative to the tsconfig directory
+    baseUrl: options.baseUrl ?? PROJECT_ROOT,
+    paths: options.paths ?? DEFAULT_COMPILER_OPTIONS.paths,
+    allowJs: true,
+    resolveJsonModule: true,
+  };
+}
+
+// Bare specifiers that no tsconfig path alias covers come from node_modules
+function isPackageSpecifier(specifier: string, options: ts.CompilerOptions): boolean {
+  if (specifier.startsWith('.') || specifier.startsWith('/')) return false;
+  return !Object.keys(options.paths ?? {}).some(pattern => {
+    const star = pattern.indexOf('*');
+    return star >= 0 ? specifier.startsWith(pattern.slice(0, star)) : specifier === pattern;
+  });
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(statement) && (ts.getModifiers(statement) ?? []).some(modifier => modifier.kind === kind);
+}
+
+function declarationKind(statement: ts.Statement): string {
+  if (ts.isFunctionDeclaration(statement)) return 'function';
+  if (ts.isClassDeclaration(statement)) return 'class';
+  if (ts.isInterfaceDeclaration(statement)) return 'interface';
+  if (ts.isTypeAliasDeclaration(statement)) return 'type';
+  if (ts.isEnumDeclaration(statement)) return 'enum';
+  if (ts.isVariableStatement(statement)) return 'variable';
+  return 'declaration';
+}
+
+function scriptKindFor(filename: string): ts.ScriptKind {
+  if (filename.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filename.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.(js|mjs|cjs)$/.test(filename)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function toAbsolute(filename: string): string {
+  return path.posix.join(PROJECT_ROOT, filename);
+}
+
+function toProjectPath(absolute: string): string {
+  return path.posix.relative(PROJECT_ROOT, absolute);
+}
@@ -0,0 +1,193 @@
+/**
+ * Parallel Stage 3 generation helpers
+ * Splits a PatchPlan into small groups of files that separate LLM calls generate
+ * concurrently, and builds the interface summary every call shares so imports
+ * across files agree on names.
+ */
+
+import type { PatchPlan } from './llmOptimizer';
+
+export interface ParallelGenerationOptions {
+  // Calls in flight at once (default 4)
+  concurrency?: number;
+  // Planned files generated per call (default 1)
+  filesPerCall?: number;
+}
+
+type PlannedPatch = PatchPlan['patches'][number];
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_FILES_PER_CALL = 1;
+// Longest props/type body copied into the summary
+const MAX_TYPE_LINES = 20;
+
+const EXPORT_DECLARATION = /^export\s+(default\s+)?(?:async\s+)?(function|const|let|class|interface|type|enum)\s+([A-Za-z_$][\w$]*)/;
+const EXPORT_LIST = /^export\s*(type\s*)?\{([^}]*)\}/;
+const EXPORT_DEFAULT_NAME = /^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/;
+
+/**
+ * Group the files Stage 3 has to write into chunks of `filesPerCall`, in plan order.
+ * Deleted files need no generation and are left out.
+ */
+export function groupPatchesForGeneration(patchPlan: PatchPlan, filesPerCall: number = DEFAULT_FILES_PER_CALL): PlannedPatch[][] {
+  const size = Math.max(1, filesPerCall);
+  const patches = patchPlan.patches.filter(patch => patch.operation !== 'delete');
+  const groups: PlannedPatch[][] = [];
+  for (let i = 0; i < patches.length; i += size) {
+    groups.push(patches.slice(i, i + size));
+  }
+  return groups;
+}
+
+/**
+ * Describe what every file exports (existing files) or is expected to export
+ * (planned files), including props types and hooks, for calls that only see
+ * their own files
+ */
+export function buildInterfaceSummary(
+  patchPlan: PatchPlan,
+  currentFiles: { filename: string; content: string }[]
+): string {
+  const planned = new Map(patchPlan.patches.map(patch => [patch.filename, patch]));
+  const sections: string[] = [];
+
+  for (const patch of patchPlan.patches) {
+    if (patch.operation === 'delete') {
+      sections.push(`${patch.filename} (being deleted - do not import)`);
+      continue;
+    }
+    const existing = currentFiles.find(file => file.filename === patch.filename);
+    const lines = [`${patch.filename} (${patch.operation}): ${patch.purpose}`];
+    const expected = expectedExportName(patch.filename);
+    if (patch.operation === 'create' && expected) {
+      lines.push(`  expected export: ${expected}`);
+    }
+    if (existing) {
+      lines.push(...describeExports(existing.content).map(line => `  ${line}`));
+    }
+    const dependencies = Array.from(new Set(patch.changes.flatMap(change => change.dependencies ?? [])));
+    if (dependencies.length > 0) {
+      lines.push(`  uses: ${dependencies.join(', ')}`);
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  for (const file of currentFiles) {
+    if (planned.has(file.filename) || !/\.(tsx?|jsx?)$/.test(file.filename)) continue;
+    const exports = describeExports(file.content);
+    if (exports.length === 0) continue;
+    sections.push([`${file.filename} (unchanged)`, ...exports.map(line => `  ${line}`)].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Map items with at most `concurrency` promises pending; results keep input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Read parallel generation settings from STAGE3_PARALLEL, STAGE3_PARALLEL_CONCURRENCY
+ * and STAGE3_FILES_PER_CALL. Returns undefined (single call) unless STAGE3_PARALLEL=true.
+ */
+export function parallelGenerationFromEnv(): ParallelGenerationOptions | undefined {
+  if (process.env.STAGE3_PARALLEL !== 'true') return undefined;
+  return {
+    concurrency: parseInt(process.env.STAGE3_PARALLEL_CONCURRENCY || String(DEFAULT_CONCURRENCY)),
+    filesPerCall: parseInt(process.env.STAGE3_FILES_PER_CALL || String(DEFAULT_FILES_PER_CALL)),
+  };
+}
+
+// Fill in defaults for unset or invalid settings
+export function resolveParallelOptions(options: ParallelGenerationOptions): Required<ParallelGenerationOptions> {
+  return {
+    concurrency: options.concurrency || DEFAULT_CONCURRENCY,
+    filesPerCall: options.filesPerCall || DEFAULT_FILES_PER_CALL,
+  };
+}
+
+// Export lines of a source file: "export function useCounter", plus props and type bodies
+function describeExports(content: string): string[] {
+  const lines = content.split('\n');
+  const described: string[] = [];
+
+  lines.forEach((line, index) => {
+    const declaration = line.match(EXPORT_DECLARATION);
+    if (declaration) {
+      const [, isDefault, kind, name] = declaration;
+      const label = `${isDefault ? 'default ' : ''}${kind} ${name}${name.startsWith('use') && kind !== 'interface' && kind !== 'type' ? ' (hook)' : ''}`;
+      described.push(`export ${label}`);
+      if ((kind === 'interface' || kind === 'type') && line.includes('{')) {
+        described.push(...typeBody(lines, index).map(bodyLine => `  ${bodyLine}`));
+      }
+      return;
+    }
+
+    const list = line.match(EXPORT_LIST);
+    if (list) {
+      const names = list[2].split(',').map(name => name.trim()).filter(Boolean);
+      if (names.length > 0) described.push(`export ${list[1] ? 'type ' : ''}{ ${names.join(', ')} }`);
+      return;
+    }
+
+    const defaultName = line.match(EXPORT_DEFAULT_NAME);
+    if (defaultName) described.push(`export default ${defaultName[1]}`);
+  });
+
+  // Props declared without export still describe a component's interface
+  lines.forEach((line, index) => {
+    const props = line.match(/^(?:interface|type)\s+([A-Za-z_$][\w$]*Props)\b/);
+    if (props) {
+      described.push(`props ${props[1]}`, ...typeBody(lines, index).map(bodyLine => `  ${bodyLine}`));
+    }
+  });
+
+  return described;
+}
+
+// Lines inside the braces opened on lines[start]
+function typeBody(lines: string[], start: number): string[] {
+  const body: string[] = [];
+  let depth = 0;
+  for (let i = start; i < lines.length; i++) {
+    for (const ch of lines[i]) {
+      if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+    }
+    if (depth <= 0) break;
+    if (i === start) continue;
+    body.push(lines[i].trim());
+    if (body.length === MAX_TYPE_LINES) {
+      body.push('...');
+      break;
+    }
+  }
+  return body;
+}
+
+// src/components/ui/Button.tsx -> Button, src/hooks/useCounter.ts -> useCounter
+function expectedExportName(filename: string): string | null {
+  const match = filename.match(/([^/]+)\.(tsx?|jsx?)$/);
+  if (!match) return null;
+  const base = match[1];
+  if (['page', 'layout', 'route', 'index', 'loading', 'error', 'not-found'].includes(base)) return null;
+  return base.replace(/[-_.](\w)/g, (_, ch: string) => ch.toUpperCase());
+}
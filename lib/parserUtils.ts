@@ -1,215 +1,41 @@
 // Robust JSON parsing utilities for multi-stage LLM pipeline responses
 import { PatchPlan, DiffHunk } from './llmOptimizer';
-
-/**
- * Helper function to find balanced JSON from a starting index
- */
-function findBalancedFromIndex(text: string, startIdx: number): string | null {
-  const opening = text[startIdx];
-  const matching = opening === '{' ? '}' : opening === '[' ? ']' : null;
-  if (!matching) return null;
-
-  const stack = [opening];
-  let inString = false;
-  let stringChar: string | null = null;
-  let escape = false;
-
-  for (let i = startIdx + 1; i < text.length; i++) {
-    const ch = text[i];
-
-    if (escape) {
-      escape = false;
-      continue;
-    }
-    if (ch === '\\') {
-      escape = true;
-      continue;
-    }
-
-    if (ch === '"' || ch === "'") {
-      if (!inString) {
-        inString = true;
-        stringChar = ch;
-        continue;
-      } else if (ch === stringChar) {
-        inString = false;
-        stringChar = null;
-        continue;
-      } else {
-        // different quote inside string - ignore
-        continue;
-      }
-    }
-
-    if (!inString) {
-      if (ch === '{' || ch === '[') {
-        stack.push(ch);
-      } else if (ch === '}' || ch === ']') {
-        const last = stack.pop();
-        if (!last) return null; // mismatch
-        // If stack emptied, we found balanced block
-        if (stack.length === 0) {
-          return text.slice(startIdx, i + 1);
-        }
-      }
-    }
-  }
-  return null; // no balanced block found (possibly truncated)
-}
-
-/**
- * Find the first balanced JSON object/array
- */
-function findFirstBalancedJson(text: string): string | null {
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-    if (ch === '{' || ch === '[') {
-      const found = findBalancedFromIndex(text, i);
-      if (found) return found;
-    }
-  }
-  return null;
-}
-
-/**
- * Escape control characters inside strings
- */
-function escapeControlCharsInsideStrings(src: string): string {
-  let out = '';
-  let inString = false;
-  let stringChar: string | null = null;
-  let escaping = false;
-
-  for (let i = 0; i < src.length; i++) {
-    const ch = src[i];
-
-    if (escaping) {
-      out += ch;
-      escaping = false;
-      continue;
-    }
-
-    if (ch === '\\') {
-      out += ch;
-      escaping = true;
-      continue;
-    }
-
-    if ((ch === '"' || ch === "'")) {
-      if (!inString) {
-        inString = true;
-        stringChar = ch;
-        out += ch;
-        continue;
-      } else if (ch === stringChar) {
-        inString = false;
-        stringChar = null;
-        out += ch;
-        continue;
-      } else {
-        out += ch;
-        continue;
-      }
-    }
-
-    if (inString) {
-      if (ch === '\n') out += '\\n';
-      else if (ch === '\r') out += '\\r';
-      else if (ch === '\t') out += '\\t';
-      else out += ch;
-    } else {
-      out += ch;
-    }
-  }
-
-  return out;
+import { createStreamingJsonParser, parseTolerantJson, describeTruncation, type JsonTruncation } from './streamingJson';
+
+export type Stage3File = {
+  filename: string;
+  content?: string;
+  unifiedDiff?: string;
+  operation?: string;
+  diffHunks?: DiffHunk[];
+};
+
+export interface Stage3ParseResult {
+  // Files that closed, in response order; kept even when the response was cut off
+  files: Stage3File[];
+  complete: boolean;
+  truncation?: JsonTruncation;
 }
 
 /**
- * Remove trailing commas like: ,} or ,]
- */
-function removeTrailingCommas(jsonLike: string): string {
-  return jsonLike.replace(/,\s*(?=[}\]])/g, '');
-}
-
-/**
- * Try to parse JSON with sanitization
- */
-function tryParseJsonText(raw: string): unknown {
-  try {
-    return JSON.parse(raw);
-  } catch {
-    // try sanitization
-    try {
-      let s = escapeControlCharsInsideStrings(raw);
-      s = removeTrailingCommas(s);
-      return JSON.parse(s);
-    } catch (e2) {
-      throw e2;
-    }
-  }
-}
-
-/**
- * Extract patches array as object
- */
-function extractPatchesArrayAsObject(text: string): string | null {
-  const key = '"patches"';
-  const keyIdx = text.indexOf(key);
-  if (keyIdx === -1) return null;
-
-  const colonIdx = text.indexOf(':', keyIdx + key.length);
-  if (colonIdx === -1) return null;
-
-  const arrOpen = text.indexOf('[', colonIdx);
-  if (arrOpen === -1) return null;
-
-  const balancedArr = findBalancedFromIndex(text, arrOpen);
-  if (!balancedArr) return null;
-
-  return `{"patches": ${balancedArr}}`;
-}
-
-/**
- * Parse Stage 2 Patch Planner response with robust JSON parsing
+ * Parse Stage 2 Patch Planner response.
+ * A cut-off plan keeps the patches that closed.
  */
 export function parseStage2PatchResponse(responseText: string): PatchPlan {
-  // 1) Quick exact JSON extraction between markers if present
-  const startMarker = '__START_JSON__';
-  const endMarker = '__END_JSON__';
-  const startMarkIdx = responseText.indexOf(startMarker);
-  const endMarkIdx = responseText.indexOf(endMarker, startMarkIdx + startMarker.length);
-  if (startMarkIdx !== -1 && endMarkIdx !== -1) {
-    const candidate = responseText.slice(startMarkIdx + startMarker.length, endMarkIdx).trim();
-    try {
-      return tryParseJsonText(candidate) as PatchPlan;
-    } catch (e) {
-      console.warn('Parsing between markers failed:', e);
-    }
+  const { value, truncation } = parseTolerantJson(responseText);
+  if (truncation) {
+    console.warn(`⚠️ Stage 2 response cut off at ${describeTruncation(truncation)}; keeping ${truncation.completeElements} complete patches`);
   }
 
-  // 2) Try to find the first balanced JSON object/array anywhere
-  const balanced = findFirstBalancedJson(responseText);
-  if (balanced) {
-    try {
-      return tryParseJsonText(balanced) as PatchPlan;
-    } catch (e) {
-      console.warn('Parsing balanced JSON failed, attempting sanitization...', e);
-    }
+  if (Array.isArray(value)) {
+    return { patches: value } as PatchPlan;
   }
-
-  // 3) Try to extract just the "patches" array and build a minimal object
-  const patchesObjText = extractPatchesArrayAsObject(responseText);
-  if (patchesObjText) {
-    try {
-      return tryParseJsonText(patchesObjText) as PatchPlan;
-    } catch (e) {
-      console.warn('Parsing extracted patches object failed:', e);
-    }
+  if (isObject(value) && Array.isArray(value.patches)) {
+    return value as unknown as PatchPlan;
   }
 
-  // 4) Last resort: create a minimal valid patch plan
-  console.log('All JSON parsing strategies failed, creating minimal patch plan...');
+  // Last resort: create a minimal valid patch plan
+  console.log('No patch plan found in Stage 2 response, creating minimal patch plan...');
   return {
     patches: [{
       filename: "src/app/page.tsx",
@@ -234,205 +60,84 @@ export function parseStage2PatchResponse(responseText: string): PatchPlan {
 }
 
 /**
- * Parse Stage 3 Code Generator response with robust JSON parsing
+ * Incremental Stage 3 parser: push the response as it streams in and `onFile` is
+ * called with each file object as soon as it closes
  */
-export function parseStage3CodeResponse(responseText: string): { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[] {
-  // 1) Quick exact JSON extraction between markers if present
-  const startMarker = '__START_JSON__';
-  const endMarker = '__END_JSON__';
-  const startMarkIdx = responseText.indexOf(startMarker);
-  const endMarkIdx = responseText.indexOf(endMarker, startMarkIdx + startMarker.length);
-  if (startMarkIdx !== -1 && endMarkIdx !== -1) {
-    const candidate = responseText.slice(startMarkIdx + startMarker.length, endMarkIdx).trim();
-    try {
-      return tryParseJsonText(candidate) as { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[];
-    } catch (e) {
-      console.warn('Stage 3: Parsing between markers failed, attempting repairs:', e);
-      
-      // Attempt JSON repair
-      const repaired = repairJsonArray(candidate);
-      if (repaired) {
-        try {
-          return tryParseJsonText(repaired) as { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[];
-        } catch (repairError) {
-          console.warn('Stage 3: JSON repair also failed:', repairError);
-        }
+export function createStage3CodeParser(onFile?: (file: Stage3File, index: number) => void): {
+  push(chunk: string): void;
+  end(): Stage3ParseResult;
+} {
+  const files: Stage3File[] = [];
+  const parser = createStreamingJsonParser({
+    onElement: (element) => {
+      if (!isStage3File(element)) {
+        console.warn('Stage 3: Skipping array entry without a filename');
+        return;
       }
+      files.push(element);
+      onFile?.(element, files.length - 1);
     }
-  }
+  });
 
-  // 2) Try to find the first balanced JSON array
-  const balanced = findFirstBalancedJson(responseText);
-  if (balanced) {
-    try {
-      return tryParseJsonText(balanced) as { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[];
-    } catch (e) {
-      console.warn('Stage 3: Parsing balanced JSON failed:', e);
+  return {
+    push: (chunk) => parser.push(chunk),
+    end: () => {
+      const { value, complete, truncation } = parser.end();
+      if (!Array.isArray(value)) {
+        throw new Error('Stage 3: No JSON array of files found in response');
+      }
+      return { files, complete, truncation };
     }
-  }
+  };
+}
 
-  // 3) Fallback: try direct parsing
-  try {
-    return JSON.parse(responseText) as { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[];
-  } catch {
-    throw new Error('Stage 3: All JSON parsing strategies failed');
-  }
+/**
+ * Parse a Stage 3 Code Generator response, reporting where it was cut off if it was
+ */
+export function parseStage3CodeResult(responseText: string): Stage3ParseResult {
+  const parser = createStage3CodeParser();
+  parser.push(responseText);
+  return parser.end();
 }
 
 /**
- * Attempt to repair common JSON malformation issues
+ * Parse Stage 3 Code Generator response.
+ * A cut-off response yields the files that closed before the cut.
  */
-function repairJsonArray(jsonText: string): string | null {
-  try {
-    let repaired = jsonText.trim();
-    
-    // Fix malformed content strings with unescaped quotes and newlines
-    // This is the most common issue with Stage 3 responses
-    
-    // Fix unescaped quotes in content fields
-    // Pattern: "content": "some text with "quotes" and 'quotes'"
-    repaired = repaired.replace(
-      /("content"\s*:\s*")([^"\\\\]*(?:\\\\.[^"\\\\]*)*)(")(?=[^"]*(?:"[^"]*"[^"]*)*}])/g,
-      (match, prefix, content, suffix) => {
-        // Escape any unescaped quotes inside the content
-        const escapedContent = content
-          .replace(/(?<!\\)"/g, '\\"')
-          .replace(/\n/g, '\\n')
-          .replace(/\r/g, '\\r')
-          .replace(/\t/g, '\\t');
-        return prefix + escapedContent + suffix;
-      }
-    );
-    
-    // Fix malformed ending patterns
-    // [{"filename":"...","content":"..."} -> [{"filename":"...","content":"..."}]
-    if (repaired.endsWith('}') && !repaired.endsWith('}]')) {
-      repaired = repaired + ']';
-    }
-    
-    // Remove any extra closing braces before final ]
-    if (repaired.includes('}]')) {
-      repaired = repaired.replace(/}+(?=\s*])/g, '');
-    }
-    
-    // Fix malformed unifiedDiff content escaping
-    repaired = repaired.replace(
-      /("unifiedDiff"\s*:\s*")([^"\\\\]*(?:\\\\.[^"\\\\]*)*)(")/g,
-      (match, prefix, content, suffix) => {
-        const escapedContent = content
-          .replace(/(?<!\\)"/g, '\\"')
-          .replace(/\n/g, '\\n')
-          .replace(/\r/g, '\\r')
-          .replace(/\t/g, '\\t');
-        return prefix + escapedContent + suffix;
-      }
-    );
-    
-    // Try parsing the repaired JSON
-    JSON.parse(repaired);
-    return repaired;
-  } catch {
-    return null;
+export function parseStage3CodeResponse(responseText: string): Stage3File[] {
+  const { files, truncation } = parseStage3CodeResult(responseText);
+  if (truncation) {
+    console.warn(`⚠️ Stage 3 response cut off at ${describeTruncation(truncation)}; keeping ${files.length} complete files`);
   }
+  return files;
 }
 
 /**
- * Parse Stage 4 Validator response with robust JSON parsing
+ * Parse Stage 4 Validator response
  */
 export function parseStage4ValidatorResponse(responseText: string): { filename: string; content: string; unifiedDiff?: string; diffHunks?: DiffHunk[] }[] {
-  // 1) Quick exact JSON extraction between markers if present
-  const startMarker = '__START_JSON__';
-  const endMarker = '__END_JSON__';
-  const startMarkIdx = responseText.indexOf(startMarker);
-  const endMarkIdx = responseText.indexOf(endMarker, startMarkIdx + startMarker.length);
-  if (startMarkIdx !== -1 && endMarkIdx !== -1) {
-    const candidate = responseText.slice(startMarkIdx + startMarker.length, endMarkIdx).trim();
-    try {
-      return tryParseJsonText(candidate) as { filename: string; content: string; unifiedDiff?: string; diffHunks?: DiffHunk[] }[];
-    } catch (e) {
-      console.warn('Stage 4: Parsing between markers failed:', e);
-    }
+  const { value, truncation } = parseTolerantJson(responseText);
+  if (!Array.isArray(value)) {
+    throw new Error('Stage 4: No JSON array of files found in response');
   }
-
-  // 2) Try to find the first balanced JSON array
-  const balanced = findFirstBalancedJson(responseText);
-  if (balanced) {
-    try {
-      return tryParseJsonText(balanced) as { filename: string; content: string; unifiedDiff?: string; diffHunks?: DiffHunk[] }[];
-    } catch (e) {
-      console.warn('Stage 4: Parsing balanced JSON failed:', e);
-    }
-  }
-
-  // 3) Fallback: try direct parsing
-  try {
-    return JSON.parse(responseText) as { filename: string; content: string; unifiedDiff?: string; diffHunks?: DiffHunk[] }[];
-  } catch {
-    throw new Error('Stage 4: All JSON parsing strategies failed');
+  if (truncation) {
+    console.warn(`⚠️ Stage 4 response cut off at ${describeTruncation(truncation)}; keeping ${truncation.completeElements} complete files`);
   }
+  return value as { filename: string; content: string; unifiedDiff?: string; diffHunks?: DiffHunk[] }[];
 }
 
 /**
  * Generic JSON parser that can be used for any stage
  */
 export function parseJsonResponse(responseText: string, stageName: string = 'Unknown'): unknown {
-  // 1) Quick exact JSON extraction between markers if present
-  const startMarker = '__START_JSON__';
-  const endMarker = '__END_JSON__';
-  const startMarkIdx = responseText.indexOf(startMarker);
-  const endMarkIdx = responseText.indexOf(endMarker, startMarkIdx + startMarker.length);
-  if (startMarkIdx !== -1 && endMarkIdx !== -1) {
-    const candidate = responseText.slice(startMarkIdx + startMarker.length, endMarkIdx).trim();
-    try {
-      return tryParseJsonText(candidate);
-    } catch (e) {
-      console.warn(`${stageName}: Parsing between markers failed:`, e);
-    }
-  }
-
-  // 2) Try to find the first balanced JSON object/array
-  const balanced = findFirstBalancedJson(responseText);
-  if (balanced) {
-    try {
-      return tryParseJsonText(balanced);
-    } catch (e) {
-      console.warn(`${stageName}: Parsing balanced JSON failed:`, e);
-    }
+  const { value, truncation } = parseTolerantJson(responseText);
+  if (value === undefined) {
+    throw new Error(`${stageName}: No JSON found in response`);
   }
-
-  // 3) Fallback: try direct parsing
-  try {
-    return JSON.parse(responseText);
-  } catch {
-    throw new Error(`${stageName}: All JSON parsing strategies failed`);
+  if (truncation) {
+    console.warn(`⚠️ ${stageName} response cut off at ${describeTruncation(truncation)}`);
   }
-}
-
-/**
- * Check if response appears to be truncated
- */
-export function isResponseTruncated(responseText: string): boolean {
-  // Check for Stage 2 truncation (patch planner)
-  const isStage2Truncated = responseText.includes('"patches": [') && 
-    !responseText.includes('__END_JSON__') && 
-    !responseText.trim().endsWith('}') && 
-    !responseText.trim().endsWith(']');
-  
-  // Check for Stage 3 truncation (code generator)
-  const isStage3Truncated = responseText.includes('__START_JSON__') && 
-    responseText.includes('[') && 
-    !responseText.includes('__END_JSON__') && 
-    !responseText.trim().endsWith(']') &&
-    !responseText.trim().endsWith('}');
-  
-  // Check for general JSON truncation (missing closing brackets)
-  const hasStartJson = responseText.includes('__START_JSON__');
-  const hasEndJson = responseText.includes('__END_JSON__');
-  const endsProperly = responseText.trim().endsWith(']') || responseText.trim().endsWith('}');
-  
-  const isGeneralTruncated = hasStartJson && !hasEndJson && !endsProperly;
-  
-  return isStage2Truncated || isStage3Truncated || isGeneralTruncated;
+  return value;
 }
 
 /**
@@ -452,3 +157,11 @@ export function extractJsonBetweenMarkers(
   
   return null;
 }
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStage3File(value: unknown): value is Stage3File {
+  return isObject(value) && typeof value.filename === 'string';
+}
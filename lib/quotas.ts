@@ -0,0 +1,253 @@
+/**
+ * Per-user generation quotas
+ * Limits jobs per day, LLM tokens per month and concurrent jobs. Defaults come from
+ * env (QUOTA_JOBS_PER_DAY, QUOTA_TOKENS_PER_MONTH, QUOTA_CONCURRENT_JOBS) and can be
+ * overridden per user in the user_quotas table. A limit of 0 disables that quota.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  getUserQuota,
+  countUserGenerationJobsSince,
+  countActiveUserGenerationJobs,
+  getUserTokenUsageSince,
+  withUserJobLock,
+  type DbExecutor,
+} from "./database";
+import { unsavedUsageTokens } from "./llmUsageLedger";
+import type { CallLLM } from "./llmProvider";
+
+export interface QuotaLimits {
+  jobsPerDay: number;
+  tokensPerMonth: number;
+  concurrentJobs: number;
+}
+
+export type QuotaName = keyof QuotaLimits;
+
+export interface QuotaStatus {
+  limits: QuotaLimits;
+  used: QuotaLimits;
+  // Infinity for disabled quotas (serialized as null in JSON)
+  remaining: QuotaLimits;
+  resetAt: { jobsPerDay: Date; tokensPerMonth: Date };
+}
+
+export class QuotaExceededError extends Error {
+  quota: QuotaName;
+  status: QuotaStatus;
+
+  constructor(quota: QuotaName, status: QuotaStatus) {
+    super(`Quota exceeded: ${quota} (limit ${status.limits[quota]}, used ${status.used[quota]})`);
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+    this.status = status;
+  }
+}
+
+const DEFAULT_LIMITS: QuotaLimits = {
+  jobsPerDay: parseInt(process.env.QUOTA_JOBS_PER_DAY || "20"),
+  tokensPerMonth: parseInt(process.env.QUOTA_TOKENS_PER_MONTH || "5000000"),
+  concurrentJobs: parseInt(process.env.QUOTA_CONCURRENT_JOBS || "2"),
+};
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Compute remaining allowance from limits and current usage
+ */
+export function evaluateQuota(limits: QuotaLimits, used: QuotaLimits, now: Date = new Date()): QuotaStatus {
+  const remainingFor = (name: QuotaName) =>
+    limits[name] > 0 ? Math.max(limits[name] - used[name], 0) : Infinity;
+
+  const dayStart = startOfUtcDay(now);
+  const monthStart = startOfUtcMonth(now);
+
+  return {
+    limits,
+    used,
+    remaining: {
+      jobsPerDay: remainingFor('jobsPerDay'),
+      tokensPerMonth: remainingFor('tokensPerMonth'),
+      concurrentJobs: remainingFor('concurrentJobs'),
+    },
+    resetAt: {
+      jobsPerDay: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+      tokensPerMonth: new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1)),
+    },
+  };
+}
+
+export async function getUserQuotaLimits(userId: string, executor?: DbExecutor): Promise<QuotaLimits> {
+  const override = await getUserQuota(userId, executor);
+  return {
+    jobsPerDay: override?.jobsPerDay ?? DEFAULT_LIMITS.jobsPerDay,
+    tokensPerMonth: override?.tokensPerMonth ?? DEFAULT_LIMITS.tokensPerMonth,
+    concurrentJobs: override?.concurrentJobs ?? DEFAULT_LIMITS.concurrentJobs,
+  };
+}
+
+export async function getQuotaStatus(userId: string, executor?: DbExecutor): Promise<QuotaStatus> {
+  const now = new Date();
+  const [limits, jobsToday, activeJobs, tokensThisMonth] = await Promise.all([
+    getUserQuotaLimits(userId, executor),
+    countUserGenerationJobsSince(userId, startOfUtcDay(now), executor),
+    countActiveUserGenerationJobs(userId, executor),
+    getUserTokenUsageSince(userId, startOfUtcMonth(now), executor),
+  ]);
+
+  return evaluateQuota(limits, {
+    jobsPerDay: jobsToday,
+    // Calls whose ledger write is still in flight count too
+    tokensPerMonth: tokensThisMonth + unsavedUsageTokens(userId),
+    concurrentJobs: activeJobs,
+  }, now);
+}
+
+/**
+ * Check that the user may queue another generation job. Use admitJob to check and
+ * queue atomically.
+ */
+export async function assertJobQuota(userId: string, executor?: DbExecutor): Promise<QuotaStatus> {
+  const status = await getQuotaStatus(userId, executor);
+  for (const quota of ['jobsPerDay', 'concurrentJobs', 'tokensPerMonth'] as QuotaName[]) {
+    if (status.remaining[quota] <= 0) {
+      throw new QuotaExceededError(quota, status);
+    }
+  }
+  return status;
+}
+
+/**
+ * Check the job quotas and run `queue` (which creates or re-queues a job) in one
+ * transaction under a per-user lock, so concurrent requests cannot both pass the check
+ */
+export async function admitJob<T>(userId: string, queue: (tx: DbExecutor) => Promise<T>): Promise<T> {
+  return withUserJobLock(userId, async (tx) => {
+    await assertJobQuota(userId, tx);
+    return queue(tx);
+  });
+}
+
+/**
+ * Check that the user still has token budget for another LLM call
+ */
+export async function assertTokenBudget(userId: string): Promise<QuotaStatus> {
+  const status = await getQuotaStatus(userId);
+  if (status.remaining.tokensPerMonth <= 0) {
+    throw new QuotaExceededError('tokensPerMonth', status);
+  }
+  return status;
+}
+
+/**
+ * Guard every stage call with a token budget check.
+ * Pipelines catch, wrap or recover from stage errors, so the first budget failure is
+ * remembered and rethrown by run() once the pipeline settles.
+ */
+export function withTokenBudget(
+  callLLM: CallLLM,
+  userId: string,
+  checkBudget: (userId: string) => Promise<unknown> = assertTokenBudget
+): { callLLM: CallLLM; run: <T>(pipeline: () => Promise<T>) => Promise<T> } {
+  let exceeded: QuotaExceededError | null = null;
+
+  const guarded: CallLLM = async (systemPrompt, userPrompt, stageName, stageType, options) => {
+    if (exceeded) throw exceeded;
+    try {
+      await checkBudget(userId);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        console.warn(`⛔ Token budget exhausted before ${stageName}, stopping pipeline`);
+        exceeded = error;
+      }
+      throw error;
+    }
+    return callLLM(systemPrompt, userPrompt, stageName, stageType, options);
+  };
+
+  return {
+    callLLM: guarded,
+    run: async (pipeline) => {
+      let result;
+      try {
+        result = await pipeline();
+      } catch (error) {
+        throw exceeded ?? error;
+      }
+      if (exceeded) throw exceeded;
+      return result;
+    },
+  };
+}
+
+// Infinity is not valid JSON; report disabled quotas as null
+function serializeRemaining(remaining: QuotaLimits) {
+  return Object.fromEntries(
+    Object.entries(remaining).map(([name, value]) => [name, Number.isFinite(value) ? value : null])
+  );
+}
+
+export function serializeQuotaStatus(status: QuotaStatus) {
+  return {
+    limits: status.limits,
+    used: status.used,
+    remaining: serializeRemaining(status.remaining),
+    resetAt: status.resetAt,
+  };
+}
+
+/**
+ * 429 response describing which quota was hit and the remaining allowance
+ */
+export function quotaExceededResponse(error: QuotaExceededError): NextResponse {
+  const retryAt = error.quota === 'jobsPerDay'
+    ? error.status.resetAt.jobsPerDay
+    : error.quota === 'tokensPerMonth'
+      ? error.status.resetAt.tokensPerMonth
+      : null;
+
+  return NextResponse.json(
+    {
+      error: "Quota exceeded",
+      details: error.message,
+      quota: error.quota,
+      ...serializeQuotaStatus(error.status),
+    },
+    {
+      status: 429,
+      headers: retryAt
+        ? { 'Retry-After': String(Math.max(Math.ceil((retryAt.getTime() - Date.now()) / 1000), 1)) }
+        : undefined,
+    }
+  );
+}
+
+/**
+ * Run a quota check in a route handler; returns a 429 response when a quota is hit
+ */
+export async function enforceQuota(check: () => Promise<unknown>): Promise<NextResponse | null> {
+  const outcome = await enforceQuotaFor(check);
+  return outcome.response ?? null;
+}
+
+/**
+ * enforceQuota for quota-checked work that returns a value, e.g. admitJob
+ */
+export async function enforceQuotaFor<T>(run: () => Promise<T>): Promise<{ value: T; response?: undefined } | { response: NextResponse }> {
+  try {
+    return { value: await run() };
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      console.warn(`⛔ ${error.message}`);
+      return { response: quotaExceededResponse(error) };
+    }
+    throw error;
+  }
+}
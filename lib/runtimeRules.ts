@@ -0,0 +1,355 @@
+/**
+ * Runtime lint rules for generated miniapps
+ * Each rule walks the TypeScript AST of a project file and reports code that compiles
+ * but breaks at runtime in our apps (leaked timers, contract calls on the wrong chain
+ * or to an undeployed address, hooks in server components, storage access during SSR).
+ * Every finding carries the rule's suggested fix so Stage 4 can apply it.
+ */
+
+import ts from 'typescript';
+import type { CompilationError } from './compilationValidator';
+
+type ProjectFile = { filename: string; content: string };
+
+// Facts collected across all files before the rules run
+export interface ProjectFacts {
+  // Constants initialised with the zero address (placeholder contract addresses)
+  zeroAddressNames: Set<string>;
+}
+
+export interface RuleContext {
+  filename: string;
+  source: ts.SourceFile;
+  project: ProjectFacts;
+  // Report a finding at node; suggestion overrides the rule's default fix
+  report(node: ts.Node, message: string, suggestion?: string): void;
+}
+
+export interface RuntimeRule {
+  id: string;
+  severity: CompilationError['severity'];
+  description: string;
+  suggestion: string;
+  check(context: RuleContext): void;
+}
+
+const ZERO_ADDRESS = /^0x0{40}$/;
+const CHECKED_FILE = /\.(tsx?|jsx?)$/;
+const HOOK_NAME = /^use[A-Z]/;
+const COMPONENT_NAME = /^[A-Z]/;
+const TIMERS: Record<string, string> = { setInterval: 'clearInterval', setTimeout: 'clearTimeout' };
+// Contract calls the web3 rules require a chainId on
+const CHAIN_SCOPED_CALLS = new Set(['useReadContract', 'useSimulateContract', 'readContract', 'writeContract', 'writeContractAsync', 'simulateContract']);
+const WRITE_CALLS = new Set(['writeContract', 'writeContractAsync', 'simulateContract']);
+// Hooks whose callback runs during render
+const RENDER_CALLBACK_HOOKS = new Set(['useState', 'useMemo', 'useReducer', 'useRef']);
+const STORAGE = new Set(['localStorage', 'sessionStorage']);
+
+export const RUNTIME_RULES: RuntimeRule[] = [
+  {
+    id: 'runtime/timer-without-cleanup',
+    severity: 'warning',
+    description: 'setInterval/setTimeout in useEffect without a cleanup that clears it',
+    suggestion: 'Keep the timer id and clear it in the effect cleanup: const id = setInterval(...); return () => clearInterval(id);',
+    check({ source, report }) {
+      forEachCall(source, (call, callee) => {
+        if (callee !== 'useEffect' && callee !== 'useLayoutEffect') return;
+        const effect = call.arguments[0];
+        if (!effect || !(ts.isArrowFunction(effect) || ts.isFunctionExpression(effect))) return;
+
+        const cleanup = effectCleanup(effect);
+        forEachCall(effect.body, (timer, name) => {
+          const clear = TIMERS[name];
+          if (!clear || calls(cleanup, clear)) return;
+          report(timer, `${name} in ${callee} is never cleared`,
+            `Keep the timer id and clear it in the effect cleanup: const id = ${name}(...); return () => ${clear}(id);`);
+        });
+      });
+    },
+  },
+  {
+    id: 'runtime/contract-call-without-chain-id',
+    severity: 'warning',
+    description: 'Contract reads and writes without chainId run against whatever chain the wallet is on',
+    suggestion: 'Add chainId: CHAIN_ID (exported from contractConfig) to the call options',
+    check({ source, report }) {
+      forEachCall(source, (call, callee) => {
+        const options = contractCallOptions(call, callee);
+        if (options && !hasProperty(options, 'chainId')) {
+          report(call, `${callee} without chainId`);
+        }
+      });
+    },
+  },
+  {
+    id: 'runtime/unguarded-zero-address-call',
+    severity: 'error',
+    description: 'Contract calls to the placeholder zero address before the contract is deployed',
+    suggestion: 'Guard the call until the contract is deployed: skip writes when the address is the zero address and pass query: { enabled: isDeployed } to reads',
+    check({ source, project, report }) {
+      forEachCall(source, (call, callee) => {
+        const options = contractCallOptions(call, callee);
+        const address = options && propertyValue(options, 'address');
+        if (!address) return;
+
+        const addressName = ts.isIdentifier(address) ? address.text : undefined;
+        const isZero = addressName
+          ? project.zeroAddressNames.has(addressName)
+          : ts.isStringLiteralLike(address) && ZERO_ADDRESS.test(address.text);
+        if (!isZero) return;
+
+        const guarded = WRITE_CALLS.has(callee)
+          ? isGuarded(call, condition => !addressName || condition.includes(addressName) || /deployed/i.test(condition))
+          : hasEnabledQuery(options);
+        if (!guarded) {
+          report(call, `${callee} targets ${addressName ?? 'the zero address'}, which is the zero address until the contract is deployed`);
+        }
+      });
+    },
+  },
+  {
+    id: 'runtime/missing-use-client',
+    severity: 'error',
+    description: "Components calling React hooks need the 'use client' directive in the app router",
+    suggestion: "Add 'use client'; as the first line of the file",
+    check({ source, report }) {
+      if (!containsJsx(source) || hasDirective(source, 'use client') || hasDirective(source, 'use server')) return;
+      let firstHook: ts.CallExpression | undefined;
+      forEachCall(source, (call, callee) => {
+        if (!firstHook && HOOK_NAME.test(callee) && ts.isIdentifier(call.expression)) firstHook = call;
+      });
+      if (firstHook) {
+        report(firstHook, `${firstHook.expression.getText(source)} is called in a file without 'use client'`);
+      }
+    },
+  },
+  {
+    id: 'runtime/storage-during-ssr',
+    severity: 'error',
+    description: 'localStorage/sessionStorage read while rendering on the server, where they do not exist',
+    suggestion: "Move the access into useEffect or an event handler, or guard it with typeof window !== 'undefined'",
+    check({ source, report }) {
+      const visit = (node: ts.Node) => {
+        const storage = storageAccess(node);
+        if (storage && runsDuringRender(node) && !isGuarded(node, condition => /typeof\s+(window|localStorage|sessionStorage)\b/.test(condition))) {
+          report(node, `${storage} is accessed during render, which fails during server-side rendering`);
+          return;
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(source);
+    },
+  },
+];
+
+/**
+ * Collect the cross-file facts rules need, e.g. placeholder contract addresses
+ */
+export function collectProjectFacts(files: ProjectFile[]): ProjectFacts {
+  const zeroAddressNames = new Set<string>();
+  for (const file of files.filter(f => CHECKED_FILE.test(f.filename))) {
+    const source = ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true);
+    for (const statement of source.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        const value = declaration.initializer && unwrap(declaration.initializer);
+        if (ts.isIdentifier(declaration.name) && value && ts.isStringLiteralLike(value) && ZERO_ADDRESS.test(value.text)) {
+          zeroAddressNames.add(declaration.name.text);
+        }
+      }
+    }
+  }
+  return { zeroAddressNames };
+}
+
+/**
+ * Run the rules over every TypeScript/JavaScript project file
+ */
+export function runRuntimeRules(files: ProjectFile[], rules: RuntimeRule[] = RUNTIME_RULES): CompilationError[] {
+  const project = collectProjectFacts(files);
+  const findings: CompilationError[] = [];
+
+  for (const file of files) {
+    if (!CHECKED_FILE.test(file.filename) || file.filename.includes('node_modules/')) continue;
+    const source = ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true, scriptKind(file.filename));
+
+    for (const rule of rules) {
+      rule.check({
+        filename: file.filename,
+        source,
+        project,
+        report(node, message, suggestion) {
+          const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+          findings.push({
+            file: file.filename,
+            line: line + 1,
+            column: character + 1,
+            message,
+            severity: rule.severity,
+            category: 'runtime',
+            code: rule.id,
+            suggestion: suggestion ?? rule.suggestion,
+          });
+        },
+      });
+    }
+  }
+
+  return findings;
+}
+
+function scriptKind(filename: string): ts.ScriptKind {
+  if (filename.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filename.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  return filename.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+}
+
+// Calls under node, with the called name (identifier or last property, e.g. window.setTimeout)
+function forEachCall(node: ts.Node, callback: (call: ts.CallExpression, callee: string) => void) {
+  const visit = (child: ts.Node) => {
+    if (ts.isCallExpression(child)) {
+      const callee = ts.isIdentifier(child.expression)
+        ? child.expression.text
+        : ts.isPropertyAccessExpression(child.expression) ? child.expression.name.text : undefined;
+      if (callee) callback(child, callee);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+}
+
+function calls(node: ts.Node | undefined, name: string): boolean {
+  let found = false;
+  if (node) forEachCall(node, (_call, callee) => { found ||= callee === name; });
+  return found;
+}
+
+// Function returned by an effect callback, or its body when the cleanup is a named function
+function effectCleanup(effect: ts.ArrowFunction | ts.FunctionExpression): ts.Node | undefined {
+  if (!ts.isBlock(effect.body)) return undefined;
+  let cleanup: ts.Node | undefined;
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) return;
+    if (ts.isReturnStatement(node) && node.expression) cleanup = node.expression;
+    ts.forEachChild(node, visit);
+  };
+  effect.body.statements.forEach(visit);
+  // `return cleanup;` with a function declared in the effect
+  if (cleanup && ts.isIdentifier(cleanup)) return effect.body;
+  return cleanup;
+}
+
+function contractCallOptions(call: ts.CallExpression, callee: string): ts.ObjectLiteralExpression | undefined {
+  if (!CHAIN_SCOPED_CALLS.has(callee) || call.arguments.length === 0) return undefined;
+  const options = unwrap(call.arguments[call.arguments.length === 1 ? 0 : 1]);
+  // Options spread from elsewhere may carry the property: do not guess
+  if (!ts.isObjectLiteralExpression(options) || options.properties.some(ts.isSpreadAssignment)) return undefined;
+  return hasProperty(options, 'functionName') ? options : undefined;
+}
+
+function hasProperty(options: ts.ObjectLiteralExpression, name: string): boolean {
+  return options.properties.some(property => property.name && ts.isIdentifier(property.name) && property.name.text === name);
+}
+
+function propertyValue(options: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  const property = options.properties.find(p => p.name && ts.isIdentifier(p.name) && p.name.text === name);
+  if (!property) return undefined;
+  if (ts.isShorthandPropertyAssignment(property)) return property.name;
+  return ts.isPropertyAssignment(property) ? unwrap(property.initializer) : undefined;
+}
+
+function hasEnabledQuery(options: ts.ObjectLiteralExpression): boolean {
+  const query = propertyValue(options, 'query');
+  return !!query && (!ts.isObjectLiteralExpression(query) || hasProperty(query, 'enabled'));
+}
+
+// Inside an if/ternary/&& whose condition matches, or after an early return/throw that does
+function isGuarded(node: ts.Node, matches: (condition: string) => boolean): boolean {
+  for (let child = node, parent = node.parent; parent; child = parent, parent = parent.parent) {
+    if (ts.isIfStatement(parent) && parent.expression !== child && matches(parent.expression.getText())) return true;
+    if (ts.isConditionalExpression(parent) && parent.condition !== child && matches(parent.condition.getText())) return true;
+    if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken
+      && parent.right === child && matches(parent.left.getText())) return true;
+    if (ts.isBlock(parent)) {
+      const before = parent.statements.slice(0, parent.statements.indexOf(child as ts.Statement));
+      if (before.some(statement => ts.isIfStatement(statement) && exits(statement.thenStatement) && matches(statement.expression.getText()))) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function exits(statement: ts.Statement): boolean {
+  if (ts.isReturnStatement(statement) || ts.isThrowStatement(statement)) return true;
+  return ts.isBlock(statement) && statement.statements.some(s => ts.isReturnStatement(s) || ts.isThrowStatement(s));
+}
+
+// `localStorage`/`window.localStorage` and the sessionStorage equivalents
+function storageAccess(node: ts.Node): string | undefined {
+  if (ts.isPropertyAccessExpression(node) && STORAGE.has(node.name.text)
+    && ts.isIdentifier(node.expression) && (node.expression.text === 'window' || node.expression.text === 'globalThis')) {
+    return node.getText();
+  }
+  if (ts.isIdentifier(node) && STORAGE.has(node.text)
+    && !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)
+    && !ts.isTypeOfExpression(node.parent)) {
+    return node.text;
+  }
+  return undefined;
+}
+
+// Module scope, component or hook bodies, and render-time hook callbacks run during SSR
+function runsDuringRender(node: ts.Node): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (!ts.isFunctionLike(parent)) continue;
+    const name = functionName(parent);
+    if (name && (COMPONENT_NAME.test(name) || HOOK_NAME.test(name))) return true;
+    const call = parent.parent;
+    if (ts.isCallExpression(call) && ts.isIdentifier(call.expression) && RENDER_CALLBACK_HOOKS.has(call.expression.text)) return true;
+    // Default-exported anonymous function: the page component
+    if (ts.isExportAssignment(parent.parent) || (ts.isFunctionDeclaration(parent) && !parent.name)) return true;
+    return false;
+  }
+  return true;
+}
+
+function functionName(fn: ts.SignatureDeclaration): string | undefined {
+  if ((ts.isFunctionDeclaration(fn) || ts.isFunctionExpression(fn)) && fn.name) return fn.name.text;
+  const parent = fn.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+  // const Page = memo(() => ...), forwardRef(...)
+  if (ts.isCallExpression(parent) && ts.isVariableDeclaration(parent.parent) && ts.isIdentifier(parent.parent.name)) {
+    return parent.parent.name.text;
+  }
+  return undefined;
+}
+
+function containsJsx(source: ts.SourceFile): boolean {
+  let found = false;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return found;
+}
+
+function hasDirective(source: ts.SourceFile, directive: string): boolean {
+  for (const statement of source.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) return false;
+    if (statement.expression.text === directive) return true;
+  }
+  return false;
+}
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node) || ts.isTypeAssertionExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
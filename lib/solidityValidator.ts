@@ -0,0 +1,149 @@
+/**
+ * In-process Solidity validation
+ * Compiles the project's contracts with the solc-js compiler bundled in node_modules
+ * instead of running `npx hardhat compile` in a temp project. Package imports such as
+ * `@openzeppelin/contracts/...` are read from the app's own node_modules, so the
+ * generated project does not need its contract dependencies installed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CompilationError } from './compilationValidator';
+
+export interface SolidityValidatorOptions {
+  // Directory whose node_modules provides imported packages (default: process.cwd())
+  packagesRoot?: string;
+}
+
+export interface CompiledContract {
+  file: string;
+  name: string;
+  abi: AbiItem[];
+}
+
+export interface AbiItem {
+  type: string;
+  name?: string;
+  inputs?: { name: string; type: string; [key: string]: unknown }[];
+  outputs?: { name: string; type: string; [key: string]: unknown }[];
+  stateMutability?: string;
+  [key: string]: unknown;
+}
+
+export interface SolidityCompilation {
+  compilerVersion: string;
+  diagnostics: CompilationError[];
+  contracts: CompiledContract[];
+}
+
+// Subset of the solc standard JSON output this module reads
+interface SolcError {
+  severity: 'error' | 'warning' | 'info';
+  type: string;
+  errorCode?: string;
+  message: string;
+  sourceLocation?: { file: string; start: number; end: number };
+}
+
+interface SolcOutput {
+  errors?: SolcError[];
+  contracts?: Record<string, Record<string, { abi: AbiItem[] }>>;
+}
+
+interface Solc {
+  version(): string;
+  compile(input: string, callbacks: { import: (importPath: string) => { contents: string } | { error: string } }): string;
+}
+
+const SUGGESTIONS: Record<string, string> = {
+  DeclarationError: 'Check variable declarations and ensure they are properly defined',
+  TypeError: 'Verify type compatibility and casting operations',
+  ParserError: 'Check syntax and ensure all brackets and semicolons are correct',
+  SyntaxError: 'Check syntax and ensure all brackets and semicolons are correct',
+};
+
+let solcInstance: Promise<Solc> | undefined;
+
+// soljson is a large emscripten module: load it on first use only
+function loadSolc(): Promise<Solc> {
+  solcInstance ??= import('solc').then(loaded => ((loaded as { default?: Solc }).default ?? loaded) as Solc);
+  return solcInstance;
+}
+
+/**
+ * Project Solidity sources: every .sol file outside node_modules
+ */
+export function solidityFiles(files: { filename: string; content: string }[]): { filename: string; content: string }[] {
+  return files.filter(file => file.filename.endsWith('.sol') && !file.filename.includes('node_modules/'));
+}
+
+/**
+ * Create a validator that compiles project contracts and resolves package imports
+ * from packagesRoot/node_modules
+ */
+export function createSolidityValidator(options: SolidityValidatorOptions = {}) {
+  const nodeModules = path.join(options.packagesRoot ?? process.cwd(), 'node_modules');
+
+  const readPackageFile = (importPath: string): { contents: string } | { error: string } => {
+    const resolved = path.resolve(nodeModules, importPath);
+    if (!resolved.startsWith(nodeModules + path.sep) || !fs.existsSync(resolved)) {
+      return { error: `File not found: ${importPath}` };
+    }
+    return { contents: fs.readFileSync(resolved, 'utf8') };
+  };
+
+  return {
+    async compile(files: { filename: string; content: string }[]): Promise<SolidityCompilation> {
+      const sources = solidityFiles(files);
+      const solc = await loadSolc();
+      if (sources.length === 0) {
+        return { compilerVersion: solc.version(), diagnostics: [], contracts: [] };
+      }
+
+      const input = {
+        language: 'Solidity',
+        sources: Object.fromEntries(sources.map(file => [file.filename, { content: file.content }])),
+        // ABI only: skips code generation, which is most of the compile time
+        settings: { outputSelection: { '*': { '*': ['abi'] } } },
+      };
+      const output: SolcOutput = JSON.parse(solc.compile(JSON.stringify(input), { import: readPackageFile }));
+
+      const contents = new Map(sources.map(file => [file.filename, file.content]));
+      const diagnostics = (output.errors ?? [])
+        // Warnings inside imported packages are not actionable
+        .filter(error => error.severity === 'error' || !error.sourceLocation || contents.has(error.sourceLocation.file))
+        .map(error => toCompilationError(error, contents));
+
+      const contracts = Object.entries(output.contracts ?? {})
+        .filter(([file]) => contents.has(file))
+        .flatMap(([file, compiled]) => Object.entries(compiled).map(([name, contract]) => ({ file, name, abi: contract.abi })));
+
+      return { compilerVersion: solc.version(), diagnostics, contracts };
+    },
+  };
+}
+
+function toCompilationError(error: SolcError, contents: Map<string, string>): CompilationError {
+  const location = error.sourceLocation;
+  const source = location ? contents.get(location.file) : undefined;
+  const position = source !== undefined && location!.start >= 0 ? lineAndColumn(source, location!.start) : undefined;
+
+  return {
+    file: location?.file || 'contracts',
+    line: position?.line,
+    column: position?.column,
+    message: `${error.type}: ${error.message}`,
+    severity: error.severity,
+    category: 'solidity',
+    code: error.errorCode ? `SOL${error.errorCode}` : error.type,
+    suggestion: SUGGESTIONS[error.type] || 'Review the Solidity error and fix the compilation issue',
+    // Errors reported inside an imported package (e.g. a version mismatch with OpenZeppelin)
+    ...(location && source === undefined ? { context: `In imported file ${location.file}` } : {}),
+  };
+}
+
+// solc locations are UTF-8 byte offsets
+function lineAndColumn(source: string, offset: number): { line: number; column: number } {
+  const before = Buffer.from(source, 'utf8').subarray(0, offset).toString('utf8').split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
@@ -0,0 +1,386 @@
+/**
+ * Incremental, tolerant JSON parser for LLM responses
+ * Text is pushed in chunks as it arrives. Elements of the top-level array (or of an
+ * array property of a top-level object, such as "patches") are reported as soon as
+ * they close. When the response stops early, everything that closed is kept and the
+ * exact position of the cut is reported.
+ *
+ * Tolerated: prose and __START_JSON__ / __END_JSON__ markers around the JSON, raw
+ * control characters and unescaped quotes inside strings, unknown escapes, single
+ * quoted strings, trailing commas, and a missing closing bracket before __END_JSON__.
+ */
+
+export interface JsonTruncation {
+  // 'truncated' when the input ran out, 'syntax' when it could not be parsed further
+  reason: 'truncated' | 'syntax';
+  // Where parsing stopped: character offset, and 1-based line and column
+  offset: number;
+  line: number;
+  column: number;
+  // Innermost value left open, e.g. "[3].content" or "patches[1].changes"
+  path: string;
+  // Elements that closed before the cut, and the offset just past the last one
+  completeElements: number;
+  lastElementEnd: number;
+  // The element being parsed when the input stopped, with the properties that closed
+  openElement?: unknown;
+  message?: string;
+}
+
+export interface StreamingJsonResult {
+  // Undefined when the text contained no JSON value
+  value: unknown;
+  complete: boolean;
+  truncation?: JsonTruncation;
+}
+
+export interface StreamingJsonOptions {
+  // Called with each closed element of the top-level collection; `key` names the
+  // property holding the collection when the top-level value is an object
+  onElement?: (element: unknown, index: number, key?: string) => void;
+}
+
+export interface StreamingJsonParser {
+  push(chunk: string): void;
+  end(): StreamingJsonResult;
+}
+
+const START_MARKER = '__START_JSON__';
+const END_MARKER = '__END_JSON__';
+
+type Frame =
+  | { kind: 'array'; value: unknown[]; expect: 'value' | 'comma' }
+  | { kind: 'object'; value: Record<string, unknown>; expect: 'key' | 'colon' | 'value' | 'comma'; key: string };
+
+type Mode = 'preamble' | 'value' | 'string' | 'stringEnd' | 'literal' | 'done';
+
+const LITERAL_CHAR = /[A-Za-z0-9_.+-]/;
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+export function createStreamingJsonParser(options: StreamingJsonOptions = {}): StreamingJsonParser {
+  let text = '';
+  let pos = 0;
+  let mode: Mode = 'preamble';
+  let stack: Frame[] = [];
+  let rootStart = -1;
+  let markerSeen = false;
+  let result: StreamingJsonResult | null = null;
+
+  // Token state
+  let buffer = '';
+  let quote = '"';
+  let isKey = false;
+  let escaping = false;
+  let unicodeDigits: string | null = null;
+  let pendingWhitespace = '';
+
+  // Collection state
+  let emitted = 0;
+  let lastElementEnd = 0;
+
+  const top = () => stack[stack.length - 1];
+
+  const collectionDepth = (): number => {
+    if (stack[0]?.kind === 'array') return 0;
+    if (stack[0]?.kind === 'object' && stack[1]?.kind === 'array') return 1;
+    return -1;
+  };
+
+  const expectsValue = (frame: Frame) => frame.expect === 'value';
+
+  const addValue = (value: unknown, end: number) => {
+    const frame = top();
+    if (!frame) {
+      finish({ value, complete: true });
+      return;
+    }
+
+    if (frame.kind === 'array') {
+      frame.value.push(value);
+      frame.expect = 'comma';
+      if (stack.length - 1 === collectionDepth()) {
+        const parent = stack[stack.length - 2];
+        emitted++;
+        lastElementEnd = end;
+        options.onElement?.(value, frame.value.length - 1, parent?.kind === 'object' ? parent.key : undefined);
+      }
+    } else {
+      frame.value[frame.key] = value;
+      frame.expect = 'comma';
+    }
+  };
+
+  const openContainer = (ch: string, i: number): void => {
+    const frame = top();
+    if (frame && !expectsValue(frame)) return fail(i, `Unexpected '${ch}'`);
+    stack.push(ch === '[' ? { kind: 'array', value: [], expect: 'value' } : { kind: 'object', value: {}, expect: 'key', key: '' });
+  };
+
+  const closeContainer = (ch: string, i: number): void => {
+    const frame = top();
+    // An empty container or a trailing comma leaves the frame expecting a value or key
+    const matches = ch === ']'
+      ? frame.kind === 'array'
+      : frame.kind === 'object' && (frame.expect === 'key' || frame.expect === 'comma');
+    if (!matches) return fail(i, `Unexpected '${ch}'`);
+    stack.pop();
+    addValue(frame.value, i + 1);
+  };
+
+  const commitString = (end: number) => {
+    const frame = top();
+    if (isKey && frame.kind === 'object') {
+      frame.key = buffer;
+      frame.expect = 'colon';
+    } else {
+      addValue(buffer, end);
+    }
+  };
+
+  const commitLiteral = (i: number): void => {
+    const literal = buffer;
+    if (literal === 'true') return addValue(true, i);
+    if (literal === 'false') return addValue(false, i);
+    if (literal === 'null') return addValue(null, i);
+    if (NUMBER.test(literal)) return addValue(Number(literal), i);
+    fail(i - literal.length, `Unexpected '${literal}'`);
+  };
+
+  // The end marker closes the JSON; a top-level value missing only its own closing
+  // bracket is still complete
+  const endMarker = (i: number) => {
+    if (stack.length === 1) {
+      finish({ value: stack[0].value, complete: true });
+    } else {
+      finish(partialResult('truncated', i, 'Reached __END_JSON__ before the JSON closed'));
+    }
+  };
+
+  // Wait for more input when `marker` may start at i but has not fully arrived
+  const matchMarker = (marker: string, i: number): 'yes' | 'no' | 'wait' => {
+    const available = text.slice(i, i + marker.length);
+    if (available === marker) return 'yes';
+    return available.length < marker.length && marker.startsWith(available) ? 'wait' : 'no';
+  };
+
+  const fail = (i: number, message: string) => {
+    // Brackets in prose before the JSON: look for the next candidate instead
+    if (emitted === 0 && !markerSeen) {
+      stack = [];
+      mode = 'preamble';
+      pos = rootStart + 1;
+      return;
+    }
+    finish(partialResult('syntax', i, message));
+  };
+
+  const finish = (value: StreamingJsonResult) => {
+    result = value;
+    mode = 'done';
+  };
+
+  const partialResult = (reason: JsonTruncation['reason'], offset: number, message?: string): StreamingJsonResult => {
+    const depth = collectionDepth();
+    const openElement = depth >= 0 && stack.length > depth + 1 ? stack[depth + 1].value : undefined;
+
+    // Keep the collection attached to its parent; drop the element that did not close
+    if (depth === 1 && stack[0].kind === 'object') {
+      stack[0].value[stack[0].key] = stack[1].value;
+    }
+
+    const before = text.slice(0, offset).split('\n');
+    return {
+      value: stack[0]?.value,
+      complete: false,
+      truncation: {
+        reason,
+        offset,
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+        path: pathOf(stack),
+        completeElements: emitted,
+        lastElementEnd,
+        openElement,
+        message,
+      },
+    };
+  };
+
+  const handle = (ch: string, i: number): boolean => {
+    switch (mode) {
+      case 'preamble': {
+        if (ch === '_' && !markerSeen) {
+          const match = matchMarker(START_MARKER, i);
+          if (match === 'wait') return false;
+          if (match === 'yes') {
+            markerSeen = true;
+            pos = i + START_MARKER.length;
+          }
+        } else if (ch === '[' || ch === '{') {
+          rootStart = i;
+          mode = 'value';
+          openContainer(ch, i);
+        }
+        return true;
+      }
+
+      case 'string': {
+        if (unicodeDigits !== null) {
+          unicodeDigits += ch;
+          if (unicodeDigits.length === 4) {
+            buffer += /^[0-9a-fA-F]{4}$/.test(unicodeDigits) ? String.fromCharCode(parseInt(unicodeDigits, 16)) : `u${unicodeDigits}`;
+            unicodeDigits = null;
+          }
+        } else if (escaping) {
+          escaping = false;
+          if (ch === 'u') unicodeDigits = '';
+          else buffer += ESCAPES[ch] ?? ch;
+        } else if (ch === '\\') {
+          escaping = true;
+        } else if (ch === quote) {
+          mode = 'stringEnd';
+          pendingWhitespace = '';
+        } else {
+          buffer += ch;
+        }
+        return true;
+      }
+
+      case 'stringEnd': {
+        if (/\s/.test(ch)) {
+          pendingWhitespace += ch;
+          return true;
+        }
+        const frame = top();
+        const closer = frame.kind === 'array' ? ']' : '}';
+        const follows = isKey ? ch === ':' : ch === ',' || ch === closer || (ch === '_' && matchMarker(END_MARKER, i) !== 'no');
+        if (follows) {
+          mode = 'value';
+          commitString(i - pendingWhitespace.length);
+        } else {
+          // A quote the model forgot to escape: it belongs to the string
+          buffer += quote + pendingWhitespace;
+          mode = 'string';
+        }
+        pos = i;
+        return true;
+      }
+
+      case 'literal': {
+        if (LITERAL_CHAR.test(ch)) {
+          buffer += ch;
+          return true;
+        }
+        mode = 'value';
+        commitLiteral(i);
+        if (mode === 'value') pos = i;
+        return true;
+      }
+
+      case 'value': {
+        if (/\s/.test(ch)) return true;
+        const frame = top();
+
+        if (ch === '_') {
+          const match = matchMarker(END_MARKER, i);
+          if (match === 'wait') return false;
+          if (match === 'yes') {
+            endMarker(i);
+            return true;
+          }
+        }
+
+        if (ch === '[' || ch === '{') {
+          openContainer(ch, i);
+        } else if (ch === ']' || ch === '}') {
+          closeContainer(ch, i);
+        } else if (ch === ',' && frame.expect === 'comma') {
+          frame.expect = frame.kind === 'array' ? 'value' : 'key';
+        } else if (ch === ':' && frame.kind === 'object' && frame.expect === 'colon') {
+          frame.expect = 'value';
+        } else if ((ch === '"' || ch === "'") && (frame.expect === 'key' || frame.expect === 'value')) {
+          isKey = frame.expect === 'key';
+          quote = ch;
+          buffer = '';
+          escaping = false;
+          unicodeDigits = null;
+          mode = 'string';
+        } else if (LITERAL_CHAR.test(ch) && expectsValue(frame)) {
+          buffer = ch;
+          mode = 'literal';
+        } else {
+          fail(i, `Unexpected '${ch}'`);
+        }
+        return true;
+      }
+
+      default:
+        return true;
+    }
+  };
+
+  const run = () => {
+    while (pos < text.length && mode !== 'done') {
+      const i = pos;
+      pos++;
+      if (!handle(text[i], i)) {
+        pos = i;
+        return;
+      }
+    }
+  };
+
+  return {
+    push(chunk) {
+      text += chunk;
+      run();
+    },
+
+    end() {
+      if (result) return result;
+      // A string or literal still being read counts as cut off, even if it looks finished
+      if (stack.length === 0) {
+        return { value: undefined, complete: false };
+      }
+      return partialResult('truncated', text.length, 'Input ended before the JSON closed');
+    },
+  };
+}
+
+/**
+ * Parse a complete response in one go
+ */
+export function parseTolerantJson(text: string, options: StreamingJsonOptions = {}): StreamingJsonResult {
+  const parser = createStreamingJsonParser(options);
+  parser.push(text);
+  return parser.end();
+}
+
+/**
+ * Describe a truncation for logs and prompts, e.g. "line 40, column 12 ([3].content)"
+ */
+export function describeTruncation(truncation: JsonTruncation): string {
+  const where = `line ${truncation.line}, column ${truncation.column}`;
+  return truncation.path ? `${where} (${truncation.path})` : where;
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
+
+function pathOf(stack: Frame[]): string {
+  let path = '';
+  stack.forEach((frame, depth) => {
+    const innermost = depth === stack.length - 1;
+    if (frame.kind === 'array') {
+      path += `[${frame.value.length}]`;
+    } else if (!innermost || frame.expect === 'value') {
+      path += `.${frame.key}`;
+    }
+  });
+  return path.startsWith('.') ? path.slice(1) : path;
+}
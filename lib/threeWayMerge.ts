@@ -0,0 +1,210 @@
+/**
+ * Three-way line merge (diff3)
+ * Combines two edited versions of a file with their common ancestor. Changes to
+ * separate regions are merged; overlapping changes become conflict blocks in git's
+ * marker format. Free of server-only imports so the editor can resolve conflicts.
+ */
+
+import { diffLines } from './lineDiff';
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  // Number of conflict blocks in content
+  conflicts: number;
+}
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+const OURS_MARKER = '<<<<<<<';
+const SEPARATOR = '=======';
+const THEIRS_MARKER = '>>>>>>>';
+
+// A run of base lines [start, end) that one side replaced with `lines`
+interface Change {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Merge `ours` and `theirs`, both derived from `base`.
+ * Changes that touch or overlap the same base lines conflict unless both sides
+ * made the same change.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'ours', theirs: 'theirs' }
+): MergeResult {
+  const baseLines = splitLines(base);
+  const ourChanges = changesFrom(baseLines, splitLines(ours));
+  const theirChanges = changesFrom(baseLines, splitLines(theirs));
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourChanges.length || j < theirChanges.length) {
+    // Start a region at the earliest change, then pull in everything it touches
+    const oursFirst = j >= theirChanges.length || (i < ourChanges.length && ourChanges[i].start <= theirChanges[j].start);
+    const first = oursFirst ? ourChanges[i++] : theirChanges[j++];
+    const ourGroup: Change[] = oursFirst ? [first] : [];
+    const theirGroup: Change[] = oursFirst ? [] : [first];
+    const start = first.start;
+    let end = first.end;
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      while (i < ourChanges.length && ourChanges[i].start <= end) {
+        ourGroup.push(ourChanges[i]);
+        end = Math.max(end, ourChanges[i++].end);
+        grew = true;
+      }
+      while (j < theirChanges.length && theirChanges[j].start <= end) {
+        theirGroup.push(theirChanges[j]);
+        end = Math.max(end, theirChanges[j++].end);
+        grew = true;
+      }
+    }
+
+    merged.push(...baseLines.slice(baseIndex, start));
+    const ourLines = applyChanges(baseLines, start, end, ourGroup);
+    const theirLines = applyChanges(baseLines, start, end, theirGroup);
+
+    if (theirGroup.length === 0 || sameLines(ourLines, theirLines)) {
+      merged.push(...ourLines);
+    } else if (ourGroup.length === 0) {
+      merged.push(...theirLines);
+    } else {
+      conflicts++;
+      merged.push(
+        `${OURS_MARKER} ${labels.ours}`,
+        ...ourLines,
+        SEPARATOR,
+        ...theirLines,
+        `${THEIRS_MARKER} ${labels.theirs}`
+      );
+    }
+    baseIndex = end;
+  }
+
+  merged.push(...baseLines.slice(baseIndex));
+  return { content: merged.join('\n'), conflicts };
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return countConflicts(content) > 0;
+}
+
+export function countConflicts(content: string): number {
+  let count = 0;
+  let state: 'outside' | 'ours' | 'theirs' = 'outside';
+  for (const line of content.split('\n')) {
+    if (state === 'outside' && isMarker(line, OURS_MARKER)) state = 'ours';
+    else if (state === 'ours' && line === SEPARATOR) state = 'theirs';
+    else if (state === 'theirs' && isMarker(line, THEIRS_MARKER)) {
+      state = 'outside';
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Replace every conflict block with one side, or both sides one after the other
+ */
+export function resolveConflicts(content: string, resolution: ConflictResolution): string {
+  const result: string[] = [];
+  let ours: string[] = [];
+  let theirs: string[] = [];
+  let opening = '';
+  let state: 'outside' | 'ours' | 'theirs' = 'outside';
+
+  for (const line of content.split('\n')) {
+    if (state === 'outside') {
+      if (isMarker(line, OURS_MARKER)) {
+        state = 'ours';
+        opening = line;
+        ours = [];
+        theirs = [];
+      } else {
+        result.push(line);
+      }
+    } else if (state === 'ours') {
+      if (line === SEPARATOR) state = 'theirs';
+      else ours.push(line);
+    } else if (isMarker(line, THEIRS_MARKER)) {
+      state = 'outside';
+      if (resolution !== 'theirs') result.push(...ours);
+      if (resolution !== 'ours') result.push(...theirs);
+    } else {
+      theirs.push(line);
+    }
+  }
+
+  // An unterminated block is not a conflict; keep it as written
+  if (state === 'ours') result.push(opening, ...ours);
+  if (state === 'theirs') result.push(opening, ...ours, SEPARATOR, ...theirs);
+
+  return result.join('\n');
+}
+
+function isMarker(line: string, marker: string): boolean {
+  return line === marker || line.startsWith(`${marker} `);
+}
+
+// An empty file has no lines, rather than one empty line
+function splitLines(content: string): string[] {
+  return content === '' ? [] : content.split('\n');
+}
+
+function changesFrom(baseLines: string[], otherLines: string[]): Change[] {
+  const changes: Change[] = [];
+  let current: Change | null = null;
+  let baseIndex = 0;
+
+  for (const edit of diffLines(baseLines, otherLines)) {
+    if (edit.type === 'equal') {
+      if (current) changes.push(current);
+      current = null;
+      baseIndex++;
+      continue;
+    }
+
+    current = current ?? { start: baseIndex, end: baseIndex, lines: [] };
+    if (edit.type === 'delete') {
+      baseIndex++;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(edit.line);
+    }
+  }
+
+  if (current) changes.push(current);
+  return changes;
+}
+
+// One side's version of base lines [start, end)
+function applyChanges(baseLines: string[], start: number, end: number, changes: Change[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    lines.push(...baseLines.slice(position, change.start), ...change.lines);
+    position = change.end;
+  }
+  lines.push(...baseLines.slice(position, end));
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -0,0 +1,303 @@
+/**
+ * In-process TypeScript validation
+ * Type-checks the in-memory project files with a ts.LanguageService instead of copying
+ * them to a temp dir and running `npx tsc`. The service, the TypeScript lib files and
+ * package type declarations stay loaded between calls, so re-validating after a fix
+ * only re-checks what changed. Package declarations come from a cached install of the
+ * project's own dependencies, not from the builder app's node_modules.
+ */
+
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import type { CompilationError } from './compilationValidator';
+
+export interface TypeScriptValidatorOptions {
+  // Directory whose node_modules provides package type declarations (default: process.cwd())
+  typesRoot?: string;
+}
+
+export interface TypeScriptValidator {
+  validate(files: { filename: string; content: string }[]): CompilationError[];
+}
+
+// Mirrors the boilerplate tsconfig; the project's own tsconfig.json overrides it
+const DEFAULT_TSCONFIG = {
+  target: 'ES2017',
+  lib: ['dom', 'dom.iterable', 'esnext'],
+  allowJs: true,
+  strict: true,
+  esModuleInterop: true,
+  module: 'esnext',
+  moduleResolution: 'bundler',
+  resolveJsonModule: true,
+  isolatedModules: true,
+  jsx: 'preserve',
+  paths: { '@/*': ['./src/*'] },
+};
+
+// Dependencies without type declarations in typesRoot are typed as `any`
+const PACKAGE_SHIMS = '__package-shims__.d.ts';
+const CHECKED_FILE = /\.(ts|tsx)$/;
+// Written once a dependency install has finished
+const INSTALLED_MARKER = '.types-installed';
+const INSTALL_TIMEOUT_MS = 10 * 60 * 1000;
+
+const SUGGESTIONS: Record<number, string> = {
+  2345: 'Check if the property exists on the type or add proper type annotations',
+  2304: 'Declare the variable or import it from the correct module',
+  2339: 'Add the missing property to the interface or type definition',
+  2551: 'Import the missing property or check the import path',
+  2322: 'Ensure the value matches the expected type',
+  2344: 'Check the function signature and parameter types',
+  2307: 'Create the imported file or fix the import path',
+  2305: 'Export the name from the module or fix the import',
+};
+
+// Shared by every validator in the process: parsed lib and package declaration files
+const documentRegistry = ts.createDocumentRegistry();
+const diskSnapshots = new Map<string, ts.IScriptSnapshot | undefined>();
+
+/**
+ * Create a validator with its own language service. Declaration files read from
+ * disk are cached process-wide.
+ */
+export function createTypeScriptValidator(options: TypeScriptValidatorOptions = {}): TypeScriptValidator {
+  const typesRoot = options.typesRoot ?? process.cwd();
+  // Virtual project directory: files live in memory only, but node_modules lookups
+  // walk up into typesRoot
+  const projectRoot = path.join(typesRoot, '.ts-validation');
+  const projectFiles = new Map<string, { content: string; version: number }>();
+  const directories = new Set<string>();
+  const resolvablePackages = new Map<string, boolean>();
+  let compilerOptions = parseCompilerOptions(undefined, projectRoot, typesRoot);
+  let tsconfigContent: string | undefined;
+  let rootNames: string[] = [];
+
+  const inProject = (name: string) => name === projectRoot || name.startsWith(projectRoot + path.sep);
+  const snapshotOf = (name: string): ts.IScriptSnapshot | undefined => {
+    const file = projectFiles.get(name);
+    if (file) return ts.ScriptSnapshot.fromString(file.content);
+    if (inProject(name)) return undefined;
+    if (!diskSnapshots.has(name)) {
+      diskSnapshots.set(name, fs.existsSync(name) ? ts.ScriptSnapshot.fromString(fs.readFileSync(name, 'utf8')) : undefined);
+    }
+    return diskSnapshots.get(name);
+  };
+  const readFile = (name: string) => {
+    const snapshot = snapshotOf(name);
+    return snapshot ? snapshot.getText(0, snapshot.getLength()) : undefined;
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => rootNames,
+    getScriptVersion: (name) => String(projectFiles.get(name)?.version ?? 0),
+    getScriptSnapshot: snapshotOf,
+    getCurrentDirectory: () => projectRoot,
+    getDefaultLibFileName: (settings) => ts.getDefaultLibFilePath(settings),
+    fileExists: (name) => snapshotOf(name) !== undefined,
+    readFile,
+    directoryExists: (name) => (inProject(name) ? name === projectRoot || directories.has(name) : ts.sys.directoryExists(name)),
+    getDirectories: (name) => (inProject(name) ? [] : ts.sys.getDirectories(name)),
+  };
+  const service = ts.createLanguageService(host, documentRegistry);
+
+  const setFile = (name: string, content: string) => {
+    const existing = projectFiles.get(name);
+    if (existing?.content === content) return;
+    projectFiles.set(name, { content, version: (existing?.version ?? 0) + 1 });
+  };
+
+  // `declare module` shims for dependencies whose types are not installed in typesRoot
+  const packageShims = (packageJson: string | undefined): string => {
+    let dependencies: string[] = [];
+    try {
+      const parsed = packageJson ? JSON.parse(packageJson) : {};
+      dependencies = Object.keys({ ...parsed.dependencies, ...parsed.devDependencies });
+    } catch {
+      // Invalid package.json: nothing to shim
+    }
+    return dependencies
+      .filter(dependency => {
+        if (!resolvablePackages.has(dependency)) {
+          const { resolvedModule } = ts.resolveModuleName(dependency, path.join(projectRoot, 'index.ts'), compilerOptions, host);
+          resolvablePackages.set(dependency, resolvedModule !== undefined);
+        }
+        return !resolvablePackages.get(dependency);
+      })
+      .map(dependency => `declare module '${dependency}';\ndeclare module '${dependency}/*';`)
+      .join('\n');
+  };
+
+  return {
+    validate(files) {
+      const tsconfig = files.find(file => file.filename === 'tsconfig.json')?.content;
+      if (tsconfig !== tsconfigContent) {
+        tsconfigContent = tsconfig;
+        compilerOptions = parseCompilerOptions(tsconfig, projectRoot, typesRoot);
+        resolvablePackages.clear();
+      }
+
+      const names = new Set<string>();
+      directories.clear();
+      for (const file of files) {
+        const name = path.join(projectRoot, file.filename);
+        names.add(name);
+        setFile(name, file.content);
+        for (let dir = path.dirname(name); inProject(dir) && dir !== projectRoot; dir = path.dirname(dir)) {
+          directories.add(dir);
+        }
+      }
+      const shimsName = path.join(projectRoot, PACKAGE_SHIMS);
+      names.add(shimsName);
+      setFile(shimsName, packageShims(files.find(file => file.filename === 'package.json')?.content));
+      for (const name of Array.from(projectFiles.keys())) {
+        if (!names.has(name)) projectFiles.delete(name);
+      }
+
+      const checked = files
+        .filter(file => CHECKED_FILE.test(file.filename) && !file.filename.startsWith('contracts/') && !file.filename.includes('node_modules/'))
+        .map(file => path.join(projectRoot, file.filename));
+      rootNames = [...checked, shimsName];
+
+      return checked.flatMap(name =>
+        [...service.getSyntacticDiagnostics(name), ...service.getSemanticDiagnostics(name)]
+          .map(diagnostic => toCompilationError(diagnostic, path.relative(projectRoot, name)))
+      );
+    },
+  };
+}
+
+const typesInstalls = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Install a package.json's dependencies (without running their scripts) into a cache
+ * directory keyed by the dependency set, and return it as a typesRoot. Resolves to
+ * undefined when there is nothing to install or npm fails.
+ */
+export function installTypesRoot(packageJson: string | undefined): Promise<string | undefined> {
+  let dependencies: Record<string, string> = {};
+  let devDependencies: Record<string, string> = {};
+  try {
+    const parsed = packageJson ? JSON.parse(packageJson) : {};
+    dependencies = parsed.dependencies ?? {};
+    devDependencies = parsed.devDependencies ?? {};
+  } catch {
+    // Invalid package.json: nothing to install
+  }
+  if (Object.keys(dependencies).length + Object.keys(devDependencies).length === 0) return Promise.resolve(undefined);
+  const manifest = { name: 'typescript-validation-types', private: true, dependencies: sortKeys(dependencies), devDependencies: sortKeys(devDependencies) };
+
+  const key = crypto.createHash('sha256').update(JSON.stringify(manifest)).digest('hex').slice(0, 16);
+  let install = typesInstalls.get(key);
+  if (!install) {
+    install = installDependencies(key, manifest);
+    typesInstalls.set(key, install);
+    // Let a later call retry a failed install
+    install.then(dir => { if (!dir) typesInstalls.delete(key); });
+  }
+  return install;
+}
+
+async function installDependencies(key: string, manifest: object): Promise<string | undefined> {
+  const cacheDir = process.env.TS_TYPES_CACHE_DIR || path.join(os.tmpdir(), 'minidev-types');
+  const dir = path.join(cacheDir, key);
+  if (fs.existsSync(path.join(dir, INSTALLED_MARKER))) return dir;
+
+  // Install beside the cache entry and rename it into place, so concurrent workers never
+  // read a half-installed node_modules
+  const staging = `${dir}.${process.pid}`;
+  try {
+    console.log(`📦 Installing project dependencies for type checking (${key})...`);
+    fs.rmSync(staging, { recursive: true, force: true });
+    fs.mkdirSync(staging, { recursive: true });
+    fs.writeFileSync(path.join(staging, 'package.json'), JSON.stringify(manifest, null, 2));
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        'npm',
+        ['install', '--ignore-scripts', '--include=dev', '--legacy-peer-deps', '--no-audit', '--no-fund'],
+        { cwd: staging, timeout: INSTALL_TIMEOUT_MS },
+        error => (error ? reject(error) : resolve())
+      );
+    });
+    fs.writeFileSync(path.join(staging, INSTALLED_MARKER), new Date().toISOString());
+    try {
+      fs.renameSync(staging, dir);
+    } catch (error) {
+      // Another worker finished the same install first
+      if (!fs.existsSync(path.join(dir, INSTALLED_MARKER))) throw error;
+      fs.rmSync(staging, { recursive: true, force: true });
+    }
+    console.log(`✅ Project dependency types cached at ${dir}`);
+    return dir;
+  } catch (error) {
+    console.warn('⚠️ Could not install project dependencies for type checking:', error instanceof Error ? error.message : error);
+    fs.rmSync(staging, { recursive: true, force: true });
+    return undefined;
+  }
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// One warm validator per typesRoot
+const sharedValidators = new Map<string, TypeScriptValidator>();
+
+/**
+ * Type-check project files against their own dependencies' declarations, with a
+ * process-wide warm validator. Falls back to the app's node_modules (and shims) when
+ * the dependencies cannot be installed.
+ */
+export async function validateTypeScriptInProcess(files: { filename: string; content: string }[]): Promise<CompilationError[]> {
+  const packageJson = files.find(file => file.filename === 'package.json')?.content;
+  const typesRoot = (await installTypesRoot(packageJson)) ?? process.cwd();
+  let validator = sharedValidators.get(typesRoot);
+  if (!validator) {
+    validator = createTypeScriptValidator({ typesRoot });
+    sharedValidators.set(typesRoot, validator);
+  }
+  return validator.validate(files);
+}
+
+function parseCompilerOptions(tsconfig: string | undefined, projectRoot: string, typesRoot: string): ts.CompilerOptions {
+  let projectOptions: Record<string, unknown> = {};
+  if (tsconfig) {
+    const { config, error } = ts.parseConfigFileTextToJson('tsconfig.json', tsconfig);
+    if (!error && config?.compilerOptions) projectOptions = config.compilerOptions;
+  }
+  const { options } = ts.convertCompilerOptionsFromJson({ ...DEFAULT_TSCONFIG, ...projectOptions }, projectRoot, 'tsconfig.json');
+  return {
+    ...options,
+    baseUrl: options.baseUrl ?? projectRoot,
+    // Absolute, so automatic @types inclusion survives program rebuilds
+    typeRoots: [path.join(typesRoot, 'node_modules', '@types')],
+    noEmit: true,
+    skipLibCheck: true,
+    incremental: false,
+  };
+}
+
+function toCompilationError(diagnostic: ts.Diagnostic, filename: string): CompilationError {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : undefined;
+  const severity = diagnostic.category === ts.DiagnosticCategory.Error
+    ? 'error'
+    : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info';
+
+  return {
+    file: filename,
+    line: position ? position.line + 1 : undefined,
+    column: position ? position.character + 1 : undefined,
+    message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
+    severity,
+    category: 'typescript',
+    code: `TS${diagnostic.code}`,
+    suggestion: SUGGESTIONS[diagnostic.code] || 'Review the TypeScript error and fix the type mismatch',
+  };
+}
@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // solc-js loads a large emscripten compiler with require(); keep it out of the server bundle
+  serverExternalPackages: ['solc'],
   // Exclude generated directories from build
   webpack: (config) => {
     config.watchOptions = {
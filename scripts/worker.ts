@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv';
+
+// Load env before importing the queue: the database client reads DATABASE_URL on import
+config({ path: '.env' });
+
+async function runWorker() {
+  const { runWorkerLoop, createWorkerId } = await import('../lib/jobQueue');
+
+  const workerId = createWorkerId();
+  let stopping = false;
+
+  const stop = (signal: string) => {
+    if (stopping) {
+      console.log(`⚠️ ${signal} received again, exiting now`);
+      process.exit(1);
+    }
+    console.log(`🛑 ${signal} received, finishing the current job before exiting...`);
+    stopping = true;
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  await runWorkerLoop({
+    workerId,
+    pollIntervalMs: parseInt(process.env.WORKER_POLL_INTERVAL_MS || '5000'),
+    shouldStop: () => stopping,
+  });
+
+  process.exit(0);
+}
+
+runWorker().catch((error) => {
+  console.error('❌ Worker crashed:', error);
+  process.exit(1);
+});